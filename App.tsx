@@ -1,88 +1,249 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { analyzeLoanDocument, fetchMarketIntelligence } from './services/geminiService';
-import { AnalysisResult } from './types';
+import React, { useState, useCallback, useRef } from 'react';
+import { analyzeLoanDocument } from './services/geminiService';
+import { AnalysisResult, AuditWorkspace, DraftComparison, ParsedDocument, Playbook, Redaction, SavedAudit, SourcePage } from './types';
 import AnalysisReport from './components/AnalysisReport';
+import AuditHistory from './components/AuditHistory';
+import PlaybookEditor from './components/PlaybookEditor';
+import ComparisonReport from './components/ComparisonReport';
+import DraftComparePanel from './components/DraftComparePanel';
+import PortfolioBatchPanel from './components/PortfolioBatchPanel';
+import RedactionPreview from './components/RedactionPreview';
+import MarketPulsePanel from './components/MarketPulsePanel';
+import { parseDocument } from './services/documentParser';
+import { compareAnalyses } from './services/draftComparison';
+import { auditIdFor, getAudit, importAudit, saveAudit, updateAudit } from './services/auditStore';
+import { parseAuditFile } from './services/auditFile';
+import { addToBatch } from './services/batchQueue';
+import { getSelectedPlaybook, listPlaybooks, selectPlaybook } from './services/playbook';
+import { readProviderConfig } from './services/modelProvider';
+import { readRecordings } from './services/replayProvider';
+import { downloadFile } from './services/exportUtils';
 
-declare const mammoth: any;
+// With MODEL_RECORD=true every live response is captured so it can be exported as a replay fixture.
+const IS_RECORDING = readProviderConfig().record;
 
 const App: React.FC = () => {
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [mode, setMode] = useState<'single' | 'compare' | 'portfolio'>('single');
+  const [comparison, setComparison] = useState<DraftComparison | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
-  const [marketIntel, setMarketIntel] = useState<{ summary: string; sources: any[] } | null>(null);
-  const [isIntelLoading, setIsIntelLoading] = useState(false);
-  const [intelQuery, setIntelQuery] = useState('');
-  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  const [sourcePages, setSourcePages] = useState<SourcePage[]>([]);
+  const [parseStatus, setParseStatus] = useState<string | null>(null);
+  const [analysisStatus, setAnalysisStatus] = useState<string | null>(null);
+  // Single audits pass through the outbound data preview before anything is sent to the model.
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  // Draft comparisons preview both drafts in turn; redactions holds what has been confirmed so far.
+  const [comparePreview, setComparePreview] = useState<{ previous: ParsedDocument; current: ParsedDocument; redactions: (Redaction | undefined)[] } | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [workspace, setWorkspace] = useState<AuditWorkspace>({});
+  // Async edits (a chat answer arriving) merge into the latest workspace, not the one they started from.
+  const workspaceRef = useRef<AuditWorkspace>({});
+  // Audit writes run one after another, so a workspace edit made while the audit is still being
+  // saved cannot be overwritten by it. A failure is shown on the report until the next write succeeds.
+  const pendingSaveRef = useRef<Promise<void>>(Promise.resolve());
+  // The audit on screen; a queued write only touches the workspace state if it is still open.
+  const openAuditIdRef = useRef<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [playbook, setPlaybook] = useState<Playbook>(getSelectedPlaybook);
+  const [isEditingPlaybooks, setIsEditingPlaybooks] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const auditFileRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    loadMarketPulse();
-  }, []);
+  const processFile = async (file: File) => {
+    setError(null);
+    setFileName(file.name);
 
-  const loadMarketPulse = async (query?: string) => {
-    setIsIntelLoading(true);
     try {
-      const data = await fetchMarketIntelligence(query);
-      setMarketIntel(data);
-      setLastUpdated(new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
-    } catch (err) {
-      console.error("Failed to fetch market pulse");
+      const parsed = await parseDocument(file, setParseStatus);
+      setSourcePages(parsed.pages);
+      setInputText(parsed.text);
+    } catch (err: any) {
+      setFileName(null);
+      setError(err.message || "Document processing failed. Please ensure the file is not encrypted.");
     } finally {
-      setIsIntelLoading(false);
+      setParseStatus(null);
+    }
+  };
+
+  const ocrPages = sourcePages.filter(p => p.ocrConfidence !== undefined);
+
+  // More than one file is a portfolio run: the documents go to the batch queue instead of the editor.
+  const handleFiles = (list: FileList | null) => {
+    const files = Array.from(list || []);
+    if (files.length > 1) {
+      setMode('portfolio');
+      addToBatch(files, playbook.id).catch(err => setError(err.message || "Files could not be queued."));
+    } else if (files.length === 1) {
+      processFile(files[0]);
     }
   };
 
-  const handleIntelSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    loadMarketPulse(intelQuery);
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(e.target.files);
+    e.target.value = '';
   };
 
-  const processFile = async (file: File) => {
+  const handleAnalyze = async (redaction?: Redaction) => {
+    if (!inputText.trim()) return;
+    setIsLoading(true);
     setError(null);
-    setFileName(file.name);
-    const extension = file.name.split('.').pop()?.toLowerCase();
+    try {
+      const analysis = await analyzeLoanDocument(inputText, sourcePages, { onProgress: setAnalysisStatus, playbook, redaction });
+      setIsPreviewing(false);
+      setResult(analysis);
+      replaceWorkspace({});
+      openAuditIdRef.current = auditIdFor(inputText);
+      // A storage failure (private browsing, quota) must not discard a completed analysis.
+      persist("Audit could not be saved", async () => {
+        const saved = await saveAudit({ fileName, sourceText: inputText, result: analysis });
+        // Reviews kept from an earlier audit of the same text, overlaid with edits made since.
+        if (openAuditIdRef.current === saved.id) replaceWorkspace({ ...saved.workspace, ...workspaceRef.current });
+        setHistoryVersion(v => v + 1);
+      });
+    } catch (err: any) {
+      setError(err.message || "Institutional API connection failed.");
+    } finally {
+      setIsLoading(false);
+      setAnalysisStatus(null);
+    }
+  };
+
+  const handleOpenAudit = (audit: SavedAudit) => {
+    setIsPreviewing(false);
+    setInputText(audit.sourceText);
+    setFileName(audit.fileName);
+    setSourcePages([]);
+    setResult(audit.result);
+    replaceWorkspace(audit.workspace || {});
+    openAuditIdRef.current = audit.id;
+  };
 
+  // Opens an exported audit without calling the model. The file is also saved locally so the
+  // workspace keeps persisting as the analyst works on it.
+  const handleOpenAuditFile = async (file: File) => {
+    setError(null);
+    let audit: SavedAudit;
     try {
-      if (extension === 'docx') {
-        const arrayBuffer = await file.arrayBuffer();
-        const conversionResult = await mammoth.convertToMarkdown({ arrayBuffer });
-        setInputText(conversionResult.value);
-      } else {
-        const text = await file.text();
-        setInputText(text);
-      }
-    } catch (err) {
-      setError("Document processing failed. Please ensure the file is not encrypted.");
+      audit = parseAuditFile(await file.text());
+    } catch (err: any) {
+      setError(err.message || "Audit file could not be read.");
+      return;
     }
+    const existing = await getAudit(audit.id).catch(() => undefined);
+    if (existing && !window.confirm(`${audit.id} is already saved locally. Replace it, including its reviews and notes, with the copy in ${file.name}?`)) return;
+    handleOpenAudit(audit);
+    persist("Audit could not be saved", async () => {
+      await importAudit(audit);
+      setHistoryVersion(v => v + 1);
+    });
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) processFile(file);
+  const persist = (failure: string, write: () => Promise<unknown>) => {
+    pendingSaveRef.current = pendingSaveRef.current
+      .then(write)
+      .then(() => setSaveError(null), err => {
+        console.error(failure, err);
+        setSaveError(`${failure}: ${err?.message || err}`);
+      });
   };
 
-  const handleAnalyze = async () => {
-    if (!inputText.trim()) return;
+  const replaceWorkspace = (next: AuditWorkspace) => {
+    workspaceRef.current = next;
+    setWorkspace(next);
+  };
+
+  const handleWorkspaceChange = (patch: Partial<AuditWorkspace>) => {
+    replaceWorkspace({ ...workspaceRef.current, ...patch });
+    const id = auditIdFor(inputText);
+    // Applied to the stored workspace when the write runs, so it lands on top of any save queued before it.
+    persist("Audit workspace could not be saved", async () => {
+      const stored = await getAudit(id);
+      await updateAudit(id, { workspace: { ...stored?.workspace, ...patch } });
+    });
+  };
+
+  const handleCompare = async (previous: ParsedDocument, current: ParsedDocument, redactions: (Redaction | undefined)[]) => {
     setIsLoading(true);
     setError(null);
     try {
-      const analysis = await analyzeLoanDocument(inputText);
-      setResult(analysis);
+      setAnalysisStatus(`Analysing prior draft: ${previous.fileName}`);
+      const previousAnalysis = await analyzeLoanDocument(previous.text, previous.pages, { playbook, redaction: redactions[0] });
+      setAnalysisStatus(`Analysing current draft: ${current.fileName}`);
+      const currentAnalysis = await analyzeLoanDocument(current.text, current.pages, { playbook, redaction: redactions[1] });
+      setComparison(compareAnalyses(previousAnalysis, currentAnalysis, previous.fileName, current.fileName));
     } catch (err: any) {
       setError(err.message || "Institutional API connection failed.");
     } finally {
       setIsLoading(false);
+      setAnalysisStatus(null);
+      setComparePreview(null);
+    }
+  };
+
+  // Confirms the draft on screen; once both are confirmed the comparison runs.
+  const handleCompareConfirm = (redaction: Redaction | undefined) => {
+    if (!comparePreview) return;
+    const redactions = [...comparePreview.redactions, redaction];
+    setComparePreview({ ...comparePreview, redactions });
+    if (redactions.length === 2) handleCompare(comparePreview.previous, comparePreview.current, redactions);
+  };
+
+  const handleExportRecordings = () => {
+    const fixture = readRecordings();
+    if (Object.keys(fixture.responses).length === 0) {
+      setError("No model responses have been recorded yet. Run an analysis first.");
+      return;
     }
+    downloadFile(JSON.stringify(fixture, null, 2), 'replay.json', 'application/json');
   };
 
+  const handleSelectPlaybook = (selected: Playbook) => {
+    selectPlaybook(selected.id);
+    setPlaybook(selected);
+  };
+
+  if (isEditingPlaybooks) {
+    return (
+      <div className="min-h-screen bg-[#f8fafc]">
+        <PlaybookEditor
+          selectedId={playbook.id}
+          onSelect={handleSelectPlaybook}
+          // Re-read the selection in case the playbook in use was edited or deleted.
+          onClose={() => { setPlaybook(getSelectedPlaybook()); setIsEditingPlaybooks(false); }}
+        />
+      </div>
+    );
+  }
+
+  if (comparison) {
+    return (
+      <div className="min-h-screen bg-[#fcfcfd]">
+        <ComparisonReport comparison={comparison} onReset={() => setComparison(null)} />
+      </div>
+    );
+  }
+
   if (result) {
     return (
       <div className="min-h-screen bg-[#fcfcfd]">
-        <AnalysisReport result={result} onReset={() => { setResult(null); setInputText(''); setFileName(null); }} />
+        {saveError && (
+          <div className="no-print sticky top-0 z-50 px-8 py-3 bg-rose-50 border-b border-rose-100 text-[12px] text-rose-700 font-semibold flex items-center justify-between gap-6">
+            <span>{saveError}. Your changes are kept on screen but not in this browser's storage; use Export Audit File to keep a copy.</span>
+            <button onClick={() => setSaveError(null)} className="text-[10px] font-bold uppercase tracking-widest text-rose-500 hover:text-rose-700 shrink-0">Dismiss</button>
+          </div>
+        )}
+        <AnalysisReport
+          result={result}
+          reportId={auditIdFor(inputText)}
+          workspace={workspace}
+          onWorkspaceChange={handleWorkspaceChange}
+          onReset={() => { setResult(null); replaceWorkspace({}); openAuditIdRef.current = null; setInputText(''); setFileName(null); setSourcePages([]); }}
+        />
       </div>
     );
   }
@@ -103,7 +264,15 @@ const App: React.FC = () => {
             <span className="text-[11px] font-bold text-[#334155] tracking-tight">Analysis Workspace</span>
           </div>
         </div>
-        <div className="flex items-center">
+        <div className="flex items-center gap-6">
+          {IS_RECORDING && (
+            <button
+              onClick={handleExportRecordings}
+              className="text-[10px] font-bold text-[#2563eb] hover:text-[#1d4ed8] uppercase tracking-[0.15em]"
+            >
+              Export Replay Fixture
+            </button>
+          )}
           <span className="text-[11px] font-bold text-[#94a3b8] uppercase tracking-[0.15em]">V4.2.1 Stable</span>
         </div>
       </header>
@@ -112,165 +281,184 @@ const App: React.FC = () => {
         <div className="flex flex-col lg:flex-row gap-16">
           {/* Main Audit Column */}
           <div className="flex-1">
-            <div className="mb-12">
-              <h1 className="text-[32px] font-bold text-[#0f172a] tracking-tight mb-3">Documentation Audit</h1>
-              <p className="text-[15px] text-[#64748b] font-medium leading-relaxed max-w-2xl">
-                Upload credit agreements or LMA-style facilities for automated benchmarking and risk detection.
-              </p>
+            <div className="mb-12 flex items-end justify-between gap-8">
+              <div>
+                <h1 className="text-[32px] font-bold text-[#0f172a] tracking-tight mb-3">Documentation Audit</h1>
+                <p className="text-[15px] text-[#64748b] font-medium leading-relaxed max-w-2xl">
+                  {mode === 'single'
+                    ? "Upload credit agreements or LMA-style facilities for automated benchmarking and risk detection."
+                    : mode === 'compare'
+                      ? "Load two turns of the same agreement to see clause redlines, score movement and new or dropped provisions."
+                      : "Queue a book of facilities for unattended analysis and review risk, readiness, maturities and exposure across the portfolio."}
+                </p>
+              </div>
+              <div className="flex bg-[#f1f5f9] border border-slate-200 rounded-lg p-1 shrink-0">
+                {([['single', 'Single Audit'], ['compare', 'Compare Drafts'], ['portfolio', 'Portfolio Batch']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setMode(value)}
+                    className={`px-4 py-1.5 rounded-md text-[10px] font-black uppercase tracking-[0.15em] transition-all ${mode === value ? 'bg-white text-[#0f172a] shadow-sm' : 'text-[#94a3b8] hover:text-[#475569]'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
             </div>
 
-            {/* Upload Container */}
-            <div className="bg-[#f8fafc] border border-slate-200 rounded-xl p-3 shadow-sm">
-              {!inputText ? (
-                <div 
-                  onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
-                  onDragLeave={() => setIsDragging(false)}
-                  onDrop={(e) => { e.preventDefault(); setIsDragging(false); const file = e.dataTransfer.files?.[0]; if (file) processFile(file); }}
-                  className={`bg-white border border-slate-200 rounded-lg p-32 text-center transition-all cursor-pointer ${isDragging ? 'border-blue-400 bg-blue-50/10' : 'hover:border-slate-300 shadow-sm'}`}
-                  onClick={() => fileInputRef.current?.click()}
+            <div className="mb-4 flex items-center justify-between px-1">
+              <div className="flex items-center gap-3">
+                <span className="text-[10px] font-black text-[#94a3b8] uppercase tracking-[0.2em]">Benchmark Playbook</span>
+                <select
+                  value={playbook.id}
+                  onChange={(e) => { const selected = listPlaybooks().find(p => p.id === e.target.value); if (selected) handleSelectPlaybook(selected); }}
+                  className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-[12px] font-bold text-[#0f172a] focus:outline-none focus:border-blue-400"
+                >
+                  {listPlaybooks().map(p => (
+                    <option key={p.id} value={p.id}>{p.name} v{p.version}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-6">
+                <button
+                  onClick={() => auditFileRef.current?.click()}
+                  className="text-[10px] font-bold text-[#2563eb] hover:text-[#1d4ed8] uppercase tracking-[0.15em]"
+                >
+                  Open Audit File
+                </button>
+                <input
+                  type="file"
+                  ref={auditFileRef}
+                  className="hidden"
+                  accept=".json,application/json"
+                  onChange={(e) => { const file = e.target.files?.[0]; if (file) handleOpenAuditFile(file); e.target.value = ''; }}
+                />
+                <button
+                  onClick={() => setIsEditingPlaybooks(true)}
+                  className="text-[10px] font-bold text-[#2563eb] hover:text-[#1d4ed8] uppercase tracking-[0.15em]"
                 >
-                  <div className="inline-flex items-center justify-center w-14 h-14 rounded-xl bg-[#f1f5f9] text-[#94a3b8] mb-6">
-                    <svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
-                  </div>
-                  <p className="text-[16px] font-bold text-[#0f172a] mb-1.5 tracking-tight">Upload Source Document</p>
-                  <p className="text-[13px] text-[#94a3b8] font-medium">PDF, DOCX, or Plain Text (Max 10MB)</p>
-                  <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+                  Manage Playbooks
+                </button>
+              </div>
+            </div>
+
+            {mode === 'portfolio' ? (
+              <PortfolioBatchPanel playbook={playbook} onOpen={handleOpenAudit} onCompleted={() => setHistoryVersion(v => v + 1)} />
+            ) : mode === 'compare' ? (
+              <>
+                {comparePreview && (() => {
+                  const step = Math.min(comparePreview.redactions.length, 1);
+                  const draft = step === 0 ? comparePreview.previous : comparePreview.current;
+                  return (
+                    <RedactionPreview
+                      key={step}
+                      text={draft.text}
+                      fileName={`${step === 0 ? 'Prior' : 'Current'} Draft (${step + 1} of 2) • ${draft.fileName}`}
+                      isLoading={isLoading}
+                      status={analysisStatus}
+                      onConfirm={handleCompareConfirm}
+                      onCancel={() => setComparePreview(null)}
+                      confirmLabel={step === 0 ? "Next: Current Draft" : "Send Both to Model"}
+                      cancelLabel="Back to Drafts"
+                    />
+                  );
+                })()}
+                {/* Kept mounted while previewing so the loaded drafts survive going back. */}
+                <div className={comparePreview ? 'hidden' : ''}>
+                  <DraftComparePanel
+                    isLoading={isLoading}
+                    status={analysisStatus}
+                    onCompare={(previous, current) => setComparePreview({ previous, current, redactions: [] })}
+                    onError={setError}
+                  />
                 </div>
-              ) : (
-                <div className="flex flex-col h-[650px] bg-white border border-slate-200 rounded-lg overflow-hidden">
-                  <div className="px-5 py-3 bg-[#f8fafc] border-b border-slate-200 flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="w-5 h-5 bg-white rounded border border-slate-200 flex items-center justify-center text-[#64748b]">
-                        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+              </>
+            ) : isPreviewing ? (
+              <RedactionPreview
+                text={inputText}
+                fileName={fileName || "Buffered_Content.txt"}
+                isLoading={isLoading}
+                status={analysisStatus}
+                onConfirm={handleAnalyze}
+                onCancel={() => setIsPreviewing(false)}
+              />
+            ) : (
+              <>
+                {/* Upload Container */}
+                <div className="bg-[#f8fafc] border border-slate-200 rounded-xl p-3 shadow-sm">
+                  {!inputText ? (
+                    <div 
+                      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                      onDragLeave={() => setIsDragging(false)}
+                      onDrop={(e) => { e.preventDefault(); setIsDragging(false); handleFiles(e.dataTransfer.files); }}
+                      className={`bg-white border border-slate-200 rounded-lg p-32 text-center transition-all cursor-pointer ${isDragging ? 'border-blue-400 bg-blue-50/10' : 'hover:border-slate-300 shadow-sm'}`}
+                      onClick={() => fileInputRef.current?.click()}
+                    >
+                      <div className="inline-flex items-center justify-center w-14 h-14 rounded-xl bg-[#f1f5f9] text-[#94a3b8] mb-6">
+                        <svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+                      </div>
+                      <p className="text-[16px] font-bold text-[#0f172a] mb-1.5 tracking-tight">{parseStatus || "Upload Source Document"}</p>
+                      <p className="text-[13px] text-[#94a3b8] font-medium">PDF, DOCX, Scanned TIFF/Image, or Plain Text (Max 10MB) • Several files start a portfolio batch</p>
+                      <input type="file" multiple ref={fileInputRef} className="hidden" accept=".pdf,.docx,.txt,.md,.tif,.tiff,.png,.jpg,.jpeg,application/pdf,text/plain,image/*" onChange={handleFileUpload} />
+                    </div>
+                  ) : (
+                    <div className="flex flex-col h-[650px] bg-white border border-slate-200 rounded-lg overflow-hidden">
+                      <div className="px-5 py-3 bg-[#f8fafc] border-b border-slate-200 flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <div className="w-5 h-5 bg-white rounded border border-slate-200 flex items-center justify-center text-[#64748b]">
+                            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                          </div>
+                          <span className="text-[12px] font-bold text-[#334155] uppercase tracking-tight">
+                            {fileName || "Buffered_Content.txt"}
+                          </span>
+                          {sourcePages.length > 0 && (
+                            <span className="text-[10px] font-bold text-[#94a3b8] uppercase tracking-widest">{sourcePages.length} Pages</span>
+                          )}
+                          {ocrPages.length > 0 && (
+                            <span className="text-[10px] font-bold text-amber-700 bg-amber-50 border border-amber-200 px-2 py-0.5 rounded uppercase tracking-widest">
+                              OCR {ocrPages.length} pg • Avg {Math.round(ocrPages.reduce((sum, p) => sum + (p.ocrConfidence || 0), 0) / ocrPages.length)}%
+                            </span>
+                          )}
+                        </div>
+                        <button 
+                          onClick={() => { setInputText(''); setFileName(null); setSourcePages([]); }} 
+                          className="text-[10px] font-bold text-rose-600 hover:text-rose-700 uppercase tracking-[0.15em] px-3 py-1 bg-white border border-slate-200 rounded shadow-sm transition-all"
+                        >
+                          Discard
+                        </button>
                       </div>
-                      <span className="text-[12px] font-bold text-[#334155] uppercase tracking-tight">
-                        {fileName || "Buffered_Content.txt"}
-                      </span>
+                      <textarea 
+                        className="flex-1 p-10 font-mono text-[13px] text-[#475569] leading-[1.8] focus:outline-none resize-none custom-scrollbar bg-slate-50/10"
+                        value={inputText}
+                        onChange={(e) => setInputText(e.target.value)}
+                      />
                     </div>
+                  )}
+                </div>
+
+                {/* Action Controls */}
+                <div className="mt-8 flex justify-end">
+                  {inputText && (
                     <button 
-                      onClick={() => { setInputText(''); setFileName(null); }} 
-                      className="text-[10px] font-bold text-rose-600 hover:text-rose-700 uppercase tracking-[0.15em] px-3 py-1 bg-white border border-slate-200 rounded shadow-sm transition-all"
+                      onClick={() => setIsPreviewing(true)}
+                      disabled={isLoading}
+                      className={`px-10 py-4 rounded-lg font-black text-[11px] uppercase tracking-[0.2em] transition-all shadow-lg ${isLoading ? 'bg-[#f1f5f9] text-[#94a3b8]' : 'bg-[#2563eb] text-white hover:bg-[#1d4ed8] shadow-blue-200'}`}
                     >
-                      Discard
+                      {isLoading ? (
+                        <span className="flex items-center gap-3">
+                          <svg className="animate-spin h-3.5 w-3.5 text-[#94a3b8]" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                          {analysisStatus || "Processing Engine..."}
+                        </span>
+                      ) : "Analyze Documentation"}
                     </button>
-                  </div>
-                  <textarea 
-                    className="flex-1 p-10 font-mono text-[13px] text-[#475569] leading-[1.8] focus:outline-none resize-none custom-scrollbar bg-slate-50/10"
-                    value={inputText}
-                    onChange={(e) => setInputText(e.target.value)}
-                  />
+                  )}
                 </div>
-              )}
-            </div>
+              </>
+            )}
 
-            {/* Action Controls */}
-            <div className="mt-8 flex justify-end">
-              {inputText && (
-                <button 
-                  onClick={handleAnalyze}
-                  disabled={isLoading}
-                  className={`px-10 py-4 rounded-lg font-black text-[11px] uppercase tracking-[0.2em] transition-all shadow-lg ${isLoading ? 'bg-[#f1f5f9] text-[#94a3b8]' : 'bg-[#2563eb] text-white hover:bg-[#1d4ed8] shadow-blue-200'}`}
-                >
-                  {isLoading ? (
-                    <span className="flex items-center gap-3">
-                      <svg className="animate-spin h-3.5 w-3.5 text-[#94a3b8]" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                      Processing Engine...
-                    </span>
-                  ) : "Analyze Documentation"}
-                </button>
-              )}
-            </div>
+            <AuditHistory onOpen={handleOpenAudit} refreshKey={historyVersion} />
           </div>
 
-          {/* Market Intelligence Sidebar - Updated */}
-          <aside className="w-full lg:w-96 shrink-0">
-            <div className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden sticky top-24">
-              <div className="px-5 py-4 border-b border-slate-100 bg-[#f8fafc] flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
-                  <span className="text-[10px] font-black text-[#0f172a] uppercase tracking-widest">Market Pulse</span>
-                </div>
-                {lastUpdated && !isIntelLoading && (
-                  <span className="text-[9px] font-bold text-slate-400 uppercase">Updated {lastUpdated}</span>
-                )}
-                {isIntelLoading && (
-                  <svg className="animate-spin h-3.5 w-3.5 text-blue-500" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                )}
-              </div>
-
-              {/* Intelligence Search Bar */}
-              <div className="p-4 bg-white border-b border-slate-50">
-                <form onSubmit={handleIntelSearch} className="relative group">
-                  <input 
-                    type="text"
-                    placeholder="Search specific trends (e.g. ESG, SOFR)..."
-                    className="w-full pl-9 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-[12px] font-medium text-slate-700 focus:outline-none focus:border-blue-400 focus:bg-white transition-all"
-                    value={intelQuery}
-                    onChange={(e) => setIntelQuery(e.target.value)}
-                  />
-                  <svg className="absolute left-3 top-2.5 w-4 h-4 text-slate-400 group-focus-within:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
-                </form>
-              </div>
-
-              <div className="p-5 max-h-[500px] overflow-y-auto custom-scrollbar bg-white">
-                {isIntelLoading ? (
-                  <div className="space-y-5">
-                    <div className="space-y-2">
-                      <div className="h-3 bg-slate-100 rounded animate-pulse w-3/4" />
-                      <div className="h-3 bg-slate-100 rounded animate-pulse w-full" />
-                      <div className="h-3 bg-slate-100 rounded animate-pulse w-5/6" />
-                    </div>
-                    <div className="h-20 bg-slate-50 rounded border border-slate-100 animate-pulse" />
-                  </div>
-                ) : marketIntel ? (
-                  <div className="space-y-6">
-                    <div className="prose prose-sm text-[12.5px] text-slate-600 font-medium leading-relaxed">
-                      {marketIntel.summary.split('\n').filter(p => p.trim()).slice(0, 6).map((para, i) => (
-                        <p key={i} className="mb-3 last:mb-0 border-l-2 border-slate-100 pl-4">{para}</p>
-                      ))}
-                    </div>
-                    
-                    {marketIntel.sources.length > 0 && (
-                      <div className="space-y-3 pt-4 border-t border-slate-50">
-                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-[0.15em]">Primary Intelligence Nodes</p>
-                        <div className="space-y-2">
-                          {marketIntel.sources.slice(0, 4).map((source, i) => (
-                            <a 
-                              key={i} 
-                              href={source.uri} 
-                              target="_blank" 
-                              rel="noopener noreferrer" 
-                              className="flex items-start gap-3 p-2.5 bg-slate-50/50 rounded-lg border border-transparent hover:border-blue-100 hover:bg-blue-50/30 transition-all group"
-                            >
-                              <div className="w-5 h-5 rounded bg-white border border-slate-200 flex items-center justify-center shrink-0 group-hover:border-blue-200">
-                                <svg className="w-2.5 h-2.5 text-slate-400 group-hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
-                              </div>
-                              <span className="text-[11px] font-bold text-slate-600 truncate leading-tight group-hover:text-blue-700">{source.title}</span>
-                            </a>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                ) : (
-                  <div className="text-center py-10">
-                    <p className="text-[11px] text-slate-400 font-bold uppercase tracking-widest">No Intelligence Data</p>
-                    <p className="text-[10px] text-slate-300 mt-1">Refresh to load market pulse.</p>
-                  </div>
-                )}
-              </div>
-              <div className="p-4 bg-[#f8fafc] border-t border-slate-100">
-                <div className="flex items-center gap-3">
-                  <div className="w-6 h-6 bg-blue-600 rounded flex items-center justify-center text-white shrink-0">
-                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
-                  </div>
-                  <p className="text-[10px] text-slate-500 font-bold leading-tight uppercase tracking-tight">
-                    Powered by Institutional Search Grounding v4
-                  </p>
-                </div>
-              </div>
-            </div>
-          </aside>
+          <MarketPulsePanel />
         </div>
 
         {error && (
@@ -1,35 +1,48 @@
 
-import React, { useState, useRef, useMemo } from 'react';
-import { AnalysisResult, ClauseAnalysis } from '../types';
-import { GoogleGenAI } from "@google/genai";
-
-declare const html2pdf: any;
+import React, { useState } from 'react';
+import { AnalysisResult, AuditWorkspace, ChatMessage, ClauseAnalysis, ClauseNote, ClauseReview, FinancialPeriod, ReadinessDimensionKey, SavedAudit } from '../types';
+import { clauseAuditCsv, downloadFile, exportDateStamp } from '../services/exportUtils';
+import { buildMemorandum } from '../services/memorandum';
+import { serializeAuditFile } from '../services/auditFile';
+import { getAudit } from '../services/auditStore';
+import { renderMemorandumPdf } from '../services/pdfExport';
+import { DOCX_MIME, renderMemorandumDocx } from '../services/docxExport';
+import { formatPlaybookReference } from '../services/playbook';
+import { formatChatCitation, newChatId } from '../services/documentChat';
+import { decisionLabel, getReviewerName, setReviewerName, signOffStatus, withClauseReview } from '../services/reviewWorkflow';
+import { EXECUTION_READY_SCORE, REVIEW_READY_SCORE, dimensionContribution } from '../services/readinessScoring';
+import ClauseReviewPanel from './ClauseReviewPanel';
+import CompliancePanel from './CompliancePanel';
+import CovenantCalculator from './CovenantCalculator';
+import DocumentChatPanel from './DocumentChatPanel';
+import RepaymentSchedulePanel from './RepaymentSchedulePanel';
+import ObligationsTimeline from './ObligationsTimeline';
+import MarketBriefPanel from './MarketBriefPanel';
+import SourcePane from './SourcePane';
+import StressTestPanel from './StressTestPanel';
 
 interface AnalysisReportProps {
   result: AnalysisResult;
+  reportId: string;
+  workspace: AuditWorkspace;
+  onWorkspaceChange: (patch: Partial<AuditWorkspace>) => void;
   onReset: () => void;
 }
 
-interface MarketNews {
-  summary: string;
-  sources: { title: string; uri: string }[];
-}
-
-interface SlackCalculation {
-  id: string;
-  name: string;
-  limit: number;
-  actual: number;
-  type: 'max' | 'min'; // 'max' for leverage (Debt/EBITDA), 'min' for cover (Interest Cover)
-}
+const DIMENSION_COLORS: Record<ReadinessDimensionKey, string> = {
+  completeness: 'bg-blue-500',
+  legalRisk: 'bg-indigo-500',
+  marketAlignment: 'bg-teal-500',
+  operationalComplexity: 'bg-slate-500'
+};
 
-const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
+const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, reportId, workspace, onWorkspaceChange, onReset }) => {
   const [isExporting, setIsExporting] = useState(false);
-  const [isFetchingNews, setIsFetchingNews] = useState(false);
-  const [newsData, setNewsData] = useState<MarketNews | null>(null);
-  const [isNewsCollapsed, setIsNewsCollapsed] = useState(false);
-  const [slackCalculations, setSlackCalculations] = useState<Record<string, { limit: string, actual: string }>>({});
-  const reportRef = useRef<HTMLDivElement>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [sourceClauseIdx, setSourceClauseIdx] = useState<number | null>(null);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [reviewer, setReviewer] = useState(getReviewerName);
+  const [signOffError, setSignOffError] = useState<string | null>(null);
 
   const getScoreMeta = (score: number) => {
     if (score >= 85) return { 
@@ -56,121 +69,90 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
   };
 
   const getReadinessColorPill = (score: number) => {
-    if (score >= 85) return 'text-emerald-600 bg-white border-emerald-300 shadow-sm';
-    if (score >= 70) return 'text-amber-600 bg-white border-amber-300 shadow-sm';
+    if (score >= EXECUTION_READY_SCORE) return 'text-emerald-600 bg-white border-emerald-300 shadow-sm';
+    if (score >= REVIEW_READY_SCORE) return 'text-amber-600 bg-white border-amber-300 shadow-sm';
     return 'text-rose-600 bg-white border-rose-300 shadow-sm';
   };
 
-  const financialCovenants = useMemo(() => {
-    return result.confidenceAnalysis.filter(c => 
-      c.name.toLowerCase().includes('covenant') || 
-      c.name.toLowerCase().includes('leverage') || 
-      c.name.toLowerCase().includes('ratio')
-    );
-  }, [result]);
+  const financials: FinancialPeriod[] = workspace.financials || [];
 
-  const handleFetchNews = async () => {
-    setIsFetchingNews(true);
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Provide a concise professional summary of the latest news and trends in the syndicated loan market (2024-2025), specifically focusing on ${result.overview.facilityType} facilities and LMA standards.`,
-        config: {
-          tools: [{ googleSearch: {} }],
-        },
-      });
-
-      const summary = response.text || "No intelligence found.";
-      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-      const sources = chunks
-        .filter((chunk: any) => chunk.web)
-        .map((chunk: any) => ({
-          title: chunk.web.title || "Source",
-          uri: chunk.web.uri,
-        }));
-
-      setNewsData({ summary, sources });
-      setIsNewsCollapsed(false);
-    } catch (error) {
-      console.error("Error fetching market intelligence:", error);
-    } finally {
-      setIsFetchingNews(false);
+  const dimensions = result.dealReadiness.dimensions || [];
+  const totalWeight = dimensions.reduce((sum, d) => sum + d.weight, 0) || 1;
+
+  const sourceClause = sourceClauseIdx !== null ? result.confidenceAnalysis[sourceClauseIdx] : null;
+
+  const clauseNotes: Record<string, ClauseNote[]> = workspace.clauseNotes || {};
+  const notedMessageIds = new Set(Object.values(clauseNotes).flatMap(notes => notes.map(note => note.messageId)).filter((id): id is string => !!id));
+
+  const handleAddNote = (clauseName: string, message: ChatMessage) => {
+    const note: ClauseNote = {
+      id: newChatId(),
+      text: message.text,
+      createdAt: new Date().toISOString(),
+      source: 'chat',
+      citations: message.citations,
+      messageId: message.id
+    };
+    onWorkspaceChange({ clauseNotes: { ...clauseNotes, [clauseName]: [...(clauseNotes[clauseName] || []), note] } });
+  };
+
+  const reviews: Record<string, ClauseReview> = workspace.reviews || {};
+  const reviewStatus = signOffStatus(result.confidenceAnalysis, reviews);
+  // A sign-off recorded before a re-audit added new flagged clauses no longer counts.
+  const signOff = reviewStatus.ready ? workspace.signOff : undefined;
+
+  const handleReviewerChange = (name: string) => {
+    setReviewer(name);
+    setReviewerName(name);
+  };
+
+  const handleReviewChange = (clauseName: string, review: ClauseReview) =>
+    onWorkspaceChange(withClauseReview(workspace, result.confidenceAnalysis, clauseName, review));
+
+  const handleSignOff = () => {
+    if (!reviewer.trim()) {
+      setSignOffError("Enter your name as reviewer before signing off.");
+      return;
     }
+    setSignOffError(null);
+    onWorkspaceChange({ signOff: { reviewer: reviewer.trim(), at: new Date().toISOString() } });
   };
 
-  const handleExport = async () => {
-    if (!reportRef.current) return;
+  const handleRemoveNote = (clauseName: string, noteId: string) =>
+    onWorkspaceChange({ clauseNotes: { ...clauseNotes, [clauseName]: (clauseNotes[clauseName] || []).filter(n => n.id !== noteId) } });
+
+  const handleExport = () => {
     setIsExporting(true);
-    const element = reportRef.current;
-    const opt = {
-      margin: [10, 10],
-      filename: `CREDIT_AUDIT_REPORT_${new Date().toISOString().split('T')[0]}.pdf`,
-      image: { type: 'jpeg', quality: 0.98 },
-      html2canvas: { scale: 2, useCORS: true },
-      jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
-    };
+    setExportError(null);
     try {
-      await html2pdf().set(opt).from(element).save();
-    } catch (error) {
-      window.print();
+      const memo = buildMemorandum(result, { reportId, workspace });
+      downloadFile(renderMemorandumPdf(memo), `CREDIT_AUDIT_REPORT_${exportDateStamp()}.pdf`, 'application/pdf');
+    } catch (error: any) {
+      console.error("PDF export failed", error);
+      setExportError(`PDF export failed: ${error?.message || error}. Download Word carries the same memorandum.`);
     } finally {
       setIsExporting(false);
     }
   };
 
-  const handleExportCSV = () => {
-    const headers = [
-      "Clause Name",
-      "Confidence Score (%)",
-      "Review Required",
-      "Provision Summary",
-      "Audit Logic",
-      "Market Standard Context",
-      "Deviation Analysis",
-      "Counterparty Impact"
-    ];
-
-    const rows = result.confidenceAnalysis.map(clause => [
-      `"${clause.name.replace(/"/g, '""')}"`,
-      clause.confidenceScore,
-      clause.reviewRequired ? "YES" : "NO",
-      `"${clause.summary.replace(/"/g, '""')}"`,
-      `"${clause.reason.replace(/"/g, '""')}"`,
-      `"${(clause.lmaComparison?.standardBenchmark || "").replace(/"/g, '""')}"`,
-      `"${(clause.lmaComparison?.deviations || "").replace(/"/g, '""')}"`,
-      `"${(clause.lmaComparison?.impact || "").replace(/"/g, '""')}"`
-    ]);
-
-    const csvContent = [
-      headers.join(","),
-      ...rows.map(r => r.join(","))
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", `CLAUSE_AUDIT_DATA_${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleExportWord = () => {
+    const memo = buildMemorandum(result, { reportId, workspace });
+    downloadFile(renderMemorandumDocx(memo), `CREDIT_AUDIT_MEMO_${exportDateStamp()}.docx`, DOCX_MIME);
   };
 
-  const calculateSlack = (limitStr: string, actualStr: string, name: string) => {
-    const limit = parseFloat(limitStr);
-    const actual = parseFloat(actualStr);
-    if (isNaN(limit) || isNaN(actual)) return null;
-
-    // Logic: Leverage usually "Max", Coverage usually "Min"
-    const isMax = name.toLowerCase().includes('leverage') || name.toLowerCase().includes('debt');
-    const slack = isMax ? (limit - actual) : (actual - limit);
-    const percentage = isMax ? (slack / limit) * 100 : (slack / actual) * 100;
-    
-    return { slack, percentage, isSafe: slack >= 0, isMax };
+  // The saved record supplies title and tags; without one (storage unavailable) the file is built from the result.
+  const handleExportAudit = async () => {
+    const saved = await getAudit(reportId).catch(() => undefined);
+    const now = new Date().toISOString();
+    const audit: SavedAudit = saved
+      ? { ...saved, result, workspace }
+      : { id: reportId, title: result.overview.borrowerLender, fileName: 'Buffered_Content.txt', tags: [], createdAt: now, updatedAt: now, sourceText: result.rawText || '', result, workspace };
+    downloadFile(serializeAuditFile(audit), `AUDIT_${reportId}_${exportDateStamp()}.json`, 'application/json;charset=utf-8;');
   };
 
+  const handleExportCSV = () =>
+    downloadFile(clauseAuditCsv(result, reviews), `CLAUSE_AUDIT_DATA_${exportDateStamp()}.csv`, 'text/csv;charset=utf-8;');
+
   return (
     <div className="bg-[#f8fafc] min-h-screen">
       <div className="max-w-6xl mx-auto px-6 py-8 flex items-center justify-between sticky top-0 bg-[#f8fafc]/80 backdrop-blur-md z-10 border-b border-slate-200 no-print">
@@ -180,9 +162,32 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
             New Audit
           </button>
           <div className="h-4 w-px bg-slate-300" />
-          <h2 className="text-sm font-bold text-slate-900 uppercase tracking-tight">Report #AUD-{Math.floor(Math.random() * 90000) + 10000}</h2>
+          <h2 className="text-sm font-bold text-slate-900 uppercase tracking-tight">Report #{reportId}</h2>
+          {result.redactedValues !== undefined && (
+            <span className="text-[9px] font-bold text-emerald-700 bg-emerald-50 border border-emerald-200 px-2 py-0.5 rounded uppercase tracking-widest" title="Confidential values were replaced by tokens before the model call">
+              Pseudonymised • {result.redactedValues} values withheld
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-3">
+          {exportError && <p className="text-[11px] font-semibold text-rose-600 max-w-xs">{exportError}</p>}
+          <label className="flex items-center gap-2">
+            <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Reviewer</span>
+            <input
+              className="w-36 px-2 py-1.5 bg-white border border-slate-200 rounded text-[11px] font-bold focus:outline-none focus:border-blue-500"
+              placeholder="Your name"
+              value={reviewer}
+              onChange={(e) => handleReviewerChange(e.target.value)}
+            />
+          </label>
+          {result.rawText && (
+            <button
+              onClick={() => setIsChatOpen(open => !open)}
+              className={`border text-[10px] font-bold px-5 py-2 rounded transition-all uppercase tracking-widest shadow-sm ${isChatOpen ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'}`}
+            >
+              Ask the Agreement{workspace.chat && workspace.chat.length > 0 ? ` (${workspace.chat.filter(m => m.role === 'analyst').length})` : ''}
+            </button>
+          )}
           <button 
             onClick={handleExportCSV}
             className="bg-white border border-slate-200 text-slate-700 text-[10px] font-bold px-5 py-2 rounded hover:bg-slate-50 transition-all uppercase tracking-widest shadow-sm flex items-center gap-2"
@@ -190,6 +195,20 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
             <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
             Export CSV
           </button>
+          <button
+            onClick={handleExportAudit}
+            className="bg-white border border-slate-200 text-slate-700 text-[10px] font-bold px-5 py-2 rounded hover:bg-slate-50 transition-all uppercase tracking-widest shadow-sm flex items-center gap-2"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" /></svg>
+            Export Audit File
+          </button>
+          <button
+            onClick={handleExportWord}
+            className="bg-white border border-slate-200 text-slate-700 text-[10px] font-bold px-5 py-2 rounded hover:bg-slate-50 transition-all uppercase tracking-widest shadow-sm flex items-center gap-2"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+            Download Word
+          </button>
           <button 
             onClick={handleExport}
             disabled={isExporting}
@@ -201,7 +220,7 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
         </div>
       </div>
 
-      <div ref={reportRef} className="max-w-5xl mx-auto p-12 bg-white my-8 shadow-sm border border-slate-200 print:m-0 print:border-none print:shadow-none">
+      <div className="max-w-5xl mx-auto p-12 bg-white my-8 shadow-sm border border-slate-200 print:m-0 print:border-none print:shadow-none">
         {/* MEMORANDUM HEADER */}
         <div className="border-b-4 border-slate-900 pb-8 mb-10 flex justify-between items-start">
           <div>
@@ -211,26 +230,102 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
           <div className="text-right">
             <p className="text-[10px] font-bold text-slate-400 uppercase">Analysis Date</p>
             <p className="text-sm font-bold text-slate-900 mono">{new Date().toLocaleDateString('en-GB')}</p>
+            {result.playbook && (
+              <p className="text-[10px] font-bold text-slate-400 uppercase mt-2">Playbook: {formatPlaybookReference(result.playbook)}</p>
+            )}
+            <p className={`text-[10px] font-bold uppercase mt-2 ${signOff ? 'text-emerald-600' : 'text-slate-400'}`}>
+              {signOff
+                ? `Signed off by ${signOff.reviewer} • ${new Date(signOff.at).toLocaleDateString('en-GB')}`
+                : `Review: ${reviewStatus.flagged.length - reviewStatus.outstanding.length}/${reviewStatus.flagged.length} flagged clauses resolved`}
+            </p>
+            {result.sourceChunks && result.sourceChunks.length > 1 && (
+              <p className="text-[10px] font-bold text-slate-400 uppercase mt-2">Analysed in {result.sourceChunks.length} sections</p>
+            )}
           </div>
         </div>
 
+        {result.validation?.status === 'partial' && (
+          <div className="mb-10 p-5 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-[10px] font-black text-amber-800 uppercase tracking-[0.2em] mb-2">
+              Partial Result • Model output failed validation after {result.validation.repairAttempts} repair attempt(s)
+            </p>
+            <p className="text-[12px] text-amber-800 font-medium mb-3">
+              Sections or clauses listed below could not be validated and were omitted or replaced with conservative placeholders. Do not rely on this memorandum without manual review.
+            </p>
+            <ul className="space-y-1">
+              {result.validation.issues.slice(0, 8).map((issue, i) => (
+                <li key={i} className="text-[11px] text-amber-700 mono">{issue}</li>
+              ))}
+              {result.validation.issues.length > 8 && (
+                <li className="text-[11px] text-amber-700 font-bold">+ {result.validation.issues.length - 8} further issues</li>
+              )}
+            </ul>
+          </div>
+        )}
+
         {/* SECTION 1: OVERVIEW GRID */}
         <div className="grid grid-cols-3 gap-y-6 gap-x-12 mb-12">
           {[
             { label: 'Facility Type', value: result.overview.facilityType },
             { label: 'Counterparties', value: result.overview.borrowerLender },
-            { label: 'Currency', value: result.overview.currency },
-            { label: 'Committed Amount', value: result.overview.amount },
-            { label: 'Maturity Profile', value: result.overview.maturity },
-            { label: 'Jurisdiction', value: result.overview.law },
-          ].map((item, idx) => (
-            <div key={idx} className="border-b border-slate-100 pb-2">
-              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">{item.label}</p>
-              <p className="text-sm font-bold text-slate-900 tracking-tight">{item.value}</p>
-            </div>
-          ))}
+            { label: 'Currency', value: result.overview.currency, field: 'currency' },
+            { label: 'Committed Amount', value: result.overview.amount, field: 'amount' },
+            { label: 'Maturity Profile', value: result.overview.maturity, field: 'maturity' },
+            { label: 'Jurisdiction', value: result.overview.law, field: 'law' },
+          ].map((item, idx) => {
+            const check = result.crossChecks?.find(c => c.field === item.field);
+            return (
+              <div key={idx} className="border-b border-slate-100 pb-2">
+                <div className="flex items-center gap-2 mb-1">
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{item.label}</p>
+                  {check?.status === 'discrepancy' && (
+                    <span className="text-[8px] font-black text-rose-700 bg-rose-50 border border-rose-200 px-1.5 py-0.5 rounded-sm uppercase tracking-[0.1em]">Discrepancy</span>
+                  )}
+                  {check?.status === 'match' && (
+                    <span className="text-[8px] font-black text-emerald-700 bg-emerald-50 border border-emerald-200 px-1.5 py-0.5 rounded-sm uppercase tracking-[0.1em]">Verified</span>
+                  )}
+                </div>
+                <p className="text-sm font-bold text-slate-900 tracking-tight">{item.value}</p>
+                {check?.status === 'discrepancy' && (
+                  <p className="text-[10px] font-bold text-rose-600 mt-1">Source text: {check.ruleValue}</p>
+                )}
+              </div>
+            );
+          })}
         </div>
 
+        {result.crossChecks && result.crossChecks.length > 0 && (
+          <div className="mb-12 border border-slate-200 rounded-lg overflow-hidden">
+            <div className="px-6 py-3 bg-slate-50 border-b border-slate-200">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Rule-Based Cross-Check • Independent extraction from source text</span>
+            </div>
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-slate-100">
+                  <th className="px-6 py-2 text-[9px] font-bold text-slate-400 uppercase tracking-widest">Term</th>
+                  <th className="px-6 py-2 text-[9px] font-bold text-slate-400 uppercase tracking-widest">Model</th>
+                  <th className="px-6 py-2 text-[9px] font-bold text-slate-400 uppercase tracking-widest">Rule Extractor</th>
+                  <th className="px-6 py-2 text-[9px] font-bold text-slate-400 uppercase tracking-widest">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {result.crossChecks.map((check, idx) => (
+                  <tr key={idx} title={check.evidence}>
+                    <td className="px-6 py-3 text-[11px] font-bold text-slate-900 uppercase tracking-wider">{check.field}</td>
+                    <td className="px-6 py-3 text-[11px] font-medium text-slate-600">{check.modelValue}</td>
+                    <td className="px-6 py-3 text-[11px] font-medium text-slate-600 mono">{check.ruleValue || '—'}</td>
+                    <td className="px-6 py-3">
+                      <span className={`text-[9px] font-black uppercase tracking-widest ${check.status === 'match' ? 'text-emerald-600' : check.status === 'discrepancy' ? 'text-rose-600' : 'text-slate-400'}`}>
+                        {check.status === 'unverifiable' ? 'Not Verifiable' : check.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* SECTION 2: DEAL READINESS SCORE */}
         <div className="mb-16">
           <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em] border-b border-slate-200 pb-2 mb-8">01. Lifecycle Intelligence & Deal Readiness</h3>
@@ -246,7 +341,7 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
                       cx="80" cy="80" r="70" stroke="currentColor" strokeWidth="18" fill="transparent" 
                       strokeDasharray={440} strokeDashoffset={440 - (440 * result.dealReadiness.score) / 100}
                       strokeLinecap="round"
-                      className={`${result.dealReadiness.score >= 85 ? 'text-emerald-500' : result.dealReadiness.score >= 70 ? 'text-amber-500' : 'text-rose-500'} transition-all duration-1000 ease-out`}
+                      className={`${result.dealReadiness.score >= EXECUTION_READY_SCORE ? 'text-emerald-500' : result.dealReadiness.score >= REVIEW_READY_SCORE ? 'text-amber-500' : 'text-rose-500'} transition-all duration-1000 ease-out`}
                     />
                   </svg>
                   <div className="absolute inset-0 flex items-center justify-center flex-col">
@@ -257,11 +352,65 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
                 <h4 className={`text-[10px] font-black uppercase tracking-[0.15em] px-5 py-2 rounded-full border ${getReadinessColorPill(result.dealReadiness.score)}`}>
                   {result.dealReadiness.status}
                 </h4>
+                {result.dealReadiness.modelScore !== undefined && result.dealReadiness.modelScore !== result.dealReadiness.score && (
+                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-3">Model indicative score {result.dealReadiness.modelScore}</p>
+                )}
               </div>
               <div />
             </div>
           </div>
 
+          {dimensions.length > 0 && (
+            <div className="mb-12">
+              <p className="text-[11px] font-bold text-slate-900 uppercase tracking-[0.15em] mb-4">Score Breakdown</p>
+              {/* Stacked contributions on the 0-100 scale with the readiness thresholds marked */}
+              <div className="relative h-6 bg-slate-100 rounded overflow-hidden flex mb-1">
+                {dimensions.map(d => (
+                  <div
+                    key={d.key}
+                    className={`${DIMENSION_COLORS[d.key]} h-full border-r border-white/60 last:border-r-0`}
+                    style={{ width: `${dimensionContribution(d, dimensions)}%` }}
+                    title={`${d.label}: ${dimensionContribution(d, dimensions).toFixed(1)} pts`}
+                  />
+                ))}
+                {[REVIEW_READY_SCORE, EXECUTION_READY_SCORE].map(threshold => (
+                  <div key={threshold} className="absolute top-0 bottom-0 w-px bg-slate-900/60" style={{ left: `${threshold}%` }} />
+                ))}
+              </div>
+              <div className="relative h-4 mb-8">
+                {[REVIEW_READY_SCORE, EXECUTION_READY_SCORE].map(threshold => (
+                  <span key={threshold} className="absolute -translate-x-1/2 text-[9px] font-bold text-slate-400 mono" style={{ left: `${threshold}%` }}>{threshold}</span>
+                ))}
+              </div>
+
+              <div className="border border-slate-200 rounded-lg overflow-hidden divide-y divide-slate-100">
+                {dimensions.map(d => (
+                  <div key={d.key} className="grid grid-cols-12 gap-6 px-6 py-5 items-start">
+                    <div className="col-span-4">
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className={`w-2.5 h-2.5 rounded-sm ${DIMENSION_COLORS[d.key]}`} />
+                        <span className="text-[11px] font-black text-slate-900 uppercase tracking-tight">{d.label}</span>
+                      </div>
+                      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                        <div className={`${DIMENSION_COLORS[d.key]} h-full`} style={{ width: `${d.score}%` }} />
+                      </div>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-2 mono">
+                        {d.score}/100 × {Math.round((d.weight / totalWeight) * 100)}% = {dimensionContribution(d, dimensions).toFixed(1)} pts
+                      </p>
+                    </div>
+                    <ul className="col-span-8 space-y-1.5">
+                      {d.evidence.map((line, i) => (
+                        <li key={i} className="text-[12px] font-medium text-slate-600 flex items-start gap-3">
+                          <span className="w-1 h-1 bg-slate-300 rounded-full mt-2 shrink-0" /> {line}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-x-20 gap-y-12">
             <div>
               <p className="text-[11px] font-bold text-emerald-600 uppercase tracking-[0.15em] mb-4 flex items-center gap-2">
@@ -329,7 +478,11 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
                         </div>
                       </td>
                       <td className="px-6 py-4">
-                        {clause.reviewRequired ? (
+                        {reviews[clause.name]?.decision ? (
+                          <span className={`text-[10px] font-black uppercase tracking-wider ${reviews[clause.name].resolved ? 'text-emerald-600' : 'text-blue-600'}`}>
+                            {decisionLabel(reviews[clause.name])}
+                          </span>
+                        ) : clause.reviewRequired ? (
                           <span className="inline-flex items-center gap-1 text-[10px] font-black text-rose-600 uppercase tracking-wider">
                             <span className="w-1.5 h-1.5 rounded-full bg-rose-600 animate-pulse" />
                             Required
@@ -343,6 +496,37 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
                 })}
               </tbody>
             </table>
+            <div className="px-6 py-4 bg-slate-50 border-t border-slate-200 flex items-center justify-between">
+              <div>
+                <p className={`text-[11px] font-black uppercase tracking-widest ${signOff ? 'text-emerald-700' : 'text-slate-900'}`}>
+                  {signOff ? 'Deal Signed Off' : reviewStatus.ready ? 'Ready for Sign-off' : 'Sign-off Blocked'}
+                </p>
+                <p className="text-[11px] font-medium text-slate-500 mt-0.5">
+                  {signOff
+                    ? `${signOff.reviewer} • ${new Date(signOff.at).toLocaleString('en-GB', { dateStyle: 'short', timeStyle: 'short' })}`
+                    : reviewStatus.ready
+                      ? `All ${reviewStatus.flagged.length} flagged clauses are resolved.`
+                      : `Unresolved flagged clauses: ${reviewStatus.outstanding.join(', ')}`}
+                </p>
+                {signOffError && <p className="text-[11px] font-bold text-rose-600 mt-1">{signOffError}</p>}
+              </div>
+              {signOff ? (
+                <button
+                  onClick={() => onWorkspaceChange({ signOff: undefined })}
+                  className="no-print text-[10px] font-bold px-5 py-2 rounded border border-slate-200 text-slate-500 bg-white hover:bg-slate-50 uppercase tracking-widest"
+                >
+                  Withdraw Sign-off
+                </button>
+              ) : (
+                <button
+                  onClick={handleSignOff}
+                  disabled={!reviewStatus.ready}
+                  className="no-print text-[10px] font-bold px-5 py-2 rounded bg-emerald-600 text-white hover:bg-emerald-700 uppercase tracking-widest disabled:opacity-30"
+                >
+                  Sign Off Deal
+                </button>
+              )}
+            </div>
           </div>
         </div>
 
@@ -350,152 +534,197 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
         <div className="mb-20">
           <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em] border-b border-slate-200 pb-2 mb-6">03. Detailed Clause Breakdown</h3>
           
-          <div className="border border-slate-200 rounded-xl overflow-hidden divide-y divide-slate-200 shadow-sm">
-            {result.confidenceAnalysis.map((clause, idx) => {
-              const meta = getScoreMeta(clause.confidenceScore);
-              const isEven = idx % 2 === 0;
-              return (
-                <div key={idx} className={`group break-inside-avoid border-l-4 ${meta.accent} p-10 transition-all duration-200 hover:bg-slate-50/60 ${!isEven ? 'bg-slate-50/20' : 'bg-white'}`}>
-                  <div className="flex items-start justify-between mb-8">
-                    <div className="flex items-center gap-5">
-                      <span className="mono text-slate-200 font-bold text-3xl group-hover:text-slate-300 transition-colors">
-                        {(idx + 1).toString().padStart(2, '0')}
-                      </span>
-                      <div>
-                        <h4 className="text-xl font-bold text-slate-900 tracking-tight">{clause.name}</h4>
-                        <div className="flex items-center gap-3 mt-1.5">
-                          <p className={`text-[10px] font-black uppercase tracking-widest ${meta.text}`}>
-                            {meta.label} • {clause.confidenceScore}% Confidence
-                          </p>
-                          {clause.reviewRequired && (
-                            <span className="text-[9px] bg-rose-600 text-white px-2 py-0.5 rounded-sm font-black uppercase tracking-[0.1em] animate-pulse">Flagged</span>
-                          )}
+          <div className={sourceClause ? 'flex gap-6 items-start' : ''}>
+            <div className="flex-1 min-w-0 border border-slate-200 rounded-xl overflow-hidden divide-y divide-slate-200 shadow-sm">
+              {result.confidenceAnalysis.map((clause, idx) => {
+                const meta = getScoreMeta(clause.confidenceScore);
+                const isEven = idx % 2 === 0;
+                return (
+                  <div key={idx} className={`group break-inside-avoid border-l-4 ${meta.accent} p-10 transition-all duration-200 hover:bg-slate-50/60 ${!isEven ? 'bg-slate-50/20' : 'bg-white'}`}>
+                    <div className="flex items-start justify-between mb-8">
+                      <div className="flex items-center gap-5">
+                        <span className="mono text-slate-200 font-bold text-3xl group-hover:text-slate-300 transition-colors">
+                          {(idx + 1).toString().padStart(2, '0')}
+                        </span>
+                        <div>
+                          <h4 className="text-xl font-bold text-slate-900 tracking-tight">{clause.name}</h4>
+                          <div className="flex items-center gap-3 mt-1.5">
+                            <p className={`text-[10px] font-black uppercase tracking-widest ${meta.text}`}>
+                              {meta.label} • {clause.confidenceScore}% Confidence
+                            </p>
+                            {clause.citation?.clauseNumber && (
+                              <span className="text-[9px] font-bold text-slate-500 mono bg-slate-100 border border-slate-200 px-2 py-0.5 rounded-sm">Cl. {clause.citation.clauseNumber}</span>
+                            )}
+                            {clause.pageReference && (
+                              <span className="text-[9px] font-bold text-slate-500 mono bg-slate-100 border border-slate-200 px-2 py-0.5 rounded-sm">p. {clause.pageReference}</span>
+                            )}
+                            {clause.citation?.status === 'approximate' && (
+                              <span className="text-[9px] font-bold text-orange-700 mono bg-orange-50 border border-orange-200 px-2 py-0.5 rounded-sm">Approx. Match {Math.round(clause.citation.matchScore * 100)}%</span>
+                            )}
+                            {clause.citation?.status === 'unverified' && (
+                              <span className="text-[9px] font-black text-rose-700 bg-rose-50 border border-rose-200 px-2 py-0.5 rounded-sm uppercase tracking-[0.1em]">Possible Hallucination</span>
+                            )}
+                            {clause.ocrConfidence !== undefined && (
+                              <span className="text-[9px] font-bold text-amber-700 mono bg-amber-50 border border-amber-200 px-2 py-0.5 rounded-sm">Scanned • OCR {clause.ocrConfidence}%</span>
+                            )}
+                            {clause.reviewRequired && (
+                              <span className="text-[9px] bg-rose-600 text-white px-2 py-0.5 rounded-sm font-black uppercase tracking-[0.1em] animate-pulse">Flagged</span>
+                            )}
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
 
-                  <div className="grid grid-cols-12 gap-10">
-                    <div className="col-span-12 lg:col-span-7 space-y-6">
-                      <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm">
-                        <span className="text-[9px] font-bold text-slate-400 uppercase block mb-3 font-mono tracking-widest">Extracted Provision Text</span>
-                        <p className="text-[13px] text-slate-600 leading-relaxed max-h-48 overflow-y-auto pr-3 custom-scrollbar">
-                          {clause.summary || "Provision text not detected in source."}
-                        </p>
-                      </div>
-                      <div className="relative">
-                        <span className="text-[9px] font-bold text-slate-400 uppercase block mb-2 tracking-widest">Audit Logic & Rationale</span>
-                        <div className={`text-[12px] italic font-medium p-5 rounded-lg border ${meta.bg} ${meta.text} ${meta.border} shadow-sm leading-relaxed`}>
-                          {clause.reason}
+                    <div className="grid grid-cols-12 gap-10">
+                      <div className="col-span-12 lg:col-span-7 space-y-6">
+                        <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm">
+                          <div className="flex items-center justify-between mb-3">
+                            <span className="text-[9px] font-bold text-slate-400 uppercase block font-mono tracking-widest">Extracted Provision Text</span>
+                            {result.rawText && (
+                              <button
+                                onClick={() => setSourceClauseIdx(idx)}
+                                className="no-print text-[9px] font-black text-blue-600 hover:text-blue-800 uppercase tracking-widest"
+                              >
+                                View in Source
+                              </button>
+                            )}
+                          </div>
+                          <p className="text-[13px] text-slate-600 leading-relaxed max-h-48 overflow-y-auto pr-3 custom-scrollbar">
+                            {clause.summary || "Provision text not detected in source."}
+                          </p>
+                        </div>
+                        {clause.provenance && clause.provenance.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Found In</span>
+                            {clause.provenance.map((source, i) => (
+                              <span key={i} className="text-[10px] font-bold text-slate-600 bg-slate-50 border border-slate-200 px-2 py-0.5 rounded mono">
+                                Section {source.chunkIndex + 1}{source.heading ? ` • ${source.heading}` : ''}{source.pageReference ? ` • p. ${source.pageReference}` : ''}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        <div className="relative">
+                          <span className="text-[9px] font-bold text-slate-400 uppercase block mb-2 tracking-widest">Audit Logic & Rationale</span>
+                          <div className={`text-[12px] italic font-medium p-5 rounded-lg border ${meta.bg} ${meta.text} ${meta.border} shadow-sm leading-relaxed`}>
+                            {clause.reason}
+                          </div>
                         </div>
+                        {(clauseNotes[clause.name] || []).length > 0 && (
+                          <div>
+                            <span className="text-[9px] font-bold text-slate-400 uppercase block mb-2 tracking-widest">Analyst Notes</span>
+                            <div className="space-y-2">
+                              {clauseNotes[clause.name].map(note => (
+                                <div key={note.id} className="p-4 bg-blue-50/60 border border-blue-100 rounded-lg">
+                                  <div className="flex items-start justify-between gap-4">
+                                    <p className="text-[12px] text-slate-700 font-medium leading-relaxed">{note.text}</p>
+                                    <button onClick={() => handleRemoveNote(clause.name, note.id)} className="no-print text-[9px] font-bold text-slate-400 hover:text-rose-600 uppercase tracking-widest shrink-0">Remove</button>
+                                  </div>
+                                  <p className="text-[9px] font-bold text-slate-400 mono mt-2">
+                                    {note.source === 'chat' ? 'From document Q&A' : 'Analyst'} • {new Date(note.createdAt).toLocaleDateString('en-GB')}
+                                    {note.citations?.map((c, i) => <span key={i}> • {formatChatCitation(c)}</span>)}
+                                  </p>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
-                    </div>
 
-                    <div className="col-span-12 lg:col-span-5 flex flex-col gap-5">
-                      <div className="bg-slate-100/50 p-6 rounded-lg border border-slate-200 space-y-5">
-                        <div className="border-b border-slate-200/60 pb-4">
-                          <span className="text-[9px] font-bold text-slate-400 uppercase block mb-1.5 tracking-widest">Market Standard Context</span>
-                          <p className="text-[12px] font-bold text-slate-700 leading-snug">{clause.lmaComparison?.standardBenchmark}</p>
-                        </div>
-                        <div className="border-b border-slate-200/60 pb-4">
-                          <span className="text-[9px] font-bold text-slate-400 uppercase block mb-1.5 tracking-widest">Deviation Analysis</span>
-                          <p className={`text-[11px] font-black uppercase tracking-tight ${clause.lmaComparison?.deviations.toLowerCase().includes('aggressive') ? 'text-red-600' : 'text-slate-900'}`}>
-                            {clause.lmaComparison?.deviations}
-                          </p>
-                        </div>
-                        <div>
-                          <span className="text-[9px] font-bold text-slate-400 uppercase block mb-1.5 tracking-widest">Counterparty Impact</span>
-                          <p className="text-[12px] font-medium text-slate-500 leading-relaxed italic">{clause.lmaComparison?.impact}</p>
+                      <div className="col-span-12 lg:col-span-5 flex flex-col gap-5">
+                        <div className="bg-slate-100/50 p-6 rounded-lg border border-slate-200 space-y-5">
+                          <div className="border-b border-slate-200/60 pb-4">
+                            <span className="text-[9px] font-bold text-slate-400 uppercase block mb-1.5 tracking-widest">
+                              {clause.lmaComparison?.playbookPosition && clause.lmaComparison.playbookPosition !== 'Not Covered' ? 'Playbook Preferred Position' : 'Market Standard Context'}
+                            </span>
+                            <p className="text-[12px] font-bold text-slate-700 leading-snug">{clause.lmaComparison?.standardBenchmark}</p>
+                          </div>
+                          <div className="border-b border-slate-200/60 pb-4">
+                            <span className="text-[9px] font-bold text-slate-400 uppercase block mb-1.5 tracking-widest">Deviation Analysis</span>
+                            <p className={`text-[11px] font-black uppercase tracking-tight ${clause.lmaComparison?.deviations.toLowerCase().includes('aggressive') ? 'text-red-600' : 'text-slate-900'}`}>
+                              {clause.lmaComparison?.deviations}
+                              {clause.lmaComparison?.playbookPosition && <span className="text-slate-400"> • {clause.lmaComparison.playbookPosition}</span>}
+                            </p>
+                            {clause.lmaComparison?.rationale && clause.lmaComparison.rationale !== clause.lmaComparison.standardBenchmark && (
+                              <p className="text-[11px] font-medium text-slate-500 leading-relaxed mt-1.5">{clause.lmaComparison.rationale}</p>
+                            )}
+                            {clause.lmaComparison?.playbook && (
+                              <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-2">Judged against {formatPlaybookReference(clause.lmaComparison.playbook)}</p>
+                            )}
+                          </div>
+                          <div>
+                            <span className="text-[9px] font-bold text-slate-400 uppercase block mb-1.5 tracking-widest">Counterparty Impact</span>
+                            <p className="text-[12px] font-medium text-slate-500 leading-relaxed italic">{clause.lmaComparison?.impact}</p>
+                          </div>
                         </div>
                       </div>
                     </div>
+
+                    <ClauseReviewPanel
+                      key={`${reportId}:${clause.name}`}
+                      clause={clause}
+                      review={reviews[clause.name]}
+                      reviewer={reviewer}
+                      onChange={review => handleReviewChange(clause.name, review)}
+                    />
                   </div>
-                </div>
-              );
-            })}
+                );
+              })}
+            </div>
+            {sourceClause && result.rawText && (
+              <div className="w-[420px] shrink-0 no-print">
+                <SourcePane rawText={result.rawText} clause={sourceClause} onClose={() => setSourceClauseIdx(null)} />
+              </div>
+            )}
           </div>
         </div>
 
         {/* NEW SECTION: COVENANT SLACK CALCULATOR */}
-        {financialCovenants.length > 0 && (
+        {result.covenants && result.covenants.length > 0 && (
           <div className="mb-20 no-print">
             <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em] border-b border-slate-200 pb-2 mb-8">04. Covenant Slack Calculator</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-              {financialCovenants.map((cov, idx) => {
-                const values = slackCalculations[cov.name] || { limit: '', actual: '' };
-                const calculation = calculateSlack(values.limit, values.actual, cov.name);
-
-                return (
-                  <div key={idx} className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm hover:shadow-md transition-shadow">
-                    <div className="flex items-center gap-3 mb-6">
-                      <div className="w-8 h-8 rounded bg-blue-50 text-blue-600 flex items-center justify-center">
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>
-                      </div>
-                      <h4 className="text-sm font-bold text-slate-900">{cov.name}</h4>
-                    </div>
+            <CovenantCalculator
+              covenants={result.covenants}
+              inputs={workspace.covenantInputs || {}}
+              onInputsChange={covenantInputs => onWorkspaceChange({ covenantInputs })}
+            />
+            <CompliancePanel covenants={result.covenants} overview={result.overview} periods={financials} onPeriodsChange={periods => onWorkspaceChange({ financials: periods })} />
+            <StressTestPanel
+              covenants={result.covenants}
+              setup={workspace.stressTest}
+              latestPeriod={financials[financials.length - 1]}
+              onChange={stressTest => onWorkspaceChange({ stressTest })}
+            />
+          </div>
+        )}
 
-                    <div className="space-y-4 mb-6">
-                      <div className="grid grid-cols-2 gap-4">
-                        <div>
-                          <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1.5">Agreement Limit</label>
-                          <input 
-                            type="text" 
-                            placeholder="e.g. 3.5"
-                            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded text-sm font-bold focus:outline-none focus:border-blue-500"
-                            value={values.limit}
-                            onChange={(e) => setSlackCalculations({...slackCalculations, [cov.name]: {...values, limit: e.target.value}})}
-                          />
-                        </div>
-                        <div>
-                          <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1.5">Current Actual</label>
-                          <input 
-                            type="text" 
-                            placeholder="e.g. 2.1"
-                            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded text-sm font-bold focus:outline-none focus:border-blue-500"
-                            value={values.actual}
-                            onChange={(e) => setSlackCalculations({...slackCalculations, [cov.name]: {...values, actual: e.target.value}})}
-                          />
-                        </div>
-                      </div>
-                    </div>
+        {/* SECTION 5: REPAYMENT & INTEREST SCHEDULE */}
+        {result.facilityTerms && (
+          <div className="mb-20">
+            <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em] border-b border-slate-200 pb-2 mb-8">05. Repayment & Interest Schedule</h3>
+            <RepaymentSchedulePanel
+              terms={result.facilityTerms}
+              curve={workspace.rateCurve}
+              onCurveChange={rateCurve => onWorkspaceChange({ rateCurve })}
+            />
+          </div>
+        )}
 
-                    {calculation ? (
-                      <div className={`p-4 rounded-lg border ${calculation.isSafe ? 'bg-emerald-50 border-emerald-100' : 'bg-rose-50 border-rose-100'}`}>
-                        <div className="flex justify-between items-end mb-2">
-                          <span className={`text-[10px] font-black uppercase tracking-widest ${calculation.isSafe ? 'text-emerald-700' : 'text-rose-700'}`}>
-                            {calculation.isSafe ? 'Compliant' : 'Breach Risk'}
-                          </span>
-                          <span className={`text-lg font-black tracking-tight ${calculation.isSafe ? 'text-emerald-900' : 'text-rose-900'}`}>
-                            {calculation.percentage.toFixed(1)}% Slack
-                          </span>
-                        </div>
-                        <div className="w-full h-2 bg-white/50 rounded-full overflow-hidden mb-2">
-                          <div 
-                            className={`h-full transition-all duration-500 ${calculation.isSafe ? 'bg-emerald-500' : 'bg-rose-500'}`}
-                            style={{ width: `${Math.min(100, Math.max(0, calculation.percentage))}%` }}
-                          />
-                        </div>
-                        <p className={`text-[10px] font-medium leading-relaxed ${calculation.isSafe ? 'text-emerald-700' : 'text-rose-700'}`}>
-                          {calculation.isSafe 
-                            ? `Deal has ${calculation.slack.toFixed(2)} units of headroom before hitting the ${calculation.isMax ? 'max' : 'min'} limit.`
-                            : `Projected breach detected. Currently ${Math.abs(calculation.slack).toFixed(2)} units beyond the threshold.`}
-                        </p>
-                      </div>
-                    ) : (
-                      <div className="p-4 bg-slate-50 rounded-lg border border-slate-100 text-center">
-                        <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Enter values to calculate slack</p>
-                      </div>
-                    )}
-                  </div>
-                );
-              })}
-            </div>
+        {/* SECTION 6: OBLIGATIONS & KEY DATES */}
+        {result.obligations && result.obligations.length > 0 && (
+          <div className="mb-20">
+            <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em] border-b border-slate-200 pb-2 mb-8">06. Obligations & Key Dates</h3>
+            <ObligationsTimeline
+              obligations={result.obligations}
+              reportId={reportId}
+              calendarName={`${result.overview.borrowerLender} • ${reportId}`}
+              maturity={result.facilityTerms?.maturityDate}
+            />
           </div>
         )}
 
-        {/* SECTION 5: RECOMMENDED ACTIONS */}
+        {/* SECTION 7: RECOMMENDED ACTIONS */}
         <div className="mt-24 pt-10 border-t-2 border-slate-900">
-           <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em] mb-8">05. Execution & Readiness Roadmap</h3>
+           <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em] mb-8">07. Execution & Readiness Roadmap</h3>
            <div className="grid grid-cols-2 gap-12">
               <div className="space-y-6">
                 <p className="text-[11px] font-bold text-slate-900 uppercase tracking-widest flex items-center gap-2">
@@ -525,66 +754,14 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
            </div>
         </div>
 
-        {/* SECTION 6: MARKET NEWS INTELLIGENCE */}
-        <div className="mt-16 pt-10 border-t border-slate-200 no-print">
-          <div className="flex items-center justify-between mb-8">
-            <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em]">06. Real-Time Market Intelligence</h3>
-            <button 
-              onClick={handleFetchNews}
-              disabled={isFetchingNews}
-              className="bg-blue-600 text-white text-[10px] font-black px-4 py-2 rounded uppercase tracking-widest hover:bg-blue-700 transition-all shadow-md flex items-center gap-2 disabled:opacity-50"
-            >
-              {isFetchingNews ? (
-                <svg className="animate-spin h-3.5 w-3.5 text-white" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-              ) : (
-                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
-              )}
-              {newsData ? "Refresh Trends" : "Fetch Latest Market News"}
-            </button>
-          </div>
-
-          {newsData && (
-            <div className="bg-slate-50 border border-slate-200 rounded-xl overflow-hidden shadow-sm">
-              <button 
-                onClick={() => setIsNewsCollapsed(!isNewsCollapsed)}
-                className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-100/50 transition-colors"
-              >
-                <span className="text-[11px] font-bold text-slate-500 uppercase tracking-widest">Syndicated Loan Trends (2024-2025)</span>
-                <svg className={`w-4 h-4 text-slate-400 transform transition-transform ${isNewsCollapsed ? '' : 'rotate-180'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
-              </button>
-              
-              {!isNewsCollapsed && (
-                <div className="px-6 pb-6 animate-fade-in">
-                  <div className="prose prose-sm max-w-none text-slate-700 font-medium leading-relaxed mb-6 bg-white p-5 rounded border border-slate-100 shadow-inner">
-                    {newsData.summary.split('\n').map((para, i) => (
-                      <p key={i} className="mb-3 last:mb-0">{para}</p>
-                    ))}
-                  </div>
-                  
-                  <div className="space-y-3">
-                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-3">Intelligence Sources</p>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      {newsData.sources.map((source, i) => (
-                        <a 
-                          key={i} 
-                          href={source.uri} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                          className="flex items-center gap-3 p-3 bg-white border border-slate-200 rounded-lg hover:border-blue-300 hover:bg-blue-50/30 transition-all group"
-                        >
-                          <div className="w-8 h-8 rounded bg-slate-100 flex items-center justify-center shrink-0 group-hover:bg-blue-100">
-                            <svg className="w-4 h-4 text-slate-400 group-hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
-                          </div>
-                          <span className="text-[11px] font-bold text-slate-700 truncate group-hover:text-blue-600">{source.title}</span>
-                        </a>
-                      ))}
-                    </div>
-                  </div>
-                </div>
-              )}
-            </div>
-          )}
-        </div>
+        {/* SECTION 8: MARKET NEWS INTELLIGENCE */}
+        <MarketBriefPanel
+          facilityType={result.overview.facilityType}
+          brief={workspace.marketBrief}
+          pinned={workspace.pinnedBriefs || []}
+          onBriefChange={marketBrief => onWorkspaceChange({ marketBrief })}
+          onPinnedChange={pinnedBriefs => onWorkspaceChange({ pinnedBriefs })}
+        />
 
         {/* FOOTER */}
         <div className="mt-24 pt-8 border-t border-slate-100 flex justify-between items-center opacity-50">
@@ -596,6 +773,16 @@ const AnalysisReport: React.FC<AnalysisReportProps> = ({ result, onReset }) => {
           </div>
         </div>
       </div>
+      {isChatOpen && result.rawText && (
+        <DocumentChatPanel
+          result={result}
+          messages={workspace.chat || []}
+          notedIds={notedMessageIds}
+          onMessagesChange={chat => onWorkspaceChange({ chat })}
+          onAddNote={handleAddNote}
+          onClose={() => setIsChatOpen(false)}
+        />
+      )}
     </div>
   );
 };
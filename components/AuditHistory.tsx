@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { SavedAudit } from '../types';
+import { deleteAudit, listAudits, matchesAuditSearch, updateAudit } from '../services/auditStore';
+
+interface AuditHistoryProps {
+  onOpen: (audit: SavedAudit) => void;
+  refreshKey?: number;
+}
+
+const RATING_STYLES: Record<string, string> = {
+  Low: 'text-emerald-700 bg-emerald-50 border-emerald-200',
+  Medium: 'text-amber-700 bg-amber-50 border-amber-200',
+  High: 'text-rose-700 bg-rose-50 border-rose-200'
+};
+
+const AuditHistory: React.FC<AuditHistoryProps> = ({ onOpen, refreshKey }) => {
+  const [audits, setAudits] = useState<SavedAudit[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [tagInputs, setTagInputs] = useState<Record<string, string>>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setAudits(await listAudits());
+      setLoadError(null);
+    } catch (err: any) {
+      setLoadError(err.message || "Audit history could not be loaded.");
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  const replace = (updated: SavedAudit) =>
+    setAudits(prev => prev.map(a => (a.id === updated.id ? updated : a)));
+
+  const handleRename = async (audit: SavedAudit) => {
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!title || title === audit.title) return;
+    replace(await updateAudit(audit.id, { title }));
+  };
+
+  const handleAddTag = async (audit: SavedAudit) => {
+    const tag = (tagInputs[audit.id] || '').trim();
+    if (!tag || audit.tags.includes(tag)) return;
+    setTagInputs(prev => ({ ...prev, [audit.id]: '' }));
+    replace(await updateAudit(audit.id, { tags: [...audit.tags, tag] }));
+  };
+
+  const handleRemoveTag = async (audit: SavedAudit, tag: string) => {
+    replace(await updateAudit(audit.id, { tags: audit.tags.filter(t => t !== tag) }));
+  };
+
+  const handleDelete = async (audit: SavedAudit) => {
+    if (!window.confirm(`Delete ${audit.id} (${audit.title})? This cannot be undone.`)) return;
+    await deleteAudit(audit.id);
+    setAudits(prev => prev.filter(a => a.id !== audit.id));
+  };
+
+  const visible = audits.filter(a => matchesAuditSearch(a, query));
+
+  if (audits.length === 0 && !loadError) return null;
+
+  return (
+    <div className="mt-16">
+      <div className="flex items-center justify-between mb-5">
+        <div>
+          <h2 className="text-[13px] font-black text-[#0f172a] uppercase tracking-[0.15em]">Audit History</h2>
+          <p className="text-[12px] text-[#94a3b8] font-medium mt-1">Stored locally in this browser. Reopening does not call the model.</p>
+        </div>
+        <input
+          type="text"
+          placeholder="Search by name, borrower, tag or ID..."
+          className="w-72 px-3 py-2 bg-white border border-slate-200 rounded-lg text-[12px] font-medium text-slate-700 focus:outline-none focus:border-blue-400"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+
+      {loadError && (
+        <p className="text-[12px] font-semibold text-rose-600 mb-4">{loadError}</p>
+      )}
+
+      <div className="bg-white border border-slate-200 rounded-xl overflow-hidden divide-y divide-slate-100 shadow-sm">
+        {visible.length === 0 && (
+          <p className="px-6 py-8 text-center text-[11px] text-slate-400 font-bold uppercase tracking-widest">No audits match your search</p>
+        )}
+        {visible.map(audit => (
+          <div key={audit.id} className="px-6 py-4 flex items-start gap-6 hover:bg-slate-50/50 transition-colors">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-3">
+                <span className="text-[10px] font-bold text-slate-400 mono shrink-0">{audit.id}</span>
+                {editingId === audit.id ? (
+                  <input
+                    autoFocus
+                    className="flex-1 px-2 py-0.5 border border-blue-300 rounded text-[13px] font-bold text-slate-900 focus:outline-none"
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={() => handleRename(audit)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleRename(audit); if (e.key === 'Escape') setEditingId(null); }}
+                  />
+                ) : (
+                  <button
+                    onClick={() => { setEditingId(audit.id); setDraftTitle(audit.title); }}
+                    className="text-[13px] font-bold text-slate-900 truncate hover:text-blue-700 text-left"
+                    title="Rename"
+                  >
+                    {audit.title}
+                  </button>
+                )}
+              </div>
+              <p className="text-[11px] text-slate-400 font-medium mt-1 truncate">
+                {audit.fileName} • {new Date(audit.updatedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}
+              </p>
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                {audit.tags.map(tag => (
+                  <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 bg-slate-50 border border-slate-200 rounded text-[10px] font-bold text-slate-600">
+                    {tag}
+                    <button onClick={() => handleRemoveTag(audit, tag)} className="text-slate-400 hover:text-rose-600" title="Remove tag">×</button>
+                  </span>
+                ))}
+                <input
+                  type="text"
+                  placeholder="+ tag"
+                  className="w-20 px-2 py-0.5 bg-transparent border border-dashed border-slate-200 rounded text-[10px] font-bold text-slate-600 focus:outline-none focus:border-blue-300"
+                  value={tagInputs[audit.id] || ''}
+                  onChange={(e) => setTagInputs(prev => ({ ...prev, [audit.id]: e.target.value }))}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAddTag(audit); }}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-3 shrink-0">
+              <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-sm border ${RATING_STYLES[audit.result.riskAssessment.overallRating] || RATING_STYLES.Medium}`}>
+                {audit.result.riskAssessment.overallRating}
+              </span>
+              <span className="text-[11px] font-black text-slate-700 mono w-8 text-right">{audit.result.dealReadiness.score}</span>
+              <button
+                onClick={() => onOpen(audit)}
+                className="text-[10px] font-bold text-white bg-[#0f172a] hover:bg-black uppercase tracking-[0.15em] px-3 py-1.5 rounded shadow-sm"
+              >
+                Open
+              </button>
+              <button
+                onClick={() => handleDelete(audit)}
+                className="text-[10px] font-bold text-rose-600 hover:text-rose-700 uppercase tracking-[0.15em] px-3 py-1.5 bg-white border border-slate-200 rounded shadow-sm"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AuditHistory;
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { ClauseAnalysis, ClauseReview, PlaybookPosition } from '../types';
+import { PLAYBOOK_POSITIONS } from '../services/playbook';
+import {
+  DEVIATION_OPTIONS,
+  acceptClause,
+  commentOnClause,
+  decisionLabel,
+  emptyReview,
+  overrideClause,
+  reopenClause,
+  resolveClause
+} from '../services/reviewWorkflow';
+
+interface ClauseReviewPanelProps {
+  clause: ClauseAnalysis;
+  review?: ClauseReview;
+  reviewer: string;
+  onChange: (review: ClauseReview) => void;
+}
+
+const formatStamp = (at?: string) => (at ? new Date(at).toLocaleString('en-GB', { dateStyle: 'short', timeStyle: 'short' }) : '');
+
+const ClauseReviewPanel: React.FC<ClauseReviewPanelProps> = ({ clause, review, reviewer, onChange }) => {
+  const current = review || emptyReview();
+  const [isOverriding, setIsOverriding] = useState(false);
+  const [deviation, setDeviation] = useState(current.override?.deviation || clause.lmaComparison?.deviations || DEVIATION_OPTIONS[0]);
+  const [position, setPosition] = useState<PlaybookPosition | ''>(current.override?.playbookPosition || clause.lmaComparison?.playbookPosition || '');
+  const [justification, setJustification] = useState(current.override?.justification || '');
+  const [comment, setComment] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const act = (run: () => ClauseReview) => {
+    try {
+      onChange(run());
+      setError(null);
+      return true;
+    } catch (err: any) {
+      setError(err.message);
+      return false;
+    }
+  };
+
+  const handleOverride = () => {
+    const saved = act(() => overrideClause(current, reviewer, { deviation, playbookPosition: position || undefined, justification }));
+    if (saved) setIsOverriding(false);
+  };
+
+  const handleComment = () => {
+    if (act(() => commentOnClause(current, reviewer, comment))) setComment('');
+  };
+
+  const aiAssessment = [
+    clause.lmaComparison?.deviations,
+    clause.lmaComparison?.playbookPosition,
+    `${clause.confidenceScore}% confidence`,
+    clause.reviewRequired ? 'Flagged' : 'Not flagged'
+  ].filter(Boolean).join(' • ');
+
+  const humanDecision = !current.decision
+    ? 'Awaiting review'
+    : current.decision === 'accepted'
+      ? 'Accepted AI assessment'
+      : [current.override?.deviation, current.override?.playbookPosition].filter(Boolean).join(' • ');
+
+  return (
+    <div className="mt-8 border border-slate-200 rounded-lg overflow-hidden">
+      <div className="grid grid-cols-2 divide-x divide-slate-200 bg-slate-50/60">
+        <div className="p-4">
+          <span className="text-[9px] font-bold text-slate-400 uppercase block mb-1 tracking-widest">AI Assessment</span>
+          <p className="text-[11px] font-bold text-slate-700">{aiAssessment}</p>
+        </div>
+        <div className="p-4">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Human Decision</span>
+            <span className={`text-[9px] font-black uppercase tracking-widest ${current.resolved ? 'text-emerald-600' : current.decision ? 'text-blue-600' : clause.reviewRequired ? 'text-rose-600' : 'text-slate-400'}`}>
+              {decisionLabel(current)}
+            </span>
+          </div>
+          <p className="text-[11px] font-bold text-slate-900">{humanDecision}</p>
+          {current.override && <p className="text-[11px] text-slate-600 italic mt-1">"{current.override.justification}"</p>}
+          {current.decidedBy && (
+            <p className="text-[9px] font-bold text-slate-400 mono mt-1.5">
+              {current.decidedBy} • {formatStamp(current.decidedAt)}
+              {current.resolved && ` • Resolved by ${current.resolvedBy} ${formatStamp(current.resolvedAt)}`}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {current.comments.length > 0 && (
+        <div className="px-4 py-3 border-t border-slate-200 space-y-2">
+          {current.comments.map(c => (
+            <div key={c.id}>
+              <p className="text-[9px] font-bold text-slate-400 mono">{c.reviewer} • {formatStamp(c.at)}</p>
+              <p className="text-[12px] text-slate-700 font-medium leading-relaxed">{c.text}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="px-4 py-3 border-t border-slate-200 bg-white space-y-3 no-print">
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => act(() => acceptClause(current, reviewer))}
+            className="text-[10px] font-bold px-4 py-1.5 rounded border border-emerald-200 text-emerald-700 bg-emerald-50 hover:bg-emerald-100 uppercase tracking-widest"
+          >
+            Accept
+          </button>
+          <button
+            onClick={() => setIsOverriding(open => !open)}
+            className="text-[10px] font-bold px-4 py-1.5 rounded border border-slate-200 text-slate-700 bg-white hover:bg-slate-50 uppercase tracking-widest"
+          >
+            Override
+          </button>
+          {current.resolved ? (
+            <button
+              onClick={() => act(() => reopenClause(current, reviewer))}
+              className="text-[10px] font-bold px-4 py-1.5 rounded border border-slate-200 text-slate-500 bg-white hover:bg-slate-50 uppercase tracking-widest"
+            >
+              Reopen
+            </button>
+          ) : (
+            <button
+              onClick={() => act(() => resolveClause(current, reviewer))}
+              disabled={!current.decision}
+              className="text-[10px] font-bold px-4 py-1.5 rounded bg-slate-900 text-white hover:bg-black uppercase tracking-widest disabled:opacity-30"
+            >
+              Mark Resolved
+            </button>
+          )}
+          {current.events.length > 0 && (
+            <button onClick={() => setShowHistory(open => !open)} className="ml-auto text-[9px] font-bold text-slate-400 hover:text-slate-700 uppercase tracking-widest">
+              History ({current.events.length})
+            </button>
+          )}
+        </div>
+
+        {isOverriding && (
+          <div className="p-4 bg-slate-50 border border-slate-200 rounded space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <label>
+                <span className="text-[9px] font-bold text-slate-400 uppercase block mb-1 tracking-widest">Deviation Rating</span>
+                <select className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-[11px] font-bold" value={deviation} onChange={(e) => setDeviation(e.target.value)}>
+                  {Array.from(new Set([...DEVIATION_OPTIONS, deviation])).map(d => <option key={d} value={d}>{d}</option>)}
+                </select>
+              </label>
+              <label>
+                <span className="text-[9px] font-bold text-slate-400 uppercase block mb-1 tracking-widest">Playbook Position</span>
+                <select className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-[11px] font-bold" value={position} onChange={(e) => setPosition(e.target.value as PlaybookPosition | '')}>
+                  <option value="">Unchanged</option>
+                  {PLAYBOOK_POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+              </label>
+            </div>
+            <textarea
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded text-[12px] font-medium focus:outline-none focus:border-blue-500"
+              rows={2}
+              placeholder="Justification (required)"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+            />
+            <div className="flex justify-end">
+              <button onClick={handleOverride} className="text-[10px] font-bold px-4 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 uppercase tracking-widest">
+                Save Override
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            className="flex-1 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded text-[12px] font-medium focus:outline-none focus:border-blue-500"
+            placeholder="Add a comment…"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleComment(); }}
+          />
+          <button onClick={handleComment} disabled={!comment.trim()} className="text-[10px] font-bold text-blue-600 hover:text-blue-800 uppercase tracking-widest disabled:opacity-30">
+            Comment
+          </button>
+        </div>
+
+        {error && <p className="text-[11px] font-bold text-rose-600">{error}</p>}
+
+        {showHistory && (
+          <ul className="space-y-1 pt-2 border-t border-slate-100">
+            {current.events.map((event, i) => (
+              <li key={i} className="text-[10px] text-slate-500 mono">
+                {formatStamp(event.at)} • {event.reviewer} • {event.action}{event.detail ? ` • ${event.detail}` : ''}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClauseReviewPanel;
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { ClauseComparison, DraftComparison, ListDelta } from '../types';
+import { downloadFile, exportDateStamp, toCsv } from '../services/exportUtils';
+import { redlineToText } from '../services/draftComparison';
+import { buildComparisonMemorandum } from '../services/memorandum';
+import { renderMemorandumPdf } from '../services/pdfExport';
+import { auditIdFor } from '../services/auditStore';
+
+interface ComparisonReportProps {
+  comparison: DraftComparison;
+  onReset: () => void;
+}
+
+const STATUS_STYLES: Record<ClauseComparison['status'], string> = {
+  changed: 'text-amber-700 bg-amber-50 border-amber-200',
+  unchanged: 'text-slate-500 bg-slate-50 border-slate-200',
+  added: 'text-emerald-700 bg-emerald-50 border-emerald-200',
+  removed: 'text-rose-700 bg-rose-50 border-rose-200'
+};
+
+const TONE_TEXT = { emerald: 'text-emerald-600', rose: 'text-rose-600', slate: 'text-slate-900' };
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta}`;
+
+const deltaClass = (delta: number) =>
+  delta > 0 ? 'text-emerald-600' : delta < 0 ? 'text-rose-600' : 'text-slate-400';
+
+const ComparisonReport: React.FC<ComparisonReportProps> = ({ comparison, onReset }) => {
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { previous, current } = comparison;
+
+  const changedClauses = comparison.clauses.filter(c => c.status !== 'unchanged');
+  const visibleClauses = showUnchanged ? comparison.clauses : changedClauses;
+
+  // Rendered from the memorandum blocks like the audit PDF, not captured from the screen.
+  const handleExport = () => {
+    setExportError(null);
+    try {
+      const memo = buildComparisonMemorandum(comparison, { reportId: auditIdFor(current.rawText || '') });
+      downloadFile(renderMemorandumPdf(memo), `DRAFT_COMPARISON_${exportDateStamp()}.pdf`, 'application/pdf');
+    } catch (error: any) {
+      console.error("Comparison PDF export failed", error);
+      setExportError(`PDF export failed: ${error?.message || error}`);
+    }
+  };
+
+  const handleExportCSV = () => {
+    const headers = [
+      "Clause Name",
+      "Change Status",
+      "Prior Confidence (%)",
+      "Current Confidence (%)",
+      "Confidence Delta",
+      "Prior Review Required",
+      "Current Review Required",
+      "Review Change",
+      "Redline Source",
+      "Redline"
+    ];
+    const rows = comparison.clauses.map(c => [
+      c.name,
+      c.status.toUpperCase(),
+      c.previous?.confidenceScore ?? '',
+      c.current?.confidenceScore ?? '',
+      c.previous && c.current ? c.confidenceDelta : '',
+      c.previous ? (c.previous.reviewRequired ? "YES" : "NO") : '',
+      c.current ? (c.current.reviewRequired ? "YES" : "NO") : '',
+      c.reviewChange.replace('_', ' ').toUpperCase(),
+      c.redlineSource === 'provision' ? "PROVISION TEXT" : "SUMMARY ONLY",
+      redlineToText(c.redline)
+    ]);
+    downloadFile(toCsv(headers, rows), `DRAFT_COMPARISON_DATA_${exportDateStamp()}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  const renderDelta = (title: string, delta: ListDelta, tone: keyof typeof TONE_TEXT) => (
+    <div>
+      <p className={`text-[11px] font-bold ${TONE_TEXT[tone]} uppercase tracking-[0.15em] mb-4`}>{title}</p>
+      {delta.added.length === 0 && delta.removed.length === 0 ? (
+        <p className="text-[11px] text-slate-400 font-medium">No movement between drafts.</p>
+      ) : (
+        <ul className="space-y-3">
+          {delta.added.map((d, i) => (
+            <li key={`a${i}`} className="text-[12px] font-medium text-slate-700 flex items-start gap-3">
+              <span className="text-[9px] font-black text-emerald-700 bg-emerald-50 border border-emerald-200 px-1.5 rounded-sm mt-0.5 shrink-0">NEW</span> {d}
+            </li>
+          ))}
+          {delta.removed.map((d, i) => (
+            <li key={`r${i}`} className="text-[12px] font-medium text-slate-400 line-through flex items-start gap-3">
+              <span className="text-[9px] font-black text-slate-500 bg-slate-50 border border-slate-200 px-1.5 rounded-sm mt-0.5 shrink-0 no-underline">DROPPED</span> {d}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-[#f8fafc] min-h-screen">
+      <div className="max-w-6xl mx-auto px-6 py-8 flex items-center justify-between sticky top-0 bg-[#f8fafc]/80 backdrop-blur-md z-10 border-b border-slate-200 no-print">
+        <div className="flex items-center gap-4">
+          <button onClick={onReset} className="text-xs font-bold text-slate-500 hover:text-slate-900 flex items-center gap-1 transition-colors uppercase tracking-widest">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+            New Comparison
+          </button>
+          <div className="h-4 w-px bg-slate-300" />
+          <h2 className="text-sm font-bold text-slate-900 uppercase tracking-tight">Draft Turn Comparison</h2>
+        </div>
+        <div className="flex items-center gap-3">
+          {exportError && <p className="text-[11px] font-semibold text-rose-600 max-w-xs">{exportError}</p>}
+          <button
+            onClick={handleExportCSV}
+            className="bg-white border border-slate-200 text-slate-700 text-[10px] font-bold px-5 py-2 rounded hover:bg-slate-50 transition-all uppercase tracking-widest shadow-sm"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={handleExport}
+            className="bg-slate-900 text-white text-[10px] font-bold px-5 py-2 rounded hover:bg-black transition-all uppercase tracking-widest shadow-sm"
+          >
+            Download PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-12 bg-white my-8 shadow-sm border border-slate-200 print:m-0 print:border-none print:shadow-none">
+        <div className="border-b-4 border-slate-900 pb-8 mb-10 flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-black text-slate-900 uppercase tracking-tighter mb-1">Draft Comparison</h1>
+            <p className="text-sm font-semibold text-slate-500 uppercase tracking-[0.2em]">Negotiation Turn Memorandum</p>
+          </div>
+          <div className="text-right">
+            <p className="text-[10px] font-bold text-slate-400 uppercase">Comparison Date</p>
+            <p className="text-sm font-bold text-slate-900 mono">{new Date().toLocaleDateString('en-GB')}</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-12 mb-12">
+          {[
+            { label: 'Prior Draft', name: comparison.previousLabel },
+            { label: 'Current Draft', name: comparison.currentLabel }
+          ].map((item, idx) => (
+            <div key={idx} className="border-b border-slate-100 pb-2">
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">{item.label}</p>
+              <p className="text-sm font-bold text-slate-900 tracking-tight truncate">{item.name}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* SECTION 1: READINESS MOVEMENT */}
+        <div className="mb-16">
+          <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em] border-b border-slate-200 pb-2 mb-8">01. Deal Readiness Movement</h3>
+          <div className="flex items-center justify-center gap-10 bg-[#f1f5f9] rounded-xl p-8 border border-slate-200 mb-10">
+            <div className="text-center">
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Prior</p>
+              <p className="text-4xl font-black text-slate-400 tracking-tighter">{previous.dealReadiness.score}</p>
+              <p className="text-[10px] font-bold text-slate-400 uppercase mt-1">{previous.dealReadiness.status}</p>
+            </div>
+            <svg className="w-6 h-6 text-slate-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" /></svg>
+            <div className="text-center">
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Current</p>
+              <p className="text-4xl font-black text-slate-900 tracking-tighter">{current.dealReadiness.score}</p>
+              <p className="text-[10px] font-bold text-slate-500 uppercase mt-1">{current.dealReadiness.status}</p>
+            </div>
+            <span className={`text-2xl font-black mono ${deltaClass(comparison.readinessDelta)}`}>{formatDelta(comparison.readinessDelta)}</span>
+          </div>
+          <div className="grid grid-cols-3 gap-10">
+            {renderDelta('Positive Drivers', comparison.driversPositive, 'emerald')}
+            {renderDelta('Negative Drivers', comparison.driversNegative, 'rose')}
+            {renderDelta('Key Issues', comparison.keyIssues, 'slate')}
+          </div>
+        </div>
+
+        {/* SECTION 2: CLAUSE CHANGE SUMMARY */}
+        <div className="mb-16">
+          <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em] border-b border-slate-200 pb-2 mb-6">02. Clause Movement Summary</h3>
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-slate-50 border-b border-slate-200">
+                  <th className="px-6 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Clause Name</th>
+                  <th className="px-6 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Change</th>
+                  <th className="px-6 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Confidence</th>
+                  <th className="px-6 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Human Review</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {comparison.clauses.map((c, idx) => (
+                  <tr key={idx} className="hover:bg-slate-50/50 transition-colors">
+                    <td className="px-6 py-4 text-xs font-bold text-slate-900">{c.name}</td>
+                    <td className="px-6 py-4">
+                      <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-sm border ${STATUS_STYLES[c.status]}`}>{c.status}</span>
+                    </td>
+                    <td className="px-6 py-4 text-[11px] font-bold mono text-slate-600">
+                      {c.previous?.confidenceScore ?? '—'}% → {c.current?.confidenceScore ?? '—'}%
+                      {c.previous && c.current && (
+                        <span className={`ml-2 ${deltaClass(c.confidenceDelta)}`}>({formatDelta(c.confidenceDelta)})</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      {c.reviewChange === 'newly_flagged' && <span className="text-[10px] font-black text-rose-600 uppercase tracking-wider">Newly Flagged</span>}
+                      {c.reviewChange === 'cleared' && <span className="text-[10px] font-black text-emerald-600 uppercase tracking-wider">Cleared</span>}
+                      {c.reviewChange === 'unchanged' && (
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                          {(c.current || c.previous)?.reviewRequired ? 'Still Required' : 'Clear'}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* SECTION 3: REDLINES */}
+        <div className="mb-10">
+          <div className="flex items-center justify-between border-b border-slate-200 pb-2 mb-6">
+            <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em]">03. Clause Redlines</h3>
+            <button
+              onClick={() => setShowUnchanged(!showUnchanged)}
+              className="no-print text-[9px] font-black text-blue-600 hover:text-blue-800 uppercase tracking-widest"
+            >
+              {showUnchanged ? 'Hide Unchanged' : `Show Unchanged (${comparison.clauses.length - changedClauses.length})`}
+            </button>
+          </div>
+          {visibleClauses.length === 0 ? (
+            <p className="text-[12px] text-slate-400 font-medium">No clause-level changes detected between the drafts.</p>
+          ) : (
+            <div className="space-y-6">
+              {visibleClauses.map((c, idx) => (
+                <div key={idx} className="break-inside-avoid border border-slate-200 rounded-lg p-6">
+                  <div className="flex items-center gap-3 mb-4">
+                    <h4 className="text-sm font-bold text-slate-900">{c.name}</h4>
+                    <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-sm border ${STATUS_STYLES[c.status]}`}>{c.status}</span>
+                    {c.redlineSource === 'summary' && (
+                      <span
+                        className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-sm border bg-amber-50 text-amber-700 border-amber-200"
+                        title="The provision was not located in the source text, so this redline compares the model's summaries, not the agreement wording."
+                      >
+                        Summary only
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-[13px] text-slate-600 leading-relaxed whitespace-pre-wrap">
+                    {c.redline.map((seg, i) => (
+                      seg.type === 'insert' ? <ins key={i} className="bg-emerald-50 text-emerald-800 underline decoration-emerald-400">{seg.text}</ins>
+                        : seg.type === 'delete' ? <del key={i} className="bg-rose-50 text-rose-700 line-through decoration-rose-400">{seg.text}</del>
+                        : <span key={i}>{seg.text}</span>
+                    ))}
+                  </p>
+                  {c.current && c.status !== 'unchanged' && (
+                    <p className="mt-4 text-[11px] italic font-medium text-slate-500 border-t border-slate-100 pt-3">{c.current.reason}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-24 pt-8 border-t border-slate-100 flex justify-between items-center opacity-50">
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Audit Engine: Lifecycle Intelligence v4.5</p>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Internal Use Only</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonReport;
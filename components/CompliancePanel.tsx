@@ -0,0 +1,215 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CovenantTest, DocumentOverview, FinancialCovenant, FinancialPeriod } from '../types';
+import { parseFinancialsFile } from '../services/financialsParser';
+import { METRIC_LABELS, NEAR_BREACH_PCT, buildComplianceCertificate, testCompliance } from '../services/complianceTesting';
+import { formatThreshold } from '../services/covenantModel';
+import { downloadFile } from '../services/exportUtils';
+
+interface CompliancePanelProps {
+  covenants: FinancialCovenant[];
+  overview: DocumentOverview;
+  periods: FinancialPeriod[];
+  onPeriodsChange: (periods: FinancialPeriod[]) => void;
+}
+
+const STATUS_STYLES: Record<CovenantTest['status'], string> = {
+  'compliant': 'bg-emerald-50 text-emerald-700',
+  'near-breach': 'bg-amber-50 text-amber-700',
+  'breach': 'bg-rose-50 text-rose-700',
+  'not-computable': 'bg-slate-50 text-slate-400'
+};
+
+const LINE_COLORS = ['#2563eb', '#0d9488', '#7c3aed', '#ea580c', '#475569', '#db2777'];
+
+const CHART = { width: 640, height: 220, padX: 44, padY: 16 };
+
+const HeadroomChart: React.FC<{ covenants: FinancialCovenant[]; periods: FinancialPeriod[]; tests: CovenantTest[] }> = ({ covenants, periods, tests }) => {
+  const values = tests.map(t => t.headroomPct).filter((v): v is number => v !== undefined);
+  const top = Math.max(50, ...values);
+  const bottom = Math.min(-20, ...values);
+  const x = (i: number) => CHART.padX + (periods.length > 1 ? (i / (periods.length - 1)) * (CHART.width - CHART.padX * 2) : (CHART.width - CHART.padX * 2) / 2);
+  const y = (v: number) => CHART.padY + ((top - v) / (top - bottom)) * (CHART.height - CHART.padY * 2);
+
+  return (
+    <svg viewBox={`0 0 ${CHART.width} ${CHART.height + 20}`} className="w-full h-auto">
+      <line x1={CHART.padX} x2={CHART.width - CHART.padX} y1={y(0)} y2={y(0)} stroke="#e11d48" strokeWidth={1} />
+      <line x1={CHART.padX} x2={CHART.width - CHART.padX} y1={y(NEAR_BREACH_PCT)} y2={y(NEAR_BREACH_PCT)} stroke="#f59e0b" strokeWidth={1} strokeDasharray="4 4" />
+      <text x={CHART.padX - 6} y={y(0) + 3} textAnchor="end" className="fill-rose-600 text-[9px] font-bold">0%</text>
+      <text x={CHART.padX - 6} y={y(NEAR_BREACH_PCT) + 3} textAnchor="end" className="fill-amber-600 text-[9px] font-bold">{NEAR_BREACH_PCT}%</text>
+      <text x={CHART.padX - 6} y={y(top) + 3} textAnchor="end" className="fill-slate-400 text-[9px] font-bold">{Math.round(top)}%</text>
+      {periods.map((p, i) => (
+        <text key={p.periodEnd} x={x(i)} y={CHART.height + 14} textAnchor="middle" className="fill-slate-400 text-[9px] font-bold">{p.periodEnd}</text>
+      ))}
+      {covenants.map((cov, ci) => {
+        const points = periods
+          .map((p, i) => ({ i, test: tests.find(t => t.covenantName === cov.name && t.periodEnd === p.periodEnd) }))
+          .filter(pt => pt.test?.headroomPct !== undefined);
+        const color = LINE_COLORS[ci % LINE_COLORS.length];
+        return (
+          <g key={cov.name}>
+            <polyline
+              fill="none"
+              stroke={color}
+              strokeWidth={2}
+              points={points.map(pt => `${x(pt.i)},${y(pt.test!.headroomPct!)}`).join(' ')}
+            />
+            {points.map(pt => (
+              <circle key={pt.i} cx={x(pt.i)} cy={y(pt.test!.headroomPct!)} r={3.5} fill={pt.test!.status === 'breach' ? '#e11d48' : color} />
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const CompliancePanel: React.FC<CompliancePanelProps> = ({ covenants, overview, periods, onPeriodsChange }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [certificatePeriod, setCertificatePeriod] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const tests = useMemo(() => testCompliance(covenants, periods), [covenants, periods]);
+  const warnings = tests.filter(t => t.status === 'breach' || t.status === 'near-breach');
+  const selectedPeriod = certificatePeriod || periods[periods.length - 1]?.periodEnd;
+  const certificate = selectedPeriod ? buildComplianceCertificate(overview, covenants, tests, selectedPeriod) : '';
+
+  const handleUpload = async (file: File) => {
+    setError(null);
+    setImportWarnings([]);
+    try {
+      const found: string[] = [];
+      const parsed = await parseFinancialsFile(file, message => found.push(message));
+      setImportWarnings(found);
+      onPeriodsChange(parsed);
+      setFileName(file.name);
+      setCertificatePeriod(null);
+    } catch (err: any) {
+      setError(err.message || "Financials could not be read.");
+    }
+  };
+
+  return (
+    <div className="mt-10 border border-slate-200 rounded-xl overflow-hidden">
+      <div className="px-6 py-4 bg-[#f8fafc] border-b border-slate-200 flex items-center justify-between">
+        <div>
+          <p className="text-[11px] font-black text-slate-900 uppercase tracking-[0.15em]">Compliance Testing</p>
+          <p className="text-[11px] text-slate-400 font-medium mt-0.5">
+            {fileName ? `${fileName} • ${periods.length} test periods` : "Upload quarterly financials (CSV or XLSX) with EBITDA, net debt, interest and other inputs."}
+          </p>
+        </div>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="bg-white border border-slate-200 text-slate-700 text-[10px] font-bold px-5 py-2 rounded hover:bg-slate-50 transition-all uppercase tracking-widest shadow-sm"
+        >
+          {fileName ? 'Replace Financials' : 'Upload Financials'}
+        </button>
+        <input
+          type="file"
+          ref={inputRef}
+          className="hidden"
+          accept=".csv,.xlsx,.xls,text/csv"
+          onChange={(e) => { const file = e.target.files?.[0]; if (file) handleUpload(file); e.target.value = ''; }}
+        />
+      </div>
+
+      {error && <p className="px-6 py-3 text-[12px] font-semibold text-rose-600 border-b border-slate-100">{error}</p>}
+      {importWarnings.map((w, i) => (
+        <p key={i} className="px-6 py-2 text-[11px] font-semibold text-amber-700 bg-amber-50 border-b border-amber-100">{w}</p>
+      ))}
+
+      {periods.length > 0 && (
+        <div className="p-6 space-y-8">
+          {warnings.length > 0 && (
+            <div className="space-y-2">
+              {warnings.map((w, i) => (
+                <div key={i} className={`px-4 py-2 rounded border text-[11px] font-bold ${w.status === 'breach' ? 'bg-rose-50 border-rose-200 text-rose-700' : 'bg-amber-50 border-amber-200 text-amber-700'}`}>
+                  {w.status === 'breach' ? 'Breach' : 'Near Breach'} • {w.covenantName} at {w.periodEnd}: {w.actual !== undefined ? `${w.actual.toFixed(2)} against limit ${w.threshold} (${w.headroomPct!.toFixed(1)}% headroom)` : w.note}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-slate-50 border-b border-slate-200">
+                  <th className="px-4 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Covenant</th>
+                  {periods.map(p => (
+                    <th key={p.periodEnd} className="px-4 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right mono">{p.periodEnd}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {covenants.map((cov, ci) => (
+                  <tr key={cov.name}>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <span className="w-2.5 h-2.5 rounded-sm shrink-0" style={{ backgroundColor: LINE_COLORS[ci % LINE_COLORS.length] }} />
+                        <span className="text-[12px] font-bold text-slate-900">{cov.name}</span>
+                      </div>
+                      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{cov.direction}</span>
+                    </td>
+                    {periods.map(p => {
+                      const test = tests.find(t => t.covenantName === cov.name && t.periodEnd === p.periodEnd)!;
+                      return (
+                        <td key={p.periodEnd} className={`px-4 py-3 text-right ${STATUS_STYLES[test.status]}`}>
+                          {test.actual !== undefined ? (
+                            <>
+                              <p className="text-[12px] font-black mono">{formatThreshold(Number(test.actual.toFixed(2)), cov.unit)}</p>
+                              <p className="text-[9px] font-bold mono">lim {formatThreshold(test.threshold, cov.unit)} • {test.headroomPct!.toFixed(1)}%</p>
+                            </>
+                          ) : (
+                            test.note ? (
+                              <p className="text-[10px] font-bold" title={test.note}>{test.status === 'breach' ? 'Breach: no ratio' : 'No ratio'}</p>
+                            ) : (
+                              <p className="text-[10px] font-bold" title={test.missing?.length ? `Missing ${test.missing.map(m => METRIC_LABELS[m]).join(', ')}` : 'No formula for this covenant type'}>
+                                {test.missing?.length ? `No ${test.missing.map(m => METRIC_LABELS[m]).join(' / ')}` : 'Manual test'}
+                              </p>
+                            )
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-3">Headroom Trend (% of limit)</p>
+            <HeadroomChart covenants={covenants} periods={periods} tests={tests} />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-3">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Draft Compliance Certificate</p>
+                <select
+                  value={selectedPeriod}
+                  onChange={(e) => setCertificatePeriod(e.target.value)}
+                  className="px-2 py-1 bg-white border border-slate-200 rounded text-[11px] font-bold mono focus:outline-none focus:border-blue-400"
+                >
+                  {periods.map(p => <option key={p.periodEnd} value={p.periodEnd}>{p.periodEnd}</option>)}
+                </select>
+              </div>
+              <button
+                onClick={() => downloadFile(certificate, `COMPLIANCE_CERTIFICATE_DRAFT_${selectedPeriod}.txt`, 'text/plain;charset=utf-8;')}
+                className="text-[10px] font-bold text-slate-700 uppercase tracking-[0.15em] px-3 py-1.5 bg-white border border-slate-200 rounded shadow-sm hover:bg-slate-50"
+              >
+                Download Draft
+              </button>
+            </div>
+            <pre className="whitespace-pre-wrap font-mono text-[11px] text-slate-600 leading-[1.7] bg-slate-50 border border-slate-200 rounded-lg p-5 max-h-80 overflow-y-auto custom-scrollbar">
+              {certificate}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompliancePanel;
@@ -0,0 +1,166 @@
+import React from 'react';
+import { CovenantInput, FinancialCovenant } from '../types';
+import {
+  RATIO_LABELS,
+  calculateHeadroom,
+  covenantTestDates,
+  formatThreshold,
+  nextTestDate,
+  thresholdOn
+} from '../services/covenantModel';
+
+interface CovenantCalculatorProps {
+  covenants: FinancialCovenant[];
+  // Keyed by covenant name so the values survive re-ordering on re-analysis.
+  inputs: Record<string, CovenantInput>;
+  onInputsChange: (inputs: Record<string, CovenantInput>) => void;
+}
+
+const CovenantCalculator: React.FC<CovenantCalculatorProps> = ({ covenants, inputs, onInputsChange }) => {
+  const update = (name: string, patch: Partial<CovenantInput>) =>
+    onInputsChange({ ...inputs, [name]: { actual: '', ...inputs[name], ...patch } });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+      {covenants.map((cov, idx) => {
+        const values = inputs[cov.name] || { actual: '' };
+        const dates = covenantTestDates(cov);
+        const testDate = values.testDate || nextTestDate(dates);
+        const scheduled = testDate ? thresholdOn(cov, testDate) : cov.threshold;
+        // A typed limit overrides the schedule, e.g. after a waiver or reset.
+        const limitText = values.limit ?? String(scheduled);
+        const limit = parseFloat(limitText);
+        const actual = parseFloat(values.actual);
+        const calculation = isNaN(limit) || isNaN(actual) ? null : calculateHeadroom(cov.direction, limit, actual);
+
+        return (
+          <div key={idx} className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm hover:shadow-md transition-shadow">
+            <div className="flex items-start justify-between gap-3 mb-5">
+              <div className="flex items-center gap-3">
+                <div className="w-8 h-8 rounded bg-blue-50 text-blue-600 flex items-center justify-center shrink-0">
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>
+                </div>
+                <div>
+                  <h4 className="text-sm font-bold text-slate-900">{cov.name}</h4>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {RATIO_LABELS[cov.ratioType]}{cov.testFrequency ? ` • Tested ${cov.testFrequency}` : ''}{cov.pageReference ? ` • p. ${cov.pageReference}` : ''}
+                  </p>
+                </div>
+              </div>
+              <span className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-sm border bg-slate-50 text-slate-600 border-slate-200 shrink-0">
+                {cov.direction === 'max' ? 'Max' : 'Min'} {formatThreshold(cov.threshold, cov.unit)}
+              </span>
+            </div>
+
+            <p className="text-[11px] text-slate-500 font-medium leading-relaxed mb-5">
+              <span className="font-bold text-slate-700">{cov.numerator}</span>
+              {cov.denominator && <> to <span className="font-bold text-slate-700">{cov.denominator}</span></>}
+            </p>
+
+            {cov.steps.length > 0 && (
+              <div className="mb-5 border border-slate-100 rounded overflow-hidden">
+                <table className="w-full text-left">
+                  <tbody className="divide-y divide-slate-100">
+                    {cov.steps.map((step, i) => {
+                      const active = !!testDate && step.periodStart <= testDate && (!step.periodEnd || testDate <= step.periodEnd);
+                      return (
+                        <tr key={i} className={active ? 'bg-blue-50/60' : ''}>
+                          <td className="px-3 py-1.5 text-[10px] font-bold text-slate-500 mono">
+                            {step.periodStart} – {step.periodEnd || 'onwards'}
+                          </td>
+                          <td className={`px-3 py-1.5 text-[11px] font-black text-right mono ${active ? 'text-blue-700' : 'text-slate-700'}`}>
+                            {formatThreshold(step.threshold, cov.unit)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="space-y-4 mb-6">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1.5">Test Date</label>
+                  {dates.length > 0 ? (
+                    <select
+                      className="w-full px-2 py-2 bg-slate-50 border border-slate-200 rounded text-[12px] font-bold mono focus:outline-none focus:border-blue-500"
+                      value={testDate}
+                      onChange={(e) => update(cov.name, { testDate: e.target.value, limit: undefined })}
+                    >
+                      {dates.map(d => <option key={d} value={d}>{d}</option>)}
+                    </select>
+                  ) : (
+                    <input
+                      type="date"
+                      className="w-full px-2 py-2 bg-slate-50 border border-slate-200 rounded text-[12px] font-bold mono focus:outline-none focus:border-blue-500"
+                      value={testDate || ''}
+                      onChange={(e) => update(cov.name, { testDate: e.target.value || undefined, limit: undefined })}
+                    />
+                  )}
+                </div>
+                <div>
+                  <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1.5">
+                    {cov.direction === 'max' ? 'Max' : 'Min'} Limit
+                  </label>
+                  <input
+                    type="text"
+                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded text-sm font-bold focus:outline-none focus:border-blue-500"
+                    value={limitText}
+                    onChange={(e) => update(cov.name, { limit: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1.5">Current Actual</label>
+                  <input
+                    type="text"
+                    placeholder={cov.unit === 'x' ? 'e.g. 2.1' : ''}
+                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded text-sm font-bold focus:outline-none focus:border-blue-500"
+                    value={values.actual}
+                    onChange={(e) => update(cov.name, { actual: e.target.value })}
+                  />
+                </div>
+              </div>
+              {values.limit !== undefined && parseFloat(values.limit) !== scheduled && (
+                <p className="text-[10px] font-bold text-amber-600 uppercase tracking-widest">
+                  Overriding scheduled limit of {formatThreshold(scheduled, cov.unit)}
+                </p>
+              )}
+            </div>
+
+            {calculation ? (
+              <div className={`p-4 rounded-lg border ${calculation.isCompliant ? 'bg-emerald-50 border-emerald-100' : 'bg-rose-50 border-rose-100'}`}>
+                <div className="flex justify-between items-end mb-2">
+                  <span className={`text-[10px] font-black uppercase tracking-widest ${calculation.isCompliant ? 'text-emerald-700' : 'text-rose-700'}`}>
+                    {calculation.isCompliant ? 'Compliant' : 'Breach Risk'}
+                  </span>
+                  <span className={`text-lg font-black tracking-tight ${calculation.isCompliant ? 'text-emerald-900' : 'text-rose-900'}`}>
+                    {calculation.percentage.toFixed(1)}% Slack
+                  </span>
+                </div>
+                <div className="w-full h-2 bg-white/50 rounded-full overflow-hidden mb-2">
+                  <div
+                    className={`h-full transition-all duration-500 ${calculation.isCompliant ? 'bg-emerald-500' : 'bg-rose-500'}`}
+                    style={{ width: `${Math.min(100, Math.max(0, calculation.percentage))}%` }}
+                  />
+                </div>
+                <p className={`text-[10px] font-medium leading-relaxed ${calculation.isCompliant ? 'text-emerald-700' : 'text-rose-700'}`}>
+                  {calculation.isCompliant
+                    ? `Deal has ${calculation.headroom.toFixed(2)} units of headroom before hitting the ${cov.direction} limit${testDate ? ` applicable on ${testDate}` : ''}.`
+                    : `Projected breach detected. Currently ${Math.abs(calculation.headroom).toFixed(2)} units beyond the threshold.`}
+                </p>
+              </div>
+            ) : (
+              <div className="p-4 bg-slate-50 rounded-lg border border-slate-100 text-center">
+                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Enter the tested figure to calculate slack</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CovenantCalculator;
@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, ChatMessage } from '../types';
+import { askAgreement } from '../services/geminiService';
+import { redactionFor } from '../services/redaction';
+import { formatChatCitation, newChatId } from '../services/documentChat';
+
+interface DocumentChatPanelProps {
+  result: AnalysisResult;
+  messages: ChatMessage[];
+  notedIds: Set<string>;
+  onMessagesChange: (messages: ChatMessage[]) => void;
+  onAddNote: (clauseName: string, message: ChatMessage) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = [
+  "What is the cure period for a cross-default?",
+  "Can the borrower assign without lender consent?",
+  "Which events trigger mandatory prepayment?"
+];
+
+const DocumentChatPanel: React.FC<DocumentChatPanelProps> = ({ result, messages, notedIds, onMessagesChange, onAddNote, onClose }) => {
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [noteTargets, setNoteTargets] = useState<Record<string, string>>({});
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [messages.length, isAsking]);
+
+  const handleAsk = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isAsking) return;
+    const asked: ChatMessage = { id: newChatId(), role: 'analyst', text: trimmed, createdAt: new Date().toISOString() };
+    const thread = [...messages, asked];
+    onMessagesChange(thread);
+    setQuestion('');
+    setError(null);
+    setIsAsking(true);
+    try {
+      const answer = await askAgreement(trimmed, result, messages, redactionFor(result.rawText || ''));
+      onMessagesChange([...thread, answer]);
+    } catch (err: any) {
+      console.error("Document Q&A failed:", err);
+      setError(err.message || "The question could not be answered.");
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-6 right-6 w-[460px] h-[72vh] bg-white border border-slate-200 rounded-xl shadow-2xl flex flex-col z-20 no-print">
+      <div className="px-5 py-3 bg-[#f8fafc] border-b border-slate-200 flex items-center justify-between shrink-0 rounded-t-xl">
+        <div>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-[0.2em]">Ask the Agreement</p>
+          <p className="text-[11px] font-medium text-slate-500">Answers come only from the uploaded document and cite their source.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {messages.length > 0 && (
+            <button onClick={() => onMessagesChange([])} className="text-[10px] font-bold text-slate-400 hover:text-rose-600 uppercase tracking-widest">Clear</button>
+          )}
+          <button
+            onClick={onClose}
+            className="text-[10px] font-bold text-slate-500 hover:text-slate-900 uppercase tracking-widest px-3 py-1 bg-white border border-slate-200 rounded shadow-sm"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-4">
+        {messages.length === 0 && (
+          <div className="space-y-2">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-3">Try asking</p>
+            {SUGGESTIONS.map(s => (
+              <button
+                key={s}
+                onClick={() => handleAsk(s)}
+                className="block w-full text-left text-[12px] font-medium text-slate-600 bg-slate-50 hover:bg-blue-50 hover:text-blue-700 border border-slate-200 rounded-lg px-4 py-2.5 transition-colors"
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {messages.map(message => message.role === 'analyst' ? (
+          <div key={message.id} className="flex justify-end">
+            <p className="max-w-[85%] bg-slate-900 text-white text-[12px] font-medium rounded-lg rounded-br-sm px-4 py-2.5 leading-relaxed">{message.text}</p>
+          </div>
+        ) : (
+          <div key={message.id} className={`border rounded-lg rounded-bl-sm p-4 ${message.answered ? 'bg-white border-slate-200' : 'bg-amber-50 border-amber-200'}`}>
+            {!message.answered && (
+              <p className="text-[9px] font-black text-amber-700 uppercase tracking-widest mb-1.5">Not answered by the document</p>
+            )}
+            <p className="text-[12px] text-slate-700 font-medium leading-relaxed whitespace-pre-wrap">{message.text}</p>
+            {message.citations && message.citations.length > 0 && (
+              <div className="mt-3 space-y-2">
+                {message.citations.map((citation, i) => (
+                  <div key={i} className="border-l-2 border-blue-300 pl-3">
+                    <p className="text-[11px] text-slate-500 italic leading-relaxed">"{citation.quote}"</p>
+                    <p className="text-[9px] font-bold text-slate-400 mono mt-1">
+                      {formatChatCitation(citation) || 'Location unknown'}
+                      {citation.status === 'approximate' && <span className="text-orange-600"> • Approx. match</span>}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+            {message.answered && (
+              <div className="mt-3 pt-3 border-t border-slate-100 flex items-center justify-end gap-2">
+                {notedIds.has(message.id) ? (
+                  <span className="text-[9px] font-black text-emerald-600 uppercase tracking-widest">Added to clause notes</span>
+                ) : (
+                  <>
+                    <select
+                      className="text-[10px] font-bold text-slate-600 bg-slate-50 border border-slate-200 rounded px-2 py-1 max-w-[220px]"
+                      value={noteTargets[message.id] ?? message.clauseName ?? ''}
+                      onChange={(e) => setNoteTargets(prev => ({ ...prev, [message.id]: e.target.value }))}
+                    >
+                      <option value="">Choose clause…</option>
+                      {result.confidenceAnalysis.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                    </select>
+                    <button
+                      onClick={() => onAddNote(noteTargets[message.id] ?? message.clauseName ?? '', message)}
+                      disabled={!(noteTargets[message.id] ?? message.clauseName)}
+                      className="text-[9px] font-black text-blue-600 hover:text-blue-800 uppercase tracking-widest disabled:opacity-30"
+                    >
+                      Add as Note
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {isAsking && (
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest animate-pulse">Searching the agreement…</p>
+        )}
+        {error && (
+          <p className="text-[11px] font-bold text-rose-600">{error}</p>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); handleAsk(question); }}
+        className="p-4 border-t border-slate-200 flex gap-2 shrink-0"
+      >
+        <input
+          className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded text-[12px] font-medium focus:outline-none focus:border-blue-500"
+          placeholder="Ask about this agreement…"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          disabled={isAsking}
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !question.trim()}
+          className="bg-slate-900 text-white text-[10px] font-bold px-5 py-2 rounded hover:bg-black transition-all uppercase tracking-widest disabled:opacity-50"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default DocumentChatPanel;
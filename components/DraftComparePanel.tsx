@@ -0,0 +1,89 @@
+import React, { useRef, useState } from 'react';
+import { ParsedDocument } from '../types';
+import { parseDocument } from '../services/documentParser';
+
+interface DraftComparePanelProps {
+  isLoading: boolean;
+  status: string | null;
+  onCompare: (previous: ParsedDocument, current: ParsedDocument) => void;
+  onError: (message: string) => void;
+}
+
+type Slot = 'previous' | 'current';
+
+const SLOT_LABELS: Record<Slot, { title: string; hint: string }> = {
+  previous: { title: 'Prior Draft', hint: 'Last turn received or sent' },
+  current: { title: 'Current Draft', hint: 'Latest mark-up under review' }
+};
+
+const DraftComparePanel: React.FC<DraftComparePanelProps> = ({ isLoading, status, onCompare, onError }) => {
+  const [drafts, setDrafts] = useState<Record<Slot, ParsedDocument | null>>({ previous: null, current: null });
+  const [parsing, setParsing] = useState<Slot | null>(null);
+  const inputRefs = { previous: useRef<HTMLInputElement>(null), current: useRef<HTMLInputElement>(null) };
+
+  const loadDraft = async (slot: Slot, file: File) => {
+    setParsing(slot);
+    try {
+      const parsed = await parseDocument(file);
+      setDrafts(prev => ({ ...prev, [slot]: parsed }));
+    } catch (err: any) {
+      onError(err.message || "Document processing failed. Please ensure the file is not encrypted.");
+    } finally {
+      setParsing(null);
+    }
+  };
+
+  return (
+    <div className="bg-[#f8fafc] border border-slate-200 rounded-xl p-3 shadow-sm">
+      <div className="grid grid-cols-2 gap-3">
+        {(['previous', 'current'] as Slot[]).map(slot => {
+          const draft = drafts[slot];
+          return (
+            <div
+              key={slot}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => { e.preventDefault(); const file = e.dataTransfer.files?.[0]; if (file) loadDraft(slot, file); }}
+              onClick={() => inputRefs[slot].current?.click()}
+              className={`bg-white border rounded-lg p-12 text-center cursor-pointer transition-all ${draft ? 'border-emerald-300' : 'border-slate-200 hover:border-slate-300 shadow-sm'}`}
+            >
+              <p className="text-[10px] font-black text-[#94a3b8] uppercase tracking-[0.2em] mb-3">{SLOT_LABELS[slot].title}</p>
+              {parsing === slot ? (
+                <p className="text-[13px] font-bold text-[#0f172a]">Reading document...</p>
+              ) : draft ? (
+                <>
+                  <p className="text-[14px] font-bold text-[#0f172a] truncate">{draft.fileName}</p>
+                  <p className="text-[11px] text-[#94a3b8] font-medium mt-1">
+                    {draft.pages.length > 0 ? `${draft.pages.length} pages • ` : ''}{draft.text.length.toLocaleString()} characters
+                  </p>
+                </>
+              ) : (
+                <>
+                  <p className="text-[14px] font-bold text-[#0f172a] mb-1">Upload {SLOT_LABELS[slot].title}</p>
+                  <p className="text-[12px] text-[#94a3b8] font-medium">{SLOT_LABELS[slot].hint}</p>
+                </>
+              )}
+              <input
+                type="file"
+                ref={inputRefs[slot]}
+                className="hidden"
+                accept=".pdf,.docx,.txt,.md,.tif,.tiff,.png,.jpg,.jpeg,application/pdf,text/plain,image/*"
+                onChange={(e) => { const file = e.target.files?.[0]; if (file) loadDraft(slot, file); }}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-3 flex justify-end">
+        <button
+          onClick={() => drafts.previous && drafts.current && onCompare(drafts.previous, drafts.current)}
+          disabled={isLoading || !drafts.previous || !drafts.current}
+          className={`px-10 py-4 rounded-lg font-black text-[11px] uppercase tracking-[0.2em] transition-all shadow-lg ${isLoading || !drafts.previous || !drafts.current ? 'bg-[#f1f5f9] text-[#94a3b8] shadow-none' : 'bg-[#2563eb] text-white hover:bg-[#1d4ed8] shadow-blue-200'}`}
+        >
+          {isLoading ? (status || "Processing Engine...") : "Compare Drafts"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DraftComparePanel;
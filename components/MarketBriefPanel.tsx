@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { MarketBrief } from '../types';
+import { BriefOrigin, briefKey, facilityQuery, getMarketBrief, listSavedBriefs } from '../services/marketIntelligence';
+
+interface MarketBriefPanelProps {
+  facilityType: string;
+  brief?: MarketBrief;
+  pinned: MarketBrief[];
+  onBriefChange: (brief: MarketBrief) => void;
+  onPinnedChange: (pinned: MarketBrief[]) => void;
+}
+
+const formatRetrieved = (fetchedAt: string) =>
+  new Date(fetchedAt).toLocaleString([], { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SourceLinks: React.FC<{ sources: MarketBrief['sources'] }> = ({ sources }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+    {sources.map((source, i) => (
+      <a
+        key={i}
+        href={source.uri}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-3 p-3 bg-white border border-slate-200 rounded-lg hover:border-blue-300 hover:bg-blue-50/30 transition-all group"
+      >
+        <div className="w-8 h-8 rounded bg-slate-100 flex items-center justify-center shrink-0 group-hover:bg-blue-100">
+          <svg className="w-4 h-4 text-slate-400 group-hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
+        </div>
+        <span className="text-[11px] font-bold text-slate-700 truncate group-hover:text-blue-600">{source.title}</span>
+      </a>
+    ))}
+  </div>
+);
+
+// Section 08: the facility brief plus briefs pinned to this audit. Pinned briefs keep their
+// sources and retrieval time, travel with the audit file and appear in the memorandum.
+const MarketBriefPanel: React.FC<MarketBriefPanelProps> = ({ facilityType, brief, pinned, onBriefChange, onPinnedChange }) => {
+  const [isFetching, setIsFetching] = useState(false);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [origin, setOrigin] = useState<BriefOrigin | null>(null);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [savedBriefs, setSavedBriefs] = useState<MarketBrief[]>([]);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  const pinnedKeys = new Set(pinned.map(briefKey));
+
+  // The first fetch may come from the cache; Refresh always asks for a live brief.
+  const handleFetch = async () => {
+    setIsFetching(true);
+    setFetchError(null);
+    try {
+      const lookup = await getMarketBrief(facilityQuery(facilityType), { refresh: !!brief });
+      onBriefChange(lookup.brief);
+      setOrigin(lookup.origin);
+      setIsCollapsed(false);
+    } catch (error: any) {
+      console.error("Error fetching market intelligence:", error);
+      setFetchError(error.message || "Market intelligence is unavailable.");
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const pin = (target: MarketBrief) => {
+    if (!pinnedKeys.has(briefKey(target))) onPinnedChange([...pinned, target]);
+    setIsPickerOpen(false);
+  };
+
+  const openPicker = () => {
+    setSavedBriefs(listSavedBriefs());
+    setIsPickerOpen(!isPickerOpen);
+  };
+
+  const pickable = savedBriefs.filter(b => !pinnedKeys.has(briefKey(b)));
+
+  return (
+    <div className="mt-16 pt-10 border-t border-slate-200 no-print">
+      <div className="flex items-center justify-between mb-8">
+        <h3 className="text-xs font-bold text-slate-900 uppercase tracking-[0.2em]">08. Real-Time Market Intelligence</h3>
+        <div className="flex items-center gap-2 relative">
+          <button
+            onClick={openPicker}
+            className="bg-white border border-slate-200 text-slate-600 text-[10px] font-black px-4 py-2 rounded uppercase tracking-widest hover:border-blue-300 hover:text-blue-700 transition-all"
+          >
+            Pin Saved Brief
+          </button>
+          {isPickerOpen && (
+            <div className="absolute right-0 top-10 z-20 w-80 bg-white border border-slate-200 rounded-lg shadow-xl p-2">
+              {pickable.length === 0 ? (
+                <p className="text-[11px] text-slate-400 p-3">No saved briefs to pin. Save briefs from the Market Pulse panel on the start page.</p>
+              ) : pickable.map(saved => (
+                <button key={briefKey(saved)} onClick={() => pin(saved)} className="w-full text-left p-2.5 rounded hover:bg-slate-50">
+                  <span className="block text-[11px] font-bold text-slate-700 truncate">{saved.query || 'Market brief'}</span>
+                  <span className="block text-[9px] font-bold text-slate-400 uppercase">Retrieved {formatRetrieved(saved.fetchedAt)} • {saved.sources.length} sources</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={handleFetch}
+            disabled={isFetching}
+            className="bg-blue-600 text-white text-[10px] font-black px-4 py-2 rounded uppercase tracking-widest hover:bg-blue-700 transition-all shadow-md flex items-center gap-2 disabled:opacity-50"
+          >
+            {isFetching ? (
+              <svg className="animate-spin h-3.5 w-3.5 text-white" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+            ) : (
+              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+            )}
+            {brief ? "Refresh Trends" : "Fetch Latest Market News"}
+          </button>
+        </div>
+      </div>
+
+      {fetchError && (
+        <p className="mb-4 text-[12px] font-semibold text-rose-600">{fetchError}</p>
+      )}
+
+      {brief && (
+        <div className="bg-slate-50 border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+          <button
+            onClick={() => setIsCollapsed(!isCollapsed)}
+            className="w-full px-6 py-4 flex items-center justify-between hover:bg-slate-100/50 transition-colors"
+          >
+            <span className="text-[11px] font-bold text-slate-500 uppercase tracking-widest">
+              {brief.query || 'Syndicated Loan Trends'} • Fetched {formatRetrieved(brief.fetchedAt)}
+              {origin === 'cache' && ' • Cached'}
+              {origin === 'snapshot' && ' • Offline snapshot'}
+            </span>
+            <svg className={`w-4 h-4 text-slate-400 transform transition-transform ${isCollapsed ? '' : 'rotate-180'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+          </button>
+
+          {!isCollapsed && (
+            <div className="px-6 pb-6 animate-fade-in">
+              <div className="prose prose-sm max-w-none text-slate-700 font-medium leading-relaxed mb-6 bg-white p-5 rounded border border-slate-100 shadow-inner">
+                {brief.summary.split('\n').map((para, i) => (
+                  <p key={i} className="mb-3 last:mb-0">{para}</p>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between mb-3">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Intelligence Sources</p>
+                  <button
+                    onClick={() => pin(brief)}
+                    disabled={pinnedKeys.has(briefKey(brief))}
+                    className="text-[10px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-800 disabled:text-slate-400"
+                  >
+                    {pinnedKeys.has(briefKey(brief)) ? 'Pinned to Audit' : 'Pin to Audit'}
+                  </button>
+                </div>
+                <SourceLinks sources={brief.sources} />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {pinned.length > 0 && (
+        <div className="mt-8 space-y-4">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Pinned Briefs ({pinned.length})</p>
+          {pinned.map(item => (
+            <div key={briefKey(item)} className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm">
+              <div className="flex items-start justify-between gap-4 mb-3">
+                <div>
+                  <p className="text-[12px] font-bold text-slate-800">{item.query || 'Market brief'}</p>
+                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Retrieved {formatRetrieved(item.fetchedAt)}</p>
+                </div>
+                <button
+                  onClick={() => onPinnedChange(pinned.filter(p => briefKey(p) !== briefKey(item)))}
+                  className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-600"
+                >
+                  Unpin
+                </button>
+              </div>
+              <div className="text-[12px] text-slate-600 leading-relaxed mb-4">
+                {item.summary.split('\n').filter(p => p.trim()).slice(0, 4).map((para, i) => (
+                  <p key={i} className="mb-2 last:mb-0">{para}</p>
+                ))}
+              </div>
+              {item.sources.length > 0 && <SourceLinks sources={item.sources} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarketBriefPanel;
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { MarketBrief } from '../types';
+import {
+  BriefOrigin,
+  DEFAULT_MARKET_QUERY,
+  briefKey,
+  getMarketBrief,
+  getWatchQueries,
+  listSavedBriefs,
+  removeSavedBrief,
+  saveBrief,
+  saveWatchQueries
+} from '../services/marketIntelligence';
+
+const ORIGIN_LABELS: Record<BriefOrigin | 'saved', { label: string; style: string }> = {
+  live: { label: 'Live', style: 'text-emerald-700 bg-emerald-50 border-emerald-200' },
+  cache: { label: 'Cached', style: 'text-slate-500 bg-slate-50 border-slate-200' },
+  snapshot: { label: 'Offline Snapshot', style: 'text-amber-700 bg-amber-50 border-amber-200' },
+  saved: { label: 'Saved', style: 'text-blue-700 bg-blue-50 border-blue-200' }
+};
+
+const formatRetrieved = (fetchedAt: string) =>
+  new Date(fetchedAt).toLocaleString([], { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const MarketPulsePanel: React.FC = () => {
+  const [current, setCurrent] = useState<{ brief: MarketBrief; origin: BriefOrigin | 'saved' } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [watchQueries, setWatchQueries] = useState<string[]>(getWatchQueries);
+  const [savedBriefs, setSavedBriefs] = useState<MarketBrief[]>(listSavedBriefs);
+  const [isSavedOpen, setIsSavedOpen] = useState(false);
+
+  useEffect(() => {
+    load(DEFAULT_MARKET_QUERY);
+  }, []);
+
+  const load = async (query: string, refresh = false) => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setCurrent(await getMarketBrief(query, { refresh }));
+    } catch (err: any) {
+      console.error("Failed to fetch market pulse", err);
+      setLoadError(err.message || "Market intelligence is unavailable.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const activeQuery = current?.brief.query || DEFAULT_MARKET_QUERY;
+  const watchIndex = watchQueries.findIndex(q => q.toLowerCase() === activeQuery.toLowerCase());
+  const isSaved = !!current && savedBriefs.some(b => briefKey(b) === briefKey(current.brief));
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (searchInput.trim()) load(searchInput.trim());
+  };
+
+  const cycleWatch = (step: number) => {
+    if (watchQueries.length === 0) return;
+    const next = watchIndex < 0 ? (step > 0 ? 0 : watchQueries.length - 1) : (watchIndex + step + watchQueries.length) % watchQueries.length;
+    load(watchQueries[next]);
+  };
+
+  const handleWatch = () => {
+    const query = searchInput.trim() || activeQuery;
+    setWatchQueries(saveWatchQueries([...watchQueries, query]));
+    setSearchInput('');
+  };
+
+  const handleUnwatch = (query: string) => setWatchQueries(saveWatchQueries(watchQueries.filter(q => q !== query)));
+
+  return (
+    <aside className="w-full lg:w-96 shrink-0">
+      <div className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden sticky top-24">
+        <div className="px-5 py-4 border-b border-slate-100 bg-[#f8fafc] flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
+            <span className="text-[10px] font-black text-[#0f172a] uppercase tracking-widest">Market Pulse</span>
+          </div>
+          {current && !isLoading && (
+            <div className="flex items-center gap-2">
+              <span className={`text-[8px] font-black uppercase tracking-widest px-1.5 py-0.5 rounded border ${ORIGIN_LABELS[current.origin].style}`}>
+                {ORIGIN_LABELS[current.origin].label}
+              </span>
+              <span className="text-[9px] font-bold text-slate-400 uppercase">{formatRetrieved(current.brief.fetchedAt)}</span>
+              <button
+                onClick={() => load(activeQuery, true)}
+                title="Fetch a live brief for this query"
+                className="text-slate-400 hover:text-blue-600 transition-colors"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+              </button>
+            </div>
+          )}
+          {isLoading && (
+            <svg className="animate-spin h-3.5 w-3.5 text-blue-500" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+          )}
+        </div>
+
+        {/* Intelligence Search Bar */}
+        <div className="p-4 bg-white border-b border-slate-50 space-y-3">
+          <form onSubmit={handleSearch} className="relative group">
+            <input
+              type="text"
+              placeholder="Search specific trends (e.g. ESG, SOFR)..."
+              className="w-full pl-9 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-[12px] font-medium text-slate-700 focus:outline-none focus:border-blue-400 focus:bg-white transition-all"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+            <svg className="absolute left-3 top-2.5 w-4 h-4 text-slate-400 group-focus-within:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+          </form>
+
+          {/* Watch queries: saved searches the panel cycles through */}
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] font-black text-slate-400 uppercase tracking-[0.15em]">Watching</span>
+            <div className="flex items-center gap-1">
+              <button onClick={() => cycleWatch(-1)} disabled={isLoading || watchQueries.length === 0} title="Previous watch query" className="w-5 h-5 rounded border border-slate-200 text-slate-400 hover:text-blue-600 hover:border-blue-200 disabled:opacity-40 flex items-center justify-center">
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+              </button>
+              <button onClick={() => cycleWatch(1)} disabled={isLoading || watchQueries.length === 0} title="Next watch query" className="w-5 h-5 rounded border border-slate-200 text-slate-400 hover:text-blue-600 hover:border-blue-200 disabled:opacity-40 flex items-center justify-center">
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+              </button>
+              <button onClick={handleWatch} title="Watch the search or current query" className="text-[9px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-800 px-1.5">
+                + Watch
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {watchQueries.map((query, i) => (
+              <span
+                key={query}
+                className={`group/chip inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full border text-[10px] font-bold transition-all ${i === watchIndex ? 'bg-blue-600 border-blue-600 text-white' : 'bg-slate-50 border-slate-200 text-slate-600 hover:border-blue-200'}`}
+              >
+                <button onClick={() => load(query)} disabled={isLoading}>{query}</button>
+                <button onClick={() => handleUnwatch(query)} title="Stop watching" className={`px-0.5 ${i === watchIndex ? 'text-blue-200 hover:text-white' : 'text-slate-300 hover:text-rose-500'}`}>×</button>
+              </span>
+            ))}
+            {watchQueries.length === 0 && <span className="text-[10px] text-slate-300">No watch queries. Search, then + Watch.</span>}
+          </div>
+        </div>
+
+        <div className="p-5 max-h-[500px] overflow-y-auto custom-scrollbar bg-white">
+          {isLoading ? (
+            <div className="space-y-5">
+              <div className="space-y-2">
+                <div className="h-3 bg-slate-100 rounded animate-pulse w-3/4" />
+                <div className="h-3 bg-slate-100 rounded animate-pulse w-full" />
+                <div className="h-3 bg-slate-100 rounded animate-pulse w-5/6" />
+              </div>
+              <div className="h-20 bg-slate-50 rounded border border-slate-100 animate-pulse" />
+            </div>
+          ) : current ? (
+            <div className="space-y-6">
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{activeQuery}</p>
+              <div className="prose prose-sm text-[12.5px] text-slate-600 font-medium leading-relaxed">
+                {current.brief.summary.split('\n').filter(p => p.trim()).slice(0, 6).map((para, i) => (
+                  <p key={i} className="mb-3 last:mb-0 border-l-2 border-slate-100 pl-4">{para}</p>
+                ))}
+              </div>
+
+              {current.brief.sources.length > 0 && (
+                <div className="space-y-3 pt-4 border-t border-slate-50">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-[0.15em]">Primary Intelligence Nodes</p>
+                  <div className="space-y-2">
+                    {current.brief.sources.slice(0, 4).map((source, i) => (
+                      <a
+                        key={i}
+                        href={source.uri}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-start gap-3 p-2.5 bg-slate-50/50 rounded-lg border border-transparent hover:border-blue-100 hover:bg-blue-50/30 transition-all group"
+                      >
+                        <div className="w-5 h-5 rounded bg-white border border-slate-200 flex items-center justify-center shrink-0 group-hover:border-blue-200">
+                          <svg className="w-2.5 h-2.5 text-slate-400 group-hover:text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
+                        </div>
+                        <span className="text-[11px] font-bold text-slate-600 truncate leading-tight group-hover:text-blue-700">{source.title}</span>
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <button
+                onClick={() => setSavedBriefs(saveBrief(current.brief))}
+                disabled={isSaved}
+                className="w-full py-2 rounded-lg border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-600 hover:border-blue-300 hover:text-blue-700 transition-all disabled:opacity-50 disabled:hover:border-slate-200 disabled:hover:text-slate-600"
+              >
+                {isSaved ? 'Brief Saved' : 'Save Brief'}
+              </button>
+            </div>
+          ) : (
+            <div className="text-center py-10">
+              <p className="text-[11px] text-slate-400 font-bold uppercase tracking-widest">No Intelligence Data</p>
+              <p className="text-[10px] text-slate-300 mt-1">{loadError || 'Refresh to load market pulse.'}</p>
+            </div>
+          )}
+        </div>
+
+        {savedBriefs.length > 0 && (
+          <div className="border-t border-slate-100">
+            <button onClick={() => setIsSavedOpen(!isSavedOpen)} className="w-full px-5 py-3 flex items-center justify-between hover:bg-slate-50 transition-colors">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-[0.15em]">Saved Briefs ({savedBriefs.length})</span>
+              <svg className={`w-3.5 h-3.5 text-slate-400 transform transition-transform ${isSavedOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+            </button>
+            {isSavedOpen && (
+              <ul className="px-5 pb-4 space-y-1.5">
+                {savedBriefs.map(brief => (
+                  <li key={briefKey(brief)} className="flex items-center justify-between gap-2">
+                    <button onClick={() => setCurrent({ brief, origin: 'saved' })} className="min-w-0 text-left group">
+                      <span className="block text-[11px] font-bold text-slate-600 truncate group-hover:text-blue-700">{brief.query || 'Market brief'}</span>
+                      <span className="block text-[9px] font-bold text-slate-400 uppercase">Retrieved {formatRetrieved(brief.fetchedAt)} • {brief.sources.length} sources</span>
+                    </button>
+                    <button onClick={() => setSavedBriefs(removeSavedBrief(brief))} title="Delete saved brief" className="text-slate-300 hover:text-rose-500 text-[12px] px-1">×</button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="p-4 bg-[#f8fafc] border-t border-slate-100">
+          <div className="flex items-center gap-3">
+            <div className="w-6 h-6 bg-blue-600 rounded flex items-center justify-center text-white shrink-0">
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+            </div>
+            <p className="text-[10px] text-slate-500 font-bold leading-tight uppercase tracking-tight">
+              Powered by Institutional Search Grounding v4
+            </p>
+          </div>
+        </div>
+      </div>
+    </aside>
+  );
+};
+
+export default MarketPulsePanel;
@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { Obligation, ObligationCategory } from '../types';
+import {
+  OBLIGATION_LABELS,
+  buildTimeline,
+  formatObligationSource,
+  formatRecurrence,
+  obligationsToCsv,
+  obligationsToIcs
+} from '../services/obligationsCalendar';
+import { todayIso } from '../services/covenantModel';
+import { downloadFile, exportDateStamp } from '../services/exportUtils';
+
+interface ObligationsTimelineProps {
+  obligations: Obligation[];
+  reportId: string;
+  calendarName: string;
+  maturity?: string;
+}
+
+const CATEGORY_STYLES: Record<ObligationCategory, string> = {
+  'financial-statements': 'text-indigo-700 bg-indigo-50 border-indigo-200',
+  'compliance-certificate': 'text-blue-700 bg-blue-50 border-blue-200',
+  'interest-payment': 'text-teal-700 bg-teal-50 border-teal-200',
+  'repayment': 'text-emerald-700 bg-emerald-50 border-emerald-200',
+  'commitment-expiry': 'text-amber-700 bg-amber-50 border-amber-200',
+  'maturity': 'text-rose-700 bg-rose-50 border-rose-200',
+  'notice': 'text-slate-700 bg-slate-50 border-slate-200',
+  'other': 'text-slate-500 bg-slate-50 border-slate-200'
+};
+
+// Long facilities produce hundreds of dated entries; the first screen shows the next few.
+const INITIAL_ENTRIES = 20;
+
+const monthLabel = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const CitationTag: React.FC<{ obligation: Obligation }> = ({ obligation }) => {
+  const source = formatObligationSource(obligation);
+  const status = obligation.citation?.status;
+  return (
+    <span className="flex items-center gap-2">
+      {source && <span className="text-[9px] font-bold text-slate-500 mono bg-slate-100 border border-slate-200 px-2 py-0.5 rounded-sm">{source}</span>}
+      {status === 'approximate' && <span className="text-[9px] font-bold text-orange-700 mono bg-orange-50 border border-orange-200 px-2 py-0.5 rounded-sm">Approx. Match</span>}
+      {(!status || status === 'unverified') && <span className="text-[9px] font-bold text-rose-700 mono bg-rose-50 border border-rose-200 px-2 py-0.5 rounded-sm">Source Unverified</span>}
+    </span>
+  );
+};
+
+const ObligationsTimeline: React.FC<ObligationsTimelineProps> = ({ obligations, reportId, calendarName, maturity }) => {
+  const [showPast, setShowPast] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const today = todayIso();
+
+  const timeline = useMemo(() => buildTimeline(obligations, maturity), [obligations, maturity]);
+  const visible = timeline.filter(entry => showPast || entry.date >= today);
+  const shown = showAll ? visible : visible.slice(0, INITIAL_ENTRIES);
+  const eventDriven = obligations.filter(o => !o.dueDate);
+
+  const handleExportIcs = () =>
+    downloadFile(obligationsToIcs(obligations, { calendarName, reportId, maturity }), `OBLIGATIONS_${reportId}_${exportDateStamp()}.ics`, 'text/calendar;charset=utf-8;');
+
+  const handleExportCsv = () =>
+    downloadFile(obligationsToCsv(obligations, maturity), `OBLIGATIONS_${reportId}_${exportDateStamp()}.csv`, 'text/csv;charset=utf-8;');
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          {obligations.length} obligations • {timeline.length} dated entries{eventDriven.length > 0 ? ` • ${eventDriven.length} event-driven` : ''}
+        </p>
+        <div className="flex items-center gap-3 no-print">
+          <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest cursor-pointer">
+            <input type="checkbox" checked={showPast} onChange={(e) => setShowPast(e.target.checked)} />
+            Include past dates
+          </label>
+          <button onClick={handleExportCsv} className="bg-white border border-slate-200 text-slate-700 text-[10px] font-bold px-5 py-2 rounded hover:bg-slate-50 transition-all uppercase tracking-widest shadow-sm">
+            Export CSV
+          </button>
+          <button onClick={handleExportIcs} className="bg-slate-900 text-white text-[10px] font-bold px-5 py-2 rounded hover:bg-black transition-all uppercase tracking-widest shadow-sm">
+            Export Calendar (.ics)
+          </button>
+        </div>
+      </div>
+
+      {shown.length === 0 ? (
+        <div className="p-4 bg-slate-50 rounded-lg border border-slate-100 text-center">
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">No upcoming dated obligations</p>
+        </div>
+      ) : (
+        <div className="relative pl-6 border-l-2 border-slate-200 space-y-3">
+          {shown.map(({ date, obligation }, i) => {
+            const key = `${date}|${obligation.title}`;
+            const newMonth = i === 0 || shown[i - 1].date.slice(0, 7) !== date.slice(0, 7);
+            return (
+              <React.Fragment key={key}>
+                {newMonth && (
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] pt-3 -ml-6 pl-6">{monthLabel(date)}</p>
+                )}
+                <div className="relative">
+                  <span className={`absolute -left-[31px] top-4 w-3 h-3 rounded-full border-2 border-white ${date < today ? 'bg-slate-300' : 'bg-blue-500'}`} />
+                  <div className="bg-white border border-slate-200 rounded-lg px-5 py-3 shadow-sm">
+                    <div className="flex items-center gap-4">
+                      <span className={`text-[12px] font-black mono w-24 shrink-0 ${date < today ? 'text-slate-400' : 'text-slate-900'}`}>{date}</span>
+                      <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-sm border shrink-0 ${CATEGORY_STYLES[obligation.category]}`}>
+                        {OBLIGATION_LABELS[obligation.category]}
+                      </span>
+                      <button
+                        onClick={() => setExpanded(expanded === key ? null : key)}
+                        className="flex-1 text-left text-[12px] font-bold text-slate-900 truncate hover:text-blue-700"
+                      >
+                        {obligation.title}
+                      </button>
+                      <span className="text-[10px] font-bold text-slate-500 shrink-0">{obligation.responsibleParty}</span>
+                      <span className="text-[10px] font-bold text-slate-400 mono shrink-0 w-32 text-right">{formatRecurrence(obligation)}</span>
+                    </div>
+                    {expanded === key && (
+                      <div className="mt-3 pt-3 border-t border-slate-100 space-y-2">
+                        <p className="text-[12px] text-slate-700 font-medium">{obligation.dueRule}</p>
+                        <CitationTag obligation={obligation} />
+                        {obligation.sourceText && (
+                          <p className="text-[11px] text-slate-500 italic leading-relaxed">"{obligation.sourceText}"</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
+
+      {visible.length > INITIAL_ENTRIES && (
+        <button onClick={() => setShowAll(all => !all)} className="text-[10px] font-bold text-[#2563eb] hover:text-[#1d4ed8] uppercase tracking-[0.15em] no-print">
+          {showAll ? 'Show fewer' : `Show all ${visible.length} entries`}
+        </button>
+      )}
+
+      {eventDriven.length > 0 && (
+        <div className="border border-slate-200 rounded-xl overflow-hidden">
+          <div className="px-6 py-3 bg-[#f8fafc] border-b border-slate-200">
+            <p className="text-[10px] font-black text-slate-900 uppercase tracking-widest">Event-Driven Obligations</p>
+            <p className="text-[11px] text-slate-400 font-medium mt-0.5">No calendar date can be set; these run from a trigger event and are listed in the CSV only.</p>
+          </div>
+          <div className="divide-y divide-slate-100">
+            {eventDriven.map(obligation => (
+              <div key={obligation.title} className="px-6 py-3 space-y-1.5">
+                <div className="flex items-center gap-4">
+                  <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-sm border ${CATEGORY_STYLES[obligation.category]}`}>
+                    {OBLIGATION_LABELS[obligation.category]}
+                  </span>
+                  <span className="flex-1 text-[12px] font-bold text-slate-900">{obligation.title}</span>
+                  <span className="text-[10px] font-bold text-slate-500">{obligation.responsibleParty}</span>
+                </div>
+                <p className="text-[12px] text-slate-600 font-medium">{obligation.dueRule}</p>
+                <CitationTag obligation={obligation} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ObligationsTimeline;
@@ -0,0 +1,330 @@
+import React, { useRef, useState } from 'react';
+import { Playbook, PlaybookClause } from '../types';
+import {
+  DEFAULT_PLAYBOOK,
+  deletePlaybook,
+  getStoredPlaybook,
+  listPlaybooks,
+  newPlaybookId,
+  parsePlaybook,
+  playbookRulesDiffer,
+  savePlaybook,
+  serializePlaybook
+} from '../services/playbook';
+import { READINESS_DIMENSIONS } from '../services/readinessScoring';
+import { downloadFile } from '../services/exportUtils';
+
+interface PlaybookEditorProps {
+  selectedId: string;
+  onSelect: (playbook: Playbook) => void;
+  onClose: () => void;
+}
+
+const EMPTY_CLAUSE: PlaybookClause = { name: '', preferred: '', fallback: '', walkAway: '' };
+
+const POSITION_FIELDS: { key: 'preferred' | 'fallback' | 'walkAway'; label: string; tone: string }[] = [
+  { key: 'preferred', label: 'Preferred', tone: 'text-emerald-700' },
+  { key: 'fallback', label: 'Fallback', tone: 'text-amber-700' },
+  { key: 'walkAway', label: 'Walk-Away', tone: 'text-rose-700' }
+];
+
+const PlaybookEditor: React.FC<PlaybookEditorProps> = ({ selectedId, onSelect, onClose }) => {
+  const [playbooks, setPlaybooks] = useState<Playbook[]>(listPlaybooks);
+  const [draft, setDraft] = useState<Playbook>(() => playbooks.find(p => p.id === selectedId) || DEFAULT_PLAYBOOK);
+  const [isDirty, setIsDirty] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'error' | 'info'; text: string } | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const isBuiltIn = draft.id === DEFAULT_PLAYBOOK.id;
+  const weights = draft.readinessWeights || DEFAULT_PLAYBOOK.readinessWeights!;
+
+  const edit = (patch: Partial<Playbook>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setIsDirty(true);
+  };
+
+  const editClause = (index: number, patch: Partial<PlaybookClause>) =>
+    edit({ clauses: draft.clauses.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+
+  const open = (playbook: Playbook) => {
+    if (isDirty && !window.confirm("Discard unsaved playbook changes?")) return;
+    setDraft(playbook);
+    setIsDirty(false);
+    setMessage(null);
+  };
+
+  const handleSave = () => {
+    const incomplete = draft.clauses.findIndex(c => !c.name.trim() || !c.preferred.trim() || !c.fallback.trim() || !c.walkAway.trim());
+    if (!draft.name.trim() || !draft.version.trim()) {
+      setMessage({ tone: 'error', text: "Playbook name and version are required." });
+      return;
+    }
+    if (!READINESS_DIMENSIONS.some(({ key }) => weights[key] > 0)) {
+      setMessage({ tone: 'error', text: "At least one Deal Readiness weight must be above zero." });
+      return;
+    }
+    if (incomplete >= 0) {
+      setMessage({ tone: 'error', text: `Clause ${incomplete + 1} needs a name and all three positions.` });
+      return;
+    }
+    try {
+      const saved = savePlaybook(draft);
+      setPlaybooks(listPlaybooks());
+      setDraft(saved);
+      setIsDirty(false);
+      setMessage({ tone: 'info', text: `Saved ${saved.name} v${saved.version}.` });
+    } catch (err: any) {
+      setMessage({ tone: 'error', text: err.message || "Playbook could not be saved." });
+    }
+  };
+
+  const handleDuplicate = () => {
+    setDraft({ ...draft, id: newPlaybookId(), name: `${draft.name} (Copy)`, owner: undefined, updatedAt: new Date().toISOString() });
+    setIsDirty(true);
+    setMessage(null);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete playbook ${draft.name} v${draft.version}?`)) return;
+    deletePlaybook(draft.id);
+    setPlaybooks(listPlaybooks());
+    setDraft(DEFAULT_PLAYBOOK);
+    setIsDirty(false);
+  };
+
+  const handleImport = async (file: File) => {
+    if (isDirty && !window.confirm("Discard unsaved playbook changes?")) return;
+    try {
+      const imported = parsePlaybook(await file.text());
+      // An imported id that clashes with the built-in playbook would be unsaveable.
+      let playbook = imported.id === DEFAULT_PLAYBOOK.id ? { ...imported, id: newPlaybookId() } : imported;
+      const existing = getStoredPlaybook(playbook.id);
+      if (existing && !playbookRulesDiffer(existing, playbook) && existing.name === playbook.name && existing.version === playbook.version) {
+        setDraft(existing);
+        setIsDirty(false);
+        setMessage({ tone: 'info', text: `${existing.name} v${existing.version} is already in your library.` });
+        return;
+      }
+      if (existing && !window.confirm(`Replace ${existing.name} v${existing.version} with the imported ${playbook.name} v${playbook.version}?\n\nCancel keeps both and imports the file as a separate playbook.`)) {
+        playbook = { ...playbook, id: newPlaybookId() };
+      }
+      const saved = savePlaybook(playbook);
+      setPlaybooks(listPlaybooks());
+      setDraft(saved);
+      setIsDirty(false);
+      setMessage({ tone: 'info', text: `Imported ${saved.name} v${saved.version}.` });
+    } catch (err: any) {
+      setMessage({ tone: 'error', text: err.message || "Playbook file could not be imported." });
+    }
+  };
+
+  const handleExport = () => {
+    const slug = draft.name.replace(/[^a-z0-9]+/gi, '_').toUpperCase();
+    downloadFile(serializePlaybook(draft), `PLAYBOOK_${slug}_V${draft.version}.json`, 'application/json');
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 py-10">
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center gap-4">
+          <button onClick={onClose} className="text-xs font-bold text-slate-500 hover:text-slate-900 flex items-center gap-1 transition-colors uppercase tracking-widest">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+            Back
+          </button>
+          <div className="h-4 w-px bg-slate-300" />
+          <h2 className="text-sm font-bold text-slate-900 uppercase tracking-tight">Negotiation Playbooks</h2>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => importRef.current?.click()}
+            className="bg-white border border-slate-200 text-slate-700 text-[10px] font-bold px-5 py-2 rounded hover:bg-slate-50 transition-all uppercase tracking-widest shadow-sm"
+          >
+            Import JSON
+          </button>
+          <input
+            type="file"
+            ref={importRef}
+            className="hidden"
+            accept=".json,application/json"
+            onChange={(e) => { const file = e.target.files?.[0]; if (file) handleImport(file); e.target.value = ''; }}
+          />
+          <button
+            onClick={handleExport}
+            className="bg-white border border-slate-200 text-slate-700 text-[10px] font-bold px-5 py-2 rounded hover:bg-slate-50 transition-all uppercase tracking-widest shadow-sm"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`mb-6 text-[12px] font-semibold ${message.tone === 'error' ? 'text-rose-600' : 'text-emerald-700'}`}>{message.text}</p>
+      )}
+
+      <div className="flex gap-8 items-start">
+        <aside className="w-64 shrink-0 bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden divide-y divide-slate-100">
+          {playbooks.map(playbook => (
+            <button
+              key={playbook.id}
+              onClick={() => open(playbook)}
+              className={`w-full text-left px-4 py-3 transition-colors ${playbook.id === draft.id ? 'bg-blue-50/60' : 'hover:bg-slate-50'}`}
+            >
+              <p className="text-[12px] font-bold text-slate-900 truncate">{playbook.name}</p>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-0.5">
+                v{playbook.version}{playbook.id === DEFAULT_PLAYBOOK.id ? ' • Built-in' : ''}{playbook.id === selectedId ? ' • In Use' : ''}
+              </p>
+            </button>
+          ))}
+        </aside>
+
+        <div className="flex-1 min-w-0">
+          <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-6 mb-6">
+            <div className="grid grid-cols-12 gap-4">
+              <label className="col-span-6">
+                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest block mb-1.5">Playbook Name</span>
+                <input
+                  disabled={isBuiltIn}
+                  value={draft.name}
+                  onChange={(e) => edit({ name: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg text-[13px] font-bold text-slate-900 focus:outline-none focus:border-blue-400 disabled:bg-slate-50"
+                />
+              </label>
+              <label className="col-span-2">
+                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest block mb-1.5">Version</span>
+                <input
+                  disabled={isBuiltIn}
+                  value={draft.version}
+                  onChange={(e) => edit({ version: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg text-[13px] font-bold text-slate-900 mono focus:outline-none focus:border-blue-400 disabled:bg-slate-50"
+                />
+              </label>
+              <label className="col-span-4">
+                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest block mb-1.5">Policy Owner</span>
+                <input
+                  disabled={isBuiltIn}
+                  value={draft.owner || ''}
+                  onChange={(e) => edit({ owner: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg text-[13px] font-medium text-slate-700 focus:outline-none focus:border-blue-400 disabled:bg-slate-50"
+                />
+              </label>
+            </div>
+            <div className="mt-5 pt-5 border-t border-slate-100">
+              <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest block mb-3">Deal Readiness Weights</span>
+              <div className="grid grid-cols-4 gap-4">
+                {READINESS_DIMENSIONS.map(({ key, label }) => (
+                  <label key={key}>
+                    <span className="text-[10px] font-bold text-slate-600 block mb-1">{label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      disabled={isBuiltIn}
+                      value={weights[key]}
+                      onChange={(e) => edit({ readinessWeights: { ...weights, [key]: Math.max(0, Number(e.target.value) || 0) } })}
+                      className="w-full px-3 py-1.5 border border-slate-200 rounded-lg text-[13px] font-bold text-slate-900 mono focus:outline-none focus:border-blue-400 disabled:bg-slate-50"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="mt-5 flex items-center justify-between">
+              <p className="text-[11px] text-slate-400 font-medium">
+                {isBuiltIn ? "The built-in playbook is read-only. Duplicate it to adapt it to your credit policy." : `Last saved ${new Date(draft.updatedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}`}
+              </p>
+              <div className="flex items-center gap-3">
+                <button onClick={handleDuplicate} className="text-[10px] font-bold text-slate-700 uppercase tracking-[0.15em] px-3 py-1.5 bg-white border border-slate-200 rounded shadow-sm hover:bg-slate-50">
+                  Duplicate
+                </button>
+                {!isBuiltIn && (
+                  <>
+                    <button onClick={handleDelete} className="text-[10px] font-bold text-rose-600 uppercase tracking-[0.15em] px-3 py-1.5 bg-white border border-slate-200 rounded shadow-sm hover:text-rose-700">
+                      Delete
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={!isDirty}
+                      className="text-[10px] font-bold text-white bg-[#0f172a] hover:bg-black uppercase tracking-[0.15em] px-4 py-1.5 rounded shadow-sm disabled:opacity-40"
+                    >
+                      Save
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => onSelect(draft)}
+                  disabled={isDirty || draft.id === selectedId}
+                  className="text-[10px] font-bold text-white bg-[#2563eb] hover:bg-[#1d4ed8] uppercase tracking-[0.15em] px-4 py-1.5 rounded shadow-sm disabled:opacity-40"
+                >
+                  Use For Audits
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {draft.clauses.map((clause, index) => (
+              <div key={index} className="bg-white border border-slate-200 rounded-xl shadow-sm p-6">
+                <div className="flex items-center gap-4 mb-4">
+                  <span className="text-[10px] font-black text-slate-300 mono">{String(index + 1).padStart(2, '0')}</span>
+                  <input
+                    disabled={isBuiltIn}
+                    placeholder="Clause name"
+                    value={clause.name}
+                    onChange={(e) => editClause(index, { name: e.target.value })}
+                    className="flex-1 px-3 py-1.5 border border-slate-200 rounded-lg text-[13px] font-bold text-slate-900 focus:outline-none focus:border-blue-400 disabled:bg-slate-50"
+                  />
+                  <input
+                    disabled={isBuiltIn}
+                    placeholder="Also known as (comma separated)"
+                    value={(clause.aliases || []).join(', ')}
+                    onChange={(e) => editClause(index, { aliases: e.target.value.split(',').map(a => a.trim()).filter(Boolean) })}
+                    className="w-72 px-3 py-1.5 border border-slate-200 rounded-lg text-[12px] font-medium text-slate-600 focus:outline-none focus:border-blue-400 disabled:bg-slate-50"
+                  />
+                  {!isBuiltIn && (
+                    <button
+                      onClick={() => edit({ clauses: draft.clauses.filter((_, i) => i !== index) })}
+                      className="text-[10px] font-bold text-slate-400 hover:text-rose-600 uppercase tracking-widest"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  {POSITION_FIELDS.map(field => (
+                    <label key={field.key}>
+                      <span className={`text-[9px] font-black uppercase tracking-widest block mb-1.5 ${field.tone}`}>{field.label}</span>
+                      <textarea
+                        disabled={isBuiltIn}
+                        rows={3}
+                        value={clause[field.key]}
+                        onChange={(e) => editClause(index, { [field.key]: e.target.value })}
+                        className="w-full px-3 py-2 border border-slate-200 rounded-lg text-[12px] font-medium text-slate-700 leading-relaxed resize-none focus:outline-none focus:border-blue-400 disabled:bg-slate-50"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <label className="block mt-4">
+                  <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest block mb-1.5">Negotiation Guidance</span>
+                  <input
+                    disabled={isBuiltIn}
+                    value={clause.guidance || ''}
+                    onChange={(e) => editClause(index, { guidance: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-[12px] font-medium text-slate-700 focus:outline-none focus:border-blue-400 disabled:bg-slate-50"
+                  />
+                </label>
+              </div>
+            ))}
+            {!isBuiltIn && (
+              <button
+                onClick={() => edit({ clauses: [...draft.clauses, { ...EMPTY_CLAUSE }] })}
+                className="w-full py-4 border border-dashed border-slate-300 rounded-xl text-[10px] font-black text-slate-500 hover:text-slate-900 hover:border-slate-400 uppercase tracking-[0.2em]"
+              >
+                + Add Clause
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybookEditor;
@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BatchItem, Playbook, RedactionSettings, SavedAudit } from '../types';
+import {
+  BATCH_CONCURRENCY,
+  BatchState,
+  addToBatch,
+  isActive,
+  pauseBatch,
+  removeBatchItems,
+  retryBatchItems,
+  startBatch,
+  subscribeBatch
+} from '../services/batchQueue';
+import { getAudit, listAudits } from '../services/auditStore';
+import { REDACTION_KINDS, REDACTION_LABELS, getRedactionSettings, saveRedactionSettings } from '../services/redaction';
+import PortfolioDashboard from './PortfolioDashboard';
+
+interface PortfolioBatchPanelProps {
+  playbook: Playbook;
+  onOpen: (audit: SavedAudit) => void;
+  onCompleted: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  queued: 'text-slate-500 bg-slate-50 border-slate-200',
+  parsing: 'text-blue-700 bg-blue-50 border-blue-200',
+  analysing: 'text-blue-700 bg-blue-50 border-blue-200',
+  done: 'text-emerald-700 bg-emerald-50 border-emerald-200',
+  failed: 'text-rose-700 bg-rose-50 border-rose-200'
+};
+
+const formatSize = (bytes: number) => (bytes >= 1_048_576 ? `${(bytes / 1_048_576).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`);
+
+const PortfolioBatchPanel: React.FC<PortfolioBatchPanelProps> = ({ playbook, onOpen, onCompleted }) => {
+  const [batch, setBatch] = useState<BatchState>({ items: [], running: false, loaded: false, completed: 0, settings: null });
+  const [redaction, setRedaction] = useState<RedactionSettings>(getRedactionSettings);
+  const [audits, setAudits] = useState<SavedAudit[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribeBatch(setBatch), []);
+
+  useEffect(() => {
+    if (batch.completed > 0) onCompleted();
+  }, [batch.completed]);
+
+  // The dashboard covers every stored audit, so clearing the queue does not empty it.
+  useEffect(() => {
+    listAudits()
+      .then(setAudits)
+      .catch(err => console.error("Portfolio audits could not be loaded", err));
+  }, [batch.completed]);
+
+  const handleFiles = async (list: FileList | null) => {
+    const files = Array.from(list || []);
+    if (files.length === 0) return;
+    setError(null);
+    try {
+      await addToBatch(files, playbook.id);
+    } catch (err: any) {
+      setError(err.message || "Files could not be queued.");
+    }
+  };
+
+  const toggleRedaction = (enabled: boolean) => {
+    const next = { ...redaction, enabled };
+    setRedaction(next);
+    saveRedactionSettings(next);
+  };
+
+  const count = (status: BatchItem['status']) => batch.items.filter(i => i.status === status).length;
+  const activeCount = batch.items.filter(isActive).length;
+  const queuedCount = count('queued');
+  const failedIds = batch.items.filter(i => i.status === 'failed').map(i => i.id);
+  const finishedIds = batch.items.filter(i => i.status === 'done').map(i => i.id);
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => { e.preventDefault(); setIsDragging(false); handleFiles(e.dataTransfer.files); }}
+        onClick={() => fileInputRef.current?.click()}
+        className={`bg-white border border-slate-200 rounded-xl p-16 text-center transition-all cursor-pointer shadow-sm ${isDragging ? 'border-blue-400 bg-blue-50/10' : 'hover:border-slate-300'}`}
+      >
+        <p className="text-[16px] font-bold text-[#0f172a] mb-1.5 tracking-tight">Add Documents to the Portfolio Queue</p>
+        <p className="text-[13px] text-[#94a3b8] font-medium">
+          Drop several agreements at once. {BATCH_CONCURRENCY} are analysed at a time against {playbook.name} v{playbook.version}.
+        </p>
+        <input
+          type="file"
+          multiple
+          ref={fileInputRef}
+          className="hidden"
+          accept=".pdf,.docx,.txt,.md,.tif,.tiff,.png,.jpg,.jpeg,application/pdf,text/plain,image/*"
+          onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+        />
+      </div>
+
+      {error && <p className="mt-4 text-[12px] font-semibold text-rose-600">{error}</p>}
+
+      {batch.items.length > 0 && (
+        <div className="mt-8">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-[0.15em] text-slate-400">
+              <span>{queuedCount} queued</span>
+              <span className="text-blue-600">{activeCount} running</span>
+              <span className="text-emerald-600">{count('done')} done</span>
+              <span className="text-rose-600">{failedIds.length} failed</span>
+            </div>
+            <div className="flex items-center gap-2">
+              {failedIds.length > 0 && (
+                <button onClick={() => retryBatchItems(failedIds)} className="text-[10px] font-bold px-3 py-1.5 rounded border border-slate-200 text-slate-700 bg-white hover:bg-slate-50 uppercase tracking-widest">
+                  Retry Failed
+                </button>
+              )}
+              {finishedIds.length > 0 && (
+                <button onClick={() => removeBatchItems(finishedIds)} className="text-[10px] font-bold px-3 py-1.5 rounded border border-slate-200 text-slate-500 bg-white hover:bg-slate-50 uppercase tracking-widest">
+                  Clear Finished
+                </button>
+              )}
+              {batch.running && (
+                <button onClick={pauseBatch} className="text-[10px] font-bold px-4 py-1.5 rounded bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 uppercase tracking-widest">
+                  Pause
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Batch documents get no individual outbound preview, so each run starts only once the analyst has confirmed what will be sent. */}
+          {!batch.running && queuedCount > 0 && (
+            <div className="mb-4 bg-white border border-amber-200 rounded-xl p-5 shadow-sm flex items-start justify-between gap-6">
+              <div className="space-y-2">
+                <p className="text-[10px] font-black text-amber-700 uppercase tracking-[0.2em]">Confirm Outbound Data • {queuedCount} {queuedCount === 1 ? 'document' : 'documents'}</p>
+                {redaction.enabled ? (
+                  <p className="text-[12px] text-slate-600 font-medium">
+                    Each document is pseudonymised before it is sent. Replaced: {REDACTION_KINDS.filter(k => redaction.kinds[k]).map(k => REDACTION_LABELS[k]).join(', ') || 'nothing'}
+                    {redaction.customTerms.length > 0 ? ` (${redaction.customTerms.length} custom ${redaction.customTerms.length === 1 ? 'term' : 'terms'})` : ''}.
+                    {redaction.ignored.length > 0 ? ` ${redaction.ignored.length} ${redaction.ignored.length === 1 ? 'value is' : 'values are'} marked Send As-Is.` : ''}
+                  </p>
+                ) : (
+                  <p className="text-[12px] font-bold text-rose-700">Pseudonymisation is off. The full text of every document, including names and account details, will be sent.</p>
+                )}
+                <p className="text-[11px] text-slate-400 font-medium">Documents interrupted by a reload are included. Detection settings are edited in the outbound preview of a single audit.</p>
+              </div>
+              <div className="flex flex-col items-end gap-3 shrink-0">
+                <label className="flex items-center gap-2 text-[10px] font-black text-[#0f172a] uppercase tracking-widest cursor-pointer">
+                  <input type="checkbox" checked={redaction.enabled} onChange={(e) => toggleRedaction(e.target.checked)} />
+                  Pseudonymise
+                </label>
+                <button onClick={() => startBatch(redaction)} className="text-[10px] font-bold px-4 py-1.5 rounded bg-[#2563eb] text-white hover:bg-[#1d4ed8] uppercase tracking-widest">
+                  {batch.items.some(i => i.status === 'queued' && i.attempts > 0) ? 'Confirm & Resume' : 'Confirm & Start'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white border border-slate-200 rounded-xl overflow-hidden divide-y divide-slate-100 shadow-sm">
+            {batch.items.map(item => (
+              <div key={item.id} className="px-6 py-3 flex items-center gap-4">
+                <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-sm border w-20 text-center shrink-0 ${STATUS_STYLES[item.status]}`}>
+                  {item.status}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-[12px] font-bold text-slate-900 truncate">{item.fileName}</p>
+                  <p className={`text-[10px] font-medium truncate ${item.status === 'failed' ? 'text-rose-600' : 'text-slate-400'}`}>
+                    {item.status === 'failed' ? item.error : item.stage || `${formatSize(item.size)}${item.attempts > 0 ? ` • attempt ${item.attempts}` : ''}`}
+                  </p>
+                </div>
+                {item.auditId && <span className="text-[10px] font-bold text-slate-400 mono shrink-0">{item.auditId}</span>}
+                <div className="flex items-center gap-3 shrink-0">
+                  {item.status === 'done' && item.auditId && (
+                    <button
+                      onClick={async () => { const audit = await getAudit(item.auditId!); if (audit) onOpen(audit); }}
+                      className="text-[10px] font-bold text-white bg-[#0f172a] hover:bg-black uppercase tracking-[0.15em] px-3 py-1 rounded shadow-sm"
+                    >
+                      Open
+                    </button>
+                  )}
+                  {item.status === 'failed' && (
+                    <button onClick={() => retryBatchItems([item.id])} className="text-[10px] font-bold text-blue-600 hover:text-blue-800 uppercase tracking-widest">
+                      Retry
+                    </button>
+                  )}
+                  {!isActive(item) && (
+                    <button onClick={() => removeBatchItems([item.id])} className="text-slate-300 hover:text-rose-600 text-[14px] font-bold" title="Remove from queue">
+                      ×
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-16">
+        <h2 className="text-[13px] font-black text-[#0f172a] uppercase tracking-[0.15em]">Portfolio Overview</h2>
+        <p className="text-[12px] text-[#94a3b8] font-medium mt-1">Every audit stored in this browser, including single audits.</p>
+        <PortfolioDashboard audits={audits} onOpen={onOpen} />
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioBatchPanel;
@@ -0,0 +1,154 @@
+import React, { useMemo } from 'react';
+import { SavedAudit } from '../types';
+import { RISK_RATINGS, aggregatePortfolio } from '../services/portfolioStats';
+import { EXECUTION_READY_SCORE, REVIEW_READY_SCORE } from '../services/readinessScoring';
+
+interface PortfolioDashboardProps {
+  audits: SavedAudit[];
+  onOpen: (audit: SavedAudit) => void;
+}
+
+const RATING_BARS: Record<string, string> = { Low: 'bg-emerald-500', Medium: 'bg-amber-500', High: 'bg-rose-500' };
+
+const scoreColor = (score: number) =>
+  score >= EXECUTION_READY_SCORE ? 'text-emerald-700' : score >= REVIEW_READY_SCORE ? 'text-amber-700' : 'text-rose-700';
+
+const compact = (amount: number) =>
+  amount >= 1e9 ? `${(amount / 1e9).toFixed(2)}bn` : amount >= 1e6 ? `${(amount / 1e6).toFixed(1)}m` : amount.toLocaleString('en-GB');
+
+const Card: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm">
+    <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-5">{title}</p>
+    {children}
+  </div>
+);
+
+const PortfolioDashboard: React.FC<PortfolioDashboardProps> = ({ audits, onOpen }) => {
+  const summary = useMemo(() => aggregatePortfolio(audits), [audits]);
+  const maxLadder = Math.max(1, ...summary.maturityLadder.map(b => b.count));
+  const maxExposure = Math.max(1, ...summary.exposureByCurrency.map(c => c.amount));
+
+  if (summary.count === 0) {
+    return (
+      <div className="mt-8 p-6 bg-slate-50 rounded-lg border border-slate-100 text-center">
+        <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">The dashboard fills in as documents finish analysis</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6 space-y-6">
+      <div className="grid grid-cols-5 gap-4">
+        <div className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm">
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Facilities</p>
+          <p className="text-3xl font-black text-slate-900 mono">{summary.count}</p>
+        </div>
+        <div className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm">
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Avg Readiness</p>
+          <p className={`text-3xl font-black mono ${scoreColor(summary.averageReadiness)}`}>{summary.averageReadiness}</p>
+        </div>
+        {Object.entries(summary.readinessBands).map(([band, count]) => (
+          <div key={band} className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">{band}</p>
+            <p className="text-3xl font-black text-slate-900 mono">{count}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <Card title="Risk Rating Distribution">
+          <div className="flex h-4 rounded-full overflow-hidden bg-slate-100 mb-4">
+            {RISK_RATINGS.filter(rating => summary.riskDistribution[rating] > 0).map(rating => (
+              <div key={rating} className={RATING_BARS[rating]} style={{ width: `${(summary.riskDistribution[rating] / summary.count) * 100}%` }} title={`${rating}: ${summary.riskDistribution[rating]}`} />
+            ))}
+          </div>
+          <div className="flex gap-6">
+            {RISK_RATINGS.map(rating => (
+              <div key={rating} className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${RATING_BARS[rating]}`} />
+                <span className="text-[11px] font-bold text-slate-600">{rating}</span>
+                <span className="text-[11px] font-black text-slate-900 mono">{summary.riskDistribution[rating]}</span>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        <Card title="Most Frequently Flagged Clauses">
+          {summary.topFlagged.length === 0 ? (
+            <p className="text-[11px] text-slate-400 font-medium">No clauses flagged for review.</p>
+          ) : (
+            <ul className="space-y-2.5">
+              {summary.topFlagged.map(f => (
+                <li key={f.clause} className="flex items-center gap-3">
+                  <span className="text-[11px] font-bold text-slate-700 w-48 truncate">{f.clause}</span>
+                  <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-rose-400" style={{ width: `${f.share}%` }} />
+                  </div>
+                  <span className="text-[10px] font-black text-slate-500 mono w-16 text-right">{f.count} • {f.share}%</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        <Card title="Maturity Ladder">
+          <div className="flex items-end gap-3 h-36">
+            {summary.maturityLadder.map(bucket => (
+              <div key={bucket.year} className="flex-1 flex flex-col items-center justify-end h-full" title={bucket.titles.join('\n')}>
+                <span className="text-[10px] font-black text-slate-700 mono mb-1">{bucket.count}</span>
+                <div className="w-full bg-blue-500 rounded-t" style={{ height: `${(bucket.count / maxLadder) * 100}%` }} />
+                <span className="text-[10px] font-bold text-slate-400 mono mt-1.5">{bucket.year}</span>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        <Card title="Exposure by Currency">
+          <ul className="space-y-2.5">
+            {summary.exposureByCurrency.map(c => (
+              <li key={c.currency} className="flex items-center gap-3">
+                <span className="text-[11px] font-black text-slate-700 mono w-12">{c.currency}</span>
+                <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-teal-500" style={{ width: `${(c.amount / maxExposure) * 100}%` }} />
+                </div>
+                <span className="text-[10px] font-black text-slate-700 mono w-20 text-right">{compact(c.amount)}</span>
+                <span className="text-[10px] font-bold text-slate-400 w-28 text-right">
+                  {c.count} deal{c.count === 1 ? '' : 's'}{c.unquantified > 0 ? ` • ${c.unquantified} n/q` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      </div>
+
+      <Card title="Governing Law">
+        <div className="flex flex-wrap gap-3">
+          {summary.byLaw.map(l => (
+            <span key={l.law} className="px-3 py-1.5 bg-slate-50 border border-slate-200 rounded text-[11px] font-bold text-slate-700">
+              {l.law} <span className="mono text-slate-900">{l.count}</span>
+              <span className="text-slate-400"> • {l.currencies.join(', ')}</span>
+            </span>
+          ))}
+        </div>
+      </Card>
+
+      <Card title="Readiness by Facility">
+        <table className="w-full text-left border-collapse">
+          <tbody className="divide-y divide-slate-100">
+            {summary.deals.map(deal => (
+              <tr key={deal.id} className="hover:bg-slate-50 cursor-pointer" onClick={() => { const audit = audits.find(a => a.id === deal.id); if (audit) onOpen(audit); }}>
+                <td className="py-2 text-[12px] font-bold text-slate-900">{deal.title}</td>
+                <td className="py-2 text-[10px] font-bold text-slate-400 mono">{deal.id}</td>
+                <td className="py-2 text-[11px] font-bold text-slate-600">{deal.rating} risk</td>
+                <td className="py-2 text-[11px] font-bold text-slate-600 mono text-right">{deal.amount !== undefined ? `${deal.currency} ${compact(deal.amount)}` : '—'}</td>
+                <td className={`py-2 text-[12px] font-black mono text-right ${scoreColor(deal.score)}`}>{deal.score}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Card>
+    </div>
+  );
+};
+
+export default PortfolioDashboard;
@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from 'react';
+import { Redaction, RedactionKind, RedactionSettings } from '../types';
+import {
+  REDACTION_KINDS,
+  REDACTION_LABELS,
+  buildRedaction,
+  getRedactionSettings,
+  redactText,
+  saveRedactionSettings,
+  splitOnTokens
+} from '../services/redaction';
+import { SINGLE_PASS_CHAR_LIMIT } from '../services/documentChunker';
+
+interface RedactionPreviewProps {
+  text: string;
+  fileName: string;
+  isLoading: boolean;
+  status: string | null;
+  onConfirm: (redaction: Redaction | undefined) => void;
+  onCancel: () => void;
+  confirmLabel?: string;
+  cancelLabel?: string;
+}
+
+const KIND_STYLES: Record<RedactionKind, string> = {
+  party: 'text-indigo-700 bg-indigo-50 border-indigo-200',
+  person: 'text-rose-700 bg-rose-50 border-rose-200',
+  account: 'text-amber-700 bg-amber-50 border-amber-200',
+  address: 'text-teal-700 bg-teal-50 border-teal-200',
+  contact: 'text-blue-700 bg-blue-50 border-blue-200',
+  custom: 'text-slate-700 bg-slate-100 border-slate-300'
+};
+
+const RedactionPreview: React.FC<RedactionPreviewProps> = ({ text, fileName, isLoading, status, onConfirm, onCancel, confirmLabel = "Send to Model", cancelLabel = "Back to Editor" }) => {
+  const [settings, setSettings] = useState<RedactionSettings>(getRedactionSettings);
+  const [termInput, setTermInput] = useState('');
+
+  const redaction = useMemo(() => buildRedaction(text, settings), [text, settings]);
+  const outbound = useMemo(() => splitOnTokens(redactText(text, redaction)), [text, redaction]);
+  const kindByToken = useMemo(() => new Map(redaction.entities.map(e => [e.token, e.kind])), [redaction]);
+
+  const update = (patch: Partial<RedactionSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveRedactionSettings(next);
+  };
+
+  const handleAddTerm = (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = termInput.trim();
+    setTermInput('');
+    if (term.length < 2 || settings.customTerms.some(t => t.toLowerCase() === term.toLowerCase())) return;
+    update({ customTerms: [...settings.customTerms, term], ignored: settings.ignored.filter(v => v.toLowerCase() !== term.toLowerCase()) });
+  };
+
+  return (
+    <div className="bg-[#f8fafc] border border-slate-200 rounded-xl p-3 shadow-sm">
+      <div className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+        <div className="px-5 py-4 bg-[#f8fafc] border-b border-slate-200 flex items-start justify-between gap-6">
+          <div>
+            <p className="text-[10px] font-black text-[#94a3b8] uppercase tracking-[0.2em]">Outbound Data Preview • {fileName}</p>
+            <p className="text-[12px] text-[#64748b] font-medium mt-1 max-w-2xl">
+              The right-hand pane is exactly the document text that will be sent to the model provider. Tokens are replaced with the real values when the analysis comes back.
+              {text.length > SINGLE_PASS_CHAR_LIMIT ? ' This document is sent in sections; every section uses the same tokens.' : ''}
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-[10px] font-black text-[#0f172a] uppercase tracking-widest cursor-pointer shrink-0">
+            <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+            Pseudonymise
+          </label>
+        </div>
+
+        <div className="flex h-[560px]">
+          <div className="w-80 shrink-0 border-r border-slate-200 overflow-y-auto custom-scrollbar p-5 space-y-6">
+            {!settings.enabled ? (
+              <p className="text-[11px] font-bold text-rose-700 bg-rose-50 border border-rose-200 rounded p-3">
+                Pseudonymisation is off. The full text, including names and account details, will be sent.
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-[0.15em]">Detect</p>
+                  {REDACTION_KINDS.map(kind => (
+                    <label key={kind} className="flex items-center justify-between text-[11px] font-bold text-slate-600 cursor-pointer">
+                      <span className="flex items-center gap-2">
+                        <input type="checkbox" checked={settings.kinds[kind]} onChange={(e) => update({ kinds: { ...settings.kinds, [kind]: e.target.checked } })} />
+                        {REDACTION_LABELS[kind]}
+                      </span>
+                      <span className="mono text-slate-400">{redaction.entities.filter(e => e.kind === kind).length}</span>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-[0.15em]">Custom Terms</p>
+                  <form onSubmit={handleAddTerm}>
+                    <input
+                      type="text"
+                      value={termInput}
+                      onChange={(e) => setTermInput(e.target.value)}
+                      placeholder="Project name, sponsor, asset..."
+                      className="w-full px-3 py-1.5 bg-slate-50 border border-slate-200 rounded text-[11px] font-medium text-slate-700 focus:outline-none focus:border-blue-400"
+                    />
+                  </form>
+                  <div className="flex flex-wrap gap-1.5">
+                    {settings.customTerms.map(term => (
+                      <span key={term} className="flex items-center gap-1 text-[10px] font-bold text-slate-600 bg-slate-100 border border-slate-200 px-2 py-0.5 rounded">
+                        {term}
+                        <button onClick={() => update({ customTerms: settings.customTerms.filter(t => t !== term) })} className="text-slate-400 hover:text-rose-600">×</button>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-[0.15em]">Replaced Values ({redaction.entities.length})</p>
+                  {redaction.entities.length === 0 && <p className="text-[11px] text-slate-400 font-medium">Nothing detected.</p>}
+                  {redaction.entities.map(entity => (
+                    <div key={entity.token} className="flex items-start justify-between gap-2 py-1 border-b border-slate-50">
+                      <div className="min-w-0">
+                        <span className={`text-[9px] font-black mono px-1.5 py-0.5 rounded-sm border ${KIND_STYLES[entity.kind]}`}>{entity.token}</span>
+                        <p className="text-[11px] font-bold text-slate-700 truncate mt-1" title={entity.value}>{entity.value}</p>
+                        <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{entity.occurrences}×</p>
+                      </div>
+                      <button
+                        onClick={() => update({ ignored: [...settings.ignored, entity.value] })}
+                        className="text-[9px] font-bold text-[#2563eb] hover:text-[#1d4ed8] uppercase tracking-widest shrink-0"
+                        title="Not confidential: send this value as written"
+                      >
+                        Send As-Is
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                {settings.ignored.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-[0.15em]">Sent As-Is</p>
+                    {settings.ignored.map(value => (
+                      <div key={value} className="flex items-center justify-between gap-2">
+                        <span className="text-[11px] font-medium text-slate-500 truncate">{value}</span>
+                        <button
+                          onClick={() => update({ ignored: settings.ignored.filter(v => v !== value) })}
+                          className="text-[9px] font-bold text-[#2563eb] hover:text-[#1d4ed8] uppercase tracking-widest shrink-0"
+                        >
+                          Redact
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-8 bg-slate-50/10">
+            <p className="font-mono text-[12px] text-[#475569] leading-[1.8] whitespace-pre-wrap break-words">
+              {outbound.map((part, i) =>
+                i % 2 === 1 ? (
+                  <span key={i} className={`font-bold px-1 rounded-sm border ${KIND_STYLES[kindByToken.get(part) || 'custom']}`}>{part}</span>
+                ) : (
+                  <React.Fragment key={i}>{part}</React.Fragment>
+                )
+              )}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-3 flex items-center justify-between">
+        <p className="text-[10px] font-bold text-[#94a3b8] uppercase tracking-widest px-1">
+          The analysis instructions and benchmark playbook are also sent; they contain no document content.
+        </p>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onCancel}
+            disabled={isLoading}
+            className="px-6 py-4 rounded-lg font-black text-[11px] uppercase tracking-[0.2em] text-slate-500 hover:text-slate-700 disabled:opacity-50"
+          >
+            {cancelLabel}
+          </button>
+          <button
+            onClick={() => onConfirm(settings.enabled ? redaction : undefined)}
+            disabled={isLoading}
+            className={`px-10 py-4 rounded-lg font-black text-[11px] uppercase tracking-[0.2em] transition-all shadow-lg ${isLoading ? 'bg-[#f1f5f9] text-[#94a3b8]' : 'bg-[#2563eb] text-white hover:bg-[#1d4ed8] shadow-blue-200'}`}
+          >
+            {isLoading ? (status || "Processing Engine...") : confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionPreview;
@@ -0,0 +1,158 @@
+import React, { useMemo } from 'react';
+import { FacilityTerms, RateCurvePoint } from '../types';
+import { buildSchedule, defaultRateCurve, effectiveDayCount, scheduleToCsv } from '../services/repaymentSchedule';
+import { downloadFile, exportDateStamp } from '../services/exportUtils';
+
+interface RepaymentSchedulePanelProps {
+  terms: FacilityTerms;
+  curve?: RateCurvePoint[];
+  onCurveChange: (curve: RateCurvePoint[]) => void;
+}
+
+const AMORTISATION_LABELS: Record<FacilityTerms['amortisation'], string> = {
+  'bullet': 'Bullet at maturity',
+  'straight-line': 'Straight-line',
+  'scheduled': 'Scheduled instalments',
+  'balloon': 'Instalments + balloon'
+};
+
+const money = (value: number) => value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const RepaymentSchedulePanel: React.FC<RepaymentSchedulePanelProps> = ({ terms, curve, onCurveChange }) => {
+  const activeCurve = curve || defaultRateCurve(terms);
+  const rows = useMemo(() => buildSchedule(terms, curve || defaultRateCurve(terms)), [terms, curve]);
+  const totals = rows.reduce((sum, r) => ({ interest: sum.interest + r.interest, principal: sum.principal + r.principal }), { interest: 0, principal: 0 });
+  const isFloating = terms.benchmark !== 'Fixed';
+
+  const updatePoint = (index: number, patch: Partial<RateCurvePoint>) =>
+    onCurveChange(activeCurve.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+
+  const addPoint = () => {
+    const last = activeCurve[activeCurve.length - 1];
+    const nextYear = `${Number(last.date.slice(0, 4)) + 1}${last.date.slice(4)}`;
+    onCurveChange([...activeCurve, { date: nextYear, ratePct: last.ratePct }]);
+  };
+
+  const summary: { label: string; value: string; assumed?: boolean }[] = [
+    { label: 'Principal', value: terms.principal !== undefined ? `${terms.currency || ''} ${terms.principal.toLocaleString('en-GB')}`.trim() : 'Not stated' },
+    { label: 'Benchmark', value: terms.benchmark === 'Fixed' ? `Fixed ${terms.fixedRatePct ?? '—'}%` : terms.benchmark },
+    { label: 'Margin', value: terms.marginBps !== undefined ? `${terms.marginBps} bps` : 'Not stated' },
+    { label: 'Day Count', value: effectiveDayCount(terms), assumed: !terms.dayCount },
+    { label: 'Interest Period', value: `${terms.interestPeriodMonths || 3} months`, assumed: !terms.interestPeriodMonths },
+    { label: 'Amortisation', value: AMORTISATION_LABELS[terms.amortisation] },
+    { label: 'Drawdown', value: terms.drawdownDate || 'Not stated' },
+    { label: 'Maturity', value: terms.maturityDate || 'Not stated' }
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-4 gap-4">
+        {summary.map(item => (
+          <div key={item.label} className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">{item.label}</p>
+            <p className="text-[13px] font-bold text-slate-900 mono">
+              {item.value}
+              {item.assumed && <span className="ml-2 text-[9px] font-black text-amber-600 uppercase tracking-widest">Assumed</span>}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {terms.reviewItems.length > 0 && (
+        <div className="p-5 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-[10px] font-black text-amber-700 uppercase tracking-widest mb-3">Review Items: Ambiguous Terms</p>
+          <ul className="space-y-1.5">
+            {terms.reviewItems.map((item, i) => (
+              <li key={i} className="text-[12px] text-amber-900 font-medium leading-relaxed">• {item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isFloating && (
+        <div className="border border-slate-200 rounded-xl overflow-hidden no-print">
+          <div className="px-6 py-4 bg-[#f8fafc] border-b border-slate-200 flex items-center justify-between">
+            <div>
+              <p className="text-[11px] font-black text-slate-900 uppercase tracking-[0.15em]">{terms.benchmark} Rate Curve</p>
+              <p className="text-[11px] text-slate-400 font-medium mt-0.5">Indicative starting rate only. Enter your own forward curve; it is saved with this audit.</p>
+            </div>
+            <div className="flex items-center space-x-4">
+              <button onClick={() => onCurveChange(defaultRateCurve(terms))} className="text-[10px] font-bold text-slate-400 hover:text-slate-700 uppercase tracking-widest">Reset</button>
+              <button onClick={addPoint} className="text-[10px] font-bold text-[#2563eb] hover:text-[#1d4ed8] uppercase tracking-[0.15em]">+ Add Point</button>
+            </div>
+          </div>
+          <div className="p-6 grid grid-cols-4 gap-4">
+            {activeCurve.map((point, i) => (
+              <div key={i} className="flex items-center space-x-2">
+                <input
+                  type="date"
+                  className="flex-1 px-2 py-1.5 bg-slate-50 border border-slate-200 rounded text-[11px] font-bold mono focus:outline-none focus:border-blue-500"
+                  value={point.date}
+                  onChange={(e) => e.target.value && updatePoint(i, { date: e.target.value })}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  className="w-20 px-2 py-1.5 bg-slate-50 border border-slate-200 rounded text-[11px] font-bold mono focus:outline-none focus:border-blue-500"
+                  value={point.ratePct}
+                  onChange={(e) => updatePoint(i, { ratePct: Number(e.target.value) || 0 })}
+                />
+                <span className="text-[10px] font-bold text-slate-400">%</span>
+                {activeCurve.length > 1 && (
+                  <button onClick={() => onCurveChange(activeCurve.filter((_, j) => j !== i))} className="text-slate-300 hover:text-rose-600 text-sm font-bold">×</button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="p-4 bg-slate-50 rounded-lg border border-slate-100 text-center">
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Schedule unavailable: principal and final maturity date are required</p>
+        </div>
+      ) : (
+        <div className="border border-slate-200 rounded-xl overflow-hidden">
+          <div className="px-6 py-3 bg-[#f8fafc] border-b border-slate-200 flex items-center justify-between">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {rows.length} periods • Total interest {money(totals.interest)} • Principal repaid {money(totals.principal)}
+            </p>
+            <button
+              onClick={() => downloadFile(scheduleToCsv(rows), `REPAYMENT_SCHEDULE_${exportDateStamp()}.csv`, 'text/csv;charset=utf-8;')}
+              className="bg-white border border-slate-200 text-slate-700 text-[10px] font-bold px-5 py-2 rounded hover:bg-slate-50 transition-all uppercase tracking-widest shadow-sm no-print"
+            >
+              Export CSV
+            </button>
+          </div>
+          <div className="max-h-[480px] overflow-y-auto">
+            <table className="w-full text-left border-collapse">
+              <thead className="sticky top-0">
+                <tr className="bg-slate-50 border-b border-slate-200">
+                  {['Period', 'Days', 'Opening', 'Rate', 'Interest', 'Principal', 'Payment', 'Closing'].map(h => (
+                    <th key={h} className={`px-4 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest ${h === 'Period' ? '' : 'text-right'}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.map(row => (
+                  <tr key={row.periodEnd} className="text-[11px] font-bold text-slate-700 mono">
+                    <td className="px-4 py-2">{row.periodStart} → {row.periodEnd}</td>
+                    <td className="px-4 py-2 text-right">{row.days}</td>
+                    <td className="px-4 py-2 text-right">{money(row.openingBalance)}</td>
+                    <td className="px-4 py-2 text-right">{row.allInRatePct.toFixed(3)}%</td>
+                    <td className="px-4 py-2 text-right">{money(row.interest)}</td>
+                    <td className="px-4 py-2 text-right">{money(row.principal)}</td>
+                    <td className="px-4 py-2 text-right text-slate-900">{money(row.payment)}</td>
+                    <td className="px-4 py-2 text-right">{money(row.closingBalance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepaymentSchedulePanel;
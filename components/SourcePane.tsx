@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import { ClauseAnalysis } from '../types';
+
+interface SourcePaneProps {
+  rawText: string;
+  clause: ClauseAnalysis;
+  onClose: () => void;
+}
+
+const SourcePane: React.FC<SourcePaneProps> = ({ rawText, clause, onClose }) => {
+  const markRef = useRef<HTMLElement>(null);
+  const citation = clause.citation;
+  const hasRange = citation?.start !== undefined && citation?.end !== undefined;
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [clause]);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden sticky top-28 flex flex-col h-[75vh]">
+      <div className="px-5 py-3 bg-[#f8fafc] border-b border-slate-200 flex items-center justify-between shrink-0">
+        <div>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-[0.2em]">Source Document</p>
+          <p className="text-[12px] font-bold text-slate-900 tracking-tight">
+            {clause.name}
+            {citation?.clauseNumber && <span className="mono text-slate-500"> • Cl. {citation.clauseNumber}</span>}
+            {citation?.pageReference && <span className="mono text-slate-500"> • p. {citation.pageReference}</span>}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-[10px] font-bold text-slate-500 hover:text-slate-900 uppercase tracking-widest px-3 py-1 bg-white border border-slate-200 rounded shadow-sm"
+        >
+          Close
+        </button>
+      </div>
+
+      {!hasRange && (
+        <div className="px-5 py-3 bg-rose-50 border-b border-rose-100 text-[11px] font-bold text-rose-700 shrink-0">
+          Quote not found in source. Treat the extracted provision text as a possible hallucination.
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+        <pre className="whitespace-pre-wrap font-mono text-[11.5px] text-slate-600 leading-[1.8]">
+          {hasRange ? (
+            <>
+              {rawText.slice(0, citation!.start)}
+              <mark
+                ref={markRef}
+                className={`rounded px-0.5 ${citation!.status === 'verified' ? 'bg-amber-200/70 text-slate-900' : 'bg-orange-200/70 text-slate-900'}`}
+              >
+                {rawText.slice(citation!.start, citation!.end)}
+              </mark>
+              {rawText.slice(citation!.end)}
+            </>
+          ) : rawText}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default SourcePane;
@@ -0,0 +1,211 @@
+import React from 'react';
+import { FinancialCovenant, FinancialPeriod, StressBaseline, StressScenario, StressTestSetup } from '../types';
+import {
+  DRIVER_LABELS,
+  StressDriver,
+  bindingBreakpoint,
+  defaultStressSetup,
+  formatBreakpoint,
+  projectScenario,
+  projectedTestDates
+} from '../services/stressTesting';
+import { formatThreshold } from '../services/covenantModel';
+
+interface StressTestPanelProps {
+  covenants: FinancialCovenant[];
+  setup?: StressTestSetup;
+  latestPeriod?: FinancialPeriod;
+  onChange: (setup: StressTestSetup) => void;
+}
+
+const STATUS_TEXT: Record<string, string> = {
+  'compliant': 'text-emerald-700',
+  'near-breach': 'text-amber-700',
+  'breach': 'text-rose-700',
+  'not-computable': 'text-slate-400'
+};
+
+const BASELINE_FIELDS: { key: keyof Omit<StressBaseline, 'asOf'>; label: string }[] = [
+  { key: 'ebitda', label: 'LTM EBITDA' },
+  { key: 'netDebt', label: 'Net Debt' },
+  { key: 'interest', label: 'LTM Interest' },
+  { key: 'floatingSharePct', label: 'Floating Share %' }
+];
+
+const SHOCK_FIELDS: { key: 'ebitdaShockPct' | 'debtShockPct' | 'rateShockBps'; label: string }[] = [
+  { key: 'ebitdaShockPct', label: 'EBITDA %' },
+  { key: 'debtShockPct', label: 'Debt %' },
+  { key: 'rateShockBps', label: 'Rates bps' }
+];
+
+const DRIVERS: StressDriver[] = ['ebitda', 'netDebt', 'rates'];
+
+const StressTestPanel: React.FC<StressTestPanelProps> = ({ covenants, setup, latestPeriod, onChange }) => {
+  const current = setup || defaultStressSetup(latestPeriod);
+  const { baseline, scenarios, horizon } = current;
+  const hasBaseline = baseline.ebitda !== 0 || baseline.netDebt !== 0;
+
+  const updateBaseline = (patch: Partial<StressBaseline>) => onChange({ ...current, baseline: { ...baseline, ...patch } });
+  const updateScenario = (id: string, patch: Partial<StressScenario>) =>
+    onChange({ ...current, scenarios: scenarios.map(s => (s.id === id ? { ...s, ...patch } : s)) });
+
+  const addScenario = () => onChange({
+    ...current,
+    scenarios: [...scenarios, { id: `sc-${Date.now().toString(36)}`, name: `Scenario ${scenarios.length + 1}`, ebitdaShockPct: -10, debtShockPct: 0, rateShockBps: 0 }]
+  });
+
+  return (
+    <div className="mt-10 border border-slate-200 rounded-xl overflow-hidden">
+      <div className="px-6 py-4 bg-[#f8fafc] border-b border-slate-200 flex items-center justify-between">
+        <div>
+          <p className="text-[11px] font-black text-slate-900 uppercase tracking-[0.15em]">Stress Testing & Breakpoints</p>
+          <p className="text-[11px] text-slate-400 font-medium mt-0.5">
+            Shocks build linearly over the next {horizon} test dates. Scenarios are saved with this audit.
+          </p>
+        </div>
+        {latestPeriod && (
+          <button
+            onClick={() => onChange({ ...current, baseline: { ...defaultStressSetup(latestPeriod).baseline, floatingSharePct: baseline.floatingSharePct } })}
+            className="bg-white border border-slate-200 text-slate-700 text-[10px] font-bold px-5 py-2 rounded hover:bg-slate-50 transition-all uppercase tracking-widest shadow-sm"
+          >
+            Use {latestPeriod.periodEnd} Financials
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-8">
+        <div className="grid grid-cols-5 gap-4">
+          {BASELINE_FIELDS.map(field => (
+            <label key={field.key}>
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1.5">{field.label}</span>
+              <input
+                type="number"
+                className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded text-sm font-bold mono focus:outline-none focus:border-blue-500"
+                value={baseline[field.key]}
+                onChange={(e) => updateBaseline({ [field.key]: Number(e.target.value) || 0 })}
+              />
+            </label>
+          ))}
+          <label>
+            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1.5">Test Dates</span>
+            <input
+              type="number"
+              min={1}
+              max={12}
+              className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded text-sm font-bold mono focus:outline-none focus:border-blue-500"
+              value={horizon}
+              onChange={(e) => onChange({ ...current, horizon: Math.min(12, Math.max(1, Number(e.target.value) || 1)) })}
+            />
+          </label>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Scenarios</p>
+            <button onClick={addScenario} className="text-[10px] font-bold text-[#2563eb] hover:text-[#1d4ed8] uppercase tracking-[0.15em]">+ Add Scenario</button>
+          </div>
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {scenarios.map(scenario => (
+              <div key={scenario.id} className="grid grid-cols-12 gap-3 px-4 py-2 items-center">
+                <input
+                  className="col-span-4 px-2 py-1 border border-transparent hover:border-slate-200 focus:border-blue-400 rounded text-[12px] font-bold text-slate-900 focus:outline-none"
+                  value={scenario.name}
+                  onChange={(e) => updateScenario(scenario.id, { name: e.target.value })}
+                />
+                {SHOCK_FIELDS.map(field => (
+                  <label key={field.key} className="col-span-2 flex items-center gap-2">
+                    <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest shrink-0">{field.label}</span>
+                    <input
+                      type="number"
+                      className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-[12px] font-bold mono focus:outline-none focus:border-blue-500"
+                      value={scenario[field.key]}
+                      onChange={(e) => updateScenario(scenario.id, { [field.key]: Number(e.target.value) || 0 })}
+                    />
+                  </label>
+                ))}
+                <button
+                  onClick={() => onChange({ ...current, scenarios: scenarios.filter(s => s.id !== scenario.id) })}
+                  disabled={scenarios.length <= 1}
+                  className="col-span-2 text-right text-[10px] font-bold text-slate-400 hover:text-rose-600 uppercase tracking-widest disabled:opacity-30"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {!hasBaseline ? (
+          <div className="p-4 bg-slate-50 rounded-lg border border-slate-100 text-center">
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Enter baseline figures or upload financials to run scenarios</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-slate-50 border-b border-slate-200">
+                  <th className="px-4 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Covenant</th>
+                  {scenarios.map(s => (
+                    <th key={s.id} className="px-4 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">{s.name}</th>
+                  ))}
+                  {DRIVERS.map(d => (
+                    <th key={d} className="px-4 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right bg-slate-100/60">{DRIVER_LABELS[d]} to Breach</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {covenants.map(cov => {
+                  const dates = projectedTestDates(cov, horizon);
+                  return (
+                    <tr key={cov.name}>
+                      <td className="px-4 py-3">
+                        <p className="text-[12px] font-bold text-slate-900">{cov.name}</p>
+                        <p className="text-[10px] font-bold text-slate-400 mono">{dates[0]} → {dates[dates.length - 1]}</p>
+                      </td>
+                      {scenarios.map(s => {
+                        const projection = projectScenario(cov, baseline, s, dates);
+                        const computable = projection.filter(p => p.headroomPct !== undefined);
+                        if (computable.length === 0) {
+                          return <td key={s.id} className="px-4 py-3 text-right text-[10px] font-bold text-slate-400">Not modelled</td>;
+                        }
+                        const worst = computable.reduce((a, b) => (b.headroomPct! < a.headroomPct! ? b : a));
+                        const firstBreach = projection.find(p => p.status === 'breach');
+                        return (
+                          <td key={s.id} className={`px-4 py-3 text-right ${STATUS_TEXT[worst.status]}`}>
+                            <p className="text-[12px] font-black mono">{formatThreshold(Number(worst.actual!.toFixed(2)), cov.unit)}</p>
+                            <p className="text-[9px] font-bold mono">
+                              {firstBreach ? `Breach ${firstBreach.date}` : `Min headroom ${worst.headroomPct!.toFixed(1)}%`}
+                            </p>
+                          </td>
+                        );
+                      })}
+                      {DRIVERS.map(d => {
+                        const breakpoint = bindingBreakpoint(cov, baseline, d, dates);
+                        return (
+                          <td key={d} className="px-4 py-3 text-right bg-slate-50/60">
+                            {breakpoint ? (
+                              <>
+                                <p className={`text-[12px] font-black mono ${breakpoint.size === 0 ? 'text-rose-700' : 'text-slate-900'}`}>
+                                  {breakpoint.size === 0 ? 'In breach' : formatBreakpoint(d, breakpoint.size)}
+                                </p>
+                                <p className="text-[9px] font-bold text-slate-400 mono">at {breakpoint.date}</p>
+                              </>
+                            ) : (
+                              <p className="text-[10px] font-bold text-slate-400">n/a</p>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StressTestPanel;
@@ -0,0 +1,272 @@
+#!/usr/bin/env node
+import { realpathSync } from "node:fs";
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import { extname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { AnalysisResult, Playbook } from "../types";
+import {
+  SUPPORTED_EXTENSIONS,
+  auditDocument,
+  clauseAuditCsv,
+  createReplayProvider,
+  obligationsToCsv,
+  parsePlaybook,
+  readProviderConfig,
+  serializeAuditFile,
+  setModelProvider,
+  toCsv
+} from "./index";
+
+const USAGE = `Usage: loandoc-audit <folder> [options]
+
+Audits every .docx, .pdf, .txt and .md agreement in <folder> and writes one report set per document.
+
+Options:
+  -o, --out <dir>          Output folder (default: ./audit-reports)
+  -f, --format <list>      Comma-separated outputs: json, csv (default: json,csv)
+  -p, --playbook <file>    Playbook JSON to benchmark against (default: LMA Market Standard)
+      --fail-on <rating>   Exit 1 when any document is rated at or above: high, medium, never (default: high)
+  -c, --concurrency <n>    Documents analysed in parallel (default: 2)
+      --replay <file>      Serve model responses from a recorded replay fixture
+      --no-redact          Send document text to the model without pseudonymisation
+      --redact-term <term> Extra term to pseudonymise (repeatable)
+  -r, --recursive          Include subfolders
+  -h, --help               Show this help
+
+The model is chosen by MODEL_PROVIDER (default gemini, which needs GEMINI_API_KEY or MODEL_API_KEY).
+
+Exit codes: 0 all clear, 1 risk threshold reached, 2 a document failed, 64 usage error or missing credentials.`;
+
+// When a run both fails documents and reaches the risk threshold, the failure code wins.
+export const EXIT_CODES = { ok: 0, risk: 1, failed: 2, usage: 64 } as const;
+
+const RATING_RANK: Record<AnalysisResult['riskAssessment']['overallRating'], number> = { Low: 0, Medium: 1, High: 2 };
+const FAIL_ON_RANK: Record<string, number> = { medium: 1, high: 2, never: Infinity };
+
+interface DocumentOutcome {
+  file: string;
+  status: 'ok' | 'failed';
+  reportId?: string;
+  result?: AnalysisResult;
+  warnings: string[];
+  error?: string;
+}
+
+const listAgreements = async (folder: string, recursive: boolean): Promise<string[]> => {
+  const entries = await readdir(folder, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(folder, entry.name);
+    if (entry.isDirectory() && recursive) files.push(...await listAgreements(path, recursive));
+    else if (entry.isFile() && SUPPORTED_EXTENSIONS.includes(extname(entry.name).toLowerCase())) files.push(path);
+  }
+  return files;
+};
+
+// Report files are named after the source so a folder of outputs maps back to the inputs.
+const reportBase = (file: string, root: string) =>
+  resolve(file).slice(resolve(root).length + 1).replace(/[\\/]/g, '__').replace(/\.[^.]+$/, '');
+
+const flaggedCount = (result: AnalysisResult) => result.confidenceAnalysis.filter(c => c.reviewRequired).length;
+
+const SUMMARY_HEADERS = ['File', 'Status', 'Report', 'Borrower / Lender', 'Facility', 'Risk', 'Readiness', 'Flagged', 'Validation', 'Error'];
+
+const summaryRow = (outcome: DocumentOutcome) => {
+  const r = outcome.result;
+  return [
+    outcome.file,
+    outcome.status,
+    outcome.reportId || '',
+    r?.overview.borrowerLender || '',
+    r?.overview.facilityType || '',
+    r?.riskAssessment.overallRating || '',
+    r ? `${r.dealReadiness.score} ${r.dealReadiness.status}` : '',
+    r ? String(flaggedCount(r)) : '',
+    r?.validation?.status || '',
+    outcome.error || ''
+  ];
+};
+
+const formatTable = (headers: string[], rows: string[][]) => {
+  const widths = headers.map((h, i) => Math.min(40, Math.max(h.length, ...rows.map(r => r[i].length))));
+  const line = (cells: string[]) => cells.map((c, i) => (c.length > widths[i] ? `${c.slice(0, widths[i] - 1)}…` : c.padEnd(widths[i]))).join('  ');
+  return [line(headers), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n');
+};
+
+const runPool = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) await worker(items[next++]);
+  });
+  await Promise.all(lanes);
+};
+
+const isLocalUrl = (url: string) => {
+  try {
+    return ['localhost', '127.0.0.1', '[::1]', '0.0.0.0'].includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+// Checked before any document is read, so a missing key fails once instead of once per document.
+const credentialProblem = (replay: boolean): string => {
+  if (replay) return '';
+  const config = readProviderConfig();
+  switch (config.provider) {
+    case 'gemini':
+      return config.apiKey ? '' : 'No model API key is set. Set GEMINI_API_KEY (or MODEL_API_KEY), pass --replay <fixture> to run offline, or choose another MODEL_PROVIDER.';
+    case 'openai':
+      // Local OpenAI-compatible servers (Ollama, llama.cpp) accept requests without a key.
+      return config.apiKey || isLocalUrl(config.baseUrl) ? '' : `MODEL_PROVIDER=openai needs MODEL_API_KEY for ${config.baseUrl}.`;
+    case 'backend':
+      // The backend holds the key; the CLI only needs to reach it.
+      return /^https?:\/\//.test(config.backendUrl) ? '' : 'MODEL_PROVIDER=backend needs an absolute MODEL_BACKEND_URL, e.g. http://localhost:8787/api.';
+    case 'replay':
+      // REPLAY_FIXTURE is a URL the browser fetches; the CLI reads fixtures from disk.
+      return 'MODEL_PROVIDER=replay needs --replay <fixture> to name the fixture file on disk.';
+    default:
+      return `Unknown MODEL_PROVIDER "${config.provider}". Use gemini, openai, backend or replay.`;
+  }
+};
+
+const parseCli = (argv: string[]) => parseArgs({
+  args: argv,
+  allowPositionals: true,
+  options: {
+    out: { type: 'string', short: 'o', default: 'audit-reports' },
+    format: { type: 'string', short: 'f', default: 'json,csv' },
+    playbook: { type: 'string', short: 'p' },
+    'fail-on': { type: 'string', default: 'high' },
+    concurrency: { type: 'string', short: 'c', default: '2' },
+    replay: { type: 'string' },
+    'no-redact': { type: 'boolean', default: false },
+    'redact-term': { type: 'string', multiple: true, default: [] },
+    recursive: { type: 'boolean', short: 'r', default: false },
+    help: { type: 'boolean', short: 'h', default: false }
+  }
+});
+
+export const main = async (argv: string[]): Promise<number> => {
+  let args: ReturnType<typeof parseCli>;
+  try {
+    args = parseCli(argv);
+  } catch (err: any) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+  const { values, positionals } = args;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_CODES.ok;
+  }
+
+  const formats = values.format.split(',').map(f => f.trim().toLowerCase()).filter(Boolean);
+  const concurrency = Number(values.concurrency);
+  const failOn = FAIL_ON_RANK[values['fail-on'].toLowerCase()];
+  const problems = [
+    positionals.length !== 1 ? 'exactly one input folder is required' : '',
+    formats.some(f => f !== 'json' && f !== 'csv') ? '--format accepts json and csv' : '',
+    !Number.isInteger(concurrency) || concurrency < 1 ? '--concurrency must be a positive whole number' : '',
+    failOn === undefined ? '--fail-on accepts high, medium or never' : ''
+  ].filter(Boolean);
+  if (problems.length > 0) {
+    console.error(`${problems.join('; ')}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+  const credentials = credentialProblem(Boolean(values.replay));
+  if (credentials) {
+    console.error(credentials);
+    return EXIT_CODES.usage;
+  }
+
+  const folder = positionals[0];
+  let playbook: Playbook | undefined;
+  let files: string[];
+  try {
+    if (values.playbook) playbook = parsePlaybook(await readFile(values.playbook, 'utf8'));
+    if (values.replay) setModelProvider(createReplayProvider(JSON.parse(await readFile(values.replay, 'utf8'))));
+    files = await listAgreements(folder, values.recursive);
+  } catch (err: any) {
+    console.error(err.message || String(err));
+    return EXIT_CODES.usage;
+  }
+  if (files.length === 0) {
+    console.error(`No ${SUPPORTED_EXTENSIONS.join('/')} files found in ${folder}.`);
+    return EXIT_CODES.usage;
+  }
+
+  await mkdir(values.out, { recursive: true });
+  const outcomes: DocumentOutcome[] = files.map(file => ({ file: resolve(file).slice(resolve(folder).length + 1), status: 'ok', warnings: [] }));
+
+  await runPool(outcomes, concurrency, async outcome => {
+    const path = join(folder, outcome.file);
+    const base = join(values.out, reportBase(path, folder));
+    console.error(`[${outcome.file}] analysing`);
+    try {
+      const { result, audit } = await auditDocument(path, {
+        playbook,
+        redact: !values['no-redact'],
+        customTerms: values['redact-term'],
+        onProgress: message => console.error(`[${outcome.file}] ${message}`),
+        onWarning: message => outcome.warnings.push(message)
+      });
+      outcome.result = result;
+      outcome.reportId = audit.id;
+      if (formats.includes('json')) await writeFile(`${base}.audit.json`, serializeAuditFile(audit));
+      if (formats.includes('csv')) {
+        await writeFile(`${base}.clauses.csv`, clauseAuditCsv(result));
+        if (result.obligations?.length) await writeFile(`${base}.obligations.csv`, obligationsToCsv(result.obligations, result.facilityTerms?.maturityDate));
+      }
+      console.error(`[${outcome.file}] done: ${result.riskAssessment.overallRating} risk, ${flaggedCount(result)} clause(s) flagged`);
+    } catch (err: any) {
+      outcome.status = 'failed';
+      outcome.error = err.message || String(err);
+      console.error(`[${outcome.file}] failed: ${outcome.error}`);
+    }
+    outcome.warnings.forEach(w => console.error(`[${outcome.file}] warning: ${w}`));
+  });
+
+  const rows = outcomes.map(summaryRow);
+  if (formats.includes('csv')) await writeFile(join(values.out, 'summary.csv'), toCsv(SUMMARY_HEADERS, rows));
+  if (formats.includes('json')) {
+    await writeFile(join(values.out, 'summary.json'), JSON.stringify(outcomes.map(o => ({
+      file: o.file,
+      status: o.status,
+      reportId: o.reportId,
+      borrowerLender: o.result?.overview.borrowerLender,
+      facilityType: o.result?.overview.facilityType,
+      riskRating: o.result?.riskAssessment.overallRating,
+      readinessScore: o.result?.dealReadiness.score,
+      readinessStatus: o.result?.dealReadiness.status,
+      flaggedClauses: o.result ? flaggedCount(o.result) : undefined,
+      validation: o.result?.validation?.status,
+      warnings: o.warnings,
+      error: o.error
+    })), null, 2));
+  }
+  console.log(formatTable(SUMMARY_HEADERS.slice(0, 9), rows.map(r => r.slice(0, 9))));
+
+  const failed = outcomes.filter(o => o.status === 'failed');
+  const risky = outcomes.filter(o => o.result && RATING_RANK[o.result.riskAssessment.overallRating] >= failOn);
+  console.log(`\n${outcomes.length} document(s): ${failed.length} failed, ${risky.length} at or above the --fail-on threshold. Reports in ${values.out}`);
+  if (failed.length > 0) return EXIT_CODES.failed;
+  return risky.length > 0 ? EXIT_CODES.risk : EXIT_CODES.ok;
+};
+
+// Runs only when executed directly, including through the npm bin symlink, and never on import.
+const isEntryPoint = () => {
+  try {
+    return Boolean(process.argv[1]) && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href;
+  } catch {
+    return false;
+  }
+};
+
+if (isEntryPoint()) {
+  main(process.argv.slice(2)).then(code => process.exit(code), err => {
+    console.error(err);
+    process.exit(EXIT_CODES.failed);
+  });
+}
@@ -0,0 +1,72 @@
+// Node entry point: document reading, analysis, scoring and export without the React app or any
+// browser globals. Model settings come from the same environment variables as the app
+// (MODEL_PROVIDER, GEMINI_API_KEY or MODEL_API_KEY, ...), or pass a provider to setModelProvider.
+import { AnalysisResult, ParsedDocument, Playbook, SavedAudit } from "../types";
+import { analyzeLoanDocument } from "../services/geminiService";
+import { auditIdFor } from "../services/auditStore";
+import { DEFAULT_REDACTION_SETTINGS, buildRedaction } from "../services/redaction";
+import { readDocument } from "./readDocument";
+
+export type * from "../types";
+
+export { SUPPORTED_EXTENSIONS, readDocument } from "./readDocument";
+export { extractDocxText } from "../services/docxText";
+export { analyzeLoanDocument, askAgreement } from "../services/geminiService";
+export type { AnalysisOptions } from "../services/geminiService";
+export { createProvider, getModelProvider, readProviderConfig, setModelProvider } from "../services/modelProvider";
+export type { ModelProvider, ProviderConfig } from "../services/modelProvider";
+export { createReplayProvider } from "../services/replayProvider";
+export { DEFAULT_PLAYBOOK, parsePlaybook, serializePlaybook } from "../services/playbook";
+export { DEFAULT_REDACTION_SETTINGS, buildRedaction, redactText, restoreText } from "../services/redaction";
+export { EXECUTION_READY_SCORE, REVIEW_READY_SCORE, readinessStatus, scoreDealReadiness } from "../services/readinessScoring";
+export { testCompliance, buildComplianceCertificate } from "../services/complianceTesting";
+export { buildSchedule, defaultRateCurve, scheduleToCsv } from "../services/repaymentSchedule";
+export { buildTimeline, obligationsToCsv, obligationsToIcs } from "../services/obligationsCalendar";
+export { aggregatePortfolio } from "../services/portfolioStats";
+export { clauseAuditCsv, toCsv } from "../services/exportUtils";
+export { AUDIT_FILE_VERSION, parseAuditFile, serializeAuditFile } from "../services/auditFile";
+export { buildMemorandum } from "../services/memorandum";
+export { renderMemorandumDocx } from "../services/docxExport";
+export { auditIdFor } from "../services/auditStore";
+
+export interface AuditDocumentOptions {
+  playbook?: Playbook;
+  // Redaction is on by default, as in the app. Pass false to send the text unchanged.
+  redact?: boolean;
+  customTerms?: string[];
+  onProgress?: (message: string) => void;
+  onWarning?: (message: string) => void;
+}
+
+export interface DocumentAudit {
+  document: ParsedDocument;
+  result: AnalysisResult;
+  audit: SavedAudit;
+}
+
+// Reads and analyses one agreement. The returned SavedAudit is what serializeAuditFile expects,
+// so a CLI run can be opened in the app with Open Audit File.
+export const auditDocument = async (path: string, options: AuditDocumentOptions = {}): Promise<DocumentAudit> => {
+  const document = await readDocument(path, options.onWarning);
+  if (!document.text.trim()) throw new Error("No text could be read from the document.");
+  const redaction = options.redact === false
+    ? undefined
+    : buildRedaction(document.text, { ...DEFAULT_REDACTION_SETTINGS, customTerms: options.customTerms || [] });
+  const result = await analyzeLoanDocument(document.text, document.pages, {
+    playbook: options.playbook,
+    redaction,
+    onProgress: options.onProgress
+  });
+  const now = new Date().toISOString();
+  const audit: SavedAudit = {
+    id: auditIdFor(document.text),
+    title: result.overview.borrowerLender || document.fileName,
+    fileName: document.fileName,
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    sourceText: document.text,
+    result
+  };
+  return { document, result, audit };
+};
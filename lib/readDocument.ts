@@ -0,0 +1,61 @@
+import { readFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { ParsedDocument, SourcePage } from "../types";
+import { joinPages, pdfPageFromItems } from "../services/documentParser";
+import { extractDocxText } from "../services/docxText";
+
+export const SUPPORTED_EXTENSIONS = ['.docx', '.pdf', '.txt', '.md'];
+
+// pdf.js is an optional dependency: only PDF input needs it. The specifier is a variable so the
+// bundle does not try to include it.
+const PDFJS_MODULE = 'pdfjs-dist/legacy/build/pdf.mjs';
+
+const loadPdfjs = async () => {
+  try {
+    return await import(PDFJS_MODULE);
+  } catch {
+    throw new Error("Reading PDFs from Node needs the pdfjs-dist package: npm install pdfjs-dist");
+  }
+};
+
+// Pages without a text layer are kept empty: OCR is only available in the browser.
+const readPdfPages = async (data: Uint8Array, onWarning?: (message: string) => void): Promise<SourcePage[]> => {
+  const pdfjs = await loadPdfjs();
+  let pdf: any;
+  try {
+    pdf = await pdfjs.getDocument({ data, useSystemFonts: true, isEvalSupported: false }).promise;
+  } catch (err: any) {
+    if (err?.name === 'PasswordException') {
+      throw new Error("This PDF is password-protected or encrypted.");
+    }
+    throw new Error("The PDF could not be read. The file may be damaged or not a valid PDF.");
+  }
+
+  const pages: SourcePage[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const content = await (await pdf.getPage(pageNumber)).getTextContent();
+    const page = pdfPageFromItems(pageNumber, content.items);
+    if (!page) onWarning?.(`Page ${pageNumber} has no text layer and was skipped (OCR is not available outside the browser).`);
+    pages.push(page || { pageNumber, text: '', headings: [] });
+  }
+  return pages;
+};
+
+// Node counterpart of parseDocument: reads an agreement from disk without browser globals.
+export const readDocument = async (path: string, onWarning?: (message: string) => void): Promise<ParsedDocument> => {
+  const fileName = basename(path);
+  const extension = extname(path).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported file type ${extension || '(none)'}; expected ${SUPPORTED_EXTENSIONS.join(', ')}.`);
+  }
+  const data = new Uint8Array(await readFile(path));
+
+  if (extension === '.pdf') {
+    const pages = await readPdfPages(data, onWarning);
+    return { fileName, format: 'pdf', text: joinPages(pages), pages };
+  }
+  if (extension === '.docx') {
+    return { fileName, format: 'docx', text: await extractDocxText(data), pages: [] };
+  }
+  return { fileName, format: 'text', text: new TextDecoder().decode(data), pages: [] };
+};
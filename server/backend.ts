@@ -0,0 +1,226 @@
+import { readFileSync } from "node:fs";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { GenerateRequest, ModelPurpose, ModelProvider, ProviderConfig, ProviderId, createProvider } from "../services/modelProvider";
+import { createReplayProvider } from "../services/replayProvider";
+import { createMockProvider } from "./mockProvider";
+import { RateDecision, createRateLimiter } from "./rateLimiter";
+
+export interface EndpointLimits {
+  maxBodyBytes: number;
+  perMinute: number;
+}
+
+export type ServerProviderId = ProviderId | 'mock';
+
+export interface BackendConfig {
+  provider: Omit<ProviderConfig, 'provider'> & { provider: ServerProviderId };
+  limits: Record<ModelPurpose, EndpointLimits>;
+  // Header a trusted authenticating reverse proxy sets with the signed-in user. Unset by default:
+  // clients choose their own headers, so users are then told apart by socket address.
+  userHeader?: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+const envNumber = (env: Env, name: string, fallback: number) => {
+  const value = Number(env[name]);
+  return env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Defaults allow a chunked analysis of a long agreement (one call per section plus repairs)
+// inside a minute, while keeping chat and search-grounded calls tighter.
+export const readBackendConfig = (env: Env = process.env): BackendConfig => ({
+  provider: {
+    provider: (env.MODEL_PROVIDER || 'gemini') as ServerProviderId,
+    apiKey: env.MODEL_API_KEY || env.API_KEY || env.GEMINI_API_KEY || '',
+    baseUrl: env.MODEL_BASE_URL || 'http://localhost:11434/v1',
+    reasoningModel: env.MODEL_REASONING || '',
+    fastModel: env.MODEL_FAST || '',
+    replayFixture: env.REPLAY_FIXTURE || 'public/fixtures/replay.json',
+    // Recording happens in the browser, where the fixture is exported from.
+    record: false,
+    backendUrl: ''
+  },
+  limits: {
+    analyze: {
+      maxBodyBytes: envNumber(env, 'BACKEND_ANALYZE_MAX_KB', 1024) * 1024,
+      perMinute: envNumber(env, 'BACKEND_ANALYZE_PER_MINUTE', 60)
+    },
+    chat: {
+      maxBodyBytes: envNumber(env, 'BACKEND_CHAT_MAX_KB', 256) * 1024,
+      perMinute: envNumber(env, 'BACKEND_CHAT_PER_MINUTE', 20)
+    },
+    'market-intel': {
+      maxBodyBytes: envNumber(env, 'BACKEND_MARKET_INTEL_MAX_KB', 16) * 1024,
+      perMinute: envNumber(env, 'BACKEND_MARKET_INTEL_PER_MINUTE', 10)
+    }
+  },
+  userHeader: env.BACKEND_USER_HEADER?.trim().toLowerCase() || undefined
+});
+
+const createServerProvider = (config: BackendConfig['provider']): ModelProvider => {
+  if (config.provider === 'mock') return createMockProvider();
+  // The browser fetches the fixture by URL; here it is read from disk.
+  if (config.provider === 'replay') return createReplayProvider(JSON.parse(readFileSync(config.replayFixture, 'utf8')));
+  return createProvider(config as ProviderConfig);
+};
+
+// Usage log: one JSON line per request. Prompt and response text are never logged.
+export interface UsageEntry {
+  time: string;
+  user: string;
+  endpoint: string;
+  status: number;
+  ms: number;
+  requestBytes: number;
+  responseBytes: number;
+  tier?: string;
+  provider: string;
+  error?: string;
+}
+
+// Errors with a status are reported to the client as-is; anything else is a provider failure.
+const requestError = (status: number, message: string, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(message), { status, headers });
+
+const readBody = (req: IncomingMessage, maxBytes: number) =>
+  new Promise<string>((resolve, reject) => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > maxBytes) {
+      req.resume();
+      reject(requestError(413, `Request is ${Math.ceil(declared / 1024)} KB; this endpoint accepts up to ${maxBytes / 1024} KB.`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.removeAllListeners('data');
+        req.resume();
+        reject(requestError(413, `Request exceeds the ${maxBytes / 1024} KB limit for this endpoint.`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+// Only the fields providers read are forwarded, so clients cannot pass provider-specific options.
+const parseGenerateRequest = (body: string, purpose: ModelPurpose): GenerateRequest => {
+  let data: any;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw requestError(400, "Request body is not valid JSON.");
+  }
+  const problems = [
+    data?.tier !== 'reasoning' && data?.tier !== 'fast' ? 'tier must be "reasoning" or "fast"' : '',
+    typeof data?.contents !== 'string' || !data.contents.trim() ? 'contents must be a non-empty string' : '',
+    data?.systemInstruction !== undefined && typeof data.systemInstruction !== 'string' ? 'systemInstruction must be a string' : '',
+    data?.temperature !== undefined && typeof data.temperature !== 'number' ? 'temperature must be a number' : '',
+    data?.responseSchema !== undefined && (typeof data.responseSchema !== 'object' || data.responseSchema === null) ? 'responseSchema must be an object' : ''
+  ].filter(Boolean);
+  if (problems.length > 0) throw requestError(400, `Invalid request: ${problems.join('; ')}.`);
+  return {
+    tier: data.tier,
+    contents: data.contents,
+    systemInstruction: data.systemInstruction,
+    temperature: data.temperature,
+    responseSchema: data.responseSchema,
+    purpose
+  };
+};
+
+const ENDPOINTS: Record<string, ModelPurpose> = {
+  '/api/analyze': 'analyze',
+  '/api/chat': 'chat',
+  '/api/market-intel': 'market-intel'
+};
+
+export interface BackendOptions {
+  provider?: ModelProvider;
+  log?: (entry: UsageEntry) => void;
+}
+
+// Connect-style middleware, so the same handler runs inside the Vite dev server and the
+// standalone server. Requests outside /api are passed to next().
+export const createBackendHandler = (config: BackendConfig, options: BackendOptions = {}) => {
+  let provider = options.provider;
+  const log = options.log || ((entry: UsageEntry) => console.log(JSON.stringify(entry)));
+  const limiters = Object.fromEntries(
+    Object.entries(config.limits).map(([purpose, limits]) => [purpose, createRateLimiter(limits.perMinute)])
+  ) as Record<ModelPurpose, (key: string) => RateDecision>;
+
+  const userOf = (req: IncomingMessage) => {
+    const header = config.userHeader ? req.headers[config.userHeader] : undefined;
+    const value = Array.isArray(header) ? header[0] : header;
+    return value?.trim().slice(0, 128) || `ip:${req.socket.remoteAddress || 'unknown'}`;
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const path = (req.url || '').split('?')[0];
+    if (!path.startsWith('/api/')) return next();
+
+    const started = Date.now();
+    const user = userOf(req);
+    const entry: UsageEntry = {
+      time: new Date(started).toISOString(),
+      user,
+      endpoint: path,
+      status: 200,
+      ms: 0,
+      requestBytes: 0,
+      responseBytes: 0,
+      provider: config.provider.provider
+    };
+    const send = (status: number, payload: unknown, headers: Record<string, string> = {}) => {
+      const body = JSON.stringify(payload);
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+      res.end(body);
+      entry.status = status;
+      entry.responseBytes = Buffer.byteLength(body);
+      entry.ms = Date.now() - started;
+      log(entry);
+    };
+
+    try {
+      if (path === '/api/health' && req.method === 'GET') {
+        send(200, { ok: true, provider: config.provider.provider });
+        return;
+      }
+      const purpose = ENDPOINTS[path];
+      if (!purpose) throw requestError(404, `Unknown endpoint ${path}.`);
+      if (req.method !== 'POST') throw requestError(405, `${path} accepts POST only.`, { Allow: 'POST' });
+
+      const decision = limiters[purpose](user);
+      if (!decision.allowed) {
+        throw requestError(429, `Rate limit of ${config.limits[purpose].perMinute} ${purpose} requests per minute reached.`, {
+          'Retry-After': String(decision.retryAfter)
+        });
+      }
+      const body = await readBody(req, config.limits[purpose].maxBodyBytes);
+      entry.requestBytes = Buffer.byteLength(body);
+      const request = parseGenerateRequest(body, purpose);
+      entry.tier = request.tier;
+
+      provider ||= createServerProvider(config.provider);
+      const headers = { 'X-RateLimit-Remaining': String(decision.remaining) };
+      if (purpose === 'market-intel') {
+        send(200, await provider.generateGrounded(request), headers);
+      } else {
+        send(200, { text: await provider.generateJson(request) }, headers);
+      }
+    } catch (err: any) {
+      if (err?.headers && typeof err.status === 'number') {
+        entry.error = err.message;
+        send(err.status, { error: err.message }, err.headers);
+      } else {
+        // Provider errors can quote configuration; the client gets a generic message.
+        entry.error = err?.message || String(err);
+        send(502, { error: "The model provider request failed." });
+      }
+    }
+  };
+};
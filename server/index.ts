@@ -0,0 +1,57 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { createServer } from "node:http";
+import { extname, join, normalize, resolve } from "node:path";
+import { createBackendHandler, readBackendConfig } from "./backend";
+
+// Same files Vite reads, so one .env.local configures both. Later files do not override earlier ones.
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const STATIC_ROOT = resolve(process.env.BACKEND_STATIC_DIR || 'dist');
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2'
+};
+
+// Serves the built app (npm run build) so the browser and the API share one origin.
+// Unknown paths fall back to index.html. Malformed escapes ("%E0%A4%A") throw a URIError.
+const serveStatic = (url: string) => {
+  const path = normalize(decodeURIComponent(url.split('?')[0]));
+  let file = join(STATIC_ROOT, path);
+  if (!file.startsWith(STATIC_ROOT) || !existsSync(file) || !statSync(file).isFile()) file = join(STATIC_ROOT, 'index.html');
+  if (!existsSync(file)) return null;
+  return { body: readFileSync(file), type: MIME_TYPES[extname(file)] || 'application/octet-stream' };
+};
+
+const config = readBackendConfig();
+const handler = createBackendHandler(config);
+const port = Number(process.env.PORT || 8787);
+
+createServer((req, res) => {
+  // next() runs inside the async handler, so anything it throws would become an unhandled
+  // rejection and stop the server; every failure is answered here instead.
+  handler(req, res, () => {
+    try {
+      const file = req.method === 'GET' || req.method === 'HEAD' ? serveStatic(req.url || '/') : null;
+      if (!file) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found. Run npm run build to serve the app from this server.');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': file.type });
+      res.end(req.method === 'HEAD' ? undefined : file.body);
+    } catch (err) {
+      if (!res.headersSent) res.writeHead(err instanceof URIError ? 400 : 500, { 'Content-Type': 'text/plain' });
+      res.end(err instanceof URIError ? 'Bad request: malformed URL.' : 'Internal server error.');
+    }
+  });
+}).listen(port, () => {
+  console.error(`LoanDoc backend on http://localhost:${port} (provider: ${config.provider.provider})`);
+});
@@ -0,0 +1,40 @@
+import { GenerateRequest, ModelProvider } from "../services/modelProvider";
+
+// Builds a placeholder value that satisfies a Gemini-style schema: first enum value for strings,
+// zero for numbers and one element per array, so every report section renders with visible data.
+export const mockFromSchema = (schema: any, key = 'value'): any => {
+  switch (String(schema?.type || '').toUpperCase()) {
+    case 'OBJECT':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, value]) => [name, mockFromSchema(value, name)])
+      );
+    case 'ARRAY':
+      return [mockFromSchema(schema.items, key)];
+    case 'INTEGER':
+    case 'NUMBER':
+      return 0;
+    case 'BOOLEAN':
+      return false;
+    case 'STRING':
+      return schema.enum?.[0] ?? `Mock ${key}`;
+    default:
+      return null;
+  }
+};
+
+// Offline stand-in for a real model (MODEL_PROVIDER=mock on the backend). Responses are
+// deterministic and never leave the machine, which suits UI work and load-testing the limits.
+export const createMockProvider = (): ModelProvider => ({
+  id: 'mock',
+
+  async generateJson(request: GenerateRequest) {
+    return JSON.stringify(mockFromSchema(request.responseSchema || { type: 'OBJECT' }));
+  },
+
+  async generateGrounded(request: GenerateRequest) {
+    return {
+      text: `Mock market brief (${request.contents.length} characters requested). Configure a live MODEL_PROVIDER for real intelligence.`,
+      sources: [{ title: 'Mock source', uri: 'https://example.com/' }]
+    };
+  }
+});
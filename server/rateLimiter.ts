@@ -0,0 +1,26 @@
+export interface RateDecision {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the oldest counted request leaves the window.
+  retryAfter: number;
+}
+
+// Sliding-window limiter kept in memory: fine for a single backend process. Keys with no recent
+// requests are dropped as they are checked, so memory stays bounded by active users.
+export const createRateLimiter = (limit: number, windowMs = 60_000) => {
+  const hits = new Map<string, number[]>();
+
+  return (key: string, now = Date.now()): RateDecision => {
+    const recent = (hits.get(key) || []).filter(time => now - time < windowMs);
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      return { allowed: false, remaining: 0, retryAfter: Math.ceil((recent[0] + windowMs - now) / 1000) };
+    }
+    recent.push(now);
+    hits.set(key, recent);
+    for (const [other, times] of hits) {
+      if (times.every(time => now - time >= windowMs)) hits.delete(other);
+    }
+    return { allowed: true, remaining: limit - recent.length, retryAfter: 0 };
+  };
+};
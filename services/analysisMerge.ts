@@ -0,0 +1,205 @@
+import { ClauseProvenance, RiskAssessment } from "../types";
+import { RawClause, RawCovenant, RawFacilityTerms, RawObligation, ValidatedPayload } from "./analysisValidator";
+
+export type SourcedClause = RawClause & { provenance?: ClauseProvenance[] };
+
+export interface MergedPayload extends Omit<ValidatedPayload, 'clauses'> {
+  clauses: SourcedClause[];
+}
+
+const STOP_WORDS = new Set(['clause', 'the', 'and', 'of', 'on', 'provisions', 'provision']);
+
+// "Interest Rate & Margin", "21. Interest Rate and Margin" and "INTEREST RATE / MARGIN" share a key.
+export const canonicalClauseKey = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/^[\d.\s]+/, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .join(' ');
+
+export const DEVIATION_RANK = (deviation: string) => {
+  const d = deviation.toLowerCase();
+  if (d.includes('non-standard') || (d.includes('aggressive') && !d.includes('slightly'))) return 2;
+  if (d.includes('slightly')) return 1;
+  return 0;
+};
+
+const unique = (values: string[]) => Array.from(new Set(values.map(v => v.trim()).filter(Boolean)));
+
+// Duplicates found in several chunks are merged conservatively: lowest confidence, most severe
+// deviation, review if any chunk asked for it, and the fullest extracted text as the summary.
+export const mergeClauses = (chunkClauses: { chunkIndex: number; heading?: string; clauses: RawClause[] }[]): SourcedClause[] => {
+  const merged = new Map<string, SourcedClause>();
+
+  for (const { chunkIndex, heading, clauses } of chunkClauses) {
+    for (const clause of clauses) {
+      const key = canonicalClauseKey(clause.clause_name) || clause.clause_name;
+      const provenance: ClauseProvenance = { chunkIndex, heading, pageReference: clause.source_page };
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...clause, provenance: [provenance] });
+        continue;
+      }
+      const fuller = clause.extracted_text.length > existing.extracted_text.length ? clause : existing;
+      const severer = DEVIATION_RANK(clause.market_deviation) > DEVIATION_RANK(existing.market_deviation) ? clause : existing;
+      merged.set(key, {
+        ...existing,
+        extracted_text: fuller.extracted_text,
+        confidence_score: Math.min(existing.confidence_score, clause.confidence_score),
+        review_required: existing.review_required || clause.review_required,
+        market_deviation: severer.market_deviation,
+        lma_benchmark_context: severer.lma_benchmark_context || existing.lma_benchmark_context,
+        potential_impact: severer.potential_impact || existing.potential_impact,
+        playbook_position: severer.playbook_position || existing.playbook_position,
+        explanation: unique([existing.explanation, clause.explanation]).join(' '),
+        source_page: existing.source_page ?? clause.source_page,
+        provenance: [...(existing.provenance || []), provenance]
+      });
+    }
+  }
+
+  return Array.from(merged.values());
+};
+
+// A covenant's definitions and step-down grid are often split across the covenant clause and a
+// schedule in another chunk. Entries of the same ratio type keep the fuller step grid and the
+// union of test dates.
+export const mergeCovenants = (chunkCovenants: (RawCovenant[] | undefined)[]): RawCovenant[] => {
+  const merged = new Map<string, RawCovenant>();
+  for (const covenant of chunkCovenants.flatMap(c => c || [])) {
+    const key = covenant.ratio_type === 'other' ? `other:${canonicalClauseKey(covenant.name)}` : covenant.ratio_type;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, covenant);
+      continue;
+    }
+    const fuller = covenant.step_downs.length > existing.step_downs.length ? covenant : existing;
+    merged.set(key, {
+      ...fuller,
+      denominator: fuller.denominator || existing.denominator || covenant.denominator,
+      test_frequency: fuller.test_frequency || existing.test_frequency || covenant.test_frequency,
+      test_dates: Array.from(new Set([...existing.test_dates, ...covenant.test_dates])).sort(),
+      source_page: existing.source_page ?? covenant.source_page
+    });
+  }
+  return Array.from(merged.values());
+};
+
+// Pricing usually sits in the interest clause and the amortisation table in a repayment schedule,
+// so each field takes the first chunk that states it. The amortisation profile follows the chunk
+// with the most instalments, and the instalments and ambiguities are unioned.
+export const mergeFacilityTerms = (chunkTerms: (RawFacilityTerms | undefined)[]): RawFacilityTerms | undefined => {
+  const present = chunkTerms.filter((t): t is RawFacilityTerms => !!t);
+  if (present.length === 0) return undefined;
+  const first = <K extends keyof RawFacilityTerms>(key: K) => present.find(t => t[key] !== undefined)?.[key];
+  const scheduled = present.reduce((a, b) => (b.instalments.length > a.instalments.length ? b : a));
+  const instalments = new Map<string, RawFacilityTerms['instalments'][number]>();
+  present.flatMap(t => t.instalments).forEach(i => { if (!instalments.has(i.date)) instalments.set(i.date, i); });
+  return {
+    principal: first('principal'),
+    currency: first('currency'),
+    drawdown_date: first('drawdown_date'),
+    maturity_date: first('maturity_date'),
+    benchmark: present.find(t => t.benchmark !== 'Other')?.benchmark || 'Other',
+    margin_bps: first('margin_bps'),
+    fixed_rate_pct: first('fixed_rate_pct'),
+    floor_pct: first('floor_pct'),
+    day_count: first('day_count'),
+    interest_period_months: first('interest_period_months'),
+    amortisation: scheduled.instalments.length > 0 ? scheduled.amortisation : present.find(t => t.amortisation !== 'bullet')?.amortisation || 'bullet',
+    instalments: Array.from(instalments.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    balloon_amount: first('balloon_amount'),
+    ambiguities: Array.from(new Set(present.flatMap(t => t.ambiguities))),
+    extracted_text: first('extracted_text'),
+    source_page: first('source_page')
+  };
+};
+
+// The same obligation is often restated in a definitions or schedule chunk. Entries of the same
+// category and title keep the one with a concrete date, filling gaps from the other.
+export const mergeObligations = (chunkObligations: (RawObligation[] | undefined)[]): RawObligation[] => {
+  const merged = new Map<string, RawObligation>();
+  for (const obligation of chunkObligations.flatMap(o => o || [])) {
+    const key = `${obligation.category}:${canonicalClauseKey(obligation.title)}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, obligation);
+      continue;
+    }
+    const dated = existing.due_date || !obligation.due_date ? existing : obligation;
+    const other = dated === existing ? obligation : existing;
+    merged.set(key, {
+      ...dated,
+      frequency: dated.frequency || other.frequency,
+      until: dated.until || other.until,
+      clause_name: dated.clause_name || other.clause_name,
+      extracted_text: dated.extracted_text || other.extracted_text,
+      source_page: dated.source_page ?? other.source_page
+    });
+  }
+  return Array.from(merged.values());
+};
+
+// Picks the most frequent non-empty value per field, so one confused chunk cannot override the rest.
+export const mergeOverviews = (overviews: ValidatedPayload['overview'][]): ValidatedPayload['overview'] => {
+  const present = overviews.filter((o): o is NonNullable<ValidatedPayload['overview']> => !!o);
+  if (present.length === 0) return undefined;
+
+  const pick = (field: keyof NonNullable<ValidatedPayload['overview']>) => {
+    const counts = new Map<string, number>();
+    present.forEach(o => {
+      const value = o[field]?.trim();
+      if (value && !/^(n\/a|not (specified|found|extracted|stated)|unknown)$/i.test(value)) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    });
+    const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    return ranked[0]?.[0] || present[0][field];
+  };
+
+  return {
+    facilityType: pick('facilityType'),
+    borrowerLender: pick('borrowerLender'),
+    currency: pick('currency'),
+    amount: pick('amount'),
+    maturity: pick('maturity'),
+    law: pick('law')
+  };
+};
+
+const RATING_ORDER: RiskAssessment['overallRating'][] = ['Low', 'Medium', 'High'];
+
+// Used when the synthesis call fails: worst rating, lowest readiness, union of drivers.
+export const mergeSummarySections = (payloads: ValidatedPayload[]): Omit<ValidatedPayload, 'overview' | 'clauses'> => {
+  const readiness = payloads.map(p => p.dealReadiness).filter((d): d is NonNullable<typeof d> => !!d);
+  const risks = payloads.map(p => p.riskAssessment).filter((r): r is RiskAssessment => !!r);
+  const commercial = payloads.map(p => p.commercialSummary).filter((c): c is NonNullable<typeof c> => !!c);
+
+  const lowest = readiness.reduce<typeof readiness[number] | undefined>((min, d) => (!min || d.score < min.score ? d : min), undefined);
+  const worst = risks.reduce<RiskAssessment | undefined>(
+    (max, r) => (!max || RATING_ORDER.indexOf(r.overallRating) > RATING_ORDER.indexOf(max.overallRating) ? r : max),
+    undefined
+  );
+
+  return {
+    dealReadiness: lowest && {
+      score: lowest.score,
+      status: lowest.status,
+      driversPositive: unique(readiness.flatMap(d => d.driversPositive)),
+      driversNegative: unique(readiness.flatMap(d => d.driversNegative)),
+      keyIssues: unique(readiness.flatMap(d => d.keyIssues)),
+      recommendedActions: unique(readiness.flatMap(d => d.recommendedActions))
+    },
+    riskAssessment: worst && {
+      overallRating: worst.overallRating,
+      summary: unique(risks.map(r => r.summary)).join(' ')
+    },
+    commercialSummary: commercial.length > 0 ? {
+      snapshot: unique(commercial.map(c => c.snapshot)).join(' '),
+      highlights: unique(commercial.flatMap(c => c.highlights)),
+      risks: unique(commercial.flatMap(c => c.risks)),
+      nextActions: unique(commercial.flatMap(c => c.nextActions))
+    } : undefined
+  };
+};
@@ -0,0 +1,442 @@
+import { AmortisationProfile, CovenantRatioType, DayCountBasis, FinancialCovenant, ObligationCategory, RateBenchmark, RiskAssessment, TestFrequency } from "../types";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface RawClause {
+  clause_name: string;
+  extracted_text: string;
+  confidence_score: number;
+  market_deviation: string;
+  review_required: boolean;
+  explanation: string;
+  lma_benchmark_context?: string;
+  potential_impact?: string;
+  playbook_position?: string;
+  source_page?: number;
+}
+
+export interface RawCovenant {
+  name: string;
+  ratio_type: CovenantRatioType;
+  numerator: string;
+  denominator?: string;
+  direction: FinancialCovenant['direction'];
+  threshold: number;
+  unit: FinancialCovenant['unit'];
+  test_frequency?: TestFrequency;
+  test_dates: string[];
+  step_downs: { period_start: string; period_end?: string; threshold: number }[];
+  extracted_text?: string;
+  source_page?: number;
+}
+
+export interface RawFacilityTerms {
+  principal?: number;
+  currency?: string;
+  drawdown_date?: string;
+  maturity_date?: string;
+  benchmark: RateBenchmark;
+  margin_bps?: number;
+  fixed_rate_pct?: number;
+  floor_pct?: number;
+  day_count?: DayCountBasis;
+  interest_period_months?: number;
+  amortisation: AmortisationProfile;
+  instalments: { date: string; amount?: number; percentage?: number }[];
+  balloon_amount?: number;
+  ambiguities: string[];
+  extracted_text?: string;
+  source_page?: number;
+}
+
+export interface RawObligation {
+  title: string;
+  category: ObligationCategory;
+  responsible_party: string;
+  due_rule: string;
+  due_date?: string;
+  frequency?: TestFrequency;
+  until?: string;
+  clause_name?: string;
+  extracted_text?: string;
+  source_page?: number;
+}
+
+export interface RawChatAnswer {
+  answered: boolean;
+  answer: string;
+  clause_name?: string;
+  citations: { quote: string; clause_name?: string }[];
+}
+
+// The model's payload after validation. Sections that failed validation are undefined and
+// clauses that failed are dropped; every omission is recorded in `issues`.
+export interface ValidatedPayload {
+  overview?: Record<'facilityType' | 'borrowerLender' | 'currency' | 'amount' | 'maturity' | 'law', string>;
+  clauses: RawClause[];
+  covenants?: RawCovenant[];
+  facility_terms?: RawFacilityTerms;
+  obligations?: RawObligation[];
+  dealReadiness?: {
+    score: number;
+    status: string;
+    driversPositive: string[];
+    driversNegative: string[];
+    keyIssues: string[];
+    recommendedActions: string[];
+  };
+  riskAssessment?: RiskAssessment;
+  commercialSummary?: {
+    snapshot: string;
+    highlights: string[];
+    risks: string[];
+    nextActions: string[];
+  };
+}
+
+const RISK_RATINGS: RiskAssessment['overallRating'][] = ['Low', 'Medium', 'High'];
+const RATIO_TYPES: CovenantRatioType[] = [
+  'leverage', 'interestCover', 'debtServiceCover', 'cashflowCover', 'loanToValue', 'gearing', 'netWorth', 'liquidity', 'capex', 'other'
+];
+const TEST_FREQUENCIES: TestFrequency[] = ['monthly', 'quarterly', 'semi-annual', 'annual'];
+const BENCHMARKS: RateBenchmark[] = ['SOFR', 'SONIA', 'EURIBOR', 'ESTR', 'Fixed', 'Other'];
+const DAY_COUNTS: DayCountBasis[] = ['ACT/360', 'ACT/365', '30/360'];
+const AMORTISATION_PROFILES: AmortisationProfile[] = ['bullet', 'straight-line', 'scheduled', 'balloon'];
+const OBLIGATION_CATEGORIES: ObligationCategory[] = [
+  'financial-statements', 'compliance-certificate', 'interest-payment', 'repayment', 'commitment-expiry', 'maturity', 'notice', 'other'
+];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isObject = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+class Checker {
+  issues: ValidationIssue[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push({ path, message });
+    return undefined;
+  }
+
+  string(obj: Record<string, any>, key: string, path: string, optional = false): string | undefined {
+    const value = obj[key];
+    if (value === undefined || value === null) {
+      return optional ? undefined : this.fail(`${path}.${key}`, 'is missing');
+    }
+    if (typeof value !== 'string') return this.fail(`${path}.${key}`, `expected string, got ${typeof value}`);
+    return value;
+  }
+
+  boolean(obj: Record<string, any>, key: string, path: string): boolean | undefined {
+    const value = obj[key];
+    if (typeof value !== 'boolean') return this.fail(`${path}.${key}`, value === undefined ? 'is missing' : `expected boolean, got ${JSON.stringify(value)}`);
+    return value;
+  }
+
+  score(obj: Record<string, any>, key: string, path: string): number | undefined {
+    const value = obj[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return this.fail(`${path}.${key}`, value === undefined ? 'is missing' : `expected number 0-100, got ${JSON.stringify(value)}`);
+    }
+    if (value < 0 || value > 100) return this.fail(`${path}.${key}`, `must be between 0 and 100, got ${value}`);
+    return Math.round(value);
+  }
+
+  number(obj: Record<string, any>, key: string, path: string, optional = false): number | undefined {
+    const value = obj[key];
+    if ((value === undefined || value === null) && optional) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return this.fail(`${path}.${key}`, value === undefined ? 'is missing' : `expected number, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(obj: Record<string, any>, key: string, path: string, allowed: T[], optional = false): T | undefined {
+    const value = obj[key];
+    if ((value === undefined || value === null) && optional) return undefined;
+    const match = allowed.find(a => a.toLowerCase() === String(value).trim().toLowerCase());
+    if (!match) return this.fail(`${path}.${key}`, `must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+    return match;
+  }
+
+  date(obj: Record<string, any>, key: string, path: string, optional = false): string | undefined {
+    const value = obj[key];
+    if ((value === undefined || value === null || value === '') && optional) return undefined;
+    if (typeof value !== 'string' || !ISO_DATE.test(value) || Number.isNaN(Date.parse(value))) {
+      return this.fail(`${path}.${key}`, `expected YYYY-MM-DD date, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+
+  stringArray(obj: Record<string, any>, key: string, path: string): string[] | undefined {
+    const value = obj[key];
+    if (!Array.isArray(value)) return this.fail(`${path}.${key}`, value === undefined ? 'is missing' : 'expected array of strings');
+    if (value.some(item => typeof item !== 'string')) return this.fail(`${path}.${key}`, 'contains non-string entries');
+    return value;
+  }
+
+  section(data: Record<string, any>, key: string): Record<string, any> | undefined {
+    if (!isObject(data[key])) return this.fail(key, 'section is missing or not an object');
+    return data[key];
+  }
+
+  // Runs a section validator and discards the section if it added any issue.
+  all<T>(run: () => T): T | undefined {
+    const before = this.issues.length;
+    const value = run();
+    return this.issues.length === before ? value : undefined;
+  }
+}
+
+const validateClause = (check: Checker, raw: any, path: string): RawClause | undefined => {
+  if (!isObject(raw)) return check.fail(path, 'expected clause object');
+  return check.all(() => {
+    const sourcePage = raw.source_page;
+    if (sourcePage !== undefined && sourcePage !== null && (!Number.isInteger(sourcePage) || sourcePage < 1)) {
+      check.fail(`${path}.source_page`, `expected positive integer, got ${JSON.stringify(sourcePage)}`);
+    }
+    return {
+      clause_name: check.string(raw, 'clause_name', path)!,
+      extracted_text: check.string(raw, 'extracted_text', path)!,
+      confidence_score: check.score(raw, 'confidence_score', path)!,
+      market_deviation: check.string(raw, 'market_deviation', path)!,
+      review_required: check.boolean(raw, 'review_required', path)!,
+      explanation: check.string(raw, 'explanation', path)!,
+      lma_benchmark_context: check.string(raw, 'lma_benchmark_context', path, true),
+      potential_impact: check.string(raw, 'potential_impact', path, true),
+      playbook_position: check.string(raw, 'playbook_position', path, true),
+      source_page: sourcePage || undefined
+    };
+  });
+};
+
+const validateCovenant = (check: Checker, raw: any, path: string): RawCovenant | undefined => {
+  if (!isObject(raw)) return check.fail(path, 'expected covenant object');
+  return check.all(() => {
+    const testDates = Array.isArray(raw.test_dates) ? raw.test_dates : [];
+    const steps = Array.isArray(raw.step_downs) ? raw.step_downs : [];
+    return {
+      name: check.string(raw, 'name', path)!,
+      ratio_type: check.oneOf(raw, 'ratio_type', path, RATIO_TYPES)!,
+      numerator: check.string(raw, 'numerator', path)!,
+      denominator: check.string(raw, 'denominator', path, true) || undefined,
+      direction: check.oneOf(raw, 'direction', path, ['max', 'min'] as FinancialCovenant['direction'][])!,
+      threshold: check.number(raw, 'threshold', path)!,
+      unit: check.oneOf(raw, 'unit', path, ['x', '%', 'amount'] as FinancialCovenant['unit'][])!,
+      test_frequency: check.oneOf(raw, 'test_frequency', path, TEST_FREQUENCIES, true),
+      test_dates: testDates.map((_: unknown, i: number) => check.date(testDates, String(i), `${path}.test_dates`)!),
+      step_downs: steps.map((step: any, i: number) => {
+        const stepPath = `${path}.step_downs[${i}]`;
+        if (!isObject(step)) return check.fail(stepPath, 'expected step object');
+        return {
+          period_start: check.date(step, 'period_start', stepPath)!,
+          period_end: check.date(step, 'period_end', stepPath, true),
+          threshold: check.number(step, 'threshold', stepPath)!
+        };
+      }),
+      extracted_text: check.string(raw, 'extracted_text', path, true),
+      source_page: Number.isInteger(raw.source_page) && raw.source_page > 0 ? raw.source_page : undefined
+    };
+  });
+};
+
+const validateFacilityTerms = (check: Checker, raw: any, path: string): RawFacilityTerms | undefined => {
+  if (!isObject(raw)) return check.fail(path, 'expected facility terms object');
+  return check.all(() => {
+    const instalments = Array.isArray(raw.instalments) ? raw.instalments : [];
+    return {
+      principal: check.number(raw, 'principal', path, true),
+      currency: check.string(raw, 'currency', path, true) || undefined,
+      drawdown_date: check.date(raw, 'drawdown_date', path, true),
+      maturity_date: check.date(raw, 'maturity_date', path, true),
+      benchmark: check.oneOf(raw, 'benchmark', path, BENCHMARKS)!,
+      margin_bps: check.number(raw, 'margin_bps', path, true),
+      fixed_rate_pct: check.number(raw, 'fixed_rate_pct', path, true),
+      floor_pct: check.number(raw, 'floor_pct', path, true),
+      day_count: check.oneOf(raw, 'day_count', path, DAY_COUNTS, true),
+      interest_period_months: check.number(raw, 'interest_period_months', path, true),
+      amortisation: check.oneOf(raw, 'amortisation', path, AMORTISATION_PROFILES)!,
+      instalments: instalments.map((item: any, i: number) => {
+        const itemPath = `${path}.instalments[${i}]`;
+        if (!isObject(item)) return check.fail(itemPath, 'expected instalment object');
+        return {
+          date: check.date(item, 'date', itemPath)!,
+          amount: check.number(item, 'amount', itemPath, true),
+          percentage: check.number(item, 'percentage', itemPath, true)
+        };
+      }),
+      balloon_amount: check.number(raw, 'balloon_amount', path, true),
+      ambiguities: Array.isArray(raw.ambiguities) ? raw.ambiguities.filter((a: unknown): a is string => typeof a === 'string') : [],
+      extracted_text: check.string(raw, 'extracted_text', path, true),
+      source_page: Number.isInteger(raw.source_page) && raw.source_page > 0 ? raw.source_page : undefined
+    };
+  });
+};
+
+const validateObligation = (check: Checker, raw: any, path: string): RawObligation | undefined => {
+  if (!isObject(raw)) return check.fail(path, 'expected obligation object');
+  return check.all(() => ({
+    title: check.string(raw, 'title', path)!,
+    category: check.oneOf(raw, 'category', path, OBLIGATION_CATEGORIES)!,
+    responsible_party: check.string(raw, 'responsible_party', path)!,
+    due_rule: check.string(raw, 'due_rule', path)!,
+    due_date: check.date(raw, 'due_date', path, true),
+    frequency: check.oneOf(raw, 'frequency', path, TEST_FREQUENCIES, true),
+    until: check.date(raw, 'until', path, true),
+    clause_name: check.string(raw, 'clause_name', path, true) || undefined,
+    extracted_text: check.string(raw, 'extracted_text', path, true),
+    source_page: Number.isInteger(raw.source_page) && raw.source_page > 0 ? raw.source_page : undefined
+  }));
+};
+
+const validateSummarySections = (check: Checker, data: Record<string, any>) => {
+  const readinessRaw = check.section(data, 'dealReadiness');
+  const dealReadiness = readinessRaw && check.all(() => ({
+    score: check.score(readinessRaw, 'score', 'dealReadiness')!,
+    status: check.string(readinessRaw, 'status', 'dealReadiness')!,
+    driversPositive: check.stringArray(readinessRaw, 'driversPositive', 'dealReadiness')!,
+    driversNegative: check.stringArray(readinessRaw, 'driversNegative', 'dealReadiness')!,
+    keyIssues: check.stringArray(readinessRaw, 'keyIssues', 'dealReadiness')!,
+    recommendedActions: check.stringArray(readinessRaw, 'recommendedActions', 'dealReadiness')!
+  }));
+
+  const riskRaw = check.section(data, 'riskAssessment');
+  const riskAssessment = riskRaw && check.all(() => {
+    const rating = check.string(riskRaw, 'overallRating', 'riskAssessment');
+    const overallRating = RISK_RATINGS.find(r => r.toLowerCase() === rating?.trim().toLowerCase());
+    if (rating !== undefined && !overallRating) {
+      check.fail('riskAssessment.overallRating', `must be one of ${RISK_RATINGS.join(', ')}, got "${rating}"`);
+    }
+    return { overallRating: overallRating!, summary: check.string(riskRaw, 'summary', 'riskAssessment')! };
+  });
+
+  const commercialRaw = check.section(data, 'commercialSummary');
+  const commercialSummary = commercialRaw && check.all(() => ({
+    snapshot: check.string(commercialRaw, 'snapshot', 'commercialSummary')!,
+    highlights: check.stringArray(commercialRaw, 'highlights', 'commercialSummary')!,
+    risks: check.stringArray(commercialRaw, 'risks', 'commercialSummary')!,
+    nextActions: check.stringArray(commercialRaw, 'nextActions', 'commercialSummary')!
+  }));
+
+  return { dealReadiness, riskAssessment, commercialSummary };
+};
+
+export const validateChatAnswer = (data: unknown): { value: RawChatAnswer; issues: ValidationIssue[] } => {
+  const check = new Checker();
+  const empty: RawChatAnswer = { answered: false, answer: '', citations: [] };
+  if (!isObject(data)) {
+    check.fail('$', 'response is not a JSON object');
+    return { value: empty, issues: check.issues };
+  }
+  const citations = Array.isArray(data.citations) ? data.citations : [];
+  const value = check.all(() => ({
+    answered: check.boolean(data, 'answered', '$')!,
+    answer: check.string(data, 'answer', '$')!,
+    clause_name: check.string(data, 'clause_name', '$', true) || undefined,
+    citations: citations.map((c: any, i: number) => {
+      const path = `citations[${i}]`;
+      if (!isObject(c)) return check.fail(path, 'expected citation object');
+      return { quote: check.string(c, 'quote', path)!, clause_name: check.string(c, 'clause_name', path, true) || undefined };
+    })
+  }));
+  return { value: value || empty, issues: check.issues };
+};
+
+export const validateAnalysisPayload = (data: unknown): { value: ValidatedPayload; issues: ValidationIssue[] } => {
+  const check = new Checker();
+  if (!isObject(data)) {
+    check.fail('$', 'response is not a JSON object');
+    return { value: { clauses: [] }, issues: check.issues };
+  }
+
+  const overviewRaw = check.section(data, 'overview');
+  const overview = overviewRaw && check.all(() => ({
+    facilityType: check.string(overviewRaw, 'facilityType', 'overview')!,
+    borrowerLender: check.string(overviewRaw, 'borrowerLender', 'overview')!,
+    currency: check.string(overviewRaw, 'currency', 'overview')!,
+    amount: check.string(overviewRaw, 'amount', 'overview')!,
+    maturity: check.string(overviewRaw, 'maturity', 'overview')!,
+    law: check.string(overviewRaw, 'law', 'overview')!
+  }));
+
+  let clauses: RawClause[] = [];
+  if (!Array.isArray(data.clauses)) {
+    check.fail('clauses', 'expected array of clauses');
+  } else {
+    clauses = data.clauses
+      .map((c: any, i: number) => validateClause(check, c, `clauses[${i}]`))
+      .filter((c: RawClause | undefined): c is RawClause => !!c);
+  }
+
+  // Covenants are optional: agreements without financial covenants simply omit the array.
+  let covenants: RawCovenant[] | undefined;
+  if (data.covenants !== undefined && data.covenants !== null) {
+    if (!Array.isArray(data.covenants)) {
+      check.fail('covenants', 'expected array of covenants');
+    } else {
+      covenants = data.covenants
+        .map((c: any, i: number) => validateCovenant(check, c, `covenants[${i}]`))
+        .filter((c: RawCovenant | undefined): c is RawCovenant => !!c);
+    }
+  }
+
+  // Facility terms are optional too; a facility without a stated schedule simply omits them.
+  const facilityTerms = data.facility_terms === undefined || data.facility_terms === null
+    ? undefined
+    : validateFacilityTerms(check, data.facility_terms, 'facility_terms');
+
+  let obligations: RawObligation[] | undefined;
+  if (data.obligations !== undefined && data.obligations !== null) {
+    if (!Array.isArray(data.obligations)) {
+      check.fail('obligations', 'expected array of obligations');
+    } else {
+      obligations = data.obligations
+        .map((o: any, i: number) => validateObligation(check, o, `obligations[${i}]`))
+        .filter((o: RawObligation | undefined): o is RawObligation => !!o);
+    }
+  }
+
+  const { dealReadiness, riskAssessment, commercialSummary } = validateSummarySections(check, data);
+
+  return {
+    value: { overview, clauses, covenants, facility_terms: facilityTerms, obligations, dealReadiness, riskAssessment, commercialSummary },
+    issues: check.issues
+  };
+};
+
+// Validates the synthesis step of a chunked analysis, which returns only the deal-level sections.
+export const validateSynthesisPayload = (data: unknown): { value: Omit<ValidatedPayload, 'overview' | 'clauses'>; issues: ValidationIssue[] } => {
+  const check = new Checker();
+  if (!isObject(data)) {
+    check.fail('$', 'response is not a JSON object');
+    return { value: {}, issues: check.issues };
+  }
+  return { value: validateSummarySections(check, data), issues: check.issues };
+};
+
+export const parseModelJson = (text: string): { data: unknown; issues: ValidationIssue[] } => {
+  try {
+    return { data: JSON.parse(text), issues: [] };
+  } catch (err: any) {
+    return { data: null, issues: [{ path: '$', message: `response is not valid JSON (${err.message})` }] };
+  }
+};
+
+export const formatIssues = (issues: ValidationIssue[]) =>
+  issues.map(i => `${i.path}: ${i.message}`);
+
+export const buildRepairPrompt = (previousResponse: string, issues: ValidationIssue[], sourceText: string) =>
+  `Your previous JSON response failed validation. Return the complete corrected JSON object using the same schema.
+Fix only the listed problems and keep every other value unchanged. Scores must be integers from 0 to 100 and overallRating must be exactly one of "Low", "Medium" or "High".
+
+VALIDATION ERRORS:
+${formatIssues(issues).map(i => `- ${i}`).join('\n')}
+
+PREVIOUS RESPONSE:
+${previousResponse.slice(0, 60000)}
+
+SOURCE DOCUMENT:
+${sourceText}`;
@@ -0,0 +1,160 @@
+import { AnalysisResult, AuditWorkspace, SavedAudit } from "../types";
+import { auditIdFor } from "./auditStore";
+
+// Audit files carry a complete audit between users and sessions. The layout of each version is
+// documented in the README; bump AUDIT_FILE_VERSION and add an entry to MIGRATIONS whenever it changes.
+export const AUDIT_FILE_FORMAT = 'loandoc-pro/audit';
+export const AUDIT_FILE_VERSION = 1;
+
+export interface AuditFile {
+  format: typeof AUDIT_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  audit: { id: string; title: string; fileName: string; tags: string[]; createdAt: string; updatedAt: string };
+  sourceText: string;
+  // rawText is left out: it is always the source text, which is stored once above.
+  result: Omit<AnalysisResult, 'rawText'>;
+  workspace: AuditWorkspace;
+}
+
+const isObject = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each entry upgrades a file from the version it is keyed by to the next one.
+const MIGRATIONS: Record<number, (data: Record<string, any>) => Record<string, any>> = {
+  // Version 0 is unversioned JSON: a stored audit record or a bare analysis result.
+  0: data => {
+    const record = isObject(data.result) ? data : { result: data, sourceText: data.rawText };
+    const { rawText, ...result } = record.result;
+    const now = new Date().toISOString();
+    return {
+      format: AUDIT_FILE_FORMAT,
+      version: 1,
+      exportedAt: now,
+      audit: {
+        id: record.id,
+        title: record.title || result.overview?.borrowerLender || 'Imported audit',
+        fileName: record.fileName || 'Imported_Audit.txt',
+        tags: Array.isArray(record.tags) ? record.tags : [],
+        createdAt: record.createdAt || now,
+        updatedAt: record.updatedAt || now
+      },
+      sourceText: typeof record.sourceText === 'string' ? record.sourceText : rawText,
+      result,
+      workspace: record.workspace || {}
+    };
+  }
+};
+
+export const serializeAuditFile = (audit: SavedAudit): string => {
+  const { rawText, ...result } = audit.result;
+  const file: AuditFile = {
+    format: AUDIT_FILE_FORMAT,
+    version: AUDIT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    audit: {
+      id: audit.id,
+      title: audit.title,
+      fileName: audit.fileName,
+      tags: audit.tags,
+      createdAt: audit.createdAt,
+      updatedAt: audit.updatedAt
+    },
+    sourceText: audit.sourceText,
+    result,
+    workspace: audit.workspace || {}
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const checkResult = (result: any, problems: string[]) => {
+  if (!isObject(result)) {
+    problems.push('result must be an object');
+    return;
+  }
+  if (!isObject(result.overview)) {
+    problems.push('result.overview must be an object');
+  } else {
+    for (const key of ['facilityType', 'borrowerLender', 'currency', 'amount', 'maturity', 'law']) {
+      if (typeof result.overview[key] !== 'string') problems.push(`result.overview.${key} must be a string`);
+    }
+  }
+  if (!Array.isArray(result.confidenceAnalysis)) {
+    problems.push('result.confidenceAnalysis must be an array');
+  } else {
+    result.confidenceAnalysis.forEach((clause: any, i: number) => {
+      if (!isObject(clause) || typeof clause.name !== 'string' || typeof clause.confidenceScore !== 'number') {
+        problems.push(`result.confidenceAnalysis[${i}] must have a name and a numeric confidenceScore`);
+      }
+    });
+  }
+  if (!isObject(result.riskAssessment) || !['Low', 'Medium', 'High'].includes(result.riskAssessment.overallRating)) {
+    problems.push('result.riskAssessment.overallRating must be Low, Medium or High');
+  }
+  const summary = result.commercialSummary;
+  if (!isObject(summary) || typeof summary.snapshot !== 'string' || !['highlights', 'risks', 'nextActions'].every(k => Array.isArray(summary[k]))) {
+    problems.push('result.commercialSummary must have a snapshot and highlights, risks and nextActions arrays');
+  }
+  const readiness = result.dealReadiness;
+  if (!isObject(readiness) || typeof readiness.score !== 'number' || typeof readiness.status !== 'string') {
+    problems.push('result.dealReadiness must have a numeric score and a status');
+  } else if (!['driversPositive', 'driversNegative', 'keyIssues', 'recommendedActions'].every(k => Array.isArray(readiness[k]))) {
+    problems.push('result.dealReadiness must have driversPositive, driversNegative, keyIssues and recommendedActions arrays');
+  }
+  for (const key of ['crossChecks', 'covenants', 'obligations', 'sourceChunks']) {
+    if (result[key] !== undefined && !Array.isArray(result[key])) problems.push(`result.${key} must be an array when present`);
+  }
+};
+
+// Reads an audit file of any known version, upgrading it to the current layout first. Every
+// problem is reported at once, as for playbook files.
+export const parseAuditFile = (json: string): SavedAudit => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Audit file is not valid JSON.");
+  }
+  if (!isObject(data)) throw new Error("Audit file must contain a JSON object.");
+  if (data.format !== undefined && data.format !== AUDIT_FILE_FORMAT) {
+    throw new Error(`Not an audit file (format "${data.format}").`);
+  }
+
+  let version = data.format === undefined ? 0 : data.version;
+  if (!Number.isInteger(version) || version < 0) throw new Error("Audit file has no valid version number.");
+  if (version > AUDIT_FILE_VERSION) {
+    throw new Error(`Audit file version ${version} was written by a newer release; this release reads up to version ${AUDIT_FILE_VERSION}.`);
+  }
+  while (version < AUDIT_FILE_VERSION) {
+    data = MIGRATIONS[version](data);
+    version = data.version;
+  }
+
+  const problems: string[] = [];
+  if (typeof data.sourceText !== 'string' || !data.sourceText.trim()) problems.push('sourceText must be a non-empty string');
+  if (!isObject(data.audit)) problems.push('audit must be an object');
+  if (data.workspace !== undefined && !isObject(data.workspace)) problems.push('workspace must be an object');
+  if (isObject(data.workspace) && data.workspace.covenantInputs !== undefined && !isObject(data.workspace.covenantInputs)) {
+    problems.push('workspace.covenantInputs must be an object');
+  }
+  checkResult(data.result, problems);
+  if (problems.length > 0) {
+    throw new Error(`Audit file is invalid: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? ` (+${problems.length - 5} more)` : ''}`);
+  }
+
+  const meta = data.audit;
+  const now = new Date().toISOString();
+  const text = (value: any, fallback: string) => (typeof value === 'string' && value.trim() ? value : fallback);
+  return {
+    // The id is re-derived so the report number always matches the source text.
+    id: auditIdFor(data.sourceText),
+    title: text(meta.title, data.result.overview.borrowerLender || 'Imported audit'),
+    fileName: text(meta.fileName, 'Imported_Audit.txt'),
+    tags: Array.isArray(meta.tags) ? meta.tags.filter((t: any) => typeof t === 'string') : [],
+    createdAt: text(meta.createdAt, now),
+    updatedAt: text(meta.updatedAt, now),
+    sourceText: data.sourceText,
+    result: { ...data.result, rawText: data.sourceText },
+    workspace: data.workspace || {}
+  };
+};
@@ -0,0 +1,66 @@
+import { AnalysisResult, SavedAudit } from "../types";
+import { fnv1a } from "./hash";
+import { AUDIT_STORE, withStore } from "./localDb";
+
+// Derived from the source text alone, so re-auditing the same document keeps its report number.
+export const auditIdFor = (sourceText: string) => `AUD-${fnv1a(sourceText.trim()).toUpperCase()}`;
+
+export const listAudits = async (): Promise<SavedAudit[]> => {
+  const audits = await withStore<SavedAudit[]>(AUDIT_STORE, 'readonly', store => store.getAll());
+  return audits.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getAudit = (id: string) =>
+  withStore<SavedAudit | undefined>(AUDIT_STORE, 'readonly', store => store.get(id));
+
+// Saving an existing audit replaces the analysis but keeps the analyst's title, tags, workspace
+// and creation date.
+export const saveAudit = async (input: { fileName: string | null; sourceText: string; result: AnalysisResult }): Promise<SavedAudit> => {
+  const id = auditIdFor(input.sourceText);
+  const existing = await getAudit(id);
+  const now = new Date().toISOString();
+  const fileName = input.fileName || existing?.fileName || 'Buffered_Content.txt';
+  const audit: SavedAudit = {
+    id,
+    title: existing?.title || input.result.overview.borrowerLender || fileName,
+    fileName,
+    tags: existing?.tags || [],
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    sourceText: input.sourceText,
+    result: input.result,
+    workspace: existing?.workspace
+  };
+  await withStore(AUDIT_STORE, 'readwrite', store => store.put(audit));
+  return audit;
+};
+
+export const updateAudit = async (id: string, patch: Partial<Omit<SavedAudit, 'id' | 'createdAt'>>): Promise<SavedAudit> => {
+  const existing = await getAudit(id);
+  if (!existing) throw new Error(`Audit ${id} no longer exists.`);
+  const audit = { ...existing, ...patch, updatedAt: new Date().toISOString() };
+  await withStore(AUDIT_STORE, 'readwrite', store => store.put(audit));
+  return audit;
+};
+
+// An opened audit file replaces any local copy of the same document, workspace included.
+export const importAudit = async (audit: SavedAudit): Promise<SavedAudit> => {
+  await withStore(AUDIT_STORE, 'readwrite', store => store.put(audit));
+  return audit;
+};
+
+export const deleteAudit = (id: string) =>
+  withStore(AUDIT_STORE, 'readwrite', store => store.delete(id));
+
+export const matchesAuditSearch = (audit: SavedAudit, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [
+    audit.id,
+    audit.title,
+    audit.fileName,
+    audit.result.overview.borrowerLender,
+    audit.result.overview.facilityType,
+    ...audit.tags
+  ].some(value => value?.toLowerCase().includes(q));
+};
@@ -0,0 +1,35 @@
+import { GenerateRequest, GroundedResponse, ModelProvider, ModelPurpose, ProviderConfig } from "./modelProvider";
+
+// Calls the LoanDoc backend (server/backend.ts), which holds the model credentials. The request
+// is forwarded as-is; the backend answers with the provider's text (and sources for grounded calls).
+export const createBackendProvider = (config: ProviderConfig): ModelProvider => {
+  const post = async (purpose: ModelPurpose, request: GenerateRequest) => {
+    const response = await fetch(`${config.backendUrl.replace(/\/$/, '')}/${purpose}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const retry = response.headers.get('Retry-After');
+      const message = data.error || `Backend ${purpose} returned ${response.status} ${response.statusText}`;
+      // The status lets callers tell a limit the user can act on from a model failure.
+      throw Object.assign(new Error(retry ? `${message} Try again in ${retry}s.` : message), { status: response.status });
+    }
+    return data;
+  };
+
+  return {
+    id: 'backend',
+
+    async generateJson(request) {
+      const data = await post(request.purpose || 'analyze', request);
+      return data.text || '{}';
+    },
+
+    async generateGrounded(request): Promise<GroundedResponse> {
+      const data = await post(request.purpose || 'market-intel', request);
+      return { text: data.text || '', sources: data.sources || [] };
+    }
+  };
+};
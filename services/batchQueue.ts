@@ -0,0 +1,167 @@
+import { BatchItem, Playbook, RedactionSettings } from "../types";
+import { BATCH_STORE, withStore } from "./localDb";
+import { parseDocument } from "./documentParser";
+import { analyzeLoanDocument } from "./geminiService";
+import { buildRedaction } from "./redaction";
+import { saveAudit } from "./auditStore";
+import { getSelectedPlaybook, listPlaybooks } from "./playbook";
+
+// Each analysis is several model calls; more than two in flight mostly trades for rate-limit errors.
+export const BATCH_CONCURRENCY = 2;
+
+export const isActive = (item: BatchItem) => item.status === 'parsing' || item.status === 'analysing';
+
+export const listBatchItems = async (): Promise<BatchItem[]> => {
+  const items = await withStore<BatchItem[]>(BATCH_STORE, 'readonly', store => store.getAll());
+  return items.sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+};
+
+export const putBatchItem = async (item: BatchItem) => {
+  await withStore(BATCH_STORE, 'readwrite', store => store.put(item));
+  return item;
+};
+
+export const deleteBatchItem = (id: string) =>
+  withStore(BATCH_STORE, 'readwrite', store => store.delete(id));
+
+export const enqueueFiles = async (files: File[], playbookId: string): Promise<BatchItem[]> => {
+  const now = new Date().toISOString();
+  const items = files.map((file, i): BatchItem => ({
+    id: `batch-${Date.now().toString(36)}-${i}-${Math.random().toString(36).slice(2, 6)}`,
+    fileName: file.name,
+    file,
+    size: file.size,
+    playbookId,
+    status: 'queued',
+    attempts: 0,
+    addedAt: now,
+    updatedAt: now
+  }));
+  for (const item of items) await putBatchItem(item);
+  return items;
+};
+
+// Items left mid-flight by a reload or closed tab go back to the queue.
+export const recoverInterrupted = async (): Promise<BatchItem[]> => {
+  const items = await listBatchItems();
+  return Promise.all(items.map(item =>
+    isActive(item) ? putBatchItem({ ...item, status: 'queued', stage: undefined, updatedAt: new Date().toISOString() }) : item
+  ));
+};
+
+// Parses, analyses and saves one document, reporting each stage. Returns the saved audit id.
+export const runBatchItem = async (
+  item: BatchItem,
+  playbook: Playbook,
+  settings: RedactionSettings,
+  onStage: (status: BatchItem['status'], stage: string) => void
+): Promise<string> => {
+  const file = item.file instanceof File ? item.file : new File([item.file], item.fileName);
+  onStage('parsing', 'Parsing document');
+  const parsed = await parseDocument(file, message => onStage('parsing', message));
+  onStage('analysing', 'Analysing');
+  // Unattended runs have no per-document preview; the settings confirmed when the run started apply.
+  const result = await analyzeLoanDocument(parsed.text, parsed.pages, {
+    playbook,
+    redaction: settings.enabled ? buildRedaction(parsed.text, settings) : undefined,
+    onProgress: message => onStage('analysing', message)
+  });
+  const audit = await saveAudit({ fileName: item.fileName, sourceText: parsed.text, result });
+  return audit.id;
+};
+
+// The runner lives at module level so the queue keeps draining while a finished report is open
+// and the upload screen is unmounted. A reload clears it; recoverInterrupted then requeues.
+export interface BatchState {
+  items: BatchItem[];
+  running: boolean;
+  loaded: boolean;
+  completed: number;
+  // Redaction settings the analyst confirmed for the current run; null while stopped.
+  settings: RedactionSettings | null;
+}
+
+let state: BatchState = { items: [], running: false, loaded: false, completed: 0, settings: null };
+let loading: Promise<void> | null = null;
+const inFlight = new Set<string>();
+const listeners = new Set<(state: BatchState) => void>();
+
+const emit = (patch: Partial<BatchState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener(state));
+};
+
+export const subscribeBatch = (listener: (state: BatchState) => void) => {
+  listeners.add(listener);
+  listener(state);
+  if (!loading) {
+    loading = recoverInterrupted()
+      .then(items => emit({ items, loaded: true }))
+      .catch(err => {
+        console.error("Batch queue could not be loaded", err);
+        emit({ loaded: true });
+      });
+  }
+  return () => { listeners.delete(listener); };
+};
+
+const store = (item: BatchItem) => {
+  emit({ items: state.items.map(i => (i.id === item.id ? item : i)) });
+  putBatchItem(item).catch(err => console.error("Batch item could not be saved", err));
+};
+
+const playbookFor = (item: BatchItem) => listPlaybooks().find(p => p.id === item.playbookId) || getSelectedPlaybook();
+
+const runNext = () => {
+  if (!state.running || !state.settings) return;
+  const waiting = state.items.filter(i => i.status === 'queued' && !inFlight.has(i.id));
+  waiting.slice(0, Math.max(0, BATCH_CONCURRENCY - inFlight.size)).forEach(runQueued);
+};
+
+const runQueued = async (queued: BatchItem) => {
+  inFlight.add(queued.id);
+  let current: BatchItem = { ...queued, status: 'parsing', stage: undefined, error: undefined, attempts: queued.attempts + 1, updatedAt: new Date().toISOString() };
+  store(current);
+  try {
+    const auditId = await runBatchItem(current, playbookFor(current), state.settings!, (status, stage) => {
+      current = { ...current, status, stage, updatedAt: new Date().toISOString() };
+      store(current);
+    });
+    store({ ...current, status: 'done', stage: undefined, auditId, updatedAt: new Date().toISOString() });
+    emit({ completed: state.completed + 1 });
+  } catch (err: any) {
+    store({ ...current, status: 'failed', stage: undefined, error: err.message || "Analysis failed.", updatedAt: new Date().toISOString() });
+  } finally {
+    inFlight.delete(queued.id);
+    runNext();
+    // The run ends when the queue drains; anything queued later needs a fresh confirmation.
+    if (inFlight.size === 0) emit({ running: false, settings: null });
+  }
+};
+
+// Starts a run with the redaction settings the analyst has just confirmed.
+export const startBatch = (settings: RedactionSettings) => {
+  emit({ running: true, settings });
+  runNext();
+};
+
+// Documents already being analysed finish; nothing new starts and resuming asks for confirmation again.
+export const pauseBatch = () => emit({ running: false, settings: null });
+
+// Files added during a run join it; otherwise they wait for the next confirmed start.
+export const addToBatch = async (files: File[], playbookId: string) => {
+  const added = await enqueueFiles(files, playbookId);
+  emit({ items: [...state.items, ...added] });
+  runNext();
+};
+
+export const retryBatchItems = (ids: string[]) => {
+  state.items.filter(i => ids.includes(i.id) && i.status === 'failed').forEach(i => store({ ...i, status: 'queued', error: undefined, updatedAt: new Date().toISOString() }));
+  runNext();
+};
+
+export const removeBatchItems = async (ids: string[]) => {
+  const removable = ids.filter(id => !inFlight.has(id));
+  await Promise.all(removable.map(deleteBatchItem));
+  emit({ items: state.items.filter(i => !removable.includes(i.id)) });
+};
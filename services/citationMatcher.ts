@@ -0,0 +1,131 @@
+import { ClauseAnalysis, ClauseCitation } from "../types";
+import { pageAtOffset } from "./documentParser";
+
+// Bigram similarity at or above VERIFIED_SCORE confirms a quote; between the two thresholds the
+// quote is paraphrased but locatable; below APPROXIMATE_SCORE it is treated as not in the source.
+export const VERIFIED_SCORE = 0.85;
+export const APPROXIMATE_SCORE = 0.6;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}%$€£]+/gu)) {
+    const start = match.index ?? 0;
+    tokens.push({ word: match[0].toLowerCase(), start, end: start + match[0].length });
+  }
+  return tokens;
+};
+
+const bigrams = (words: string[]) => {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < words.length - 1; i++) {
+    const gram = `${words[i]} ${words[i + 1]}`;
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+};
+
+const diceScore = (a: Map<string, number>, b: Map<string, number>) => {
+  let overlap = 0;
+  let sizeA = 0;
+  let sizeB = 0;
+  a.forEach((count, gram) => {
+    sizeA += count;
+    overlap += Math.min(count, b.get(gram) || 0);
+  });
+  b.forEach(count => { sizeB += count; });
+  return sizeA + sizeB === 0 ? 0 : (2 * overlap) / (sizeA + sizeB);
+};
+
+const CLAUSE_NUMBER = /^(?:#{1,6}\s+)?(?:Clause\s+)?(\d+(?:\.\d+)*)\.?\s+\S/gim;
+
+export const clauseNumberAt = (text: string, offset: number): string | undefined => {
+  let number: string | undefined;
+  for (const match of text.matchAll(CLAUSE_NUMBER)) {
+    if ((match.index ?? 0) > offset) break;
+    number = match[1];
+  }
+  return number;
+};
+
+// Finds the passage of `source` that best matches `quote`. A sliding window of the quote's length
+// is scored by shared words in O(n); only the strongest windows are re-scored with word bigrams.
+export const locateQuote = (source: string, quote: string): Omit<ClauseCitation, 'clauseNumber' | 'pageReference'> | null => {
+  const quoteTokens = tokenize(quote);
+  const sourceTokens = tokenize(source);
+  const size = quoteTokens.length;
+  if (size < 3 || sourceTokens.length < size) return null;
+
+  const wanted = new Map<string, number>();
+  quoteTokens.forEach(t => wanted.set(t.word, (wanted.get(t.word) || 0) + 1));
+
+  const window = new Map<string, number>();
+  let hits = 0;
+  const add = (word: string, delta: number) => {
+    const before = window.get(word) || 0;
+    const after = before + delta;
+    window.set(word, after);
+    const cap = wanted.get(word) || 0;
+    hits += Math.min(after, cap) - Math.min(before, cap);
+  };
+
+  const candidates: { index: number; hits: number }[] = [];
+  for (let i = 0; i < sourceTokens.length; i++) {
+    add(sourceTokens[i].word, 1);
+    if (i >= size) add(sourceTokens[i - size].word, -1);
+    if (i >= size - 1 && hits >= size * APPROXIMATE_SCORE) {
+      candidates.push({ index: i - size + 1, hits });
+    }
+  }
+  if (candidates.length === 0) return null;
+
+  const quoteGrams = bigrams(quoteTokens.map(t => t.word));
+  let best = { index: -1, score: 0 };
+  for (const { index } of candidates.sort((a, b) => b.hits - a.hits).slice(0, 25)) {
+    const words = sourceTokens.slice(index, index + size).map(t => t.word);
+    const score = diceScore(quoteGrams, bigrams(words));
+    if (score > best.score) best = { index, score };
+  }
+
+  if (best.index < 0 || best.score < APPROXIMATE_SCORE) return null;
+  return {
+    start: sourceTokens[best.index].start,
+    end: sourceTokens[best.index + size - 1].end,
+    matchScore: Math.round(best.score * 100) / 100,
+    status: best.score >= VERIFIED_SCORE ? 'verified' : 'approximate'
+  };
+};
+
+export const citeClause = (source: string, quote: string): ClauseCitation => {
+  const match = locateQuote(source, quote);
+  if (!match) return { status: 'unverified', matchScore: 0 };
+  return {
+    ...match,
+    clauseNumber: clauseNumberAt(source, match.start!),
+    pageReference: pageAtOffset(source, match.start!)
+  };
+};
+
+// Unlocatable quotes are possible hallucinations and always go to human review.
+export const attachCitations = (clauses: ClauseAnalysis[], source: string): ClauseAnalysis[] =>
+  clauses.map(clause => {
+    const citation = citeClause(source, clause.summary || '');
+    if (citation.status === 'unverified') {
+      return {
+        ...clause,
+        citation,
+        reviewRequired: true,
+        reason: `${clause.reason} The extracted provision text could not be located in the source document and may be a model hallucination.`
+      };
+    }
+    return {
+      ...clause,
+      citation,
+      pageReference: citation.pageReference ?? clause.pageReference
+    };
+  });
@@ -0,0 +1,148 @@
+import { CovenantRatioType, CovenantTest, DocumentOverview, FinancialCovenant, FinancialMetric, FinancialPeriod } from "../types";
+import { RATIO_LABELS, calculateHeadroom, formatThreshold, thresholdOn } from "./covenantModel";
+
+// Headroom below this share of the limit is reported as a near breach.
+export const NEAR_BREACH_PCT = 10;
+
+// Metrics that compute each ratio, in order of preference. The agreement's own definitions
+// (numerator/denominator) are shown alongside so the analyst can confirm the mapping.
+const RATIO_INPUTS: Record<CovenantRatioType, { numerator: FinancialMetric[]; denominator?: FinancialMetric[] } | undefined> = {
+  leverage: { numerator: ['netDebt', 'totalDebt'], denominator: ['ebitda'] },
+  interestCover: { numerator: ['ebitda'], denominator: ['interest'] },
+  debtServiceCover: { numerator: ['cashflow', 'ebitda'], denominator: ['debtService'] },
+  cashflowCover: { numerator: ['cashflow'], denominator: ['debtService'] },
+  loanToValue: { numerator: ['totalDebt', 'netDebt'], denominator: ['assetValue'] },
+  gearing: { numerator: ['netDebt', 'totalDebt'], denominator: ['equity', 'netWorth'] },
+  netWorth: { numerator: ['netWorth', 'equity'] },
+  liquidity: { numerator: ['liquidity'] },
+  capex: { numerator: ['capex'] },
+  other: undefined
+};
+
+export const METRIC_LABELS: Record<FinancialMetric, string> = {
+  ebitda: 'EBITDA',
+  netDebt: 'Net Debt',
+  totalDebt: 'Total Debt',
+  interest: 'Interest',
+  debtService: 'Debt Service',
+  cashflow: 'Cashflow',
+  assetValue: 'Asset Value',
+  netWorth: 'Net Worth',
+  equity: 'Equity',
+  liquidity: 'Liquidity',
+  capex: 'Capex'
+};
+
+// Management accounts often show costs as negatives, e.g. "(300)" for interest.
+const COST_METRICS: FinancialMetric[] = ['interest', 'debtService', 'capex'];
+
+const pick = (values: FinancialPeriod['values'], metrics: FinancialMetric[]) => {
+  const metric = metrics.find(m => values[m] !== undefined);
+  if (!metric) return undefined;
+  return COST_METRICS.includes(metric) ? Math.abs(values[metric]!) : values[metric];
+};
+
+// Debt measured against earnings, asset value or equity has no meaningful value once that base is
+// zero or negative: the quotient would be negative or infinite and pass any maximum.
+const DEBT_RATIOS: CovenantRatioType[] = ['leverage', 'gearing', 'loanToValue'];
+
+export interface RatioOutcome {
+  actual?: number;
+  missing: FinancialMetric[];
+  note?: string;
+  // Set when no ratio exists but the limit cannot be met, e.g. positive debt over negative EBITDA.
+  breach?: boolean;
+}
+
+export const computeRatio = (covenant: FinancialCovenant, values: FinancialPeriod['values']): RatioOutcome => {
+  const inputs = RATIO_INPUTS[covenant.ratioType];
+  if (!inputs) return { missing: [] };
+  const numerator = pick(values, inputs.numerator);
+  const denominator = inputs.denominator ? pick(values, inputs.denominator) : 1;
+  const missing = [
+    ...(numerator === undefined ? [inputs.numerator[0]] : []),
+    ...(inputs.denominator && denominator === undefined ? [inputs.denominator[0]] : [])
+  ];
+  if (numerator === undefined || denominator === undefined) return { missing };
+  if (DEBT_RATIOS.includes(covenant.ratioType) && denominator <= 0) {
+    const base = METRIC_LABELS[inputs.denominator!.find(m => values[m] !== undefined)!];
+    const breach = numerator > 0 && covenant.direction === 'max';
+    return {
+      missing,
+      breach,
+      note: `${base} is ${denominator}, so ${RATIO_LABELS[covenant.ratioType]} has no meaningful value${breach ? ' and the maximum cannot be met' : ''}`
+    };
+  }
+  if (denominator === 0) return { missing };
+  const ratio = numerator / denominator;
+  return { actual: covenant.unit === '%' && inputs.denominator ? ratio * 100 : ratio, missing };
+};
+
+export const testCovenant = (covenant: FinancialCovenant, period: FinancialPeriod): CovenantTest => {
+  const threshold = thresholdOn(covenant, period.periodEnd);
+  const { actual, missing, note, breach } = computeRatio(covenant, period.values);
+  if (actual === undefined) {
+    return { covenantName: covenant.name, periodEnd: period.periodEnd, status: breach ? 'breach' : 'not-computable', threshold, missing, note };
+  }
+  const { headroom, percentage, isCompliant } = calculateHeadroom(covenant.direction, threshold, actual);
+  return {
+    covenantName: covenant.name,
+    periodEnd: period.periodEnd,
+    status: !isCompliant ? 'breach' : percentage < NEAR_BREACH_PCT ? 'near-breach' : 'compliant',
+    threshold,
+    actual,
+    headroom,
+    headroomPct: percentage
+  };
+};
+
+export const testCompliance = (covenants: FinancialCovenant[], periods: FinancialPeriod[]): CovenantTest[] =>
+  covenants.flatMap(covenant => periods.map(period => testCovenant(covenant, period)));
+
+const STATUS_WORDING: Record<CovenantTest['status'], string> = {
+  'compliant': 'has been complied with',
+  'near-breach': `has been complied with (headroom below ${NEAR_BREACH_PCT}%)`,
+  'breach': 'HAS NOT been complied with',
+  'not-computable': 'could not be tested from the financial information provided'
+};
+
+// A draft for the file, in the shape of the usual LMA compliance certificate. It is produced from
+// the uploaded figures only and must be checked against the agreement definitions before use.
+export const buildComplianceCertificate = (
+  overview: DocumentOverview,
+  covenants: FinancialCovenant[],
+  tests: CovenantTest[],
+  periodEnd: string
+) => {
+  const lines = covenants.map((covenant, i) => {
+    const test = tests.find(t => t.covenantName === covenant.name && t.periodEnd === periodEnd);
+    const limit = `${covenant.direction === 'max' ? 'not exceeding' : 'not less than'} ${formatThreshold(test?.threshold ?? covenant.threshold, covenant.unit)}`;
+    const definition = covenant.denominator ? `${covenant.numerator} to ${covenant.denominator}` : covenant.numerator;
+    const measured = test?.actual !== undefined
+      ? `was ${formatThreshold(Number(test.actual.toFixed(2)), covenant.unit)}`
+      : test?.note ? `could not be expressed as a ratio (${test.note})` : 'was not available';
+    return `(${String.fromCharCode(97 + i)}) ${covenant.name} (${RATIO_LABELS[covenant.ratioType]}): ${definition} ${measured} against a requirement ${limit}; accordingly the covenant ${STATUS_WORDING[test?.status || 'not-computable']}.`;
+  });
+  const breaches = tests.filter(t => t.periodEnd === periodEnd && t.status === 'breach');
+
+  return `DRAFT COMPLIANCE CERTIFICATE
+
+Facility: ${overview.facilityType} (${overview.currency} ${overview.amount})
+Parties: ${overview.borrowerLender}
+Test Date: ${periodEnd}
+
+We refer to the Agreement. This is a Compliance Certificate. Terms defined in the Agreement have the same meaning when used in this Compliance Certificate.
+
+We confirm that in respect of the Relevant Period ending on ${periodEnd}:
+
+${lines.join('\n')}
+
+${breaches.length > 0
+    ? `We confirm that a Default is continuing in respect of ${breaches.map(b => b.covenantName).join(', ')}. [Set out steps being taken to remedy it.]`
+    : 'We confirm that no Default is continuing.'}
+
+Signed: ____________________  Chief Financial Officer
+        ____________________  Director
+
+[Draft prepared from uploaded management figures. Verify each computation against the Agreement's definitions before issue.]`;
+};
@@ -0,0 +1,90 @@
+import { CovenantRatioType, FinancialCovenant, TestFrequency } from "../types";
+
+export const RATIO_LABELS: Record<CovenantRatioType, string> = {
+  leverage: 'Leverage',
+  interestCover: 'Interest Cover',
+  debtServiceCover: 'Debt Service Cover',
+  cashflowCover: 'Cashflow Cover',
+  loanToValue: 'Loan to Value',
+  gearing: 'Gearing',
+  netWorth: 'Minimum Net Worth',
+  liquidity: 'Minimum Liquidity',
+  capex: 'Capital Expenditure',
+  other: 'Other'
+};
+
+export const MONTHS_PER_PERIOD: Record<TestFrequency, number> = {
+  'monthly': 1,
+  'quarterly': 3,
+  'semi-annual': 6,
+  'annual': 12
+};
+
+// Derived schedules are capped so an open-ended covenant cannot produce an unbounded list.
+const MAX_DERIVED_DATES = 40;
+const DERIVED_HORIZON_YEARS = 3;
+
+export const formatThreshold = (value: number, unit: FinancialCovenant['unit']) => {
+  if (unit === 'x') return `${value.toFixed(2)}x`;
+  if (unit === '%') return `${value}%`;
+  return value.toLocaleString('en-GB');
+};
+
+export const todayIso = () => new Date().toISOString().slice(0, 10);
+
+// The step whose period contains the date wins; later-starting steps override earlier ones when
+// periods overlap. Dates outside every step fall back to the headline threshold.
+export const thresholdOn = (covenant: FinancialCovenant, date: string): number => {
+  let applicable: number | undefined;
+  for (const step of covenant.steps) {
+    if (step.periodStart <= date && (!step.periodEnd || date <= step.periodEnd)) applicable = step.threshold;
+  }
+  return applicable ?? covenant.threshold;
+};
+
+const monthEnd = (year: number, monthIndex: number) =>
+  new Date(Date.UTC(year, monthIndex + 1, 0)).toISOString().slice(0, 10);
+
+// Calendar period ends (31 Mar, 30 Jun, ...) between two dates for the given frequency.
+export const periodEndDates = (frequency: TestFrequency, from: string, to: string): string[] => {
+  const step = MONTHS_PER_PERIOD[frequency];
+  const start = new Date(`${from}T00:00:00Z`);
+  const dates: string[] = [];
+  let year = start.getUTCFullYear();
+  let month = start.getUTCMonth();
+  month = month - (month % step) + step - 1;
+  while (dates.length < MAX_DERIVED_DATES) {
+    const date = monthEnd(year + Math.floor(month / 12), month % 12);
+    if (date > to) break;
+    if (date >= from) dates.push(date);
+    month += step;
+  }
+  return dates;
+};
+
+// Test dates stated in the agreement take precedence. Otherwise they are derived from the test
+// frequency across the step-down periods, or the next few years when there are none.
+export const covenantTestDates = (covenant: FinancialCovenant, today = todayIso()): string[] => {
+  if (covenant.testDates.length > 0) return covenant.testDates;
+  if (!covenant.testFrequency) return [];
+  const from = covenant.steps[0]?.periodStart || today;
+  const addYears = (date: string, years: number) => `${Number(date.slice(0, 4)) + years}${date.slice(4)}`;
+  const ends = covenant.steps.map(s => s.periodEnd);
+  // A closed step grid ends with its last period; an open-ended one runs to the horizon.
+  const to = ends.length > 0 && ends.every(Boolean)
+    ? ends.reduce((latest, end) => (end! > latest! ? end : latest))!
+    : [addYears(today, DERIVED_HORIZON_YEARS), addYears(covenant.steps[covenant.steps.length - 1]?.periodStart || today, 1)].sort()[1];
+  return periodEndDates(covenant.testFrequency, from, to);
+};
+
+export const nextTestDate = (dates: string[], today = todayIso()) =>
+  dates.find(d => d >= today) || dates[dates.length - 1];
+
+// Headroom is measured against the threshold for ceilings and against the actual for floors,
+// i.e. how far the tested figure can move before the covenant is breached.
+export const calculateHeadroom = (direction: FinancialCovenant['direction'], threshold: number, actual: number) => {
+  const headroom = direction === 'max' ? threshold - actual : actual - threshold;
+  const base = direction === 'max' ? threshold : actual;
+  const percentage = base !== 0 ? (headroom / Math.abs(base)) * 100 : 0;
+  return { headroom, percentage, isCompliant: headroom >= 0 };
+};
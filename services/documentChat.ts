@@ -0,0 +1,95 @@
+import { ChatCitation, ChatMessage, ClauseAnalysis } from "../types";
+import { RawChatAnswer } from "./analysisValidator";
+import { canonicalClauseKey } from "./analysisMerge";
+import { citeClause } from "./citationMatcher";
+import { SINGLE_PASS_CHAR_LIMIT, chunkDocument } from "./documentChunker";
+import { formatPageMarker } from "./documentParser";
+
+const PASSAGE_CHARS = 3_000;
+// Earlier turns let follow-ups such as "and for the guarantors?" resolve.
+const HISTORY_TURNS = 6;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'what', 'which', 'when', 'where', 'does', 'can', 'will',
+  'shall', 'under', 'any', 'are', 'is', 'of', 'to', 'in', 'on', 'a', 'an', 'or', 'be', 'by', 'it', 'if', 'there'
+]);
+
+const terms = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+// Documents that fit the analysis window are sent whole. Longer ones are cut into passages ranked
+// by overlap with the question; the best are kept in document order with their page markers.
+export const selectPassages = (text: string, question: string, budget = SINGLE_PASS_CHAR_LIMIT): string => {
+  if (text.length <= budget) return text;
+  const wanted = new Set(terms(question));
+  const passages = chunkDocument(text, PASSAGE_CHARS).map(chunk => {
+    const words = terms(chunk.text);
+    const score = words.filter(word => wanted.has(word)).length / Math.sqrt(words.length || 1);
+    return { chunk, score };
+  });
+
+  const chosen = new Set<number>();
+  let used = 0;
+  for (const { chunk, score } of [...passages].sort((a, b) => b.score - a.score)) {
+    if (score === 0 || used + chunk.text.length > budget) continue;
+    chosen.add(chunk.index);
+    used += chunk.text.length;
+  }
+  return passages
+    .filter(({ chunk }) => chosen.has(chunk.index))
+    .map(({ chunk }) => {
+      const marker = chunk.firstPage ? formatPageMarker(chunk.firstPage) : '';
+      return marker && !chunk.text.trimStart().startsWith(marker) ? `${marker}\n${chunk.text}` : chunk.text;
+    })
+    .join('\n\n[…]\n\n');
+};
+
+export const formatChatHistory = (history: ChatMessage[]) =>
+  history
+    .slice(-HISTORY_TURNS)
+    .map(m => `${m.role === 'analyst' ? 'Analyst' : 'Assistant'}: ${m.text}`)
+    .join('\n');
+
+export const newChatId = () => `msg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const findClause = (clauses: ClauseAnalysis[], name?: string) => {
+  if (!name) return undefined;
+  const key = canonicalClauseKey(name);
+  return clauses.find(c => canonicalClauseKey(c.name) === key);
+};
+
+// The clause whose located provision text contains the quoted passage.
+const clauseAtOffset = (clauses: ClauseAnalysis[], offset?: number) =>
+  offset === undefined
+    ? undefined
+    : clauses.find(c => c.citation?.start !== undefined && c.citation.start <= offset && offset <= c.citation.end!);
+
+const REFUSAL_UNSUPPORTED = "I could not find support for an answer in the agreement. The proposed answer quoted text that does not appear in the document, so it has been withheld.";
+
+// Every quote is checked against the source. An answer with no locatable quote is withheld, since
+// "grounded" means the analyst can see the words it rests on.
+export const groundAnswer = (raw: RawChatAnswer, source: string, clauses: ClauseAnalysis[]): ChatMessage => {
+  const citations: ChatCitation[] = raw.citations.flatMap(c => {
+    const located = citeClause(source, c.quote);
+    if (located.status === 'unverified') return [];
+    const clause = findClause(clauses, c.clause_name) || clauseAtOffset(clauses, located.start);
+    return [{
+      quote: c.quote,
+      status: located.status,
+      clauseName: clause?.name || c.clause_name,
+      clauseNumber: located.clauseNumber,
+      pageReference: located.pageReference
+    }];
+  });
+  const base = { id: newChatId(), role: 'assistant' as const, createdAt: new Date().toISOString() };
+
+  if (!raw.answered) return { ...base, text: raw.answer, answered: false };
+  if (citations.length === 0) return { ...base, text: REFUSAL_UNSUPPORTED, answered: false };
+  const clause = findClause(clauses, raw.clause_name) || findClause(clauses, citations[0].clauseName);
+  return { ...base, text: raw.answer, answered: true, citations, clauseName: clause?.name };
+};
+
+export const formatChatCitation = (citation: ChatCitation) =>
+  [citation.clauseName, citation.clauseNumber && `Cl. ${citation.clauseNumber}`, citation.pageReference && `p. ${citation.pageReference}`]
+    .filter(Boolean)
+    .join(' • ');
@@ -0,0 +1,87 @@
+import { formatPageMarker, pageAtOffset } from "./documentParser";
+
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  headings: string[];
+  firstPage?: number;
+}
+
+// Above this size a single request loses recall on clauses deep in the document.
+export const SINGLE_PASS_CHAR_LIMIT = 100_000;
+export const CHUNK_TARGET_CHARS = 60_000;
+
+// Markdown headings from the PDF/DOCX parsers, numbered clauses ("21.", "21.3 Financial Condition"),
+// "Clause 21", "Schedule 4", "Article IX" and all-caps section titles.
+const HEADING_PATTERN = /^(?:#{1,6}\s+.+|(?:\d+(?:\.\d+)*\.?)\s+[A-Z][^\n]{0,100}|(?:Clause|CLAUSE|Schedule|SCHEDULE|Article|ARTICLE|Part|PART)\s+[\dIVXLC]+[^\n]{0,100}|[A-Z][A-Z &,\-]{3,80})$/gm;
+
+interface Section {
+  heading?: string;
+  start: number;
+  end: number;
+}
+
+export const splitSections = (text: string): Section[] => {
+  const starts: { offset: number; heading: string }[] = [];
+  for (const match of text.matchAll(HEADING_PATTERN)) {
+    starts.push({ offset: match.index ?? 0, heading: match[0].replace(/^#+\s*/, '').trim() });
+  }
+  if (starts.length === 0 || starts[0].offset > 0) starts.unshift({ offset: 0, heading: '' });
+
+  return starts.map((s, i) => ({
+    heading: s.heading || undefined,
+    start: s.offset,
+    end: i + 1 < starts.length ? starts[i + 1].offset : text.length
+  }));
+};
+
+// Oversized sections (e.g. a 40-page definitions clause) are split on paragraph boundaries.
+const splitOversized = (text: string, section: Section, limit: number): Section[] => {
+  if (section.end - section.start <= limit) return [section];
+  const parts: Section[] = [];
+  let start = section.start;
+  while (section.end - start > limit) {
+    const window = text.slice(start, start + limit);
+    const breakAt = window.lastIndexOf('\n\n');
+    const cut = breakAt > limit / 2 ? start + breakAt : start + limit;
+    parts.push({ heading: section.heading, start, end: cut });
+    start = cut;
+  }
+  parts.push({ heading: section.heading, start, end: section.end });
+  return parts;
+};
+
+export const chunkDocument = (text: string, targetChars = CHUNK_TARGET_CHARS): DocumentChunk[] => {
+  const sections = splitSections(text).flatMap(s => splitOversized(text, s, targetChars));
+  const chunks: DocumentChunk[] = [];
+  let current: Section[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const startOffset = current[0].start;
+    const endOffset = current[current.length - 1].end;
+    const firstPage = pageAtOffset(text, startOffset);
+    const body = text.slice(startOffset, endOffset);
+    // Carry the page marker forward so page references survive a mid-page split.
+    const needsMarker = firstPage !== undefined && !body.trimStart().startsWith(formatPageMarker(firstPage));
+    chunks.push({
+      index: chunks.length,
+      text: needsMarker ? `${formatPageMarker(firstPage!)}\n${body}` : body,
+      startOffset,
+      endOffset,
+      headings: current.map(s => s.heading).filter((h): h is string => !!h),
+      firstPage
+    });
+    current = [];
+  };
+
+  for (const section of sections) {
+    const size = current.length ? section.end - current[0].start : 0;
+    if (size > targetChars) flush();
+    current.push(section);
+  }
+  flush();
+  return chunks;
+};
@@ -0,0 +1,155 @@
+import { ParsedDocument, SourcePage } from "../types";
+import { isImageOnlyPage, recognizeImage, renderPdfPage } from "./ocrService";
+
+declare const mammoth: any;
+declare const pdfjsLib: any;
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'tif', 'tiff', 'bmp', 'webp'];
+
+export type ParseProgress = (message: string) => void;
+
+const PDF_WORKER_SRC = "https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js";
+
+// Page markers sit on their own line so both the model and the report can resolve "p. N".
+export const PAGE_MARKER_PATTERN = /^\[Page (\d+)\]$/gm;
+
+export const formatPageMarker = (pageNumber: number) => `[Page ${pageNumber}]`;
+
+export const pageAtOffset = (text: string, offset: number): number | undefined => {
+  let page: number | undefined;
+  for (const match of text.matchAll(PAGE_MARKER_PATTERN)) {
+    if ((match.index ?? 0) > offset) break;
+    page = parseInt(match[1], 10);
+  }
+  return page;
+};
+
+export const locatePage = (text: string, snippet: string): number | undefined => {
+  const words = snippet.trim().split(/\s+/).filter(Boolean).slice(0, 10);
+  if (words.length === 0) return undefined;
+  const pattern = new RegExp(words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), 'i');
+  const match = pattern.exec(text);
+  return match ? pageAtOffset(text, match.index) : undefined;
+};
+
+interface PdfLine {
+  y: number;
+  height: number;
+  text: string;
+}
+
+const CLAUSE_HEADING = /^(?:\d+(?:\.\d+)*\.?|[A-Z]{1,3}\.|Clause \d+|Schedule \d+|Article [IVXLC\d]+)\s+[A-Z]/;
+
+const isHeading = (line: PdfLine, bodyHeight: number) => {
+  const text = line.text.trim();
+  if (!text || text.length > 120) return false;
+  if (line.height > bodyHeight * 1.15) return true;
+  if (CLAUSE_HEADING.test(text) && text.length < 80 && !/[.;:,]$/.test(text)) return true;
+  return text.length < 60 && /[A-Z]/.test(text) && text === text.toUpperCase();
+};
+
+const groupLines = (items: any[]): PdfLine[] => {
+  const lines: PdfLine[] = [];
+  for (const item of items) {
+    if (typeof item.str !== 'string') continue;
+    const y = Math.round(item.transform[5]);
+    const height = Math.abs(item.transform[3]) || item.height || 0;
+    const current = lines[lines.length - 1];
+    if (current && Math.abs(current.y - y) <= 2) {
+      current.text += item.hasEOL || current.text.endsWith(' ') || item.str.startsWith(' ') ? item.str : ` ${item.str}`;
+      current.height = Math.max(current.height, height);
+    } else {
+      lines.push({ y, height, text: item.str });
+    }
+  }
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text);
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Rebuilds lines and headings from pdf.js text content. Returns null for a page with no usable
+// text layer, which needs OCR instead.
+export const pdfPageFromItems = (pageNumber: number, items: any[]): SourcePage | null => {
+  const lines = groupLines(items);
+  if (isImageOnlyPage(lines.map(l => l.text).join(''))) return null;
+
+  const bodyHeight = median(lines.map(l => l.height));
+  const headings: string[] = [];
+  const text = lines.map(line => {
+    if (isHeading(line, bodyHeight)) {
+      headings.push(line.text);
+      return `## ${line.text}`;
+    }
+    return line.text;
+  }).join('\n');
+  return { pageNumber, text, headings };
+};
+
+const extractPdf = async (file: File, onProgress?: ParseProgress): Promise<SourcePage[]> => {
+  if (typeof pdfjsLib === 'undefined') {
+    throw new Error("PDF engine unavailable. Please reload the workspace and try again.");
+  }
+  pdfjsLib.GlobalWorkerOptions.workerSrc = PDF_WORKER_SRC;
+
+  let pdf: any;
+  try {
+    // Uploads are untrusted: with eval disabled, a crafted font cannot run script (CVE-2024-4367).
+    pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer(), isEvalSupported: false }).promise;
+  } catch (err: any) {
+    if (err?.name === 'PasswordException') {
+      throw new Error("This PDF is password-protected or encrypted. Please upload an unlocked copy of the agreement.");
+    }
+    throw new Error("The PDF could not be read. The file may be damaged or not a valid PDF.");
+  }
+
+  const pages: SourcePage[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const textPage = pdfPageFromItems(pageNumber, content.items);
+
+    if (!textPage) {
+      onProgress?.(`Running OCR on page ${pageNumber} of ${pdf.numPages}`);
+      const ocr = await recognizeImage(await renderPdfPage(page));
+      pages.push({ pageNumber, text: ocr.text, headings: [], ocrConfidence: ocr.confidence });
+      continue;
+    }
+    pages.push(textPage);
+  }
+  return pages;
+};
+
+export const joinPages = (pages: SourcePage[]) =>
+  pages.map(p => `${formatPageMarker(p.pageNumber)}\n${p.text}`).join('\n\n');
+
+export const parseDocument = async (file: File, onProgress?: ParseProgress): Promise<ParsedDocument> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+
+  if (extension === 'pdf' || file.type === 'application/pdf') {
+    onProgress?.("Reading PDF text layer");
+    const pages = await extractPdf(file, onProgress);
+    return { fileName: file.name, format: 'pdf', text: joinPages(pages), pages };
+  }
+
+  if (IMAGE_EXTENSIONS.includes(extension) || file.type.startsWith('image/')) {
+    onProgress?.("Running OCR on scanned image");
+    const ocr = await recognizeImage(file);
+    const pages = [{ pageNumber: 1, text: ocr.text, headings: [], ocrConfidence: ocr.confidence }];
+    return { fileName: file.name, format: 'image', text: joinPages(pages), pages };
+  }
+
+  if (extension === 'docx') {
+    const arrayBuffer = await file.arrayBuffer();
+    const conversionResult = await mammoth.convertToMarkdown({ arrayBuffer });
+    return { fileName: file.name, format: 'docx', text: conversionResult.value, pages: [] };
+  }
+
+  const text = await file.text();
+  return { fileName: file.name, format: 'text', text, pages: [] };
+};
@@ -0,0 +1,146 @@
+import { MemoBlock, Memorandum } from "./memorandum";
+import { createZip } from "./zipWriter";
+
+// A4 with 2 cm margins, in twentieths of a point.
+const PAGE = { width: 11906, height: 16838, margin: 1134 };
+const CONTENT_TWIPS = PAGE.width - PAGE.margin * 2;
+
+const INK = '0F172A';
+const MUTED = '64748B';
+const NOTICE = '92400E';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+// Strips characters XML 1.0 does not allow, then escapes markup.
+const xml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const run = (text: string, props = '') =>
+  text
+    .split('\n')
+    .map((line, i) => `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${xml(line)}</w:t></w:r>`)
+    .join('');
+
+const para = (content: string, pPr = '') => `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${content}</w:p>`;
+
+const styled = (style: string, text: string, props = '') => para(run(text, props), `<w:pStyle w:val="${style}"/>`);
+
+const fieldRuns = (instruction: string, placeholder: string) =>
+  `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>${run(placeholder)}<w:r><w:fldChar w:fldCharType="end"/></w:r>`;
+
+const cell = (content: string, width: number, shading?: string) =>
+  `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${shading}"/>` : ''}</w:tcPr>${content}</w:tc>`;
+
+const tableXml = (rows: string[], widths: number[], borders: boolean) => {
+  const border = (side: string) => `<w:${side} w:val="${borders ? 'single' : 'nil'}" w:sz="4" w:space="0" w:color="E2E8F0"/>`;
+  return `<w:tbl><w:tblPr><w:tblW w:w="${CONTENT_TWIPS}" w:type="dxa"/><w:tblLayout w:type="fixed"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr><w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>${rows.join('')}</w:tbl>${para('', '<w:spacing w:after="120"/>')}`;
+};
+
+const twips = (weights: number[]) => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => Math.floor((w / total) * CONTENT_TWIPS));
+};
+
+const blockXml = (block: MemoBlock): string => {
+  switch (block.type) {
+    case 'paragraph':
+      return styled('BodyText', block.text, block.emphasis ? '<w:b/>' : '');
+    case 'subheading':
+      return styled('Heading2', block.text);
+    case 'notice':
+      return styled('BodyText', block.text, `<w:b/><w:color w:val="${NOTICE}"/>`);
+    case 'bullets':
+      return block.items.map(item => para(run(item), '<w:pStyle w:val="ListBullet"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>')).join('');
+    case 'fields': {
+      const widths = twips([1, 3]);
+      const rows = block.items.map(item =>
+        `<w:tr><w:trPr><w:cantSplit/></w:trPr>${cell(para(run(item.label.toUpperCase(), `<w:b/><w:sz w:val="16"/><w:color w:val="${MUTED}"/>`)), widths[0])}${cell(para(run(item.value || '—')), widths[1])}</w:tr>`
+      );
+      return tableXml(rows, widths, false);
+    }
+    case 'table': {
+      const widths = twips(block.widths);
+      const header = `<w:tr><w:trPr><w:tblHeader/><w:cantSplit/></w:trPr>${block.headers.map((h, i) => cell(para(run(h.toUpperCase(), `<w:b/><w:sz w:val="16"/><w:color w:val="${MUTED}"/>`)), widths[i], 'F8FAFC')).join('')}</w:tr>`;
+      const rows = block.rows.map(row =>
+        `<w:tr><w:trPr><w:cantSplit/></w:trPr>${row.map((value, i) => cell(para(run(value || '—', '<w:sz w:val="18"/>')), widths[i])).join('')}</w:tr>`
+      );
+      return tableXml([header, ...rows], widths, true);
+    }
+  }
+};
+
+const documentXml = (memo: Memorandum) => {
+  const metaWidths = twips([1, 3]);
+  const meta = tableXml(
+    memo.meta.map(m => `<w:tr>${cell(para(run(m.label.toUpperCase(), `<w:b/><w:sz w:val="16"/><w:color w:val="${MUTED}"/>`)), metaWidths[0])}${cell(para(run(m.value)), metaWidths[1])}</w:tr>`),
+    metaWidths,
+    false
+  );
+  // Word fills the contents and page numbers when it updates fields on opening (settings.xml).
+  const contents = [
+    styled('TOCHeading', 'Contents'),
+    para(fieldRuns('TOC \\o "1-1" \\h \\z \\u', memo.sections.map(s => s.title).join('\n'))),
+  ].join('');
+  const sections = memo.sections.map(section => styled('Heading1', section.title) + section.blocks.map(blockXml).join('')).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W_NS}><w:body>${styled('Title', memo.title.toUpperCase())}${styled('Subtitle', memo.subtitle.toUpperCase())}${meta}${contents}${sections}<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/><w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+};
+
+const footerXml = (memo: Memorandum) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr ${W_NS}>${para(
+  `${run(`${memo.subtitle} • Report #${memo.reportId} • ${memo.date}    Page `, `<w:sz w:val="16"/><w:color w:val="${MUTED}"/>`)}${fieldRuns('PAGE', '1')}${run(' of ', `<w:sz w:val="16"/><w:color w:val="${MUTED}"/>`)}${fieldRuns('NUMPAGES', '1')}`,
+  '<w:jc w:val="right"/>'
+)}</w:ftr>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="20"/><w:color w:val="${INK}"/><w:lang w:val="en-GB"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="BodyText"><w:name w:val="Body Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="120"/></w:pPr><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr><w:rPr><w:b/><w:sz w:val="44"/></w:rPr><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="24" w:space="8" w:color="${INK}"/></w:pBdr><w:spacing w:after="360"/></w:pPr><w:rPr><w:b/><w:color w:val="${MUTED}"/><w:sz w:val="20"/></w:rPr><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="BodyText"/><w:pPr><w:keepNext/><w:pageBreakBefore/><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="4" w:color="E2E8F0"/></w:pBdr><w:spacing w:after="240"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:caps/><w:sz w:val="26"/></w:rPr><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="BodyText"/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="21"/></w:rPr><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="360" w:after="120"/></w:pPr><w:rPr><w:b/><w:caps/><w:sz w:val="22"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="TOC1"><w:name w:val="toc 1"/><w:basedOn w:val="Normal"/><w:pPr><w:tabs><w:tab w:val="right" w:leader="dot" w:pos="${CONTENT_TWIPS}"/></w:tabs></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr></w:style>
+</w:styles>`;
+
+const NUMBERING_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+
+const SETTINGS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:updateFields w:val="true"/><w:defaultTabStop w:val="720"/></w:settings>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/><Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/><Relationship Id="rIdSettings" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/><Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/></Relationships>`;
+
+const coreXml = (memo: Memorandum) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${xml(`${memo.title} #${memo.reportId}`)}</dc:title><dc:subject>${xml(memo.subtitle)}</dc:subject><dc:creator>LoanDoc Pro</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d{3}/, '')}</dcterms:created></cp:coreProperties>`;
+
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export const renderMemorandumDocx = (memo: Memorandum): Uint8Array =>
+  createZip([
+    { path: '[Content_Types].xml', content: CONTENT_TYPES_XML },
+    { path: '_rels/.rels', content: ROOT_RELS_XML },
+    { path: 'docProps/core.xml', content: coreXml(memo) },
+    { path: 'word/document.xml', content: documentXml(memo) },
+    { path: 'word/_rels/document.xml.rels', content: DOCUMENT_RELS_XML },
+    { path: 'word/styles.xml', content: STYLES_XML },
+    { path: 'word/numbering.xml', content: NUMBERING_XML },
+    { path: 'word/settings.xml', content: SETTINGS_XML },
+    { path: 'word/footer1.xml', content: footerXml(memo) }
+  ]);
@@ -0,0 +1,47 @@
+import { readZip } from "./zipReader";
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+
+const headingLevel = (paragraph: string) => {
+  const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1] || '';
+  if (/^title$/i.test(style)) return 1;
+  const level = style.match(/^heading\s?(\d)$/i)?.[1];
+  return level ? Number(level) : 0;
+};
+
+// Plain-text reading of word/document.xml in the same Markdown shape mammoth produces in the
+// browser: headings as '#' lines, list items as '- ' lines, paragraphs separated by blank lines.
+// Deleted tracked changes (w:delText) are left out.
+export const documentXmlToText = (xml: string): string => {
+  const body = xml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] || xml;
+  const paragraphs: string[] = [];
+  for (const match of body.matchAll(/<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g)) {
+    const paragraph = match[1] || '';
+    const text = Array.from(
+      paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g),
+      run => (run[2] === 'tab' ? '\t' : run[2] ? '\n' : decodeXml(run[1]))
+    ).join('').trim();
+    if (!text) continue;
+    const level = headingLevel(paragraph);
+    if (level) paragraphs.push(`${'#'.repeat(level)} ${text}`);
+    else if (/<w:numPr\b/.test(paragraph)) paragraphs.push(`- ${text}`);
+    else paragraphs.push(text);
+  }
+  return paragraphs.join('\n\n');
+};
+
+export const extractDocxText = async (data: Uint8Array): Promise<string> => {
+  const parts = await readZip(data, ['word/document.xml']);
+  const documentXml = parts.get('word/document.xml');
+  if (!documentXml) throw new Error("Not a Word document: word/document.xml is missing.");
+  return documentXmlToText(new TextDecoder().decode(documentXml));
+};
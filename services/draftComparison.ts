@@ -0,0 +1,156 @@
+import { AnalysisResult, ClauseAnalysis, ClauseComparison, DiffSegment, DraftComparison, ListDelta } from "../types";
+import { canonicalClauseKey } from "./analysisMerge";
+
+// Above this many token pairs the LCS table gets too large for the main thread; the redline
+// falls back to a whole-text replacement.
+const MAX_DIFF_CELLS = 400_000;
+
+const tokenizeForDiff = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) last.text += text;
+  else segments.push({ type, text });
+};
+
+// Word-level redline via longest common subsequence. Whitespace tokens are diffed too so the
+// output reproduces both texts exactly when the insert or delete segments are dropped.
+export const diffWords = (previous: string, current: string): DiffSegment[] => {
+  const a = tokenizeForDiff(previous);
+  const b = tokenizeForDiff(current);
+  if (previous === current) return previous ? [{ type: 'equal', text: previous }] : [];
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(previous ? [{ type: 'delete' as const, text: previous }] : []),
+      ...(current ? [{ type: 'insert' as const, text: current }] : [])
+    ];
+  }
+
+  const table: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      pushSegment(segments, 'delete', a[i++]);
+    } else {
+      pushSegment(segments, 'insert', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'delete', a[i++]);
+  while (j < b.length) pushSegment(segments, 'insert', b[j++]);
+  return segments;
+};
+
+const keyOverlap = (a: string, b: string) => {
+  const left = new Set(a.split(' '));
+  const right = new Set(b.split(' '));
+  const shared = [...left].filter(w => right.has(w)).length;
+  return shared / new Set([...left, ...right]).size;
+};
+
+// Pairs clauses by canonical name, then by the closest remaining name above 50% word overlap.
+export const matchClauses = (previous: ClauseAnalysis[], current: ClauseAnalysis[]) => {
+  const pairs: { previous?: ClauseAnalysis; current?: ClauseAnalysis }[] = [];
+  const unmatched = new Set(current);
+
+  for (const prior of previous) {
+    const key = canonicalClauseKey(prior.name);
+    let match = [...unmatched].find(c => canonicalClauseKey(c.name) === key);
+    if (!match) {
+      const ranked = [...unmatched]
+        .map(c => ({ c, score: keyOverlap(key, canonicalClauseKey(c.name)) }))
+        .sort((x, y) => y.score - x.score);
+      if (ranked[0] && ranked[0].score >= 0.5) match = ranked[0].c;
+    }
+    if (match) unmatched.delete(match);
+    pairs.push({ previous: prior, current: match });
+  }
+  unmatched.forEach(c => pairs.push({ current: c }));
+  return pairs;
+};
+
+// The agreement's own wording for a clause, when its citation was located in the source text.
+const provisionText = (clause: ClauseAnalysis | undefined, rawText: string | undefined) => {
+  const citation = clause?.citation;
+  if (!rawText || !citation || citation.status === 'unverified' || citation.start === undefined || citation.end === undefined) return undefined;
+  return rawText.slice(citation.start, citation.end);
+};
+
+// Summaries and confidence scores are model output and vary between runs on the same draft, so
+// a clause counts as changed only when its wording (or its review flag) moves.
+const compareClause = (
+  previous: ClauseAnalysis | undefined,
+  current: ClauseAnalysis | undefined,
+  previousText: string | undefined,
+  currentText: string | undefined
+): ClauseComparison => {
+  const before = provisionText(previous, previousText);
+  const after = provisionText(current, currentText);
+  const redlineSource = (!previous || before !== undefined) && (!current || after !== undefined) ? 'provision' : 'summary';
+  const redline = redlineSource === 'provision'
+    ? diffWords(before || '', after || '')
+    : diffWords(previous?.summary || '', current?.summary || '');
+  // Re-flowed line breaks are not edits.
+  const textChanged = redline.some(s => s.type !== 'equal' && s.text.trim());
+  const reviewChange = previous && current && previous.reviewRequired !== current.reviewRequired
+    ? (current.reviewRequired ? 'newly_flagged' : 'cleared')
+    : 'unchanged';
+  const status: ClauseComparison['status'] = !previous ? 'added'
+    : !current ? 'removed'
+    : textChanged || reviewChange !== 'unchanged' ? 'changed'
+    : 'unchanged';
+
+  return {
+    name: current?.name || previous!.name,
+    status,
+    previous,
+    current,
+    redline,
+    redlineSource,
+    confidenceDelta: (current?.confidenceScore ?? 0) - (previous?.confidenceScore ?? 0),
+    reviewChange
+  };
+};
+
+// Plain-text redline for CSV and PDF exports: {+inserted+} and [-deleted-].
+export const redlineToText = (segments: DiffSegment[]) =>
+  segments.map(s => s.type === 'insert' ? `{+${s.text}+}` : s.type === 'delete' ? `[-${s.text}-]` : s.text).join('');
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const listDelta = (previous: string[], current: string[]): ListDelta => {
+  const before = new Set(previous.map(normalize));
+  const after = new Set(current.map(normalize));
+  return {
+    added: current.filter(item => !before.has(normalize(item))),
+    removed: previous.filter(item => !after.has(normalize(item)))
+  };
+};
+
+export const compareAnalyses = (
+  previous: AnalysisResult,
+  current: AnalysisResult,
+  previousLabel: string,
+  currentLabel: string
+): DraftComparison => ({
+  previousLabel,
+  currentLabel,
+  previous,
+  current,
+  clauses: matchClauses(previous.confidenceAnalysis, current.confidenceAnalysis).map(p => compareClause(p.previous, p.current, previous.rawText, current.rawText)),
+  readinessDelta: current.dealReadiness.score - previous.dealReadiness.score,
+  driversPositive: listDelta(previous.dealReadiness.driversPositive, current.dealReadiness.driversPositive),
+  driversNegative: listDelta(previous.dealReadiness.driversNegative, current.dealReadiness.driversNegative),
+  keyIssues: listDelta(previous.dealReadiness.keyIssues, current.dealReadiness.keyIssues)
+});
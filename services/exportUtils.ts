@@ -0,0 +1,76 @@
+import { AnalysisResult, ClauseReview } from "../types";
+import { formatPlaybookReference } from "./playbook";
+import { decisionLabel } from "./reviewWorkflow";
+
+export const csvCell = (value: string | number | boolean | undefined | null) => {
+  if (value === undefined || value === null) return '""';
+  if (typeof value === 'number') return String(value);
+  return `"${String(value).replace(/"/g, '""')}"`;
+};
+
+export const toCsv = (headers: string[], rows: (string | number | boolean | undefined | null)[][]) =>
+  [headers.join(","), ...rows.map(r => r.map(csvCell).join(","))].join("\n");
+
+const CLAUSE_AUDIT_HEADERS = [
+  "Clause Name",
+  "Confidence Score (%)",
+  "Review Required",
+  "Provision Summary",
+  "Audit Logic",
+  "Market Standard Context",
+  "Deviation Analysis",
+  "Playbook Position",
+  "Judged Against",
+  "Counterparty Impact",
+  "Review Decision",
+  "Reviewer Deviation",
+  "Reviewer Playbook Position",
+  "Override Justification",
+  "Decided By",
+  "Decided At",
+  "Resolved By",
+  "Resolved At",
+  "Review Comments"
+];
+
+const reviewColumns = (review?: ClauseReview) => [
+  decisionLabel(review),
+  review?.override?.deviation || "",
+  review?.override?.playbookPosition || "",
+  review?.override?.justification || "",
+  review?.decidedBy || "",
+  review?.decidedAt || "",
+  review?.resolvedBy || "",
+  review?.resolvedAt || "",
+  (review?.comments || []).map(c => `${c.reviewer} (${c.at}): ${c.text}`).join(" | ")
+];
+
+export const clauseAuditCsv = (result: AnalysisResult, reviews: Record<string, ClauseReview> = {}) =>
+  toCsv(CLAUSE_AUDIT_HEADERS, result.confidenceAnalysis.map(clause => [
+    clause.name,
+    clause.confidenceScore,
+    clause.reviewRequired ? "YES" : "NO",
+    clause.summary,
+    clause.reason,
+    clause.lmaComparison?.standardBenchmark || "",
+    clause.lmaComparison?.deviations || "",
+    clause.lmaComparison?.playbookPosition || "",
+    clause.lmaComparison?.playbook ? formatPlaybookReference(clause.lmaComparison.playbook) : "",
+    clause.lmaComparison?.impact || "",
+    ...reviewColumns(reviews[clause.name])
+  ]));
+
+export const exportDateStamp = () => new Date().toISOString().split('T')[0];
+
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,171 @@
+import { FinancialMetric, FinancialPeriod } from "../types";
+import { METRIC_LABELS } from "./complianceTesting";
+
+// SheetJS from cdn.sheetjs.com (index.html). Workbooks come from borrowers, so keep it at 0.19.3 or
+// later: earlier builds are open to prototype pollution from crafted files (CVE-2023-30533).
+declare const XLSX: any;
+
+// Header spellings seen in borrower management accounts, matched after lower-casing and
+// stripping punctuation. More specific names must come before the generic ones they contain.
+const METRIC_ALIASES: [FinancialMetric, string[]][] = [
+  ['netDebt', ['total net debt', 'consolidated net debt', 'net debt', 'net borrowings']],
+  ['debtService', ['total debt service', 'senior debt service', 'scheduled debt service', 'debt service']],
+  ['totalDebt', ['total debt', 'gross debt', 'total borrowings', 'borrowings', 'senior debt']],
+  ['ebitda', ['consolidated ebitda', 'adjusted ebitda', 'ebitda']],
+  ['interest', ['net finance charges', 'finance charges', 'finance costs', 'net interest payable', 'interest expense', 'interest']],
+  ['cashflow', ['cashflow available for debt service', 'cash flow available for debt service', 'cfads', 'operating cashflow', 'cash flow', 'cashflow']],
+  ['assetValue', ['market value', 'property value', 'asset value', 'valuation']],
+  ['netWorth', ['tangible net worth', 'net worth', 'net assets']],
+  ['equity', ['total equity', 'shareholders funds', 'equity']],
+  ['liquidity', ['available liquidity', 'liquidity', 'cash and cash equivalents', 'cash']],
+  ['capex', ['capital expenditure', 'capex']]
+];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9 ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const matchMetric = (header: string): FinancialMetric | undefined => {
+  const normalized = normalizeHeader(header);
+  // Ratio rows ("Interest Cover", "Leverage Ratio", "Net Debt / EBITDA") are outputs, not inputs;
+  // they are recomputed, and reading one as its first metric would overwrite the real figure.
+  if (!normalized || header.includes('/') || / to /.test(` ${normalized} `)) return undefined;
+  if (/\b(cover|ratio|leverage|ltv)\b/.test(normalized)) return undefined;
+  for (const [metric, aliases] of METRIC_ALIASES) {
+    const alias = aliases.find(a => normalized === a || normalized.startsWith(`${a} `));
+    if (!alias) continue;
+    // A second metric name in the rest of the header ("Net Debt EBITDA") makes the row ambiguous.
+    const rest = ` ${normalized.slice(alias.length).trim()} `;
+    const mentionsOther = METRIC_ALIASES.some(([other, names]) => other !== metric && names.some(n => rest.includes(` ${n} `)));
+    return mentionsOther ? undefined : metric;
+  }
+  return undefined;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const monthEnd = (year: number, month: number) =>
+  `${year}-${pad(month)}-${pad(new Date(Date.UTC(year, month, 0)).getUTCDate())}`;
+const fullYear = (year: string) => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Accepts ISO dates, DD/MM/YYYY, "Q1 2025", "H2 2025", "FY2025", "Mar-25" and Excel date serials.
+// Calendar-year periods are assumed; fiscal-year offsets must be entered as explicit dates.
+export const parsePeriod = (value: string | number): string | undefined => {
+  if (typeof value === 'number') {
+    if (value > 20000 && value < 80000) {
+      return new Date(Date.UTC(1899, 11, 30) + value * 86400000).toISOString().slice(0, 10);
+    }
+    return undefined;
+  }
+  const text = value.trim();
+  let m: RegExpMatchArray | null;
+  if ((m = text.match(/^(\d{4})-(\d{2})-(\d{2})/))) return `${m[1]}-${m[2]}-${m[3]}`;
+  if ((m = text.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{2,4})$/))) return `${fullYear(m[3])}-${pad(Number(m[2]))}-${pad(Number(m[1]))}`;
+  if ((m = text.match(/^Q([1-4])\s*[-/ ]?\s*(?:FY)?(\d{2,4})$/i))) return monthEnd(fullYear(m[2]), Number(m[1]) * 3);
+  if ((m = text.match(/^(\d{4})\s*[-/ ]?\s*Q([1-4])$/i))) return monthEnd(Number(m[1]), Number(m[2]) * 3);
+  if ((m = text.match(/^H([12])\s*[-/ ]?\s*(?:FY)?(\d{2,4})$/i))) return monthEnd(fullYear(m[2]), Number(m[1]) * 6);
+  if ((m = text.match(/^FY\s*(\d{2,4})$/i))) return monthEnd(fullYear(m[1]), 12);
+  if ((m = text.match(/^([A-Za-z]{3})[a-z]*[\s\-/]+(\d{2,4})$/))) {
+    const month = MONTHS.indexOf(m[1].toLowerCase());
+    if (month >= 0) return monthEnd(fullYear(m[2]), month + 1);
+  }
+  return undefined;
+};
+
+// "(1,250.5)" is negative; currency symbols, thousands separators and "m"/"k" suffixes are ignored.
+export const parseFigure = (value: string | number | null | undefined): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (!value) return undefined;
+  const text = value.trim();
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  const digits = text.replace(/[^0-9.]/g, '');
+  if (!digits || Number.isNaN(Number(digits))) return undefined;
+  return negative ? -Number(digits) : Number(digits);
+};
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',' || ch === ';' || ch === '\t') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += ch;
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows.filter(r => r.some(c => String(c).trim()));
+};
+
+type Grid = (string | number | null)[][];
+
+// Sheets come either with one row per period (metrics across the top) or one column per period
+// (metrics down the side, as in most management accounts). The orientation with more
+// recognised metric labels wins. When two rows give the same metric for a period, the first is
+// kept and the clash is reported through onWarning.
+export const gridToPeriods = (grid: Grid, onWarning?: (message: string) => void): FinancialPeriod[] => {
+  if (grid.length < 2) return [];
+  const header = grid[0].map(c => String(c ?? ''));
+  const firstColumn = grid.map(r => String(r[0] ?? ''));
+  const metricsAcross = header.filter(h => matchMetric(h)).length;
+  const metricsDown = firstColumn.filter(h => matchMetric(h)).length;
+
+  const periods = new Map<string, FinancialPeriod>();
+  const sources = new Map<string, string>();
+  const record = (label: string | number | null, source: string, metric: FinancialMetric | undefined, value: string | number | null) => {
+    const periodEnd = label === null ? undefined : parsePeriod(label);
+    const figure = parseFigure(value);
+    if (!periodEnd || !metric || figure === undefined) return;
+    const period = periods.get(periodEnd) || { periodEnd, label: String(label), values: {} };
+    const key = `${periodEnd}:${metric}`;
+    if (sources.has(key)) {
+      if (period.values[metric] !== figure) {
+        onWarning?.(`"${source}" and "${sources.get(key)}" both read as ${METRIC_LABELS[metric]} for ${period.label}; kept "${sources.get(key)}" (${period.values[metric]}) and ignored ${figure}.`);
+      }
+      return;
+    }
+    sources.set(key, source);
+    period.values[metric] = figure;
+    periods.set(periodEnd, period);
+  };
+
+  if (metricsDown > metricsAcross) {
+    grid.slice(1).forEach(row => {
+      const metric = matchMetric(String(row[0] ?? ''));
+      row.slice(1).forEach((value, i) => record(grid[0][i + 1], String(row[0] ?? ''), metric, value));
+    });
+  } else {
+    const metrics = header.map(h => matchMetric(h));
+    grid.slice(1).forEach(row => row.slice(1).forEach((value, i) => record(row[0], header[i + 1], metrics[i + 1], value)));
+  }
+  return Array.from(periods.values()).sort((a, b) => a.periodEnd.localeCompare(b.periodEnd));
+};
+
+export const parseFinancialsFile = async (file: File, onWarning?: (message: string) => void): Promise<FinancialPeriod[]> => {
+  const name = file.name.toLowerCase();
+  let grid: Grid;
+  if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+    if (typeof XLSX === 'undefined') throw new Error("Spreadsheet support failed to load. Export the sheet as CSV and try again.");
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    grid = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: null });
+  } else {
+    grid = parseCsv(await file.text());
+  }
+
+  const periods = gridToPeriods(grid, onWarning);
+  if (periods.length === 0) {
+    throw new Error("No test periods found. Label periods as dates (2025-03-31), quarters (Q1 2025) or years (FY2025), and metrics as EBITDA, Net Debt, Interest, etc.");
+  }
+  return periods;
+};
@@ -0,0 +1,52 @@
+import { GoogleGenAI } from "@google/genai";
+import { GenerateRequest, GroundingSource, ModelProvider, ProviderConfig } from "./modelProvider";
+
+const DEFAULT_MODELS = {
+  reasoning: 'gemini-3-pro-preview',
+  fast: 'gemini-3-flash-preview'
+};
+
+export const createGeminiProvider = (config: ProviderConfig): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const modelFor = (request: GenerateRequest) =>
+    (request.tier === 'reasoning' ? config.reasoningModel : config.fastModel) || DEFAULT_MODELS[request.tier];
+
+  return {
+    id: 'gemini',
+
+    async generateJson(request) {
+      const response = await ai.models.generateContent({
+        model: modelFor(request),
+        contents: request.contents,
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          responseMimeType: "application/json",
+          responseSchema: request.responseSchema
+        },
+      });
+      return response.text || '{}';
+    },
+
+    async generateGrounded(request) {
+      const response = await ai.models.generateContent({
+        model: modelFor(request),
+        contents: request.contents,
+        config: {
+          systemInstruction: request.systemInstruction,
+          tools: [{ googleSearch: {} }],
+        },
+      });
+
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      const sources: GroundingSource[] = chunks
+        .filter((chunk: any) => chunk.web)
+        .map((chunk: any) => ({
+          title: chunk.web.title || "Source",
+          uri: chunk.web.uri,
+        }));
+
+      return { text: response.text || '', sources };
+    }
+  };
+};
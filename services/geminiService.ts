@@ -1,158 +1,590 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult } from "../types";
+import { Type } from "@google/genai";
+import { AnalysisResult, ChatMessage, FacilityTerms, FinancialCovenant, Obligation, Playbook, Redaction, SourcePage } from "../types";
+import { locatePage } from "./documentParser";
+import { GenerateRequest, getModelProvider } from "./modelProvider";
+import { DocumentChunk, SINGLE_PASS_CHAR_LIMIT, chunkDocument } from "./documentChunker";
+import { MergedPayload, mergeClauses, mergeCovenants, mergeFacilityTerms, mergeObligations, mergeOverviews, mergeSummarySections } from "./analysisMerge";
+import { discountForOcr } from "./ocrService";
+import { attachCitations, citeClause } from "./citationMatcher";
+import { applyCrossChecks, crossCheckOverview } from "./ruleExtractor";
+import { scoreDealReadiness } from "./readinessScoring";
+import { reviewFacilityTerms } from "./repaymentSchedule";
+import { formatChatHistory, groundAnswer, selectPassages } from "./documentChat";
+import { withFacilityDates } from "./obligationsCalendar";
+import { redactText, restoreValue } from "./redaction";
+import {
+  DEFAULT_PLAYBOOK,
+  buildPlaybookPrompt,
+  findPlaybookClause,
+  isBeyondFallback,
+  playbookReference,
+  toPlaybookPosition
+} from "./playbook";
+import {
+  RawCovenant,
+  RawFacilityTerms,
+  RawObligation,
+  ValidatedPayload,
+  ValidationIssue,
+  buildRepairPrompt,
+  formatIssues,
+  parseModelJson,
+  validateAnalysisPayload,
+  validateChatAnswer,
+  validateSynthesisPayload
+} from "./analysisValidator";
 
-const SYSTEM_PROMPT = `You are a professional loan documentation analysis and lifecycle intelligence assistant for banks and financial institutions.
+// The clause list and benchmarking rubric come from the selected institution playbook.
+const buildSystemPrompt = (playbook: Playbook) => `You are a professional loan documentation analysis and lifecycle intelligence assistant for banks and financial institutions.
 Analyze the provided commercial loan agreement following these specific steps:
 
 PHASE 1: Clause Audit
-1. Clause Extraction: Facility Amount, Interest Rate & Margin, Repayment, Prepayment, Financial Covenants, Events of Default, Governing Law, Amendment & Waiver.
+1. Clause Extraction: ${playbook.clauses.map(c => c.name).join(', ')}.
 2. Confidence Scoring: 0–100% based on clarity and standardisation.
-3. Market Benchmarking: Classify as Standard, Slightly Aggressive, or Aggressive/Non-Standard relative to LMA-style norms.
-4. Review Flags: Flag if confidence < 75% or Aggressive.
+3. Playbook Benchmarking: Compare each clause with the institution playbook below and set playbook_position to "Preferred", "Fallback", "Walk-Away" (acceptable only at the walk-away limit) or "Outside Playbook" (beyond walk-away). Use "Not Covered" for clauses the playbook does not address and judge those against LMA-style norms.
+   Set market_deviation to Standard for Preferred, Slightly Aggressive for Fallback, and Aggressive/Non-Standard for Walk-Away or Outside Playbook. In lma_benchmark_context, state the playbook position the clause was compared against.
+4. Review Flags: Flag if confidence < 75%, Aggressive, or at or beyond the walk-away position.
+5. Page References: The text may contain page markers such as "[Page 47]" on their own line. Report the page on which each clause begins as source_page.
+6. Financial Covenants: List every financial covenant in covenants with its ratio_type, numerator and denominator as defined in the agreement, direction ("max" for ceilings such as leverage, "min" for floors such as interest cover), the headline threshold as a number, unit ("x", "%" or "amount"), test_frequency, any test dates stated (YYYY-MM-DD) and every step-down or step-up as a period with its threshold. Omit covenants that are not financial ratios or amounts.
+7. Facility Terms: In facility_terms give the principal as a number, currency, drawdown and final maturity dates (YYYY-MM-DD), benchmark (SOFR, SONIA, EURIBOR, ESTR, Fixed or Other), margin in basis points, any fixed rate or benchmark floor in percent, day_count ("ACT/360", "ACT/365" or "30/360"), interest period length in months, the amortisation profile ("bullet", "straight-line", "scheduled" or "balloon"), every repayment instalment with its date and amount or percentage of the facility, and any balloon amount. Leave unstated terms out rather than guessing, and list in ambiguities anything unclear, such as a missing day-count basis, margin ratchets or a balloon that is referenced but not quantified.
+8. Obligations Register: In obligations list every dated obligation: financial statement and compliance certificate delivery deadlines, interest payment dates, repayment dates, commitment or availability expiry, final maturity and any other notice deadlines. For each give a short title, the category ("financial-statements", "compliance-certificate", "interest-payment", "repayment", "commitment-expiry", "maturity", "notice" or "other"), the responsible party as defined in the agreement, the timing rule as stated (e.g. "within 120 days after each financial year end"), due_date as the first calendar date it falls due (YYYY-MM-DD) where the agreement makes that determinable, frequency and until for recurring obligations, the clause it appears in, and the sentence that creates it copied verbatim as extracted_text. Leave due_date out for event-driven obligations rather than guessing.
 
 PHASE 2: Deal Readiness Intelligence
 1. Evaluate across: Completeness, Legal/Interpretation Risk, Market Alignment, and Operational Complexity.
-2. Calculate Deal Readiness Score (0-100):
+2. Give an indicative Deal Readiness Score (0-100). The final score is recomputed from the clause findings, so explain it through the drivers rather than the number:
    - 85–100: Execution Ready
    - 70–84: Ready with Review
    - < 70: Not Execution Ready
 3. Identify Positive/Negative Score Drivers and Key Issues.
 4. Recommend Next Actions for lifecycle management (execution, amendment, or trading).
 
-IMPORTANT: Decision-support only, not legal advice. Use conservative, risk-aware judgment. Banker-friendly language.`;
+IMPORTANT: Decision-support only, not legal advice. Use conservative, risk-aware judgment. Banker-friendly language.
 
-export const analyzeLoanDocument = async (text: string): Promise<AnalysisResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: text,
-      config: {
-        systemInstruction: SYSTEM_PROMPT,
-        temperature: 0.1,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            overview: {
-              type: Type.OBJECT,
-              properties: {
-                facilityType: { type: Type.STRING },
-                borrowerLender: { type: Type.STRING },
-                currency: { type: Type.STRING },
-                amount: { type: Type.STRING },
-                maturity: { type: Type.STRING },
-                law: { type: Type.STRING },
-              },
-              required: ["facilityType", "borrowerLender", "currency", "amount", "maturity", "law"]
-            },
-            clauses: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  clause_name: { type: Type.STRING },
-                  extracted_text: { type: Type.STRING },
-                  confidence_score: { type: Type.INTEGER },
-                  market_deviation: { type: Type.STRING },
-                  review_required: { type: Type.BOOLEAN },
-                  explanation: { type: Type.STRING },
-                  lma_benchmark_context: { type: Type.STRING },
-                  potential_impact: { type: Type.STRING }
-                },
-                required: ["clause_name", "extracted_text", "confidence_score", "market_deviation", "review_required", "explanation"]
-              }
-            },
-            dealReadiness: {
-              type: Type.OBJECT,
-              properties: {
-                score: { type: Type.INTEGER },
-                status: { type: Type.STRING },
-                driversPositive: { type: Type.ARRAY, items: { type: Type.STRING } },
-                driversNegative: { type: Type.ARRAY, items: { type: Type.STRING } },
-                keyIssues: { type: Type.ARRAY, items: { type: Type.STRING } },
-                recommendedActions: { type: Type.ARRAY, items: { type: Type.STRING } }
-              },
-              required: ["score", "status", "driversPositive", "driversNegative", "keyIssues", "recommendedActions"]
-            },
-            riskAssessment: {
-              type: Type.OBJECT,
-              properties: {
-                overallRating: { type: Type.STRING },
-                summary: { type: Type.STRING }
-              },
-              required: ["overallRating", "summary"]
-            },
-            commercialSummary: {
+${buildPlaybookPrompt(playbook)}`;
+
+const ANALYSIS_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    overview: {
+      type: Type.OBJECT,
+      properties: {
+        facilityType: { type: Type.STRING },
+        borrowerLender: { type: Type.STRING },
+        currency: { type: Type.STRING },
+        amount: { type: Type.STRING },
+        maturity: { type: Type.STRING },
+        law: { type: Type.STRING },
+      },
+      required: ["facilityType", "borrowerLender", "currency", "amount", "maturity", "law"]
+    },
+    clauses: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          clause_name: { type: Type.STRING },
+          extracted_text: { type: Type.STRING },
+          confidence_score: { type: Type.INTEGER },
+          market_deviation: { type: Type.STRING },
+          review_required: { type: Type.BOOLEAN },
+          explanation: { type: Type.STRING },
+          lma_benchmark_context: { type: Type.STRING },
+          potential_impact: { type: Type.STRING },
+          playbook_position: { type: Type.STRING },
+          source_page: { type: Type.INTEGER }
+        },
+        required: ["clause_name", "extracted_text", "confidence_score", "market_deviation", "review_required", "explanation"]
+      }
+    },
+    covenants: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          ratio_type: {
+            type: Type.STRING,
+            enum: ["leverage", "interestCover", "debtServiceCover", "cashflowCover", "loanToValue", "gearing", "netWorth", "liquidity", "capex", "other"]
+          },
+          numerator: { type: Type.STRING },
+          denominator: { type: Type.STRING },
+          direction: { type: Type.STRING, enum: ["max", "min"] },
+          threshold: { type: Type.NUMBER },
+          unit: { type: Type.STRING, enum: ["x", "%", "amount"] },
+          test_frequency: { type: Type.STRING, enum: ["monthly", "quarterly", "semi-annual", "annual"] },
+          test_dates: { type: Type.ARRAY, items: { type: Type.STRING } },
+          step_downs: {
+            type: Type.ARRAY,
+            items: {
               type: Type.OBJECT,
               properties: {
-                snapshot: { type: Type.STRING },
-                highlights: { type: Type.ARRAY, items: { type: Type.STRING } },
-                risks: { type: Type.ARRAY, items: { type: Type.STRING } },
-                nextActions: { type: Type.ARRAY, items: { type: Type.STRING } }
+                period_start: { type: Type.STRING },
+                period_end: { type: Type.STRING },
+                threshold: { type: Type.NUMBER }
               },
-              required: ["snapshot", "highlights", "risks", "nextActions"]
+              required: ["period_start", "threshold"]
             }
           },
-          required: ["overview", "clauses", "dealReadiness", "riskAssessment", "commercialSummary"]
-        }
+          extracted_text: { type: Type.STRING },
+          source_page: { type: Type.INTEGER }
+        },
+        required: ["name", "ratio_type", "numerator", "direction", "threshold", "unit", "test_dates", "step_downs"]
+      }
+    },
+    facility_terms: {
+      type: Type.OBJECT,
+      properties: {
+        principal: { type: Type.NUMBER },
+        currency: { type: Type.STRING },
+        drawdown_date: { type: Type.STRING },
+        maturity_date: { type: Type.STRING },
+        benchmark: { type: Type.STRING, enum: ["SOFR", "SONIA", "EURIBOR", "ESTR", "Fixed", "Other"] },
+        margin_bps: { type: Type.NUMBER },
+        fixed_rate_pct: { type: Type.NUMBER },
+        floor_pct: { type: Type.NUMBER },
+        day_count: { type: Type.STRING, enum: ["ACT/360", "ACT/365", "30/360"] },
+        interest_period_months: { type: Type.INTEGER },
+        amortisation: { type: Type.STRING, enum: ["bullet", "straight-line", "scheduled", "balloon"] },
+        instalments: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              date: { type: Type.STRING },
+              amount: { type: Type.NUMBER },
+              percentage: { type: Type.NUMBER }
+            },
+            required: ["date"]
+          }
+        },
+        balloon_amount: { type: Type.NUMBER },
+        ambiguities: { type: Type.ARRAY, items: { type: Type.STRING } },
+        extracted_text: { type: Type.STRING },
+        source_page: { type: Type.INTEGER }
       },
-    });
-
-    const data = JSON.parse(response.text || '{}');
-    
-    return {
-      overview: data.overview,
-      confidenceAnalysis: data.clauses.map((c: any) => ({
-        name: c.clause_name,
-        summary: c.extracted_text,
-        confidenceScore: c.confidence_score,
-        reviewRequired: c.review_required,
-        reason: c.explanation,
-        lmaComparison: {
-          standardBenchmark: c.lma_benchmark_context || "Market standard position.",
-          deviations: c.market_deviation,
-          impact: c.potential_impact || "Review required for specific commercial impact."
-        }
-      })),
-      riskAssessment: {
-        overallRating: (data.riskAssessment.overallRating || 'Medium') as any,
-        summary: data.riskAssessment.summary
+      required: ["benchmark", "amortisation", "instalments", "ambiguities"]
+    },
+    obligations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          category: {
+            type: Type.STRING,
+            enum: ["financial-statements", "compliance-certificate", "interest-payment", "repayment", "commitment-expiry", "maturity", "notice", "other"]
+          },
+          responsible_party: { type: Type.STRING },
+          due_rule: { type: Type.STRING },
+          due_date: { type: Type.STRING },
+          frequency: { type: Type.STRING, enum: ["monthly", "quarterly", "semi-annual", "annual"] },
+          until: { type: Type.STRING },
+          clause_name: { type: Type.STRING },
+          extracted_text: { type: Type.STRING },
+          source_page: { type: Type.INTEGER }
+        },
+        required: ["title", "category", "responsible_party", "due_rule"]
+      }
+    },
+    dealReadiness: {
+      type: Type.OBJECT,
+      properties: {
+        score: { type: Type.INTEGER },
+        status: { type: Type.STRING },
+        driversPositive: { type: Type.ARRAY, items: { type: Type.STRING } },
+        driversNegative: { type: Type.ARRAY, items: { type: Type.STRING } },
+        keyIssues: { type: Type.ARRAY, items: { type: Type.STRING } },
+        recommendedActions: { type: Type.ARRAY, items: { type: Type.STRING } }
       },
-      commercialSummary: data.commercialSummary,
-      dealReadiness: data.dealReadiness,
-      rawText: text
-    };
+      required: ["score", "status", "driversPositive", "driversNegative", "keyIssues", "recommendedActions"]
+    },
+    riskAssessment: {
+      type: Type.OBJECT,
+      properties: {
+        overallRating: { type: Type.STRING },
+        summary: { type: Type.STRING }
+      },
+      required: ["overallRating", "summary"]
+    },
+    commercialSummary: {
+      type: Type.OBJECT,
+      properties: {
+        snapshot: { type: Type.STRING },
+        highlights: { type: Type.ARRAY, items: { type: Type.STRING } },
+        risks: { type: Type.ARRAY, items: { type: Type.STRING } },
+        nextActions: { type: Type.ARRAY, items: { type: Type.STRING } }
+      },
+      required: ["snapshot", "highlights", "risks", "nextActions"]
+    }
+  },
+  required: ["overview", "clauses", "dealReadiness", "riskAssessment", "commercialSummary"]
+};
+
+// One targeted repair round is usually enough; more rounds rarely converge and double the cost.
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const SYNTHESIS_PROMPT = `You are consolidating a clause-by-clause audit of a long commercial loan agreement that was analysed in sections.
+You receive the document overview and the merged clause findings as JSON. Do not invent clauses.
+Produce the deal-level assessment exactly as in PHASE 2 of the original instructions: Deal Readiness Score (85–100 Execution Ready, 70–84 Ready with Review, < 70 Not Execution Ready), positive/negative drivers, key issues and recommended actions, plus the overall risk rating ("Low", "Medium" or "High") and the commercial summary.
+Decision-support only, not legal advice. Use conservative, risk-aware judgment.`;
+
+const SYNTHESIS_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    dealReadiness: ANALYSIS_RESPONSE_SCHEMA.properties.dealReadiness,
+    riskAssessment: ANALYSIS_RESPONSE_SCHEMA.properties.riskAssessment,
+    commercialSummary: ANALYSIS_RESPONSE_SCHEMA.properties.commercialSummary
+  },
+  required: ["dealReadiness", "riskAssessment", "commercialSummary"]
+};
+
+const CHAT_PROMPT = `You answer an analyst's questions about one commercial loan agreement, using only the agreement text provided.
+- If the text does not answer the question, set answered to false and say briefly what the agreement does not cover. Do not fall back on market practice, LMA norms or general knowledge.
+- Otherwise answer concisely in banker-friendly language and set clause_name to the clause the answer comes from.
+- Support every answer with citations: verbatim quotes of 10–60 words copied exactly from the text, each with the clause it comes from.
+Decision-support only, not legal advice.`;
+
+const CHAT_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    answered: { type: Type.BOOLEAN },
+    answer: { type: Type.STRING },
+    clause_name: { type: Type.STRING },
+    citations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          quote: { type: Type.STRING },
+          clause_name: { type: Type.STRING }
+        },
+        required: ["quote"]
+      }
+    }
+  },
+  required: ["answered", "answer", "citations"]
+};
+
+export interface AnalysisOptions {
+  onProgress?: (message: string) => void;
+  playbook?: Playbook;
+  // Confidential values are swapped for tokens in everything sent to the model and put back in the result.
+  redaction?: Redaction;
+}
+
+const outbound = (text: string, redaction?: Redaction) => (redaction ? redactText(text, redaction) : text);
+
+interface ValidatedRun<T> {
+  value: T;
+  issues: ValidationIssue[];
+  repairAttempts: number;
+}
+
+// Calls the model, validates the JSON and runs targeted repair rounds. Transport failures on the
+// first call are rethrown; a failed repair round keeps the best result so far.
+const runValidated = async <T>(
+  request: GenerateRequest,
+  sourceText: string,
+  validate: (data: unknown) => { value: T; issues: ValidationIssue[] },
+  empty: T
+): Promise<ValidatedRun<T>> => {
+  const provider = getModelProvider();
+  const evaluate = (raw: string) => {
+    const parsed = parseModelJson(raw);
+    if (parsed.issues.length > 0) return { value: empty, issues: parsed.issues };
+    return validate(parsed.data);
+  };
+
+  let responseText = await provider.generateJson(request);
+  let best = evaluate(responseText);
+  let repairAttempts = 0;
+  while (best.issues.length > 0 && repairAttempts < MAX_REPAIR_ATTEMPTS) {
+    repairAttempts++;
+    try {
+      responseText = await provider.generateJson({
+        ...request,
+        contents: buildRepairPrompt(responseText, best.issues, sourceText)
+      });
+    } catch (error) {
+      console.error("Model repair round failed:", error);
+      break;
+    }
+    const repaired = evaluate(responseText);
+    if (repaired.issues.length <= best.issues.length) best = repaired;
+  }
+  return { ...best, repairAttempts };
+};
+
+const analysisRequest = (contents: string, playbook: Playbook): GenerateRequest => ({
+  tier: 'reasoning',
+  contents,
+  systemInstruction: buildSystemPrompt(playbook),
+  temperature: 0.1,
+  responseSchema: ANALYSIS_RESPONSE_SCHEMA
+});
+
+const chunkPreamble = (chunk: DocumentChunk, total: number) =>
+  `[EXCERPT ${chunk.index + 1} OF ${total} of a longer agreement${chunk.headings.length ? `; sections: ${chunk.headings.slice(0, 12).join(' | ')}` : ''}]
+Extract only clauses that appear in this excerpt. Fill overview fields from this excerpt where stated, otherwise use "Not stated".
+
+`;
+
+const analyzeInChunks = async (text: string, playbook: Playbook, options: AnalysisOptions) => {
+  const chunks = chunkDocument(text);
+  const runs: ValidatedRun<ValidatedPayload>[] = [];
+  for (const chunk of chunks) {
+    options.onProgress?.(`Analysing section ${chunk.index + 1} of ${chunks.length}`);
+    const run = await runValidated(
+      analysisRequest(outbound(chunkPreamble(chunk, chunks.length) + chunk.text, options.redaction), playbook),
+      outbound(chunk.text, options.redaction),
+      validateAnalysisPayload,
+      { clauses: [] }
+    );
+    runs.push({ ...run, issues: run.issues.map(i => ({ ...i, path: `chunk[${chunk.index}].${i.path}` })) });
+  }
+
+  const overview = mergeOverviews(runs.map(r => r.value.overview));
+  const clauses = mergeClauses(runs.map((r, i) => ({
+    chunkIndex: chunks[i].index,
+    heading: chunks[i].headings[0],
+    clauses: r.value.clauses
+  })));
+
+  options.onProgress?.("Consolidating findings");
+  let summary: ValidatedRun<Omit<ValidatedPayload, 'overview' | 'clauses'>>;
+  const synthesisInput = JSON.stringify({ overview, clauses: clauses.map(({ provenance, ...c }) => c) });
+  try {
+    summary = await runValidated(
+      { tier: 'reasoning', contents: synthesisInput, systemInstruction: SYNTHESIS_PROMPT, temperature: 0.1, responseSchema: SYNTHESIS_RESPONSE_SCHEMA },
+      synthesisInput,
+      validateSynthesisPayload,
+      {}
+    );
   } catch (error) {
-    console.error("Gemini analysis error:", error);
-    throw new Error("Failed to analyze document. The institutional logic engine encountered an error.");
+    console.error("Synthesis call failed, merging section summaries:", error);
+    summary = { value: {}, issues: [{ path: '$', message: 'consolidation call failed; section summaries were merged locally' }], repairAttempts: 0 };
   }
+  const fallback = mergeSummarySections(runs.map(r => r.value));
+
+  // Chunk-level deal sections are superseded by the synthesis, and overview gaps by the merged overview.
+  const superseded = (path: string) =>
+    /\.(dealReadiness|riskAssessment|commercialSummary)\b/.test(path) || (!!overview && /\.overview\b/.test(path));
+  const issues = [
+    ...runs.flatMap(r => r.issues.filter(i => !superseded(i.path))),
+    ...summary.issues.map(i => ({ ...i, path: `synthesis.${i.path}` }))
+  ];
+
+  return {
+    chunks,
+    payload: {
+      overview,
+      clauses,
+      covenants: mergeCovenants(runs.map(r => r.value.covenants)),
+      facility_terms: mergeFacilityTerms(runs.map(r => r.value.facility_terms)),
+      obligations: mergeObligations(runs.map(r => r.value.obligations)),
+      dealReadiness: summary.value.dealReadiness || fallback.dealReadiness,
+      riskAssessment: summary.value.riskAssessment || fallback.riskAssessment,
+      commercialSummary: summary.value.commercialSummary || fallback.commercialSummary
+    } as MergedPayload,
+    issues,
+    repairAttempts: runs.reduce((sum, r) => sum + r.repairAttempts, summary.repairAttempts)
+  };
 };
 
-export const fetchMarketIntelligence = async (query?: string) => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-  const finalQuery = query || "latest news and trends in the syndicated loan market and LMA standards 2024-2025";
-  
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Provide a high-level professional summary for loan documentation analysts of: ${finalQuery}. Focus on regulatory changes, interest rate trends, and documentation standards.`,
-    config: {
-      tools: [{ googleSearch: {} }],
-    },
-  });
+const NOT_EXTRACTED = "Not extracted";
+
+const toCovenant = (text: string) => (c: RawCovenant): FinancialCovenant => ({
+  name: c.name,
+  ratioType: c.ratio_type,
+  numerator: c.numerator,
+  denominator: c.denominator,
+  direction: c.direction,
+  threshold: c.threshold,
+  unit: c.unit,
+  testFrequency: c.test_frequency,
+  testDates: [...c.test_dates].sort(),
+  steps: c.step_downs
+    .map(step => ({ periodStart: step.period_start, periodEnd: step.period_end, threshold: step.threshold }))
+    .sort((a, b) => a.periodStart.localeCompare(b.periodStart)),
+  sourceText: c.extracted_text,
+  pageReference: c.source_page || (c.extracted_text ? locatePage(text, c.extracted_text) : undefined)
+});
+
+const toFacilityTerms = (text: string, t: RawFacilityTerms): FacilityTerms => {
+  const terms: FacilityTerms = {
+    principal: t.principal,
+    currency: t.currency,
+    drawdownDate: t.drawdown_date,
+    maturityDate: t.maturity_date,
+    benchmark: t.benchmark,
+    marginBps: t.margin_bps,
+    fixedRatePct: t.fixed_rate_pct,
+    floorPct: t.floor_pct,
+    dayCount: t.day_count,
+    interestPeriodMonths: t.interest_period_months,
+    amortisation: t.amortisation,
+    instalments: t.instalments,
+    balloonAmount: t.balloon_amount,
+    reviewItems: [],
+    sourceText: t.extracted_text,
+    pageReference: t.source_page || (t.extracted_text ? locatePage(text, t.extracted_text) : undefined)
+  };
+  return { ...terms, reviewItems: [...t.ambiguities, ...reviewFacilityTerms(terms)] };
+};
+
+// The quote is located like a clause citation, so the register shows where each date comes from.
+const toObligation = (text: string) => (o: RawObligation): Obligation => {
+  const citation = o.extracted_text ? citeClause(text, o.extracted_text) : undefined;
+  return {
+    title: o.title,
+    category: o.category,
+    responsibleParty: o.responsible_party,
+    dueRule: o.due_rule,
+    dueDate: o.due_date,
+    recurrence: o.frequency && o.due_date ? { frequency: o.frequency, until: o.until } : undefined,
+    clauseName: o.clause_name,
+    sourceText: o.extracted_text,
+    citation,
+    pageReference: o.source_page || citation?.pageReference
+  };
+};
 
-  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-  const sources = chunks
-    .filter((chunk: any) => chunk.web)
-    .map((chunk: any) => ({
-      title: chunk.web.title || "Source",
-      uri: chunk.web.uri,
-    }));
+const toAnalysisResult = (
+  payload: MergedPayload,
+  issues: ValidationIssue[],
+  repairAttempts: number,
+  text: string,
+  pages: SourcePage[],
+  playbook: Playbook,
+  chunks?: DocumentChunk[]
+): AnalysisResult => {
+  const reference = playbookReference(playbook);
+  const overview = payload.overview || {
+    facilityType: NOT_EXTRACTED,
+    borrowerLender: NOT_EXTRACTED,
+    currency: NOT_EXTRACTED,
+    amount: NOT_EXTRACTED,
+    maturity: NOT_EXTRACTED,
+    law: NOT_EXTRACTED
+  };
+  const clauses = discountForOcr(attachCitations(payload.clauses.map(c => {
+    const entry = findPlaybookClause(playbook, c.clause_name);
+    const position = entry ? toPlaybookPosition(c.playbook_position) : 'Not Covered';
+    return {
+      name: c.clause_name,
+      summary: c.extracted_text,
+      confidenceScore: c.confidence_score,
+      // Walk-away positions need sign-off whatever the model decided.
+      reviewRequired: c.review_required || isBeyondFallback(position),
+      reason: c.explanation,
+      pageReference: c.source_page || locatePage(text, c.extracted_text),
+      provenance: c.provenance,
+      lmaComparison: {
+        standardBenchmark: entry ? entry.preferred : c.lma_benchmark_context || "Market standard position.",
+        deviations: c.market_deviation,
+        rationale: c.lma_benchmark_context,
+        impact: c.potential_impact || "Review required for specific commercial impact.",
+        playbookPosition: position,
+        playbook: reference
+      }
+    };
+  }), text), pages);
+  const covenants = (payload.covenants || []).map(toCovenant(text));
+  const facilityTerms = payload.facility_terms && toFacilityTerms(text, payload.facility_terms);
+  const obligations = withFacilityDates((payload.obligations || []).map(toObligation(text)), facilityTerms, text);
+  const crossChecks = crossCheckOverview(text, overview, clauses);
+  const confidenceAnalysis = applyCrossChecks(clauses, crossChecks);
 
   return {
-    summary: response.text,
-    sources
+    overview,
+    confidenceAnalysis,
+    // A rating that failed validation is treated as High until a reviewer says otherwise.
+    riskAssessment: payload.riskAssessment || {
+      overallRating: 'High',
+      summary: "Risk rating could not be validated from the model output. Treat as high risk pending manual review."
+    },
+    commercialSummary: payload.commercialSummary || {
+      snapshot: "Commercial summary could not be validated from the model output.",
+      highlights: [],
+      risks: [],
+      nextActions: []
+    },
+    dealReadiness: scoreDealReadiness(payload.dealReadiness || {
+      driversPositive: [],
+      driversNegative: [],
+      keyIssues: ["Deal readiness narrative failed validation"],
+      recommendedActions: ["Re-run the audit or complete the readiness narrative manually"]
+    }, confidenceAnalysis, overview, crossChecks, playbook),
+    validation: {
+      status: issues.length === 0 ? 'complete' : 'partial',
+      issues: formatIssues(issues),
+      repairAttempts
+    },
+    sourceChunks: chunks?.map(({ index, headings, startOffset, endOffset, firstPage }) => ({
+      index, headings, startOffset, endOffset, firstPage
+    })),
+    crossChecks,
+    covenants,
+    facilityTerms,
+    obligations,
+    playbook: reference,
+    rawText: text
   };
 };
+
+export const analyzeLoanDocument = async (
+  text: string,
+  pages: SourcePage[] = [],
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const playbook = options.playbook || DEFAULT_PLAYBOOK;
+  let outcome: { payload: MergedPayload; issues: ValidationIssue[]; repairAttempts: number; chunks?: DocumentChunk[] };
+  try {
+    if (text.length > SINGLE_PASS_CHAR_LIMIT) {
+      outcome = await analyzeInChunks(text, playbook, options);
+    } else {
+      const modelText = outbound(text, options.redaction);
+      const run = await runValidated(analysisRequest(modelText, playbook), modelText, validateAnalysisPayload, { clauses: [] });
+      outcome = { payload: run.value, issues: run.issues, repairAttempts: run.repairAttempts };
+    }
+  } catch (error) {
+    console.error("Model analysis error:", error);
+    // Backend size and rate limits carry a message the user can act on.
+    if ((error as any)?.status === 413 || (error as any)?.status === 429) throw error;
+    throw new Error("Failed to analyze document. The institutional logic engine encountered an error.");
+  }
+
+  const { issues, repairAttempts, chunks } = outcome;
+  // Tokens go back before citation matching, which searches the original text.
+  const payload = options.redaction ? restoreValue(outcome.payload, options.redaction) : outcome.payload;
+  if (!payload.overview && payload.clauses.length === 0) {
+    throw new Error(`The model response could not be validated after ${repairAttempts} repair attempt(s): ${formatIssues(issues).slice(0, 3).join('; ')}`);
+  }
+
+  const result = toAnalysisResult(payload, issues, repairAttempts, text, pages, playbook, chunks);
+  return options.redaction ? { ...result, redactedValues: options.redaction.entities.length } : result;
+};
+
+export const askAgreement = async (
+  question: string,
+  result: AnalysisResult,
+  history: ChatMessage[],
+  redaction?: Redaction
+): Promise<ChatMessage> => {
+  const source = result.rawText || '';
+  const contents = outbound(`AGREEMENT TEXT:
+${selectPassages(source, question)}
+
+${history.length > 0 ? `CONVERSATION SO FAR:\n${formatChatHistory(history)}\n\n` : ''}QUESTION: ${question}`, redaction);
+  const run = await runValidated(
+    { tier: 'reasoning', contents, systemInstruction: CHAT_PROMPT, temperature: 0, responseSchema: CHAT_RESPONSE_SCHEMA, purpose: 'chat' },
+    contents,
+    validateChatAnswer,
+    { answered: false, answer: '', citations: [] }
+  );
+  if (run.issues.length > 0) {
+    throw new Error(`The answer could not be validated: ${formatIssues(run.issues).slice(0, 2).join('; ')}`);
+  }
+  return groundAnswer(redaction ? restoreValue(run.value, redaction) : run.value, source, result.confidenceAnalysis);
+};
@@ -0,0 +1,9 @@
+// FNV-1a 32-bit. Not cryptographic; used for stable, deterministic identifiers and cache keys.
+export const fnv1a = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
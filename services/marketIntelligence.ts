@@ -0,0 +1,110 @@
+import { MarketBrief } from "../types";
+import { getModelProvider } from "./modelProvider";
+
+const CACHE_STORAGE_KEY = 'loandoc.intel.cache';
+const SAVED_STORAGE_KEY = 'loandoc.intel.saved';
+const WATCH_STORAGE_KEY = 'loandoc.intel.watch';
+
+// Search-grounded calls are slow and billed; a brief is reused for this long before refetching.
+export const MARKET_BRIEF_TTL_MS = 6 * 60 * 60 * 1000;
+const MAX_CACHED_QUERIES = 30;
+
+export const DEFAULT_MARKET_QUERY = "Syndicated loan market and LMA standards";
+export const DEFAULT_WATCH_QUERIES = ["SOFR fallback", "ESG margin ratchet", "Leveraged loan covenant trends", "LMA documentation updates"];
+
+// 'snapshot' is an expired brief served because the live call failed or the browser is offline.
+export type BriefOrigin = 'live' | 'cache' | 'snapshot';
+
+export interface BriefLookup {
+  brief: MarketBrief;
+  origin: BriefOrigin;
+}
+
+export const facilityQuery = (facilityType: string) => `${facilityType} facilities and LMA standards`;
+
+const normalizeQuery = (query: string) => query.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// A saved or pinned brief is identified by what was asked and when it was retrieved.
+export const briefKey = (brief: MarketBrief) => `${normalizeQuery(brief.query || '')}|${brief.fetchedAt}`;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Corrupt or unavailable storage behaves as empty.
+  }
+  return fallback;
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to persist ${key}`, err);
+  }
+};
+
+const readCache = () => readJson<Record<string, MarketBrief>>(CACHE_STORAGE_KEY, {});
+
+const writeCache = (brief: MarketBrief) => {
+  const cache = { ...readCache(), [normalizeQuery(brief.query || '')]: brief };
+  const newest = Object.entries(cache)
+    .sort(([, a], [, b]) => b.fetchedAt.localeCompare(a.fetchedAt))
+    .slice(0, MAX_CACHED_QUERIES);
+  writeJson(CACHE_STORAGE_KEY, Object.fromEntries(newest));
+};
+
+const fetchBrief = async (query: string): Promise<MarketBrief> => {
+  const response = await getModelProvider().generateGrounded({
+    tier: 'fast',
+    purpose: 'market-intel',
+    contents: `Provide a concise professional summary for loan documentation analysts of the latest news and trends on: ${query}. Focus on regulatory changes, interest rate trends, and documentation standards in the syndicated loan market.`
+  });
+  if (!response.text.trim()) throw new Error("The search returned no intelligence for this query.");
+  return { query: query.trim().replace(/\s+/g, ' '), summary: response.text, sources: response.sources, fetchedAt: new Date().toISOString() };
+};
+
+// The one entry point for market intelligence. A fresh cached brief is returned without a call;
+// `refresh` forces a live call. When the live call fails (or the browser is offline) the last
+// known brief for the query is returned however old it is.
+export const getMarketBrief = async (query = DEFAULT_MARKET_QUERY, options: { refresh?: boolean } = {}): Promise<BriefLookup> => {
+  const cached = readCache()[normalizeQuery(query)];
+  const age = cached ? Date.now() - new Date(cached.fetchedAt).getTime() : Infinity;
+  if (cached && !options.refresh && age < MARKET_BRIEF_TTL_MS) return { brief: cached, origin: 'cache' };
+  if (cached && typeof navigator !== 'undefined' && navigator.onLine === false) return { brief: cached, origin: 'snapshot' };
+
+  try {
+    const brief = await fetchBrief(query);
+    writeCache(brief);
+    return { brief, origin: 'live' };
+  } catch (err) {
+    if (cached) {
+      console.error("Market intelligence unavailable, serving last known brief:", err);
+      return { brief: cached, origin: 'snapshot' };
+    }
+    throw err;
+  }
+};
+
+export const listSavedBriefs = (): MarketBrief[] => readJson<MarketBrief[]>(SAVED_STORAGE_KEY, []);
+
+export const saveBrief = (brief: MarketBrief): MarketBrief[] => {
+  const saved = [brief, ...listSavedBriefs().filter(b => briefKey(b) !== briefKey(brief))];
+  writeJson(SAVED_STORAGE_KEY, saved);
+  return saved;
+};
+
+export const removeSavedBrief = (brief: MarketBrief): MarketBrief[] => {
+  const saved = listSavedBriefs().filter(b => briefKey(b) !== briefKey(brief));
+  writeJson(SAVED_STORAGE_KEY, saved);
+  return saved;
+};
+
+export const getWatchQueries = (): string[] => readJson<string[]>(WATCH_STORAGE_KEY, DEFAULT_WATCH_QUERIES);
+
+export const saveWatchQueries = (queries: string[]) => {
+  const unique = queries.filter((q, i) => q.trim() && queries.findIndex(o => normalizeQuery(o) === normalizeQuery(q)) === i);
+  writeJson(WATCH_STORAGE_KEY, unique);
+  return unique;
+};
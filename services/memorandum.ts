@@ -0,0 +1,397 @@
+import { AnalysisResult, AuditWorkspace, ClauseAnalysis, ClauseReview, DraftComparison, ListDelta } from "../types";
+import { formatPlaybookReference } from "./playbook";
+import { decisionLabel, signOffStatus } from "./reviewWorkflow";
+import { RATIO_LABELS, formatThreshold, todayIso } from "./covenantModel";
+import { effectiveDayCount } from "./repaymentSchedule";
+import { OBLIGATION_LABELS, buildTimeline, formatObligationSource, formatRecurrence } from "./obligationsCalendar";
+import { redlineToText } from "./draftComparison";
+
+// A layout-neutral memorandum. The PDF and Word renderers draw the same blocks, so both exports
+// carry identical content and neither depends on the on-screen report.
+export type MemoBlock =
+  | { type: 'paragraph'; text: string; emphasis?: boolean }
+  | { type: 'subheading'; text: string }
+  | { type: 'bullets'; items: string[] }
+  | { type: 'fields'; items: { label: string; value: string }[] }
+  | { type: 'table'; headers: string[]; rows: string[][]; widths: number[] }
+  | { type: 'notice'; text: string };
+
+export interface MemoSection {
+  title: string;
+  blocks: MemoBlock[];
+}
+
+export interface Memorandum {
+  title: string;
+  subtitle: string;
+  reportId: string;
+  date: string;
+  meta: { label: string; value: string }[];
+  sections: MemoSection[];
+}
+
+export const MEMO_TITLE = "Loan Documentation Audit";
+export const MEMO_SUBTITLE = "Institutional Lifecycle Intelligence Memorandum";
+
+// Keeps the schedule readable; the full register is in the calendar and CSV exports.
+const MAX_OBLIGATION_ROWS = 30;
+
+const DISCLAIMER = "Decision-support only, not legal advice. Findings are generated from the source document and should be verified against the executed agreement before reliance.";
+
+const bulletsOrNone = (items: string[], none: string): MemoBlock =>
+  items.length > 0 ? { type: 'bullets', items } : { type: 'paragraph', text: none };
+
+const citationText = (clause: ClauseAnalysis) => {
+  const parts = [
+    clause.citation?.clauseNumber && `Cl. ${clause.citation.clauseNumber}`,
+    (clause.citation?.pageReference || clause.pageReference) && `p. ${clause.citation?.pageReference || clause.pageReference}`,
+    clause.citation?.status === 'approximate' && `approximate match ${Math.round(clause.citation.matchScore * 100)}%`,
+    clause.citation?.status === 'unverified' && 'source text not located'
+  ].filter(Boolean);
+  return parts.join(' • ') || 'Not cited';
+};
+
+const reviewBlocks = (review?: ClauseReview): MemoBlock[] => {
+  if (!review?.decision && !review?.comments.length) return [];
+  const items = [{ label: 'Reviewer Decision', value: decisionLabel(review) }];
+  if (review?.override) {
+    items.push({ label: 'Override', value: [review.override.deviation, review.override.playbookPosition].filter(Boolean).join(' • ') });
+    items.push({ label: 'Justification', value: review.override.justification });
+  }
+  if (review?.decidedBy) items.push({ label: 'Decided By', value: `${review.decidedBy} • ${review.decidedAt?.slice(0, 10) || ''}` });
+  const blocks: MemoBlock[] = [{ type: 'fields', items }];
+  if (review?.comments.length) {
+    blocks.push({ type: 'bullets', items: review.comments.map(c => `${c.reviewer} (${c.at.slice(0, 10)}): ${c.text}`) });
+  }
+  return blocks;
+};
+
+export const buildMemorandum = (
+  result: AnalysisResult,
+  options: { reportId: string; workspace?: AuditWorkspace; date?: string }
+): Memorandum => {
+  const workspace = options.workspace || {};
+  const reviews = workspace.reviews || {};
+  const status = signOffStatus(result.confidenceAnalysis, reviews);
+  const signOff = status.ready ? workspace.signOff : undefined;
+  const sections: MemoSection[] = [];
+
+  const overview: MemoBlock[] = [{
+    type: 'fields',
+    items: [
+      { label: 'Facility Type', value: result.overview.facilityType },
+      { label: 'Counterparties', value: result.overview.borrowerLender },
+      { label: 'Currency', value: result.overview.currency },
+      { label: 'Committed Amount', value: result.overview.amount },
+      { label: 'Maturity Profile', value: result.overview.maturity },
+      { label: 'Jurisdiction', value: result.overview.law }
+    ]
+  }];
+  if (result.validation?.status === 'partial') {
+    overview.unshift({
+      type: 'notice',
+      text: `Partial result: the model output failed validation after ${result.validation.repairAttempts} repair attempt(s). Omitted or placeholder sections: ${result.validation.issues.slice(0, 8).join('; ')}${result.validation.issues.length > 8 ? `; + ${result.validation.issues.length - 8} further issues` : ''}. Do not rely on this memorandum without manual review.`
+    });
+  }
+  if (result.crossChecks && result.crossChecks.length > 0) {
+    overview.push({ type: 'subheading', text: 'Rule-Based Cross-Check' });
+    overview.push({
+      type: 'table',
+      headers: ['Term', 'Model', 'Rule Extractor', 'Status'],
+      rows: result.crossChecks.map(c => [c.field, c.modelValue, c.ruleValue || '—', c.status === 'unverifiable' ? 'Not verifiable' : c.status]),
+      widths: [2, 4, 4, 2]
+    });
+  }
+  sections.push({ title: 'Facility Overview', blocks: overview });
+
+  const readiness: MemoBlock[] = [
+    { type: 'paragraph', text: `Deal Readiness Score ${result.dealReadiness.score}/100 • ${result.dealReadiness.status}`, emphasis: true },
+    { type: 'paragraph', text: `Overall risk rating: ${result.riskAssessment.overallRating}. ${result.riskAssessment.summary}` }
+  ];
+  if (result.dealReadiness.dimensions?.length) {
+    readiness.push({
+      type: 'table',
+      headers: ['Dimension', 'Score', 'Weight', 'Evidence'],
+      rows: result.dealReadiness.dimensions.map(d => [d.label, `${d.score}/100`, String(d.weight), d.evidence.join('; ')]),
+      widths: [3, 1.5, 1.5, 8]
+    });
+  }
+  readiness.push(
+    { type: 'subheading', text: 'Positive Drivers' },
+    bulletsOrNone(result.dealReadiness.driversPositive, 'None identified.'),
+    { type: 'subheading', text: 'Negative Drivers' },
+    bulletsOrNone(result.dealReadiness.driversNegative, 'None identified.'),
+    { type: 'subheading', text: 'Priority Key Issues' },
+    bulletsOrNone(result.dealReadiness.keyIssues, 'None identified.')
+  );
+  sections.push({ title: '01. Lifecycle Intelligence & Deal Readiness', blocks: readiness });
+
+  sections.push({
+    title: '02. Audit Integrity Status',
+    blocks: [
+      {
+        type: 'table',
+        headers: ['Clause', 'Confidence', 'Human Review', 'Decision'],
+        rows: result.confidenceAnalysis.map(c => [
+          c.name,
+          `${c.confidenceScore}%`,
+          c.reviewRequired ? 'Required' : 'Clear',
+          reviews[c.name]?.decision ? decisionLabel(reviews[c.name]) : '—'
+        ]),
+        widths: [5, 2, 2, 3]
+      },
+      {
+        type: 'paragraph',
+        emphasis: true,
+        text: signOff
+          ? `Deal signed off by ${signOff.reviewer} on ${signOff.at.slice(0, 10)}.`
+          : status.ready
+            ? `Ready for sign-off: all ${status.flagged.length} flagged clauses are resolved.`
+            : `Sign-off outstanding. Unresolved flagged clauses: ${status.outstanding.join(', ')}.`
+      }
+    ]
+  });
+
+  sections.push({
+    title: '03. Detailed Clause Breakdown',
+    blocks: result.confidenceAnalysis.flatMap((clause): MemoBlock[] => [
+      { type: 'subheading', text: `${clause.name} • ${clause.confidenceScore}%${clause.reviewRequired ? ' • Review required' : ''}` },
+      {
+        type: 'fields',
+        items: [
+          { label: 'Provision Summary', value: clause.summary },
+          { label: 'Audit Logic', value: clause.reason },
+          { label: 'Market Standard', value: clause.lmaComparison?.standardBenchmark || '—' },
+          { label: 'Deviation', value: clause.lmaComparison?.deviations || '—' },
+          { label: 'Playbook Position', value: clause.lmaComparison?.playbookPosition || '—' },
+          { label: 'Counterparty Impact', value: clause.lmaComparison?.impact || '—' },
+          { label: 'Source', value: citationText(clause) }
+        ]
+      },
+      ...reviewBlocks(reviews[clause.name]),
+      ...(workspace.clauseNotes?.[clause.name]?.length
+        ? [{ type: 'bullets' as const, items: workspace.clauseNotes[clause.name].map(note => `Analyst note: ${note.text}`) }]
+        : [])
+    ])
+  });
+
+  if (result.covenants && result.covenants.length > 0) {
+    sections.push({
+      title: '04. Financial Covenants',
+      blocks: [{
+        type: 'table',
+        headers: ['Covenant', 'Test', 'Threshold', 'Frequency', 'Step Changes'],
+        rows: result.covenants.map(c => [
+          c.name,
+          `${RATIO_LABELS[c.ratioType]} (${c.direction === 'max' ? 'maximum' : 'minimum'})`,
+          formatThreshold(c.threshold, c.unit),
+          c.testFrequency || '—',
+          c.steps.map(s => `${s.periodStart}${s.periodEnd ? ` to ${s.periodEnd}` : ' onwards'}: ${formatThreshold(s.threshold, c.unit)}`).join('; ') || '—'
+        ]),
+        widths: [3, 3, 2, 2, 5]
+      }]
+    });
+  }
+
+  const terms = result.facilityTerms;
+  if (terms) {
+    const blocks: MemoBlock[] = [{
+      type: 'fields',
+      items: [
+        { label: 'Principal', value: terms.principal !== undefined ? `${terms.currency || ''} ${terms.principal.toLocaleString('en-GB')}`.trim() : 'Not stated' },
+        { label: 'Benchmark', value: terms.benchmark === 'Fixed' ? `Fixed ${terms.fixedRatePct ?? '—'}%` : terms.benchmark },
+        { label: 'Margin', value: terms.marginBps !== undefined ? `${terms.marginBps} bps` : 'Not stated' },
+        { label: 'Day Count', value: `${effectiveDayCount(terms)}${terms.dayCount ? '' : ' (assumed)'}` },
+        { label: 'Amortisation', value: terms.amortisation },
+        { label: 'Drawdown', value: terms.drawdownDate || 'Not stated' },
+        { label: 'Final Maturity', value: terms.maturityDate || 'Not stated' }
+      ]
+    }];
+    if (terms.instalments.length > 0) {
+      blocks.push({
+        type: 'table',
+        headers: ['Instalment Date', 'Amount', '% of Facility'],
+        rows: terms.instalments.map(i => [i.date, i.amount !== undefined ? i.amount.toLocaleString('en-GB') : '—', i.percentage !== undefined ? `${i.percentage}%` : '—']),
+        widths: [2, 2, 2]
+      });
+    }
+    if (terms.reviewItems.length > 0) {
+      blocks.push({ type: 'subheading', text: 'Review Items: Ambiguous Terms' }, { type: 'bullets', items: terms.reviewItems });
+    }
+    sections.push({ title: '05. Pricing & Repayment Terms', blocks });
+  }
+
+  if (result.obligations && result.obligations.length > 0) {
+    const today = options.date || todayIso();
+    const upcoming = buildTimeline(result.obligations, terms?.maturityDate).filter(e => e.date >= today);
+    const eventDriven = result.obligations.filter(o => !o.dueDate);
+    const blocks: MemoBlock[] = [{
+      type: 'table',
+      headers: ['Due Date', 'Obligation', 'Responsible', 'Recurrence', 'Source'],
+      rows: upcoming.slice(0, MAX_OBLIGATION_ROWS).map(({ date, obligation }) => [
+        date,
+        `${obligation.title} (${OBLIGATION_LABELS[obligation.category]})`,
+        obligation.responsibleParty,
+        formatRecurrence(obligation),
+        formatObligationSource(obligation) || '—'
+      ]),
+      widths: [2, 5, 2.5, 2.5, 3]
+    }];
+    if (upcoming.length > MAX_OBLIGATION_ROWS) {
+      blocks.push({ type: 'paragraph', text: `${upcoming.length - MAX_OBLIGATION_ROWS} later dates are omitted; export the obligations calendar for the full register.` });
+    }
+    if (eventDriven.length > 0) {
+      blocks.push(
+        { type: 'subheading', text: 'Event-Driven Obligations' },
+        { type: 'bullets', items: eventDriven.map(o => `${o.title} (${o.responsibleParty}): ${o.dueRule}`) }
+      );
+    }
+    sections.push({ title: '06. Obligations & Key Dates', blocks });
+  }
+
+  sections.push({
+    title: '07. Execution & Readiness Roadmap',
+    blocks: [
+      { type: 'subheading', text: 'Lifecycle Next Steps' },
+      bulletsOrNone(result.dealReadiness.recommendedActions, 'No actions recommended.'),
+      { type: 'subheading', text: 'Commercial Snapshot' },
+      { type: 'paragraph', text: result.commercialSummary.snapshot },
+      ...(result.commercialSummary.highlights.length > 0 ? [{ type: 'subheading' as const, text: 'Highlights' }, { type: 'bullets' as const, items: result.commercialSummary.highlights }] : []),
+      ...(result.commercialSummary.risks.length > 0 ? [{ type: 'subheading' as const, text: 'Risks' }, { type: 'bullets' as const, items: result.commercialSummary.risks }] : []),
+      { type: 'notice', text: DISCLAIMER }
+    ]
+  });
+
+  // Only pinned briefs are cited: each keeps the sources and retrieval time it was pinned with.
+  if (workspace.pinnedBriefs && workspace.pinnedBriefs.length > 0) {
+    sections.push({
+      title: '08. Market Intelligence',
+      blocks: workspace.pinnedBriefs.flatMap((brief): MemoBlock[] => [
+        { type: 'subheading', text: `${brief.query || 'Market brief'} • retrieved ${brief.fetchedAt.slice(0, 10)}` },
+        ...brief.summary.split('\n').filter(p => p.trim()).map((text): MemoBlock => ({ type: 'paragraph', text })),
+        ...(brief.sources.length > 0 ? [{ type: 'bullets' as const, items: brief.sources.map(s => `${s.title}: ${s.uri}`) }] : [])
+      ])
+    });
+  }
+
+  return {
+    title: MEMO_TITLE,
+    subtitle: MEMO_SUBTITLE,
+    reportId: options.reportId,
+    date: options.date || todayIso(),
+    meta: [
+      { label: 'Report', value: `#${options.reportId}` },
+      { label: 'Analysis Date', value: options.date || todayIso() },
+      ...(result.playbook ? [{ label: 'Playbook', value: formatPlaybookReference(result.playbook) }] : []),
+      {
+        label: 'Review Status',
+        value: signOff
+          ? `Signed off by ${signOff.reviewer} • ${signOff.at.slice(0, 10)}`
+          : `${status.flagged.length - status.outstanding.length}/${status.flagged.length} flagged clauses resolved`
+      }
+    ],
+    sections
+  };
+};
+
+const COMPARISON_STATUS_LABELS: Record<DraftComparison['clauses'][number]['status'], string> = {
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+  added: 'Added',
+  removed: 'Removed'
+};
+
+const REVIEW_CHANGE_LABELS: Record<DraftComparison['clauses'][number]['reviewChange'], string> = {
+  newly_flagged: 'Newly flagged',
+  cleared: 'Cleared',
+  unchanged: 'No change'
+};
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta}`;
+
+const deltaBlocks = (title: string, delta: ListDelta): MemoBlock[] => [
+  { type: 'subheading', text: title },
+  bulletsOrNone([...delta.added.map(d => `New: ${d}`), ...delta.removed.map(d => `Dropped: ${d}`)], 'No movement between drafts.')
+];
+
+// The negotiation turn memorandum: same blocks and renderers as the audit memorandum.
+export const buildComparisonMemorandum = (
+  comparison: DraftComparison,
+  options: { reportId: string; date?: string }
+): Memorandum => {
+  const { previous, current } = comparison;
+  const changed = comparison.clauses.filter(c => c.status !== 'unchanged');
+  const date = options.date || todayIso();
+
+  const sections: MemoSection[] = [
+    {
+      title: '01. Drafts Compared',
+      blocks: [
+        {
+          type: 'fields',
+          items: [
+            { label: 'Prior Draft', value: comparison.previousLabel },
+            { label: 'Current Draft', value: comparison.currentLabel },
+            { label: 'Deal Readiness', value: `${previous.dealReadiness.score} -> ${current.dealReadiness.score} (${formatDelta(comparison.readinessDelta)})` },
+            { label: 'Overall Risk', value: `${previous.riskAssessment.overallRating} -> ${current.riskAssessment.overallRating}` }
+          ]
+        }
+      ]
+    },
+    {
+      title: '02. Clause Movements',
+      blocks: [
+        {
+          type: 'table',
+          headers: ['Clause', 'Status', 'Confidence', 'Review'],
+          rows: comparison.clauses.map(c => [
+            c.name,
+            COMPARISON_STATUS_LABELS[c.status],
+            c.previous && c.current
+              ? `${c.previous.confidenceScore}% -> ${c.current.confidenceScore}% (${formatDelta(c.confidenceDelta)})`
+              : `${(c.current || c.previous)!.confidenceScore}%`,
+            REVIEW_CHANGE_LABELS[c.reviewChange]
+          ]),
+          widths: [4, 2, 3, 2]
+        },
+        ...(changed.length === 0
+          ? [{ type: 'paragraph' as const, text: 'No clause wording changed between drafts.' }]
+          : [
+              {
+                type: 'paragraph' as const,
+                text: changed.some(c => c.redlineSource === 'summary')
+                  ? 'Redlines compare the cited agreement wording. Clauses marked "Summary only" were not located in the source text and compare the model summaries instead.'
+                  : 'Redlines compare the cited agreement wording.'
+              },
+              ...changed.flatMap((c): MemoBlock[] => [
+                { type: 'subheading', text: `${c.name} • ${COMPARISON_STATUS_LABELS[c.status]}${c.redlineSource === 'summary' ? ' • Summary only' : ''}` },
+                { type: 'paragraph', text: redlineToText(c.redline) }
+              ])
+            ])
+      ]
+    },
+    {
+      title: '03. Readiness Drivers',
+      blocks: [
+        ...deltaBlocks('Positive Drivers', comparison.driversPositive),
+        ...deltaBlocks('Negative Drivers', comparison.driversNegative),
+        ...deltaBlocks('Key Issues', comparison.keyIssues),
+        { type: 'notice', text: DISCLAIMER }
+      ]
+    }
+  ];
+
+  return {
+    title: 'Draft Comparison',
+    subtitle: 'Negotiation Turn Memorandum',
+    reportId: options.reportId,
+    date,
+    meta: [
+      { label: 'Report', value: `#${options.reportId}` },
+      { label: 'Comparison Date', value: date },
+      ...(current.playbook ? [{ label: 'Playbook', value: formatPlaybookReference(current.playbook) }] : []),
+      { label: 'Redline Key', value: '{+inserted+} [-deleted-]' }
+    ],
+    sections
+  };
+};
@@ -0,0 +1,94 @@
+import { createBackendProvider } from "./backendProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiProvider";
+import { createRecordingProvider, createReplayProvider } from "./replayProvider";
+
+// 'reasoning' is used for document analysis, 'fast' for search-grounded intelligence and short tasks.
+export type ModelTier = 'reasoning' | 'fast';
+
+// Which backend endpoint serves a call. JSON calls default to 'analyze', grounded calls to 'market-intel'.
+export type ModelPurpose = 'analyze' | 'chat' | 'market-intel';
+
+export interface GenerateRequest {
+  tier: ModelTier;
+  contents: string;
+  systemInstruction?: string;
+  temperature?: number;
+  // Gemini-style schema (Type.OBJECT etc.); providers translate it to their own dialect.
+  responseSchema?: any;
+  purpose?: ModelPurpose;
+}
+
+export interface GroundingSource {
+  title: string;
+  uri: string;
+}
+
+export interface GroundedResponse {
+  text: string;
+  sources: GroundingSource[];
+}
+
+export interface ModelProvider {
+  id: string;
+  generateJson(request: GenerateRequest): Promise<string>;
+  generateGrounded(request: GenerateRequest): Promise<GroundedResponse>;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'replay' | 'backend';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  apiKey: string;
+  baseUrl: string;
+  reasoningModel: string;
+  fastModel: string;
+  replayFixture: string;
+  record: boolean;
+  backendUrl: string;
+}
+
+export const readProviderConfig = (): ProviderConfig => ({
+  provider: (process.env.MODEL_PROVIDER || 'gemini') as ProviderId,
+  apiKey: process.env.MODEL_API_KEY || process.env.API_KEY || process.env.GEMINI_API_KEY || '',
+  baseUrl: process.env.MODEL_BASE_URL || 'http://localhost:11434/v1',
+  reasoningModel: process.env.MODEL_REASONING || '',
+  fastModel: process.env.MODEL_FAST || '',
+  replayFixture: process.env.REPLAY_FIXTURE || '/fixtures/replay.json',
+  record: process.env.MODEL_RECORD === 'true',
+  backendUrl: process.env.MODEL_BACKEND_URL || '/api'
+});
+
+export const createProvider = (config: ProviderConfig): ModelProvider => {
+  let provider: ModelProvider;
+  switch (config.provider) {
+    case 'openai':
+      provider = createOpenAiCompatibleProvider(config);
+      break;
+    case 'replay':
+      return createReplayProvider(config.replayFixture);
+    case 'backend':
+      provider = createBackendProvider(config);
+      break;
+    case 'gemini':
+      provider = createGeminiProvider(config);
+      break;
+    default:
+      throw new Error(`Unknown model provider "${config.provider}".`);
+  }
+  return config.record ? createRecordingProvider(provider) : provider;
+};
+
+let activeProvider: ModelProvider | null = null;
+
+export const getModelProvider = (): ModelProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(readProviderConfig());
+  }
+  return activeProvider;
+};
+
+// Lets tests and embedding hosts swap the provider, e.g. for a replay fixture.
+export const setModelProvider = (provider: ModelProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,198 @@
+import { FacilityTerms, Obligation, ObligationCategory } from "../types";
+import { citeClause } from "./citationMatcher";
+import { MONTHS_PER_PERIOD, todayIso } from "./covenantModel";
+import { addMonths } from "./repaymentSchedule";
+import { toCsv } from "./exportUtils";
+import { fnv1a } from "./hash";
+
+export const OBLIGATION_LABELS: Record<ObligationCategory, string> = {
+  'financial-statements': 'Financial Statements',
+  'compliance-certificate': 'Compliance Certificate',
+  'interest-payment': 'Interest Payment',
+  'repayment': 'Repayment',
+  'commitment-expiry': 'Commitment Expiry',
+  'maturity': 'Final Maturity',
+  'notice': 'Notice',
+  'other': 'Other'
+};
+
+// Open-ended recurrences without a maturity to stop at are shown for this many years.
+const HORIZON_YEARS = 3;
+const MAX_OCCURRENCES = 240;
+
+export interface ObligationOccurrence {
+  date: string;
+  obligation: Obligation;
+}
+
+const lastDayOfMonth = (date: string) =>
+  new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)), 0)).toISOString().slice(0, 10);
+
+const isMonthEnd = (date: string) => date === lastDayOfMonth(date);
+
+// Month-end anchors (30 Jun) stay on the month end (31 Dec) rather than the anchor's day number.
+const nthOccurrence = (anchor: string, months: number) => {
+  const date = addMonths(anchor, months);
+  return isMonthEnd(anchor) ? lastDayOfMonth(date) : date;
+};
+
+const recurrenceEnd = (obligation: Obligation, maturity?: string) =>
+  obligation.recurrence?.until
+    || maturity
+    || `${Number((obligation.dueDate || todayIso()).slice(0, 4)) + HORIZON_YEARS}${(obligation.dueDate || todayIso()).slice(4)}`;
+
+export const occurrenceDates = (obligation: Obligation, maturity?: string): string[] => {
+  if (!obligation.dueDate) return [];
+  if (!obligation.recurrence) return [obligation.dueDate];
+  const step = MONTHS_PER_PERIOD[obligation.recurrence.frequency];
+  const end = recurrenceEnd(obligation, maturity);
+  const dates: string[] = [];
+  for (let i = 0; dates.length < MAX_OCCURRENCES; i++) {
+    const date = nthOccurrence(obligation.dueDate, i * step);
+    if (date > end) break;
+    dates.push(date);
+  }
+  return dates;
+};
+
+export const buildTimeline = (obligations: Obligation[], maturity?: string): ObligationOccurrence[] =>
+  obligations
+    .flatMap(obligation => occurrenceDates(obligation, maturity).map(date => ({ date, obligation })))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+// Final maturity is stated in the facility terms even when the model does not list it as an obligation.
+export const withFacilityDates = (obligations: Obligation[], terms: FacilityTerms | undefined, source: string): Obligation[] => {
+  if (!terms?.maturityDate || obligations.some(o => o.category === 'maturity')) return obligations;
+  return [...obligations, {
+    title: 'Final Maturity Date',
+    category: 'maturity',
+    responsibleParty: 'Borrower',
+    dueRule: 'All outstanding loans repaid in full on the final maturity date',
+    dueDate: terms.maturityDate,
+    sourceText: terms.sourceText,
+    citation: terms.sourceText ? citeClause(source, terms.sourceText) : undefined,
+    pageReference: terms.pageReference
+  }];
+};
+
+export const formatRecurrence = (obligation: Obligation) => {
+  if (!obligation.recurrence) return obligation.dueDate ? 'One-off' : 'Event-driven';
+  const { frequency, until } = obligation.recurrence;
+  return `${frequency.charAt(0).toUpperCase()}${frequency.slice(1)}${until ? ` until ${until}` : ''}`;
+};
+
+export const formatObligationSource = (obligation: Obligation) =>
+  [
+    obligation.clauseName,
+    obligation.citation?.clauseNumber && `Cl. ${obligation.citation.clauseNumber}`,
+    (obligation.citation?.pageReference || obligation.pageReference) && `p. ${obligation.citation?.pageReference || obligation.pageReference}`
+  ].filter(Boolean).join(' • ');
+
+export const obligationsToCsv = (obligations: Obligation[], maturity?: string) => {
+  const row = (date: string, o: Obligation) => [
+    date,
+    o.title,
+    OBLIGATION_LABELS[o.category],
+    o.responsibleParty,
+    formatRecurrence(o),
+    o.dueRule,
+    formatObligationSource(o),
+    o.citation?.status || 'none',
+    o.sourceText || ''
+  ];
+  return toCsv(
+    ['Due Date', 'Obligation', 'Category', 'Responsible Party', 'Recurrence', 'Due Rule', 'Source', 'Citation', 'Source Text'],
+    [
+      ...buildTimeline(obligations, maturity).map(({ date, obligation }) => row(date, obligation)),
+      ...obligations.filter(o => !o.dueDate).map(o => row('', o))
+    ]
+  );
+};
+
+const ICS_FREQUENCY: Record<string, { freq: string; interval: number }> = {
+  'monthly': { freq: 'MONTHLY', interval: 1 },
+  'quarterly': { freq: 'MONTHLY', interval: 3 },
+  'semi-annual': { freq: 'MONTHLY', interval: 6 },
+  'annual': { freq: 'YEARLY', interval: 1 }
+};
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+
+const escapeIcs = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space.
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// Month-end anchors use BYMONTHDAY=-1, whatever the day number: a plain rule from 31 Mar skips
+// months without a 31st, and one from 28 Feb stays on the 28th where occurrenceDates rolls to the
+// month end. Anchors on the 29th or 30th that are not month ends cannot be expressed that way and are listed.
+const recurrenceLines = (obligation: Obligation, maturity?: string): string[] => {
+  const { dueDate, recurrence } = obligation;
+  if (!dueDate || !recurrence) return [];
+  const day = Number(dueDate.slice(8));
+  const { freq, interval } = ICS_FREQUENCY[recurrence.frequency];
+  const until = `UNTIL=${icsDate(recurrenceEnd(obligation, maturity))}`;
+  if (isMonthEnd(dueDate)) return [`RRULE:FREQ=MONTHLY;INTERVAL=${freq === 'YEARLY' ? 12 : interval};BYMONTHDAY=-1;${until}`];
+  if (day > 28) {
+    const later = occurrenceDates(obligation, maturity).slice(1);
+    return later.length > 0 ? [`RDATE;VALUE=DATE:${later.map(icsDate).join(',')}`] : [];
+  }
+  return [`RRULE:FREQ=${freq};INTERVAL=${interval};${until}`];
+};
+
+const nextDay = (date: string) => new Date(Date.parse(`${date}T00:00:00Z`) + 86400000).toISOString().slice(0, 10);
+
+export const obligationsToIcs = (obligations: Obligation[], options: { calendarName: string; reportId: string; maturity?: string }) => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const events = obligations.filter(o => o.dueDate).flatMap(o => {
+    const source = formatObligationSource(o);
+    const description = [
+      o.dueRule,
+      `Responsible: ${o.responsibleParty}`,
+      source && `Source: ${source}`,
+      o.citation?.status === 'unverified' || !o.citation ? 'Source not verified against the agreement; check before relying on this date.' : '',
+      o.sourceText && `"${o.sourceText}"`
+    ].filter(Boolean).join('\n');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${fnv1a(`${options.reportId}|${o.category}|${o.title}|${o.dueDate}`)}-${options.reportId}@loandoc-pro`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(o.dueDate!)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDay(o.dueDate!))}`,
+      ...recurrenceLines(o, options.maturity),
+      `SUMMARY:${escapeIcs(`${o.title} (${o.responsibleParty})`)}`,
+      `DESCRIPTION:${escapeIcs(description)}`,
+      `CATEGORIES:${escapeIcs(OBLIGATION_LABELS[o.category])}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//LoanDoc Pro//Obligations Register//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcs(options.calendarName)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
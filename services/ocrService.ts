@@ -0,0 +1,78 @@
+import { ClauseAnalysis, SourcePage } from "../types";
+
+declare const Tesseract: any;
+
+// Pages with fewer printable characters than this in their text layer are treated as scanned images.
+export const MIN_TEXT_LAYER_CHARS = 40;
+
+// Below this OCR confidence a clause is always routed to human review.
+export const OCR_REVIEW_THRESHOLD = 80;
+
+let workerPromise: Promise<any> | null = null;
+
+const getWorker = () => {
+  if (typeof Tesseract === 'undefined') {
+    throw new Error("OCR engine unavailable. Please reload the workspace and try again.");
+  }
+  if (!workerPromise) {
+    // The worker resolves these itself, so they must be absolute. See OCR_ASSETS in vite.config.ts.
+    const asset = (path: string) => new URL(`/ocr/${path}`, window.location.href).href;
+    workerPromise = Tesseract.createWorker('eng', Tesseract.OEM.LSTM_ONLY, {
+      workerPath: asset('worker.min.js'),
+      corePath: asset('core'),
+      langPath: asset('lang')
+    }).catch((err: any) => {
+      // A failed start (offline, blocked asset) must not poison every later OCR attempt.
+      workerPromise = null;
+      throw err;
+    });
+  }
+  return workerPromise;
+};
+
+export const isImageOnlyPage = (text: string) =>
+  text.replace(/\s+/g, '').length < MIN_TEXT_LAYER_CHARS;
+
+export const recognizeImage = async (image: HTMLCanvasElement | Blob): Promise<{ text: string; confidence: number }> => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+  return {
+    text: (data.text || '').trim(),
+    confidence: Math.round(data.confidence || 0)
+  };
+};
+
+export const renderPdfPage = async (page: any, scale = 2): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+  return canvas;
+};
+
+// Scales a clause's confidence by the OCR quality of its source page: 100% OCR keeps the
+// score, 0% halves it. Clauses on pages below OCR_REVIEW_THRESHOLD are flagged for review.
+export const discountForOcr = (clauses: ClauseAnalysis[], pages: SourcePage[]): ClauseAnalysis[] => {
+  const confidenceByPage = new Map<number, number>();
+  pages.forEach(p => {
+    if (p.ocrConfidence !== undefined) confidenceByPage.set(p.pageNumber, p.ocrConfidence);
+  });
+  if (confidenceByPage.size === 0) return clauses;
+
+  return clauses.map(clause => {
+    const ocrConfidence = clause.pageReference ? confidenceByPage.get(clause.pageReference) : undefined;
+    if (ocrConfidence === undefined) return clause;
+    const factor = 0.5 + ocrConfidence / 200;
+    const needsReview = ocrConfidence < OCR_REVIEW_THRESHOLD;
+    return {
+      ...clause,
+      ocrConfidence,
+      confidenceScore: Math.round(clause.confidenceScore * factor),
+      reviewRequired: clause.reviewRequired || needsReview,
+      reason: needsReview
+        ? `${clause.reason} Source page ${clause.pageReference} was scanned (OCR confidence ${ocrConfidence}%); verify wording against the executed copy.`
+        : clause.reason
+    };
+  });
+};
@@ -0,0 +1,74 @@
+import { GenerateRequest, ModelProvider, ProviderConfig } from "./modelProvider";
+
+// Translates the Gemini-style schema (upper-case Type values) into standard JSON Schema.
+export const toJsonSchema = (schema: any): any => {
+  if (!schema || typeof schema !== 'object') return schema;
+  const out: any = {};
+  if (schema.type) out.type = String(schema.type).toLowerCase();
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.description) out.description = schema.description;
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.required) out.required = schema.required;
+  return out;
+};
+
+// Works against any endpoint exposing the OpenAI /chat/completions contract
+// (vLLM, Ollama, LM Studio, Azure OpenAI behind a gateway, internal model hosts).
+export const createOpenAiCompatibleProvider = (config: ProviderConfig): ModelProvider => {
+  const modelFor = (request: GenerateRequest) =>
+    (request.tier === 'reasoning' ? config.reasoningModel : config.fastModel) || config.reasoningModel || config.fastModel;
+
+  const complete = async (request: GenerateRequest, json: boolean): Promise<string> => {
+    const model = modelFor(request);
+    if (!model) {
+      throw new Error("No model configured for the OpenAI-compatible provider. Set MODEL_REASONING and MODEL_FAST.");
+    }
+
+    const messages = [
+      ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+      { role: 'user', content: request.contents }
+    ];
+
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: request.temperature,
+        ...(json ? {
+          response_format: request.responseSchema
+            ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) } }
+            : { type: 'json_object' }
+        } : {})
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Model endpoint returned ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  };
+
+  return {
+    id: 'openai',
+
+    async generateJson(request) {
+      return (await complete(request, true)) || '{}';
+    },
+
+    // Search grounding is not part of the OpenAI contract; answers come from the model alone.
+    async generateGrounded(request) {
+      return { text: await complete(request, false), sources: [] };
+    }
+  };
+};
@@ -0,0 +1,199 @@
+import { MemoBlock, Memorandum } from "./memorandum";
+
+declare const jspdf: any;
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BODY_TOP = 28;
+const BODY_BOTTOM = PAGE_HEIGHT - 22;
+const PT_TO_MM = 0.3528;
+const LINE_FACTOR = 1.4;
+// A heading is moved to the next page unless this much of its section fits under it.
+const KEEP_WITH_NEXT = 24;
+
+type Rgb = [number, number, number];
+const INK: Rgb = [15, 23, 42];
+const MUTED: Rgb = [100, 116, 139];
+const RULE: Rgb = [226, 232, 240];
+const NOTICE: Rgb = [146, 64, 14];
+
+const CP1252_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+const REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '≥': '>=', '≤': '<=', '≈': '~', '✓': 'Yes', '✗': 'No' };
+
+// The built-in PDF fonts only cover Windows-1252; anything else would print as garbage.
+export const pdfSafe = (text: string) =>
+  Array.from(text)
+    .map(char => REPLACEMENTS[char] ?? (char.charCodeAt(0) <= 0xff || CP1252_EXTRAS.has(char) ? char : '?'))
+    .join('');
+
+const lineHeight = (size: number) => size * PT_TO_MM * LINE_FACTOR;
+
+export const renderMemorandumPdf = (memo: Memorandum): Blob => {
+  const doc = new jspdf.jsPDF({ unit: 'mm', format: 'a4', compress: true });
+  doc.setProperties({ title: `${memo.title} #${memo.reportId}`, subject: memo.subtitle, creator: 'LoanDoc Pro' });
+  let y = BODY_TOP;
+
+  const font = (size: number, style: 'normal' | 'bold' = 'normal', color: Rgb = INK) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    y = BODY_TOP;
+  };
+
+  const ensure = (height: number) => {
+    if (y + height > BODY_BOTTOM) newPage();
+  };
+
+  const wrap = (text: string, width: number): string[] => doc.splitTextToSize(pdfSafe(text), width);
+
+  const writeLines = (lines: string[], x: number, size: number) => {
+    const step = lineHeight(size);
+    for (const line of lines) {
+      ensure(step);
+      doc.text(line, x, y + size * PT_TO_MM);
+      y += step;
+    }
+  };
+
+  const paragraph = (text: string, size = 10, style: 'normal' | 'bold' = 'normal', color: Rgb = INK, indent = 0) => {
+    font(size, style, color);
+    writeLines(wrap(text, CONTENT_WIDTH - indent), MARGIN + indent, size);
+    y += 2;
+  };
+
+  const fields = (items: { label: string; value: string }[]) => {
+    const labelWidth = 42;
+    for (const item of items) {
+      font(9.5);
+      const lines = wrap(item.value || '—', CONTENT_WIDTH - labelWidth);
+      ensure(lineHeight(9.5) * Math.min(lines.length, 3));
+      font(8, 'bold', MUTED);
+      doc.text(pdfSafe(item.label.toUpperCase()), MARGIN, y + 9.5 * PT_TO_MM);
+      font(9.5);
+      writeLines(lines, MARGIN + labelWidth, 9.5);
+      y += 1.2;
+    }
+    y += 2;
+  };
+
+  const table = (headers: string[], rows: string[][], weights: number[]) => {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const widths = weights.map(w => (w / total) * CONTENT_WIDTH);
+    const size = 8.5;
+    const step = lineHeight(size);
+    const padding = 1.6;
+
+    const drawRow = (cells: string[], header: boolean) => {
+      font(size, header ? 'bold' : 'normal', header ? MUTED : INK);
+      const wrapped = cells.map((cell, i) => wrap(header ? cell.toUpperCase() : cell || '—', widths[i] - padding * 2));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * step + padding * 2;
+      if (y + height > BODY_BOTTOM) {
+        newPage();
+        if (!header) drawRow(headers, true);
+        font(size, header ? 'bold' : 'normal', header ? MUTED : INK);
+      }
+      if (header) {
+        doc.setFillColor(248, 250, 252);
+        doc.rect(MARGIN, y, CONTENT_WIDTH, height, 'F');
+      }
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        lines.forEach((line: string, j: number) => doc.text(line, x + padding, y + padding + size * PT_TO_MM + j * step));
+        x += widths[i];
+      });
+      y += height;
+      doc.setDrawColor(...RULE);
+      doc.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+    };
+
+    ensure(step * 3);
+    drawRow(headers, true);
+    rows.forEach(row => drawRow(row, false));
+    y += 4;
+  };
+
+  const block = (b: MemoBlock) => {
+    switch (b.type) {
+      case 'paragraph':
+        return paragraph(b.text, 10, b.emphasis ? 'bold' : 'normal');
+      case 'subheading':
+        ensure(KEEP_WITH_NEXT / 2);
+        y += 2;
+        return paragraph(b.text, 10.5, 'bold');
+      case 'bullets':
+        b.items.forEach(item => {
+          font(9.5);
+          const lines = wrap(item, CONTENT_WIDTH - 6);
+          ensure(lineHeight(9.5));
+          doc.text('•', MARGIN + 1.5, y + 9.5 * PT_TO_MM);
+          writeLines(lines, MARGIN + 6, 9.5);
+          y += 0.8;
+        });
+        y += 2;
+        return;
+      case 'fields':
+        return fields(b.items);
+      case 'table':
+        return table(b.headers, b.rows, b.widths);
+      case 'notice':
+        return paragraph(b.text, 9, 'bold', NOTICE);
+    }
+  };
+
+  // Page 1 carries the title block and the contents, which are filled in once page numbers are known.
+  font(22, 'bold');
+  doc.text(pdfSafe(memo.title.toUpperCase()), MARGIN, 34);
+  font(10, 'bold', MUTED);
+  doc.text(pdfSafe(memo.subtitle.toUpperCase()), MARGIN, 42);
+  doc.setDrawColor(...INK);
+  doc.setLineWidth(1);
+  doc.line(MARGIN, 48, PAGE_WIDTH - MARGIN, 48);
+  doc.setLineWidth(0.2);
+  y = 56;
+  fields(memo.meta);
+  const contentsTop = y + 6;
+
+  const sectionPages: number[] = [];
+  memo.sections.forEach(section => {
+    newPage();
+    sectionPages.push(doc.getNumberOfPages());
+    font(13, 'bold');
+    doc.text(pdfSafe(section.title.toUpperCase()), MARGIN, y + 13 * PT_TO_MM);
+    y += lineHeight(13) + 1;
+    doc.setDrawColor(...RULE);
+    doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+    y += 5;
+    section.blocks.forEach(block);
+    if (doc.outline) doc.outline.add(null, pdfSafe(section.title), { pageNumber: sectionPages[sectionPages.length - 1] });
+  });
+
+  doc.setPage(1);
+  font(11, 'bold');
+  doc.text('CONTENTS', MARGIN, contentsTop);
+  memo.sections.forEach((section, i) => {
+    const rowY = contentsTop + 9 + i * 8;
+    font(10);
+    doc.text(pdfSafe(section.title), MARGIN, rowY);
+    doc.text(String(sectionPages[i]), PAGE_WIDTH - MARGIN, rowY, { align: 'right' });
+    doc.setDrawColor(...RULE);
+    doc.line(MARGIN, rowY + 2, PAGE_WIDTH - MARGIN, rowY + 2);
+    doc.link(MARGIN, rowY - 5, CONTENT_WIDTH, 7, { pageNumber: sectionPages[i] });
+  });
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    font(7.5, 'bold', MUTED);
+    if (page > 1) doc.text(pdfSafe(`${memo.subtitle.toUpperCase()} • #${memo.reportId}`), MARGIN, 14);
+    doc.text(pdfSafe(`Report #${memo.reportId} • ${memo.date}`), MARGIN, PAGE_HEIGHT - 12);
+    doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 12, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
@@ -0,0 +1,267 @@
+import {
+  Playbook,
+  PlaybookClause,
+  PlaybookPosition,
+  PlaybookReference,
+  ReadinessDimensionKey,
+  ReadinessWeights
+} from "../types";
+import { canonicalClauseKey } from "./analysisMerge";
+
+const PLAYBOOK_STORAGE_KEY = 'loandoc.playbooks';
+const SELECTED_PLAYBOOK_KEY = 'loandoc.playbooks.selected';
+
+export const PLAYBOOK_POSITIONS: PlaybookPosition[] = ['Preferred', 'Fallback', 'Walk-Away', 'Outside Playbook', 'Not Covered'];
+
+// The generic LMA-style rubric the analysis used before institutions could supply their own.
+// Built in and read-only; institutions duplicate it as the starting point for their credit policy.
+export const DEFAULT_PLAYBOOK: Playbook = {
+  id: 'lma-standard',
+  name: 'LMA Market Standard',
+  version: '1.0',
+  owner: 'Built-in',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  clauses: [
+    {
+      name: 'Facility Amount',
+      aliases: ['Commitments', 'The Facility'],
+      preferred: 'Committed amount stated per lender, with cancellation only at the borrower\'s option on notice.',
+      fallback: 'Uncommitted accordion or incremental capacity subject to lender consent.',
+      walkAway: 'Lender obligations to fund incremental tranches without individual consent.'
+    },
+    {
+      name: 'Interest Rate & Margin',
+      aliases: ['Interest', 'Margin', 'Interest Periods'],
+      preferred: 'Compounded risk-free rate or term benchmark plus a fixed margin, zero floor on the benchmark.',
+      fallback: 'Leverage-based margin ratchet with step-downs tested on delivered compliance certificates.',
+      walkAway: 'Margin reductions before the first test date or without a default stop.'
+    },
+    {
+      name: 'Repayment',
+      aliases: ['Repayment of Loans', 'Amortisation'],
+      preferred: 'Scheduled amortisation with a final repayment date no later than the agreed tenor.',
+      fallback: 'Bullet repayment for investment-grade or sponsor-backed borrowers.',
+      walkAway: 'Extension of the final repayment date at the borrower\'s option without lender consent.'
+    },
+    {
+      name: 'Prepayment',
+      aliases: ['Prepayment and Cancellation', 'Mandatory Prepayment', 'Voluntary Prepayment'],
+      preferred: 'Voluntary prepayment on notice with break costs; mandatory prepayment on change of control, illegality and disposal proceeds.',
+      fallback: 'Change of control prepayment at individual lender option only; de minimis thresholds on disposal sweeps.',
+      walkAway: 'No mandatory prepayment on change of control or sale of all or substantially all assets.'
+    },
+    {
+      name: 'Financial Covenants',
+      aliases: ['Financial Condition', 'Financial Undertakings'],
+      preferred: 'Leverage and interest cover tested quarterly on a rolling twelve-month basis with headroom of no more than 30% to the base case.',
+      fallback: 'Semi-annual testing, limited equity cure rights without EBITDA add-back.',
+      walkAway: 'Covenant-lite structure or unlimited equity cures that count towards EBITDA.'
+    },
+    {
+      name: 'Events of Default',
+      aliases: ['Default', 'Events of Default and Acceleration'],
+      preferred: 'LMA standard events with short grace periods and cross-default at a modest threshold.',
+      fallback: 'Extended grace periods for non-payment defaults; cross-acceleration instead of cross-default.',
+      walkAway: 'No cross-default, or material adverse change event removed entirely.'
+    },
+    {
+      name: 'Governing Law',
+      aliases: ['Jurisdiction', 'Law'],
+      preferred: 'English law with exclusive jurisdiction of the English courts for the borrower.',
+      fallback: 'New York law or another established finance law with asymmetric jurisdiction for lenders.',
+      walkAway: 'A law or forum in which lender remedies are untested or unenforceable.'
+    },
+    {
+      name: 'Amendment & Waiver',
+      aliases: ['Amendments and Waivers', 'Amendments'],
+      preferred: 'Majority Lender consent (66⅔%) with all-lender matters for pricing, tenor and commitments.',
+      fallback: 'Reduced all-lender list with snooze-and-lose and yank-the-bank provisions.',
+      walkAway: 'Borrower-favourable amendments to pricing or maturity by Majority Lenders only.'
+    }
+  ],
+  // Relative weights of the Deal Readiness dimensions; they need not sum to 100.
+  readinessWeights: {
+    completeness: 30,
+    legalRisk: 30,
+    marketAlignment: 25,
+    operationalComplexity: 15
+  }
+};
+
+export const playbookReference = (playbook: Playbook): PlaybookReference => ({
+  id: playbook.id,
+  name: playbook.name,
+  version: playbook.version
+});
+
+export const formatPlaybookReference = (reference: PlaybookReference) => `${reference.name} v${reference.version}`;
+
+export const matchesPlaybookClause = (entry: PlaybookClause, clauseName: string) => {
+  const key = canonicalClauseKey(clauseName);
+  return [entry.name, ...(entry.aliases || [])].some(name => canonicalClauseKey(name) === key);
+};
+
+export const findPlaybookClause = (playbook: Playbook, clauseName: string): PlaybookClause | undefined =>
+  playbook.clauses.find(entry => matchesPlaybookClause(entry, clauseName));
+
+// Case and punctuation are ignored ("walk away", "WALK-AWAY"); unrecognised positions are dropped.
+export const toPlaybookPosition = (value?: string): PlaybookPosition | undefined => {
+  const normalized = value?.toLowerCase().replace(/[^a-z]/g, '');
+  return PLAYBOOK_POSITIONS.find(p => p.toLowerCase().replace(/[^a-z]/g, '') === normalized);
+};
+
+export const isBeyondFallback = (position?: PlaybookPosition) =>
+  position === 'Walk-Away' || position === 'Outside Playbook';
+
+export const buildPlaybookPrompt = (playbook: Playbook) =>
+  `INSTITUTION PLAYBOOK: ${formatPlaybookReference(playbook)}
+${playbook.clauses.map(clause => `- ${clause.name}${clause.aliases?.length ? ` (also: ${clause.aliases.join(', ')})` : ''}
+  Preferred: ${clause.preferred}
+  Fallback: ${clause.fallback}
+  Walk-Away: ${clause.walkAway}${clause.guidance ? `
+  Guidance: ${clause.guidance}` : ''}`).join('\n')}`;
+
+const isObject = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Validates an imported playbook file and reports every problem at once, so a policy owner can
+// fix the file in one pass.
+export const parsePlaybook = (json: string): Playbook => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Playbook file is not valid JSON.");
+  }
+  if (!isObject(data)) throw new Error("Playbook file must contain a JSON object.");
+
+  const problems: string[] = [];
+  const text = (obj: Record<string, any>, key: string, path: string, optional = false) => {
+    const value = obj[key];
+    if (value === undefined && optional) return undefined;
+    if (typeof value !== 'string' || !value.trim()) {
+      problems.push(`${path}.${key} must be a non-empty string`);
+      return '';
+    }
+    return value.trim();
+  };
+
+  const name = text(data, 'name', 'playbook');
+  const version = text(data, 'version', 'playbook');
+  if (!Array.isArray(data.clauses) || data.clauses.length === 0) {
+    problems.push('playbook.clauses must be a non-empty array');
+  }
+  const clauses: PlaybookClause[] = (Array.isArray(data.clauses) ? data.clauses : []).map((raw: any, i: number) => {
+    const path = `clauses[${i}]`;
+    if (!isObject(raw)) {
+      problems.push(`${path} must be an object`);
+      return null;
+    }
+    if (raw.aliases !== undefined && (!Array.isArray(raw.aliases) || raw.aliases.some((a: any) => typeof a !== 'string'))) {
+      problems.push(`${path}.aliases must be an array of strings`);
+    }
+    return {
+      name: text(raw, 'name', path)!,
+      aliases: Array.isArray(raw.aliases) ? raw.aliases.filter((a: any) => typeof a === 'string' && a.trim()) : undefined,
+      preferred: text(raw, 'preferred', path)!,
+      fallback: text(raw, 'fallback', path)!,
+      walkAway: text(raw, 'walkAway', path)!,
+      guidance: text(raw, 'guidance', path, true)
+    };
+  });
+
+  let readinessWeights: ReadinessWeights | undefined;
+  if (data.readinessWeights !== undefined) {
+    const keys = Object.keys(DEFAULT_PLAYBOOK.readinessWeights!) as ReadinessDimensionKey[];
+    const raw = data.readinessWeights;
+    if (!isObject(raw) || keys.some(k => typeof raw[k] !== 'number' || !Number.isFinite(raw[k]) || raw[k] < 0)) {
+      problems.push(`playbook.readinessWeights must give a non-negative number for each of ${keys.join(', ')}`);
+    } else {
+      readinessWeights = Object.fromEntries(keys.map(k => [k, raw[k]])) as ReadinessWeights;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Playbook file is invalid: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? ` (+${problems.length - 5} more)` : ''}`);
+  }
+  return {
+    id: typeof data.id === 'string' && data.id.trim() ? data.id.trim() : newPlaybookId(),
+    name: name!,
+    version: version!,
+    owner: typeof data.owner === 'string' ? data.owner : undefined,
+    updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : new Date().toISOString(),
+    clauses,
+    readinessWeights
+  };
+};
+
+export const serializePlaybook = (playbook: Playbook) => JSON.stringify(playbook, null, 2);
+
+export const newPlaybookId = () => `pb-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const readStored = (): Playbook[] => {
+  try {
+    const stored = localStorage.getItem(PLAYBOOK_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Corrupt or unavailable storage falls back to the built-in playbook.
+  }
+  return [];
+};
+
+const writeStored = (playbooks: Playbook[]) => {
+  localStorage.setItem(PLAYBOOK_STORAGE_KEY, JSON.stringify(playbooks));
+};
+
+export const listPlaybooks = (): Playbook[] => [DEFAULT_PLAYBOOK, ...readStored()];
+
+// Clauses and weights are what audits are judged against; name, owner and dates are not.
+const rulesKey = (playbook: Playbook) => JSON.stringify({
+  clauses: playbook.clauses.map(c => [c.name, c.aliases || [], c.preferred, c.fallback, c.walkAway, c.guidance || '']),
+  weights: (Object.keys(DEFAULT_PLAYBOOK.readinessWeights!) as ReadinessDimensionKey[])
+    .map(k => (playbook.readinessWeights || DEFAULT_PLAYBOOK.readinessWeights!)[k])
+});
+
+export const playbookRulesDiffer = (a: Playbook, b: Playbook) => rulesKey(a) !== rulesKey(b);
+
+// '2.1' becomes '2.2' and '3' becomes '4'; a version with no number gains a '.1'.
+export const nextPlaybookVersion = (version: string) =>
+  /\d+(?!.*\d)/.test(version) ? version.replace(/(\d+)(?!.*\d)/, n => String(Number(n) + 1)) : `${version}.1`;
+
+export const getStoredPlaybook = (id: string): Playbook | undefined => readStored().find(p => p.id === id);
+
+// Reports cite the playbook version, so changed rules saved under an unchanged version get the next one.
+export const savePlaybook = (playbook: Playbook): Playbook => {
+  if (playbook.id === DEFAULT_PLAYBOOK.id) throw new Error("The built-in playbook is read-only. Duplicate it to make changes.");
+  const previous = getStoredPlaybook(playbook.id);
+  const version = previous && previous.version === playbook.version && playbookRulesDiffer(previous, playbook)
+    ? nextPlaybookVersion(playbook.version)
+    : playbook.version;
+  const saved = { ...playbook, version, updatedAt: new Date().toISOString() };
+  const others = readStored().filter(p => p.id !== playbook.id);
+  writeStored([...others, saved]);
+  return saved;
+};
+
+export const deletePlaybook = (id: string) => {
+  writeStored(readStored().filter(p => p.id !== id));
+  if (getSelectedPlaybook().id === id) selectPlaybook(DEFAULT_PLAYBOOK.id);
+};
+
+export const getSelectedPlaybook = (): Playbook => {
+  let id: string | null = null;
+  try {
+    id = localStorage.getItem(SELECTED_PLAYBOOK_KEY);
+  } catch {
+    // Storage unavailable; use the built-in playbook.
+  }
+  return listPlaybooks().find(p => p.id === id) || DEFAULT_PLAYBOOK;
+};
+
+export const selectPlaybook = (id: string) => {
+  try {
+    localStorage.setItem(SELECTED_PLAYBOOK_KEY, id);
+  } catch (err) {
+    console.error("Failed to persist playbook selection", err);
+  }
+};
@@ -0,0 +1,111 @@
+import { RiskAssessment, SavedAudit } from "../types";
+import { canonicalClauseKey } from "./analysisMerge";
+import { readinessStatus } from "./readinessScoring";
+
+export const RISK_RATINGS: RiskAssessment['overallRating'][] = ['Low', 'Medium', 'High'];
+const TOP_FLAGGED = 8;
+
+const SCALE: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, mn: 1e6, million: 1e6, bn: 1e9, b: 1e9, billion: 1e9 };
+
+// "USD 250,000,000", "£50m" and "EUR 1.2 billion" all read as numbers; anything else is unknown.
+export const parseFacilityAmount = (text: string): number | undefined => {
+  const match = text.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(thousand|million|billion|mm|mn|bn|k|m|b)?\b/i);
+  if (!match) return undefined;
+  const value = Number(match[1]) * (match[2] ? SCALE[match[2].toLowerCase()] : 1);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+const SYMBOL_CURRENCY: Record<string, string> = { '$': 'USD', '£': 'GBP', '€': 'EUR', '¥': 'JPY' };
+
+export const normaliseCurrency = (text?: string) => {
+  if (!text) return 'Unknown';
+  const code = text.toUpperCase().match(/\b[A-Z]{3}\b/);
+  if (code) return code[0];
+  const symbol = Object.keys(SYMBOL_CURRENCY).find(s => text.includes(s));
+  return symbol ? SYMBOL_CURRENCY[symbol] : 'Unknown';
+};
+
+export const maturityYear = (audit: SavedAudit): number | undefined => {
+  const stated = audit.result.facilityTerms?.maturityDate || audit.result.overview.maturity;
+  const year = stated.match(/\b(19|20)\d{2}\b/);
+  return year ? Number(year[0]) : undefined;
+};
+
+export interface PortfolioSummary {
+  count: number;
+  riskDistribution: Record<RiskAssessment['overallRating'], number>;
+  averageReadiness: number;
+  readinessBands: Record<string, number>;
+  deals: { id: string; title: string; score: number; rating: RiskAssessment['overallRating']; currency: string; amount?: number }[];
+  maturityLadder: { year: number | 'Unknown'; count: number; titles: string[] }[];
+  exposureByCurrency: { currency: string; amount: number; count: number; unquantified: number }[];
+  byLaw: { law: string; count: number; currencies: string[] }[];
+  topFlagged: { clause: string; count: number; share: number }[];
+}
+
+export const aggregatePortfolio = (audits: SavedAudit[]): PortfolioSummary => {
+  const riskDistribution = Object.fromEntries(RISK_RATINGS.map(r => [r, 0])) as PortfolioSummary['riskDistribution'];
+  const readinessBands: Record<string, number> = { 'Execution Ready': 0, 'Ready with Review': 0, 'Not Execution Ready': 0 };
+  const ladder = new Map<number | 'Unknown', string[]>();
+  const currencies = new Map<string, { amount: number; count: number; unquantified: number }>();
+  const laws = new Map<string, { count: number; currencies: Set<string> }>();
+  const flagged = new Map<string, { clause: string; count: number }>();
+
+  const deals = audits.map(audit => {
+    const { result } = audit;
+    const rating = result.riskAssessment.overallRating;
+    riskDistribution[rating] = (riskDistribution[rating] || 0) + 1;
+    readinessBands[readinessStatus(result.dealReadiness.score)]++;
+
+    const year = maturityYear(audit) ?? 'Unknown';
+    ladder.set(year, [...(ladder.get(year) || []), audit.title]);
+
+    const currency = normaliseCurrency(result.facilityTerms?.currency || result.overview.currency);
+    const amount = result.facilityTerms?.principal ?? parseFacilityAmount(result.overview.amount);
+    const bucket = currencies.get(currency) || { amount: 0, count: 0, unquantified: 0 };
+    currencies.set(currency, {
+      amount: bucket.amount + (amount || 0),
+      count: bucket.count + 1,
+      unquantified: bucket.unquantified + (amount === undefined ? 1 : 0)
+    });
+
+    const law = result.overview.law.trim() || 'Unknown';
+    const lawBucket = laws.get(law) || { count: 0, currencies: new Set<string>() };
+    lawBucket.count++;
+    lawBucket.currencies.add(currency);
+    laws.set(law, lawBucket);
+
+    // Counted once per deal, so a clause flagged in every facility scores the portfolio size.
+    const seen = new Set<string>();
+    result.confidenceAnalysis.filter(c => c.reviewRequired).forEach(c => {
+      const key = canonicalClauseKey(c.name);
+      if (seen.has(key)) return;
+      seen.add(key);
+      const entry = flagged.get(key) || { clause: c.name, count: 0 };
+      flagged.set(key, { ...entry, count: entry.count + 1 });
+    });
+
+    return { id: audit.id, title: audit.title, score: result.dealReadiness.score, rating, currency, amount };
+  });
+
+  return {
+    count: audits.length,
+    riskDistribution,
+    averageReadiness: deals.length > 0 ? Math.round(deals.reduce((sum, d) => sum + d.score, 0) / deals.length) : 0,
+    readinessBands,
+    deals: deals.sort((a, b) => a.score - b.score),
+    maturityLadder: Array.from(ladder.entries())
+      .map(([year, titles]) => ({ year, count: titles.length, titles }))
+      .sort((a, b) => (a.year === 'Unknown' ? 1 : b.year === 'Unknown' ? -1 : a.year - b.year)),
+    exposureByCurrency: Array.from(currencies.entries())
+      .map(([currency, v]) => ({ currency, ...v }))
+      .sort((a, b) => b.amount - a.amount),
+    byLaw: Array.from(laws.entries())
+      .map(([law, v]) => ({ law, count: v.count, currencies: Array.from(v.currencies) }))
+      .sort((a, b) => b.count - a.count),
+    topFlagged: Array.from(flagged.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_FLAGGED)
+      .map(f => ({ ...f, share: audits.length > 0 ? Math.round((f.count / audits.length) * 100) : 0 }))
+  };
+};
@@ -0,0 +1,139 @@
+import {
+  ClauseAnalysis,
+  CrossCheck,
+  DealReadiness,
+  DocumentOverview,
+  Playbook,
+  PlaybookPosition,
+  ReadinessDimension,
+  ReadinessDimensionKey,
+  ReadinessWeights
+} from "../types";
+import { DEVIATION_RANK } from "./analysisMerge";
+import { DEFAULT_PLAYBOOK, matchesPlaybookClause } from "./playbook";
+
+export const EXECUTION_READY_SCORE = 85;
+export const REVIEW_READY_SCORE = 70;
+
+export const READINESS_DIMENSIONS: { key: ReadinessDimensionKey; label: string }[] = [
+  { key: 'completeness', label: 'Completeness' },
+  { key: 'legalRisk', label: 'Legal / Interpretation Risk' },
+  { key: 'marketAlignment', label: 'Market Alignment' },
+  { key: 'operationalComplexity', label: 'Operational Complexity' }
+];
+
+// Points deducted per finding. Legal risk only takes a small hit for discrepancies because
+// applyCrossChecks has already lowered the affected clause's confidence.
+const MISSING_OVERVIEW_PENALTY = 5;
+const UNVERIFIED_QUOTE_PENALTY = 15;
+const DISCREPANCY_PENALTY = 5;
+const REVIEW_FLAG_PENALTY = 10;
+const OCR_CLAUSE_PENALTY = 5;
+
+const POSITION_POINTS: Record<Exclude<PlaybookPosition, 'Not Covered'>, number> = {
+  'Preferred': 100,
+  'Fallback': 70,
+  'Walk-Away': 35,
+  'Outside Playbook': 0
+};
+const DEVIATION_POINTS = [100, 60, 20];
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+export const readinessStatus = (score: number) =>
+  score >= EXECUTION_READY_SCORE ? 'Execution Ready' : score >= REVIEW_READY_SCORE ? 'Ready with Review' : 'Not Execution Ready';
+
+const isUnstated = (value: string) => !value.trim() || /^not (stated|extracted)$/i.test(value.trim());
+
+const assessCompleteness = (clauses: ClauseAnalysis[], overview: DocumentOverview, playbook: Playbook) => {
+  const missing = playbook.clauses.filter(entry => !clauses.some(c => matchesPlaybookClause(entry, c.name)));
+  const found = playbook.clauses.length - missing.length;
+  const unstated = (Object.keys(overview) as (keyof DocumentOverview)[]).filter(field => isUnstated(overview[field]));
+  const evidence = [`${found} of ${playbook.clauses.length} playbook clauses located`];
+  if (missing.length) evidence.push(`Missing: ${missing.map(m => m.name).join(', ')}`);
+  if (unstated.length) evidence.push(`Overview terms not stated: ${unstated.join(', ')} (−${MISSING_OVERVIEW_PENALTY} each)`);
+  const base = playbook.clauses.length ? (100 * found) / playbook.clauses.length : 100;
+  return { score: clamp(base - unstated.length * MISSING_OVERVIEW_PENALTY), evidence };
+};
+
+const assessLegalRisk = (clauses: ClauseAnalysis[], crossChecks: CrossCheck[]) => {
+  if (clauses.length === 0) return { score: 0, evidence: ["No clauses extracted"] };
+  const average = clauses.reduce((sum, c) => sum + c.confidenceScore, 0) / clauses.length;
+  const unverified = clauses.filter(c => c.citation?.status === 'unverified');
+  const discrepancies = crossChecks.filter(c => c.status === 'discrepancy');
+  const evidence = [`Average clause confidence ${Math.round(average)}%`];
+  if (unverified.length) evidence.push(`Quotes not located in source: ${unverified.map(c => c.name).join(', ')} (−${UNVERIFIED_QUOTE_PENALTY} each)`);
+  if (discrepancies.length) evidence.push(`Overview terms contradicted by rule-based extraction: ${discrepancies.map(d => d.field).join(', ')} (−${DISCREPANCY_PENALTY} each)`);
+  return {
+    score: clamp(average - unverified.length * UNVERIFIED_QUOTE_PENALTY - discrepancies.length * DISCREPANCY_PENALTY),
+    evidence
+  };
+};
+
+// Clauses judged against a playbook entry score by position; the rest by LMA-style deviation.
+const assessMarketAlignment = (clauses: ClauseAnalysis[]) => {
+  if (clauses.length === 0) return { score: 0, evidence: ["No clauses extracted"] };
+  const scored = clauses.map(c => {
+    const position = c.lmaComparison?.playbookPosition;
+    if (position && position !== 'Not Covered') return { clause: c, points: POSITION_POINTS[position], label: position };
+    const deviation = c.lmaComparison?.deviations || '';
+    return { clause: c, points: DEVIATION_POINTS[DEVIATION_RANK(deviation)], label: deviation || 'Unrated' };
+  });
+  const below = scored.filter(s => s.points < 100);
+  const evidence = [`${scored.length - below.length} of ${scored.length} clauses at preferred or market-standard position`];
+  below.forEach(s => evidence.push(`${s.clause.name}: ${s.label} (${s.points} pts)`));
+  return { score: clamp(scored.reduce((sum, s) => sum + s.points, 0) / scored.length), evidence };
+};
+
+const assessOperationalComplexity = (clauses: ClauseAnalysis[]) => {
+  const flagged = clauses.filter(c => c.reviewRequired);
+  const ocr = clauses.filter(c => c.ocrConfidence !== undefined);
+  const evidence = [`${flagged.length} clause(s) require manual review (−${REVIEW_FLAG_PENALTY} each)`];
+  if (ocr.length) evidence.push(`${ocr.length} clause(s) read from scanned pages (−${OCR_CLAUSE_PENALTY} each)`);
+  return { score: clamp(100 - flagged.length * REVIEW_FLAG_PENALTY - ocr.length * OCR_CLAUSE_PENALTY), evidence };
+};
+
+export const combineDimensions = (dimensions: ReadinessDimension[]) => {
+  const totalWeight = dimensions.reduce((sum, d) => sum + d.weight, 0);
+  if (totalWeight <= 0) return 0;
+  return clamp(dimensions.reduce((sum, d) => sum + d.score * d.weight, 0) / totalWeight);
+};
+
+// Points each dimension adds to the final score, for the breakdown chart.
+export const dimensionContribution = (dimension: ReadinessDimension, dimensions: ReadinessDimension[]) => {
+  const totalWeight = dimensions.reduce((sum, d) => sum + d.weight, 0);
+  return totalWeight > 0 ? (dimension.score * dimension.weight) / totalWeight : 0;
+};
+
+// Replaces the model's opaque score with a weighted score over four dimensions computed from
+// clause flags. The model's narrative (drivers, issues, actions) is kept; its number is retained
+// as modelScore for reference only.
+export const scoreDealReadiness = (
+  narrative: Omit<DealReadiness, 'score' | 'status'> & { score?: number },
+  clauses: ClauseAnalysis[],
+  overview: DocumentOverview,
+  crossChecks: CrossCheck[],
+  playbook: Playbook
+): DealReadiness => {
+  const weights: ReadinessWeights = playbook.readinessWeights || DEFAULT_PLAYBOOK.readinessWeights!;
+  const assessments: Record<ReadinessDimensionKey, { score: number; evidence: string[] }> = {
+    completeness: assessCompleteness(clauses, overview, playbook),
+    legalRisk: assessLegalRisk(clauses, crossChecks),
+    marketAlignment: assessMarketAlignment(clauses),
+    operationalComplexity: assessOperationalComplexity(clauses)
+  };
+  const dimensions = READINESS_DIMENSIONS.map(({ key, label }) => ({
+    key,
+    label,
+    weight: weights[key],
+    ...assessments[key]
+  }));
+  const score = combineDimensions(dimensions);
+  return {
+    ...narrative,
+    score,
+    status: readinessStatus(score),
+    dimensions,
+    modelScore: narrative.score
+  };
+};
@@ -0,0 +1,224 @@
+import { Redaction, RedactedEntity, RedactionKind, RedactionSettings } from "../types";
+
+const REDACTION_STORAGE_KEY = 'loandoc.redaction';
+
+export const REDACTION_KINDS: RedactionKind[] = ['party', 'person', 'account', 'address', 'contact', 'custom'];
+
+export const REDACTION_LABELS: Record<RedactionKind, string> = {
+  party: 'Parties',
+  person: 'Individuals',
+  account: 'Account & Registration Numbers',
+  address: 'Addresses',
+  contact: 'Emails & Phone Numbers',
+  custom: 'Custom Terms'
+};
+
+const TOKEN_PREFIX: Record<RedactionKind, string> = {
+  party: 'PARTY',
+  person: 'PERSON',
+  account: 'ACCOUNT',
+  address: 'ADDRESS',
+  contact: 'CONTACT',
+  custom: 'TERM'
+};
+
+const TOKEN_PATTERN = /\[(?:PARTY|PERSON|ACCOUNT|ADDRESS|CONTACT|TERM)_\d+\]/g;
+
+// Alternates plain text and tokens: odd indexes are tokens.
+export const splitOnTokens = (text: string) => text.split(/(\[(?:PARTY|PERSON|ACCOUNT|ADDRESS|CONTACT|TERM)_\d+\])/);
+
+// Redaction is on by default: nothing confidential leaves the browser unless the analyst opts out.
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  kinds: { party: true, person: true, account: true, address: true, contact: true, custom: true },
+  customTerms: [],
+  ignored: []
+};
+
+export const getRedactionSettings = (): RedactionSettings => {
+  try {
+    const stored = localStorage.getItem(REDACTION_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return { ...DEFAULT_REDACTION_SETTINGS, ...parsed, kinds: { ...DEFAULT_REDACTION_SETTINGS.kinds, ...parsed.kinds } };
+    }
+  } catch {
+    // Corrupt or unavailable storage falls back to redacting everything.
+  }
+  return DEFAULT_REDACTION_SETTINGS;
+};
+
+export const saveRedactionSettings = (settings: RedactionSettings) => {
+  try {
+    localStorage.setItem(REDACTION_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Failed to persist redaction settings", err);
+  }
+};
+
+const COMPANY_SUFFIX = String.raw`(?:Limited|LIMITED|Ltd\.?|LTD\.?|PLC|plc|LLP|LLC|L\.L\.C\.|Inc\.?|INC\.?|Incorporated|Corporation|CORPORATION|Corp\.?|GmbH|AG|S\.A\.|SA|N\.V\.|B\.V\.|S\.à\s?r\.l\.|S\.a\.r\.l\.|SARL|S\.p\.A\.|L\.P\.|LP|AB|ASA|Oyj)`;
+const PARTY_PATTERN = new RegExp(String.raw`\b[A-Z][\w&'’.-]*(?:[ \t]+(?:[A-Z0-9][\w&'’.-]*|&|of|OF)){0,6}?[ \t]+${COMPANY_SUFFIX}(?![\w])`, 'g');
+// Leading words a party pattern can pick up from the surrounding sentence.
+const PARTY_LEADING_NOISE = /^(?:(?:The|THE|This|Each|Any|All|Between|BETWEEN|Among|And|AND|By|BY|Whereas|WHEREAS|To|For|From|With|Of|In|On|Dated|Signed|SIGNED)[ \t]+)+/;
+
+const NAME = String.raw`[A-Z][a-z'’-]+(?:[ \t]+[A-Z][a-z'’-]+){0,3}`;
+const TITLED_PERSON_PATTERN = new RegExp(String.raw`\b(?:Mr|Mrs|Ms|Miss|Dr|Sir|Dame)\.?[ \t]+(${NAME})`, 'g');
+const TITLE = String.raw`(?:(?:Mr|Mrs|Ms|Miss|Dr)\.?[ \t]+)?`;
+const FULL_NAME = String.raw`[A-Z][a-z'’-]+(?:[ \t]+[A-Z][a-z'’-]+){1,3}`;
+const LABELLED_PERSON_PATTERN = new RegExp(String.raw`\b(?:(?:Name|Director|Signatory|Authorised signatory|Contact|Contact person|Attn)[ \t]*:|Signed by|Attention:?|For the attention of)[ \t]+${TITLE}(${FULL_NAME})`, 'g');
+// Capitalised defined terms that follow the same labels but name a role, not a person.
+const ROLE_WORDS = /\b(?:The|Borrower|Lender|Agent|Company|Guarantor|Obligor|Parent|Facility|Bank|Security|Trustee|Arranger|Party|Parties|Finance|Majority|Original)\b/;
+
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g;
+const LABELLED_ACCOUNT_PATTERN = /\b(?:account\s*(?:no|number|num)\.?|a\/c\s*(?:no\.?)?|sort\s*code|swift(?:\s*code)?|bic|aba(?:\s*routing)?(?:\s*no\.?)?|routing\s*(?:no|number)\.?|(?:company|registered|registration)\s*(?:no|number)\.?)\s*[:#.]?\s*([A-Za-z0-9][A-Za-z0-9 -]{3,34})/gi;
+const SWIFT_VALUE = /^[A-Z]{6}[A-Z0-9]{2}(?:[A-Z0-9]{3})?\b/;
+const NUMBER_VALUE = /^\d[\d -]*\d/;
+
+const LABELLED_ADDRESS_PATTERN = /\b(?:address|registered office|registered address|principal office)\s*:\s*([^\n]{6,160})/gi;
+const OFFICE_ADDRESS_PATTERN = /\b(?:registered office|principal place of business|principal office)\s+(?:is\s+)?at\s+([^\n]{6,160})/gi;
+const ADDRESS_END = /\s*(?:\(|;|,?\s+(?:and|with|acting|as|under|who|which)\s)/;
+const STREET_PATTERN = /\b\d{1,5}[A-Za-z]?\s+(?:[A-Z][a-z]+\s+){1,4}(?:Street|Road|Avenue|Lane|Place|Square|Boulevard|Drive|Court|Wall|Row|Hill|Way|Gardens|Terrace|Quay)\b/g;
+const UK_POSTCODE_PATTERN = /\b[A-Z]{1,2}\d[A-Z\d]? \d[A-Z]{2}\b/g;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const LABELLED_PHONE_PATTERN = /\b(?:tel(?:ephone)?|phone|fax|mobile)\.?\s*(?:no\.?)?\s*[:.]?\s*(\+?\d[\d ()-]{6,20}\d)/gi;
+const INTERNATIONAL_PHONE_PATTERN = /\+\d{1,3}[ ()\d-]{7,18}\d/g;
+
+const normalise = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// ISO 13616 check digits: rejects most account-like strings that are not real IBANs.
+const isValidIban = (value: string) => {
+  const compact = value.replace(/ /g, '');
+  if (compact.length < 15 || compact.length > 34) return false;
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+const matches = (text: string, pattern: RegExp, group = 0) =>
+  Array.from(text.matchAll(pattern), m => (m[group] || '').trim()).filter(Boolean);
+
+const detectCandidates = (text: string, settings: RedactionSettings): { value: string; kind: RedactionKind }[] => {
+  const found: { value: string; kind: RedactionKind }[] = [];
+  const add = (kind: RedactionKind, values: string[]) => {
+    if (settings.kinds[kind]) values.forEach(value => found.push({ value, kind }));
+  };
+
+  // Most specific first: a value found by two detectors keeps the first kind.
+  add('custom', settings.customTerms.map(t => t.trim()).filter(t => t.length >= 2 && normalise(text).includes(normalise(t))));
+  add('account', [
+    ...matches(text, IBAN_PATTERN).filter(isValidIban),
+    ...matches(text, LABELLED_ACCOUNT_PATTERN, 1)
+      .map(v => v.match(SWIFT_VALUE)?.[0] || v.match(NUMBER_VALUE)?.[0] || '')
+      .filter(v => (v.match(/\d/g) || []).length >= 4 || SWIFT_VALUE.test(v))
+  ]);
+  add('contact', [
+    ...matches(text, EMAIL_PATTERN),
+    ...matches(text, LABELLED_PHONE_PATTERN, 1),
+    ...matches(text, INTERNATIONAL_PHONE_PATTERN)
+  ]);
+  add('address', [
+    ...[...matches(text, LABELLED_ADDRESS_PATTERN, 1), ...matches(text, OFFICE_ADDRESS_PATTERN, 1)]
+      .map(v => v.split(ADDRESS_END)[0].replace(/[\s,.]+$/, ''))
+      .filter(v => v.length >= 6),
+    ...matches(text, STREET_PATTERN),
+    ...matches(text, UK_POSTCODE_PATTERN)
+  ]);
+  const parties = matches(text, PARTY_PATTERN)
+    .map(v => v.replace(PARTY_LEADING_NOISE, ''))
+    .filter(v => new RegExp(String.raw`\S[ \t]+${COMPANY_SUFFIX}$`).test(v));
+  add('party', parties);
+  const partyKeys = parties.map(normalise);
+  add('person', [...matches(text, TITLED_PERSON_PATTERN, 1), ...matches(text, LABELLED_PERSON_PATTERN, 1)]
+    .filter(v => !ROLE_WORDS.test(v) && !partyKeys.some(key => key.includes(normalise(v)))));
+  return found;
+};
+
+// Matches any of the values, longest first so a full name wins over a term inside it. Whitespace
+// is matched loosely because line breaks fall differently across a document.
+const valuePattern = (values: string[]) => {
+  const alternatives = [...values]
+    .sort((a, b) => b.length - a.length)
+    .map(value => {
+      const body = value.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+      return `${/^\w/.test(value) ? '(?<![\\w])' : ''}${body}${/\w$/.test(value) ? '(?![\\w])' : ''}`;
+    });
+  return new RegExp(alternatives.join('|'), 'gi');
+};
+
+export const buildRedaction = (text: string, settings: RedactionSettings): Redaction => {
+  if (!settings.enabled) return { entities: [] };
+  const ignored = new Set(settings.ignored.map(normalise));
+  const candidates = new Map<string, { value: string; kind: RedactionKind }>();
+  for (const candidate of detectCandidates(text, settings)) {
+    const key = normalise(candidate.value);
+    if (key.length < 2 || ignored.has(key) || candidates.has(key)) continue;
+    candidates.set(key, candidate);
+  }
+  if (candidates.size === 0) return { entities: [] };
+
+  const entities = new Map<string, RedactedEntity>();
+  const counters: Partial<Record<RedactionKind, number>> = {};
+  for (const match of text.matchAll(valuePattern(Array.from(candidates.values(), c => c.value)))) {
+    const key = normalise(match[0]);
+    const candidate = candidates.get(key);
+    if (!candidate) continue;
+    const existing = entities.get(key);
+    if (existing) {
+      existing.occurrences++;
+      continue;
+    }
+    counters[candidate.kind] = (counters[candidate.kind] || 0) + 1;
+    entities.set(key, {
+      token: `[${TOKEN_PREFIX[candidate.kind]}_${counters[candidate.kind]}]`,
+      value: match[0].replace(/\s+/g, ' '),
+      kind: candidate.kind,
+      occurrences: 1
+    });
+  }
+  return { entities: Array.from(entities.values()) };
+};
+
+// Uses the stored settings; undefined when redaction is switched off.
+export const redactionFor = (text: string): Redaction | undefined => {
+  const settings = getRedactionSettings();
+  return settings.enabled ? buildRedaction(text, settings) : undefined;
+};
+
+const patternCache = new WeakMap<Redaction, { pattern: RegExp; tokens: Map<string, string> }>();
+
+export const redactText = (text: string, redaction: Redaction): string => {
+  if (redaction.entities.length === 0) return text;
+  let compiled = patternCache.get(redaction);
+  if (!compiled) {
+    compiled = {
+      pattern: valuePattern(redaction.entities.map(e => e.value)),
+      tokens: new Map(redaction.entities.map(e => [normalise(e.value), e.token]))
+    };
+    patternCache.set(redaction, compiled);
+  }
+  const { pattern, tokens } = compiled;
+  return text.replace(pattern, match => tokens.get(normalise(match)) || match);
+};
+
+export const restoreText = (text: string, redaction: Redaction): string => {
+  if (redaction.entities.length === 0) return text;
+  const values = new Map(redaction.entities.map(e => [e.token, e.value]));
+  return text.replace(TOKEN_PATTERN, token => values.get(token) || token);
+};
+
+// Puts the real values back into every string of a model response.
+export const restoreValue = <T>(value: T, redaction: Redaction): T => {
+  if (typeof value === 'string') return restoreText(value, redaction) as T;
+  if (Array.isArray(value)) return value.map(v => restoreValue(v, redaction)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreValue(v, redaction)])) as T;
+  }
+  return value;
+};
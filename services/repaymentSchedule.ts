@@ -0,0 +1,185 @@
+import { DayCountBasis, FacilityTerms, RateBenchmark, RateCurvePoint, ScheduleRow } from "../types";
+import { toCsv } from "./exportUtils";
+import { todayIso } from "./covenantModel";
+
+// Starting points for the editable curve only. They are not live fixings and should be replaced
+// with the desk's forward curve before the schedule is relied on.
+export const INDICATIVE_BENCHMARK_RATES: Record<RateBenchmark, number> = {
+  SOFR: 4.3,
+  SONIA: 4.0,
+  EURIBOR: 2.0,
+  ESTR: 1.9,
+  Fixed: 0,
+  Other: 4.0
+};
+
+// Market conventions applied when the agreement does not state a basis.
+const CONVENTIONAL_DAY_COUNT: Record<RateBenchmark, DayCountBasis> = {
+  SOFR: 'ACT/360',
+  SONIA: 'ACT/365',
+  EURIBOR: 'ACT/360',
+  ESTR: 'ACT/360',
+  Fixed: 'ACT/365',
+  Other: 'ACT/360'
+};
+
+const DEFAULT_INTEREST_PERIOD_MONTHS = 3;
+const MAX_PERIODS = 400;
+// Instalment totals within this share of principal are treated as fully amortising.
+const AMORTISATION_TOLERANCE = 0.005;
+
+export const effectiveDayCount = (terms: FacilityTerms): DayCountBasis =>
+  terms.dayCount || CONVENTIONAL_DAY_COUNT[terms.benchmark];
+
+const parseIso = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return { y, m, d };
+};
+
+const daysBetween = (start: string, end: string) =>
+  Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86400000);
+
+// Rolls by whole months, clamping to the month end (31 Jan + 1 month = 28/29 Feb).
+export const addMonths = (date: string, months: number) => {
+  const { y, m, d } = parseIso(date);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().slice(0, 10);
+};
+
+export const yearFraction = (basis: DayCountBasis, start: string, end: string) => {
+  if (basis === '30/360') {
+    const a = parseIso(start);
+    const b = parseIso(end);
+    const d1 = Math.min(a.d, 30);
+    const d2 = b.d === 31 && d1 === 30 ? 30 : b.d;
+    return (360 * (b.y - a.y) + 30 * (b.m - a.m) + (d2 - d1)) / 360;
+  }
+  return daysBetween(start, end) / (basis === 'ACT/360' ? 360 : 365);
+};
+
+export const instalmentAmount = (terms: FacilityTerms, instalment: FacilityTerms['instalments'][number]) =>
+  instalment.amount ?? ((terms.principal || 0) * (instalment.percentage || 0)) / 100;
+
+const scheduledTotal = (terms: FacilityTerms) =>
+  terms.instalments.reduce((sum, i) => sum + instalmentAmount(terms, i), 0);
+
+// Gaps that change the cash flows. The model's own ambiguity notes are kept alongside these.
+export const reviewFacilityTerms = (terms: FacilityTerms): string[] => {
+  const items: string[] = [];
+  if (terms.principal === undefined) items.push("Facility amount not stated as a figure; the schedule cannot be built until it is entered.");
+  if (!terms.maturityDate) items.push("Final repayment date not identified; the schedule cannot be built until it is confirmed.");
+  if (!terms.dayCount) items.push(`Day-count basis not stated; ${CONVENTIONAL_DAY_COUNT[terms.benchmark]} assumed as the ${terms.benchmark} market convention.`);
+  if (!terms.interestPeriodMonths) items.push(`Interest period length not stated; ${DEFAULT_INTEREST_PERIOD_MONTHS}-month periods assumed.`);
+  if (terms.benchmark === 'Other') items.push("Benchmark rate not identified as SOFR, SONIA, EURIBOR or €STR; confirm the reference rate.");
+  if (terms.benchmark === 'Fixed' && terms.fixedRatePct === undefined) items.push("Fixed rate not stated; interest is computed on the margin alone.");
+  if (terms.benchmark !== 'Fixed' && terms.marginBps === undefined) items.push("Margin not stated; interest is computed on the benchmark alone.");
+  if (!terms.drawdownDate) items.push("Drawdown date not stated; the schedule assumes drawdown today.");
+
+  if (terms.principal !== undefined) {
+    const total = scheduledTotal(terms);
+    const shortfall = terms.principal - total;
+    if (terms.amortisation === 'scheduled' && shortfall > terms.principal * AMORTISATION_TOLERANCE) {
+      items.push(`Scheduled instalments total ${total.toLocaleString('en-GB')} of ${terms.principal.toLocaleString('en-GB')}; the remainder is assumed due at maturity. Confirm whether a balloon is intended.`);
+    }
+    if (terms.amortisation === 'balloon') {
+      if (terms.balloonAmount === undefined) {
+        items.push("Balloon repayment referenced but not quantified; the balance outstanding at maturity is used.");
+      } else if (Math.abs(shortfall - terms.balloonAmount) > terms.principal * AMORTISATION_TOLERANCE) {
+        items.push(`Stated balloon of ${terms.balloonAmount.toLocaleString('en-GB')} does not reconcile with the instalments (${shortfall.toLocaleString('en-GB')} remaining at maturity).`);
+      }
+    }
+    if (total > terms.principal * (1 + AMORTISATION_TOLERANCE)) {
+      items.push(`Scheduled instalments total ${total.toLocaleString('en-GB')}, more than the facility amount.`);
+    }
+  }
+  return items;
+};
+
+export const defaultRateCurve = (terms: FacilityTerms): RateCurvePoint[] => [
+  { date: terms.drawdownDate || todayIso(), ratePct: INDICATIVE_BENCHMARK_RATES[terms.benchmark] }
+];
+
+// The curve is a step function: each point applies from its date until the next one.
+export const rateOn = (curve: RateCurvePoint[], date: string) => {
+  const sorted = [...curve].sort((a, b) => a.date.localeCompare(b.date));
+  let rate = sorted[0]?.ratePct ?? 0;
+  for (const point of sorted) {
+    if (point.date <= date) rate = point.ratePct;
+  }
+  return rate;
+};
+
+// Interest is fixed at the start of each period from the curve (term-rate style); compounded
+// RFR lookbacks are not modelled. Principal falls due on the period end on or after each
+// instalment date, and whatever remains is repaid at maturity.
+export const buildSchedule = (terms: FacilityTerms, curve: RateCurvePoint[], today = todayIso()): ScheduleRow[] => {
+  if (terms.principal === undefined || !terms.maturityDate) return [];
+  const start = terms.drawdownDate || today;
+  if (start >= terms.maturityDate) return [];
+
+  const months = terms.interestPeriodMonths || DEFAULT_INTEREST_PERIOD_MONTHS;
+  const ends: string[] = [];
+  for (let i = 1; ends.length < MAX_PERIODS; i++) {
+    const end = addMonths(start, months * i);
+    if (end >= terms.maturityDate) break;
+    ends.push(end);
+  }
+  ends.push(terms.maturityDate);
+
+  const basis = effectiveDayCount(terms);
+  const rows: ScheduleRow[] = [];
+  let balance = terms.principal;
+  let periodStart = start;
+  ends.forEach((periodEnd, i) => {
+    const isLast = i === ends.length - 1;
+    let principal = 0;
+    if (isLast) {
+      principal = balance;
+    } else if (terms.amortisation === 'straight-line') {
+      principal = terms.principal! / ends.length;
+    } else if (terms.amortisation !== 'bullet') {
+      principal = terms.instalments
+        .filter(inst => (i === 0 || inst.date > periodStart) && inst.date <= periodEnd)
+        .reduce((sum, inst) => sum + instalmentAmount(terms, inst), 0);
+    }
+    principal = Math.min(principal, balance);
+
+    const benchmarkPct = terms.benchmark === 'Fixed' ? 0 : Math.max(rateOn(curve, periodStart), terms.floorPct ?? -Infinity);
+    const allInRatePct = (terms.benchmark === 'Fixed' ? terms.fixedRatePct || 0 : benchmarkPct) + (terms.marginBps || 0) / 100;
+    const interest = balance * (allInRatePct / 100) * yearFraction(basis, periodStart, periodEnd);
+    rows.push({
+      periodStart,
+      periodEnd,
+      days: daysBetween(periodStart, periodEnd),
+      openingBalance: balance,
+      benchmarkPct,
+      allInRatePct,
+      interest,
+      principal,
+      payment: interest + principal,
+      closingBalance: balance - principal
+    });
+    balance -= principal;
+    periodStart = periodEnd;
+  });
+  return rows;
+};
+
+export const scheduleToCsv = (rows: ScheduleRow[]) =>
+  toCsv(
+    ['Period Start', 'Period End', 'Days', 'Opening Balance', 'Benchmark %', 'All-in Rate %', 'Interest', 'Principal', 'Total Payment', 'Closing Balance'],
+    rows.map(r => [
+      r.periodStart,
+      r.periodEnd,
+      r.days,
+      r.openingBalance.toFixed(2),
+      r.benchmarkPct.toFixed(4),
+      r.allInRatePct.toFixed(4),
+      r.interest.toFixed(2),
+      r.principal.toFixed(2),
+      r.payment.toFixed(2),
+      r.closingBalance.toFixed(2)
+    ])
+  );
@@ -0,0 +1,94 @@
+import { fnv1a } from "./hash";
+import { GenerateRequest, GroundedResponse, ModelProvider } from "./modelProvider";
+
+export interface RecordedResponse {
+  kind: 'json' | 'grounded';
+  text: string;
+  sources?: GroundedResponse['sources'];
+}
+
+export interface ReplayFixture {
+  version: 1;
+  responses: Record<string, RecordedResponse>;
+}
+
+const RECORDING_STORAGE_KEY = 'loandoc.replay.recordings';
+
+// Temperature is deliberately excluded so a recording is reused when only sampling settings change.
+export const replayKey = (kind: RecordedResponse['kind'], request: GenerateRequest) =>
+  `${kind}:${request.tier}:${fnv1a(`${request.systemInstruction || ''}\u0000${request.contents}`)}`;
+
+export const createReplayProvider = (source: string | ReplayFixture): ModelProvider => {
+  let fixturePromise: Promise<ReplayFixture> | null = null;
+  const loadFixture = () => {
+    if (!fixturePromise) {
+      fixturePromise = typeof source === 'string'
+        ? fetch(source).then(res => {
+            if (!res.ok) throw new Error(`Replay fixture ${source} could not be loaded (${res.status}).`);
+            return res.json();
+          })
+        : Promise.resolve(source);
+    }
+    return fixturePromise;
+  };
+
+  const lookup = async (kind: RecordedResponse['kind'], request: GenerateRequest) => {
+    const fixture = await loadFixture();
+    const key = replayKey(kind, request);
+    const recorded = fixture.responses[key];
+    if (!recorded) {
+      throw new Error(`No recorded response for ${key}. Re-record the fixture with MODEL_RECORD=true.`);
+    }
+    return recorded;
+  };
+
+  return {
+    id: 'replay',
+
+    async generateJson(request) {
+      return (await lookup('json', request)).text;
+    },
+
+    async generateGrounded(request) {
+      const recorded = await lookup('grounded', request);
+      return { text: recorded.text, sources: recorded.sources || [] };
+    }
+  };
+};
+
+export const readRecordings = (): ReplayFixture => {
+  try {
+    const stored = localStorage.getItem(RECORDING_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Corrupt or unavailable storage starts a fresh recording.
+  }
+  return { version: 1, responses: {} };
+};
+
+const storeRecording = (key: string, response: RecordedResponse) => {
+  const fixture = readRecordings();
+  fixture.responses[key] = response;
+  try {
+    localStorage.setItem(RECORDING_STORAGE_KEY, JSON.stringify(fixture));
+  } catch (err) {
+    console.error("Failed to persist replay recording", err);
+  }
+};
+
+// Wraps a live provider and captures every response so it can be exported as a replay fixture.
+export const createRecordingProvider = (inner: ModelProvider): ModelProvider => ({
+  id: `${inner.id}+record`,
+
+  async generateJson(request) {
+    const text = await inner.generateJson(request);
+    storeRecording(replayKey('json', request), { kind: 'json', text });
+    return text;
+  },
+
+  async generateGrounded(request) {
+    const response = await inner.generateGrounded(request);
+    storeRecording(replayKey('grounded', request), { kind: 'grounded', ...response });
+    return response;
+  }
+});
@@ -0,0 +1,100 @@
+import { AuditWorkspace, ClauseAnalysis, ClauseReview, ReviewAction, ReviewOverride } from "../types";
+
+const REVIEWER_STORAGE_KEY = 'loandoc.reviewer';
+
+export const DEVIATION_OPTIONS = ['Standard', 'Slightly Aggressive', 'Aggressive', 'Non-Standard'];
+
+export const getReviewerName = (): string => {
+  try {
+    return localStorage.getItem(REVIEWER_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const setReviewerName = (name: string) => {
+  try {
+    localStorage.setItem(REVIEWER_STORAGE_KEY, name.trim());
+  } catch (err) {
+    console.error("Failed to persist reviewer name", err);
+  }
+};
+
+export const emptyReview = (): ClauseReview => ({ resolved: false, comments: [], events: [] });
+
+const requireReviewer = (reviewer: string) => {
+  const name = reviewer.trim();
+  if (!name) throw new Error("Enter your name as reviewer before recording a decision.");
+  return name;
+};
+
+const record = (review: ClauseReview, action: ReviewAction, reviewer: string, detail?: string): ClauseReview => ({
+  ...review,
+  events: [...review.events, { action, reviewer, at: new Date().toISOString(), detail }]
+});
+
+// A new decision reopens a resolved clause: the resolution was given for the previous decision.
+export const acceptClause = (review: ClauseReview, reviewer: string): ClauseReview => {
+  const name = requireReviewer(reviewer);
+  const at = new Date().toISOString();
+  return record({ ...review, decision: 'accepted', override: undefined, decidedBy: name, decidedAt: at, resolved: false, resolvedBy: undefined, resolvedAt: undefined }, 'accepted', name);
+};
+
+export const overrideClause = (review: ClauseReview, reviewer: string, override: ReviewOverride): ClauseReview => {
+  const name = requireReviewer(reviewer);
+  const justification = override.justification.trim();
+  if (!justification) throw new Error("An override needs a justification.");
+  const at = new Date().toISOString();
+  const detail = [override.deviation, override.playbookPosition].filter(Boolean).join(' / ');
+  return record(
+    { ...review, decision: 'overridden', override: { ...override, justification }, decidedBy: name, decidedAt: at, resolved: false, resolvedBy: undefined, resolvedAt: undefined },
+    'overridden',
+    name,
+    `${detail}: ${justification}`
+  );
+};
+
+export const commentOnClause = (review: ClauseReview, reviewer: string, text: string): ClauseReview => {
+  const name = requireReviewer(reviewer);
+  const body = text.trim();
+  if (!body) return review;
+  const at = new Date().toISOString();
+  const comment = { id: `cmt-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`, reviewer: name, at, text: body };
+  return record({ ...review, comments: [...review.comments, comment] }, 'commented', name);
+};
+
+export const resolveClause = (review: ClauseReview, reviewer: string): ClauseReview => {
+  const name = requireReviewer(reviewer);
+  if (!review.decision) throw new Error("Accept or override the assessment before resolving the clause.");
+  return record({ ...review, resolved: true, resolvedBy: name, resolvedAt: new Date().toISOString() }, 'resolved', name);
+};
+
+export const reopenClause = (review: ClauseReview, reviewer: string): ClauseReview => {
+  const name = requireReviewer(reviewer);
+  return record({ ...review, resolved: false, resolvedBy: undefined, resolvedAt: undefined }, 'reopened', name);
+};
+
+// Only clauses the model (or a post-processing check) flagged gate the deal sign-off.
+export const signOffStatus = (clauses: ClauseAnalysis[], reviews: Record<string, ClauseReview> = {}) => {
+  const flagged = clauses.filter(c => c.reviewRequired).map(c => c.name);
+  const outstanding = flagged.filter(name => !reviews[name]?.resolved);
+  return { flagged, outstanding, ready: outstanding.length === 0 };
+};
+
+// Stores a clause review and withdraws an existing deal sign-off that the change invalidates.
+export const withClauseReview = (
+  workspace: AuditWorkspace,
+  clauses: ClauseAnalysis[],
+  clauseName: string,
+  review: ClauseReview
+): Partial<AuditWorkspace> => {
+  const reviews = { ...(workspace.reviews || {}), [clauseName]: review };
+  const stillReady = signOffStatus(clauses, reviews).ready;
+  return { reviews, signOff: stillReady ? workspace.signOff : undefined };
+};
+
+export const decisionLabel = (review?: ClauseReview) => {
+  if (!review?.decision) return 'Pending';
+  const decision = review.decision === 'accepted' ? 'Accepted' : 'Overridden';
+  return review.resolved ? `${decision} • Resolved` : decision;
+};
@@ -0,0 +1,300 @@
+import { ClauseAnalysis, CrossCheck, CrossCheckField, DocumentOverview } from "../types";
+import { canonicalClauseKey } from "./analysisMerge";
+
+// Deterministic, explainable extraction of headline terms. Every value carries the passage it was
+// read from so a credit committee can verify it without trusting either the model or this module.
+
+interface Evidence {
+  snippet: string;
+  start: number;
+  end: number;
+}
+
+export interface MoneyAmount {
+  currency?: string;
+  value: number;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD', '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', 'C$': 'CAD', 'A$': 'AUD', 'S$': 'SGD', 'HK$': 'HKD'
+};
+
+const CURRENCY_NAMES: [RegExp, string][] = [
+  [/\b(us dollars?|u\.s\. dollars?|dollars?)\b/i, 'USD'],
+  [/\b(euros?)\b/i, 'EUR'],
+  [/\b(sterling|pounds?|gbp)\b/i, 'GBP'],
+  [/\b(yen)\b/i, 'JPY'],
+  [/\b(swiss francs?)\b/i, 'CHF']
+];
+
+const ISO_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'SGD', 'HKD', 'SEK', 'NOK', 'DKK', 'CNY', 'INR', 'ZAR'];
+
+const SCALE: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, mn: 1e6, million: 1e6, bn: 1e9, b: 1e9, billion: 1e9
+};
+
+const AMOUNT_PATTERN = new RegExp(
+  `(${ISO_CURRENCIES.join('|')}|US\\$|HK\\$|[CAS]\\$|[$€£¥])\\s?(\\d{1,3}(?:[,\\s]\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)\\s*(thousand|million|billion|mm|mn|bn|[kmb])?\\b`,
+  'gi'
+);
+
+const normalizeCurrency = (token: string) => {
+  const upper = token.toUpperCase();
+  return CURRENCY_SYMBOLS[upper] || CURRENCY_SYMBOLS[token] || upper;
+};
+
+const toAmount = (match: RegExpMatchArray): MoneyAmount => ({
+  currency: normalizeCurrency(match[1]),
+  value: parseFloat(match[2].replace(/[,\s]/g, '')) * (SCALE[(match[3] || '').toLowerCase()] || 1)
+});
+
+const evidenceAt = (text: string, start: number, end: number): Evidence => ({
+  snippet: text.slice(Math.max(0, start - 80), Math.min(text.length, end + 80)).replace(/\s+/g, ' ').trim(),
+  start,
+  end
+});
+
+export const parseAmount = (value: string): MoneyAmount | undefined => {
+  const match = [...value.matchAll(AMOUNT_PATTERN)][0];
+  if (match) return toAmount(match);
+  const bare = value.match(/(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)\s*(thousand|million|billion|mm|mn|bn|[kmb])?\b/i);
+  if (!bare) return undefined;
+  return {
+    currency: parseCurrency(value),
+    value: parseFloat(bare[1].replace(/,/g, '')) * (SCALE[(bare[2] || '').toLowerCase()] || 1)
+  };
+};
+
+export const parseCurrency = (value: string): string | undefined => {
+  const iso = value.toUpperCase().match(new RegExp(`\\b(${ISO_CURRENCIES.join('|')})\\b`));
+  if (iso) return iso[1];
+  const symbol = Object.keys(CURRENCY_SYMBOLS).sort((a, b) => b.length - a.length).find(s => value.includes(s));
+  if (symbol) return CURRENCY_SYMBOLS[symbol];
+  return CURRENCY_NAMES.find(([pattern]) => pattern.test(value))?.[1];
+};
+
+const COMMITMENT_CONTEXT = /(total commitments?|facility amount|aggregate (principal )?amount|commitments? (of|in the amount of)|principal amount|in an aggregate amount)/i;
+
+export const extractFacilityAmounts = (text: string): { amount: MoneyAmount; evidence: Evidence }[] => {
+  const all = [...text.matchAll(AMOUNT_PATTERN)].map(match => {
+    const start = match.index ?? 0;
+    return { amount: toAmount(match), evidence: evidenceAt(text, start, start + match[0].length) };
+  });
+  const nearCommitment = all.filter(a => COMMITMENT_CONTEXT.test(text.slice(Math.max(0, a.evidence.start - 200), a.evidence.start)));
+  const pool = nearCommitment.length > 0 ? nearCommitment : all;
+  return [...pool].sort((a, b) => b.amount.value - a.amount.value);
+};
+
+export const extractCurrencies = (text: string): { code: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  for (const match of text.matchAll(new RegExp(`\\b(${ISO_CURRENCIES.join('|')})\\b`, 'g'))) {
+    counts.set(match[1], (counts.get(match[1]) || 0) + 1);
+  }
+  return Array.from(counts.entries()).map(([code, count]) => ({ code, count })).sort((a, b) => b.count - a.count);
+};
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_NAMES = MONTHS.join('|');
+const DATE_PATTERN = new RegExp(
+  `(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_NAMES})\\s*,?\\s+(\\d{4})|(${MONTH_NAMES})\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})|(\\d{4})-(\\d{2})-(\\d{2})`,
+  'gi'
+);
+
+const iso = (year: string, month: number, day: string) =>
+  `${year}-${String(month).padStart(2, '0')}-${day.padStart(2, '0')}`;
+
+export const parseDates = (value: string): string[] =>
+  [...value.matchAll(DATE_PATTERN)].map(m => {
+    if (m[1]) return iso(m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, m[1]);
+    if (m[4]) return iso(m[6], MONTHS.indexOf(m[4].toLowerCase()) + 1, m[5]);
+    return `${m[7]}-${m[8]}-${m[9]}`;
+  });
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12, fifteen: 15, eighteen: 18, twenty: 20, thirty: 30, sixty: 60
+};
+
+// Returns a tenor in months from phrases such as "five years", "60 months" or "5-year".
+export const parseTenorMonths = (value: string): number | undefined => {
+  const match = value.match(/\b(\d+|one|two|three|four|five|six|seven|eight|nine|ten|twelve|fifteen|eighteen|twenty|thirty|sixty)\s*(?:\(\d+\)\s*)?-?\s*(years?|months?)\b/i);
+  if (!match) return undefined;
+  const n = NUMBER_WORDS[match[1].toLowerCase()] ?? parseInt(match[1], 10);
+  return /year/i.test(match[2]) ? n * 12 : n;
+};
+
+const MATURITY_DEFINITION = /["“]?(Termination Date|Final Maturity Date|Maturity Date|Final Repayment Date)["”]?\s+means\s+([^\n]{0,300})/gi;
+
+export const extractMaturity = (text: string): { dates: string[]; tenorMonths?: number; evidence: Evidence } | undefined => {
+  const match = [...text.matchAll(MATURITY_DEFINITION)][0];
+  if (!match) return undefined;
+  const start = match.index ?? 0;
+  const definition = match[2].split(/(?<=\.)\s/)[0];
+  return {
+    dates: parseDates(definition),
+    tenorMonths: parseTenorMonths(definition),
+    evidence: evidenceAt(text, start, start + match[0].length)
+  };
+};
+
+const JURISDICTIONS: [RegExp, string][] = [
+  [/\b(england and wales|english|england)\b/i, 'England and Wales'],
+  [/\bnew york\b/i, 'New York'],
+  [/\bdelaware\b/i, 'Delaware'],
+  [/\bcalifornia\b/i, 'California'],
+  [/\b(scots|scotland|scottish)\b/i, 'Scotland'],
+  [/\b(irish|ireland)\b/i, 'Ireland'],
+  [/\b(german|germany)\b/i, 'Germany'],
+  [/\b(french|france)\b/i, 'France'],
+  [/\b(dutch|netherlands)\b/i, 'Netherlands'],
+  [/\bluxembourg\b/i, 'Luxembourg'],
+  [/\b(swiss|switzerland)\b/i, 'Switzerland'],
+  [/\bsingapore\b/i, 'Singapore'],
+  [/\bhong kong\b/i, 'Hong Kong']
+];
+
+export const normalizeJurisdiction = (value: string) => JURISDICTIONS.find(([pattern]) => pattern.test(value))?.[1];
+
+export const extractGoverningLaw = (text: string): { jurisdiction: string; evidence: Evidence } | undefined => {
+  for (const match of text.matchAll(/governed by[^.]{0,160}/gi)) {
+    const jurisdiction = normalizeJurisdiction(match[0]);
+    if (jurisdiction && /\blaws?\b/i.test(match[0])) {
+      const start = match.index ?? 0;
+      return { jurisdiction, evidence: evidenceAt(text, start, start + match[0].length) };
+    }
+  }
+  return undefined;
+};
+
+const PERCENT_PATTERN = /(\d+(?:\.\d+)?)\s*(?:per cent\.?|percent|%)|(\d+)\s*(?:bps|basis points)/gi;
+
+const parsePercents = (value: string) =>
+  [...value.matchAll(PERCENT_PATTERN)].map(m => (m[1] ? parseFloat(m[1]) : parseInt(m[2], 10) / 100));
+
+export const extractMargins = (text: string): { margins: number[]; evidence: Evidence } | undefined => {
+  const match = [...text.matchAll(/["“]?Margin["”]?\s+means\s+([^\n]{0,400})/gi)][0];
+  if (!match) return undefined;
+  const start = match.index ?? 0;
+  const margins = parsePercents(match[1]);
+  return margins.length ? { margins, evidence: evidenceAt(text, start, start + match[0].length) } : undefined;
+};
+
+const formatAmount = (amount: MoneyAmount) =>
+  `${amount.currency ? `${amount.currency} ` : ''}${amount.value.toLocaleString('en-GB')}`;
+
+const sameAmount = (a: MoneyAmount, b: MoneyAmount) =>
+  (!a.currency || !b.currency || a.currency === b.currency) && Math.abs(a.value - b.value) <= Math.max(a.value, b.value) * 0.005;
+
+// Which clauses lose confidence when a headline value is disputed, by canonical clause name.
+// Names must match exactly: a substring test would let "interest" pull in Default Interest.
+const AFFECTED_CLAUSE: Record<CrossCheckField, string[]> = {
+  amount: ['facility amount', 'facility', 'commitments', 'commitment', 'total commitments'],
+  currency: ['facility amount', 'facility', 'currency'],
+  maturity: ['repayment', 'repayment loans', 'maturity', 'final maturity', 'termination date'],
+  law: ['governing law', 'governing law jurisdiction', 'law'],
+  margin: ['interest rate margin', 'interest margin', 'margin', 'applicable margin', 'interest rate']
+};
+
+export const DISCREPANCY_PENALTY = 15;
+
+export const crossCheckOverview = (text: string, overview: DocumentOverview, clauses: ClauseAnalysis[]): CrossCheck[] => {
+  const checks: CrossCheck[] = [];
+
+  const modelAmount = parseAmount(overview.amount);
+  const amounts = extractFacilityAmounts(text);
+  if (modelAmount && amounts.length > 0) {
+    const found = amounts.find(a => sameAmount(a.amount, modelAmount));
+    const shown = found || amounts[0];
+    checks.push({
+      field: 'amount',
+      modelValue: overview.amount,
+      ruleValue: formatAmount(shown.amount),
+      status: found ? 'match' : 'discrepancy',
+      evidence: shown.evidence.snippet,
+      evidenceStart: shown.evidence.start
+    });
+  } else {
+    checks.push({ field: 'amount', modelValue: overview.amount, status: 'unverifiable' });
+  }
+
+  const modelCurrency = parseCurrency(overview.currency) || parseCurrency(overview.amount);
+  const currencies = extractCurrencies(text);
+  const primaryCurrency = amounts[0]?.amount.currency || currencies[0]?.code;
+  if (modelCurrency && primaryCurrency) {
+    checks.push({
+      field: 'currency',
+      modelValue: overview.currency,
+      ruleValue: primaryCurrency,
+      status: modelCurrency === primaryCurrency || currencies.some(c => c.code === modelCurrency && c.count >= (currencies[0]?.count || 0)) ? 'match' : 'discrepancy',
+      evidence: amounts[0]?.evidence.snippet
+    });
+  } else {
+    checks.push({ field: 'currency', modelValue: overview.currency, status: 'unverifiable' });
+  }
+
+  const maturity = extractMaturity(text);
+  const modelDates = parseDates(overview.maturity);
+  const modelTenor = parseTenorMonths(overview.maturity);
+  if (maturity && maturity.dates.length > 0 && modelDates.length > 0) {
+    checks.push({
+      field: 'maturity',
+      modelValue: overview.maturity,
+      ruleValue: maturity.dates[0],
+      status: modelDates.some(d => maturity.dates.includes(d)) ? 'match' : 'discrepancy',
+      evidence: maturity.evidence.snippet,
+      evidenceStart: maturity.evidence.start
+    });
+  } else if (maturity?.tenorMonths && modelTenor) {
+    checks.push({
+      field: 'maturity',
+      modelValue: overview.maturity,
+      ruleValue: `${maturity.tenorMonths} months`,
+      status: maturity.tenorMonths === modelTenor ? 'match' : 'discrepancy',
+      evidence: maturity.evidence.snippet,
+      evidenceStart: maturity.evidence.start
+    });
+  } else {
+    checks.push({ field: 'maturity', modelValue: overview.maturity, status: 'unverifiable', evidence: maturity?.evidence.snippet });
+  }
+
+  const law = extractGoverningLaw(text);
+  const modelLaw = normalizeJurisdiction(overview.law);
+  checks.push(law && modelLaw ? {
+    field: 'law',
+    modelValue: overview.law,
+    ruleValue: law.jurisdiction,
+    status: law.jurisdiction === modelLaw ? 'match' : 'discrepancy',
+    evidence: law.evidence.snippet,
+    evidenceStart: law.evidence.start
+  } : { field: 'law', modelValue: overview.law, ruleValue: law?.jurisdiction, status: 'unverifiable', evidence: law?.evidence.snippet });
+
+  const margins = extractMargins(text);
+  const marginClause = clauses.find(c => AFFECTED_CLAUSE.margin.includes(canonicalClauseKey(c.name)));
+  const modelMargins = marginClause ? parsePercents(marginClause.summary) : [];
+  if (margins && modelMargins.length > 0) {
+    checks.push({
+      field: 'margin',
+      modelValue: modelMargins.map(m => `${m}%`).join(', '),
+      ruleValue: margins.margins.map(m => `${m}%`).join(', '),
+      status: modelMargins.some(m => margins.margins.includes(m)) ? 'match' : 'discrepancy',
+      evidence: margins.evidence.snippet,
+      evidenceStart: margins.evidence.start
+    });
+  } else if (margins) {
+    checks.push({ field: 'margin', modelValue: 'Not stated', ruleValue: margins.margins.map(m => `${m}%`).join(', '), status: 'unverifiable', evidence: margins.evidence.snippet });
+  }
+
+  return checks;
+};
+
+export const applyCrossChecks = (clauses: ClauseAnalysis[], checks: CrossCheck[]): ClauseAnalysis[] =>
+  clauses.map(clause => {
+    const key = canonicalClauseKey(clause.name);
+    const disputed = checks.filter(c => c.status === 'discrepancy' && AFFECTED_CLAUSE[c.field].includes(key));
+    if (disputed.length === 0) return clause;
+    return {
+      ...clause,
+      confidenceScore: Math.max(0, clause.confidenceScore - DISCREPANCY_PENALTY * disputed.length),
+      reviewRequired: true,
+      reason: `${clause.reason} Rule-based cross-check disagrees on ${disputed.map(c => `${c.field} (model: ${c.modelValue}; source: ${c.ruleValue})`).join(', ')}.`
+    };
+  });
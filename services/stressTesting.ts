@@ -0,0 +1,134 @@
+import { FinancialCovenant, FinancialPeriod, StressBaseline, StressScenario, StressTestSetup } from "../types";
+import { calculateHeadroom, covenantTestDates, thresholdOn, todayIso } from "./covenantModel";
+import { NEAR_BREACH_PCT, computeRatio } from "./complianceTesting";
+
+export type StressDriver = 'ebitda' | 'netDebt' | 'rates';
+
+export const DRIVER_LABELS: Record<StressDriver, string> = {
+  ebitda: 'EBITDA Fall',
+  netDebt: 'Debt Increase',
+  rates: 'Rate Rise'
+};
+
+// Search ranges for the breakpoint solver: EBITDA stops just short of zero so leverage stays
+// computable; debt and rates are capped at levels beyond which a breakpoint is meaningless.
+const DRIVER_RANGE: Record<StressDriver, number> = { ebitda: 99.9, netDebt: 1000, rates: 5000 };
+const SOLVER_ITERATIONS = 60;
+
+export const DEFAULT_HORIZON = 4;
+
+export const DEFAULT_SCENARIOS: StressScenario[] = [
+  { id: 'base', name: 'Base', ebitdaShockPct: 0, debtShockPct: 0, rateShockBps: 0 },
+  { id: 'downside', name: 'Downside', ebitdaShockPct: -15, debtShockPct: 5, rateShockBps: 100 },
+  { id: 'severe', name: 'Severe', ebitdaShockPct: -35, debtShockPct: 10, rateShockBps: 300 }
+];
+
+export const defaultStressSetup = (latest?: FinancialPeriod): StressTestSetup => ({
+  baseline: {
+    ebitda: latest?.values.ebitda ?? 0,
+    netDebt: latest?.values.netDebt ?? latest?.values.totalDebt ?? 0,
+    interest: Math.abs(latest?.values.interest ?? 0),
+    floatingSharePct: 100,
+    asOf: latest?.periodEnd
+  },
+  scenarios: DEFAULT_SCENARIOS,
+  horizon: DEFAULT_HORIZON
+});
+
+// Extra interest from a rate move applies to the floating share of the (shocked) debt.
+const stressedValues = (baseline: StressBaseline, ebitdaPct: number, debtPct: number, rateBps: number): FinancialPeriod['values'] => {
+  const netDebt = baseline.netDebt * (1 + debtPct / 100);
+  const debtScale = baseline.netDebt !== 0 ? netDebt / baseline.netDebt : 1;
+  const interest = baseline.interest * debtScale + netDebt * (baseline.floatingSharePct / 100) * (rateBps / 10000);
+  return {
+    ebitda: baseline.ebitda * (1 + ebitdaPct / 100),
+    netDebt,
+    totalDebt: netDebt,
+    interest
+  };
+};
+
+// The next `horizon` test dates from today, or today alone for covenants without a schedule.
+export const projectedTestDates = (covenant: FinancialCovenant, horizon: number, today = todayIso()) => {
+  const upcoming = covenantTestDates(covenant, today).filter(d => d >= today).slice(0, horizon);
+  return upcoming.length > 0 ? upcoming : [today];
+};
+
+export interface ProjectedTest {
+  date: string;
+  threshold: number;
+  actual?: number;
+  headroomPct?: number;
+  status: 'compliant' | 'near-breach' | 'breach' | 'not-computable';
+}
+
+// Shocks build linearly so the full scenario applies at the last projected test date.
+export const projectScenario = (
+  covenant: FinancialCovenant,
+  baseline: StressBaseline,
+  scenario: StressScenario,
+  dates: string[]
+): ProjectedTest[] =>
+  dates.map((date, i) => {
+    const phase = (i + 1) / dates.length;
+    const values = stressedValues(baseline, scenario.ebitdaShockPct * phase, scenario.debtShockPct * phase, scenario.rateShockBps * phase);
+    const threshold = thresholdOn(covenant, date);
+    const { actual, breach } = computeRatio(covenant, values);
+    if (actual === undefined) return { date, threshold, status: breach ? 'breach' : 'not-computable' };
+    const { percentage, isCompliant } = calculateHeadroom(covenant.direction, threshold, actual);
+    return {
+      date,
+      threshold,
+      actual,
+      headroomPct: percentage,
+      status: !isCompliant ? 'breach' : percentage < NEAR_BREACH_PCT ? 'near-breach' : 'compliant'
+    };
+  });
+
+const shockFor = (driver: StressDriver, size: number): [number, number, number] =>
+  driver === 'ebitda' ? [-size, 0, 0] : driver === 'netDebt' ? [0, size, 0] : [0, 0, size];
+
+// Bisection on the size of a single-driver shock for the point where headroom reaches zero.
+// Returns 0 when already in breach and undefined when the covenant does not depend on the
+// driver or holds across the whole search range.
+export const solveBreakpoint = (
+  covenant: FinancialCovenant,
+  baseline: StressBaseline,
+  driver: StressDriver,
+  threshold: number
+): number | undefined => {
+  const headroomAt = (size: number) => {
+    const { actual, breach } = computeRatio(covenant, stressedValues(baseline, ...shockFor(driver, size)));
+    if (actual === undefined) return breach ? -Infinity : undefined;
+    return calculateHeadroom(covenant.direction, threshold, actual).headroom;
+  };
+  const start = headroomAt(0);
+  if (start === undefined) return undefined;
+  if (start < 0) return 0;
+  const end = headroomAt(DRIVER_RANGE[driver]);
+  if (end === undefined || end >= 0) return undefined;
+
+  let low = 0;
+  let high = DRIVER_RANGE[driver];
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const headroom = headroomAt(mid);
+    if (headroom !== undefined && headroom >= 0) low = mid;
+    else high = mid;
+  }
+  return high;
+};
+
+// The binding breakpoint is the smallest shock that breaches on any projected test date, which
+// matters when thresholds step down over the horizon.
+export const bindingBreakpoint = (covenant: FinancialCovenant, baseline: StressBaseline, driver: StressDriver, dates: string[]) => {
+  let binding: { size: number; date: string } | undefined;
+  for (const date of dates) {
+    const size = solveBreakpoint(covenant, baseline, driver, thresholdOn(covenant, date));
+    if (size !== undefined && (!binding || size < binding.size)) binding = { size, date };
+  }
+  return binding;
+};
+
+export const formatBreakpoint = (driver: StressDriver, size: number) =>
+  driver === 'rates' ? `+${Math.round(size)} bps` : `${driver === 'ebitda' ? '−' : '+'}${size.toFixed(1)}%`;
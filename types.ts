@@ -5,14 +5,211 @@ export interface ClauseAnalysis {
   confidenceScore: number;
   reviewRequired: boolean;
   reason: string;
+  pageReference?: number;
+  ocrConfidence?: number;
+  provenance?: ClauseProvenance[];
+  citation?: ClauseCitation;
   lmaComparison?: {
     standardBenchmark: string;
     deviations: string;
     rationale?: string;
     impact: string;
+    playbookPosition?: PlaybookPosition;
+    playbook?: PlaybookReference;
   };
 }
 
+export interface ClauseCitation {
+  status: 'verified' | 'approximate' | 'unverified';
+  matchScore: number;
+  start?: number;
+  end?: number;
+  clauseNumber?: string;
+  pageReference?: number;
+}
+
+export interface ClauseProvenance {
+  chunkIndex: number;
+  heading?: string;
+  pageReference?: number;
+}
+
+export type PlaybookPosition = 'Preferred' | 'Fallback' | 'Walk-Away' | 'Outside Playbook' | 'Not Covered';
+
+// One clause of an institution's negotiation playbook, from best case to the point of refusal.
+export interface PlaybookClause {
+  name: string;
+  aliases?: string[];
+  preferred: string;
+  fallback: string;
+  walkAway: string;
+  guidance?: string;
+}
+
+export interface Playbook {
+  id: string;
+  name: string;
+  version: string;
+  owner?: string;
+  updatedAt: string;
+  clauses: PlaybookClause[];
+  readinessWeights?: ReadinessWeights;
+}
+
+export interface PlaybookReference {
+  id: string;
+  name: string;
+  version: string;
+}
+
+export type CovenantRatioType =
+  | 'leverage'
+  | 'interestCover'
+  | 'debtServiceCover'
+  | 'cashflowCover'
+  | 'loanToValue'
+  | 'gearing'
+  | 'netWorth'
+  | 'liquidity'
+  | 'capex'
+  | 'other';
+
+export type TestFrequency = 'monthly' | 'quarterly' | 'semi-annual' | 'annual';
+
+// A threshold that applies to test dates falling within [periodStart, periodEnd].
+export interface CovenantStep {
+  periodStart: string;
+  periodEnd?: string;
+  threshold: number;
+}
+
+export interface FinancialCovenant {
+  name: string;
+  ratioType: CovenantRatioType;
+  numerator: string;
+  denominator?: string;
+  direction: 'max' | 'min';
+  threshold: number;
+  unit: 'x' | '%' | 'amount';
+  testFrequency?: TestFrequency;
+  testDates: string[];
+  steps: CovenantStep[];
+  sourceText?: string;
+  pageReference?: number;
+}
+
+export type FinancialMetric =
+  | 'ebitda'
+  | 'netDebt'
+  | 'totalDebt'
+  | 'interest'
+  | 'debtService'
+  | 'cashflow'
+  | 'assetValue'
+  | 'netWorth'
+  | 'equity'
+  | 'liquidity'
+  | 'capex';
+
+export interface FinancialPeriod {
+  periodEnd: string;
+  label: string;
+  values: Partial<Record<FinancialMetric, number>>;
+}
+
+export interface CovenantTest {
+  covenantName: string;
+  periodEnd: string;
+  status: 'compliant' | 'near-breach' | 'breach' | 'not-computable';
+  threshold: number;
+  actual?: number;
+  headroom?: number;
+  headroomPct?: number;
+  missing?: FinancialMetric[];
+  // Why no ratio was computed when the inputs were present, e.g. zero or negative EBITDA.
+  note?: string;
+}
+
+export type RateBenchmark = 'SOFR' | 'SONIA' | 'EURIBOR' | 'ESTR' | 'Fixed' | 'Other';
+
+export type DayCountBasis = 'ACT/360' | 'ACT/365' | '30/360';
+
+export type AmortisationProfile = 'bullet' | 'straight-line' | 'scheduled' | 'balloon';
+
+// An instalment is stated either as an amount or as a percentage of the original principal.
+export interface RepaymentInstalment {
+  date: string;
+  amount?: number;
+  percentage?: number;
+}
+
+export interface FacilityTerms {
+  principal?: number;
+  currency?: string;
+  drawdownDate?: string;
+  maturityDate?: string;
+  benchmark: RateBenchmark;
+  marginBps?: number;
+  fixedRatePct?: number;
+  floorPct?: number;
+  dayCount?: DayCountBasis;
+  interestPeriodMonths?: number;
+  amortisation: AmortisationProfile;
+  instalments: RepaymentInstalment[];
+  balloonAmount?: number;
+  reviewItems: string[];
+  sourceText?: string;
+  pageReference?: number;
+}
+
+export type ObligationCategory =
+  | 'financial-statements'
+  | 'compliance-certificate'
+  | 'interest-payment'
+  | 'repayment'
+  | 'commitment-expiry'
+  | 'maturity'
+  | 'notice'
+  | 'other';
+
+export interface ObligationRecurrence {
+  frequency: TestFrequency;
+  until?: string;
+}
+
+// A dated undertaking. `dueDate` is the one-off date, or the first occurrence of a recurring
+// obligation; obligations tied to events rather than dates carry only `dueRule`.
+export interface Obligation {
+  title: string;
+  category: ObligationCategory;
+  responsibleParty: string;
+  dueRule: string;
+  dueDate?: string;
+  recurrence?: ObligationRecurrence;
+  clauseName?: string;
+  sourceText?: string;
+  citation?: ClauseCitation;
+  pageReference?: number;
+}
+
+export interface RateCurvePoint {
+  date: string;
+  ratePct: number;
+}
+
+export interface ScheduleRow {
+  periodStart: string;
+  periodEnd: string;
+  days: number;
+  openingBalance: number;
+  benchmarkPct: number;
+  allInRatePct: number;
+  interest: number;
+  principal: number;
+  payment: number;
+  closingBalance: number;
+}
+
 export interface DocumentOverview {
   facilityType: string;
   borrowerLender: string;
@@ -22,6 +219,17 @@ export interface DocumentOverview {
   law: string;
 }
 
+export type CrossCheckField = 'amount' | 'currency' | 'maturity' | 'law' | 'margin';
+
+export interface CrossCheck {
+  field: CrossCheckField;
+  modelValue: string;
+  ruleValue?: string;
+  status: 'match' | 'discrepancy' | 'unverifiable';
+  evidence?: string;
+  evidenceStart?: number;
+}
+
 export interface RiskAssessment {
   overallRating: 'Low' | 'Medium' | 'High';
   summary: string;
@@ -34,6 +242,19 @@ export interface CommercialSummary {
   nextActions: string[];
 }
 
+export type ReadinessDimensionKey = 'completeness' | 'legalRisk' | 'marketAlignment' | 'operationalComplexity';
+
+export type ReadinessWeights = Record<ReadinessDimensionKey, number>;
+
+// A sub-score computed from clause-level findings; higher is always better.
+export interface ReadinessDimension {
+  key: ReadinessDimensionKey;
+  label: string;
+  score: number;
+  weight: number;
+  evidence: string[];
+}
+
 export interface DealReadiness {
   score: number;
   status: string;
@@ -41,6 +262,22 @@ export interface DealReadiness {
   driversNegative: string[];
   keyIssues: string[];
   recommendedActions: string[];
+  dimensions?: ReadinessDimension[];
+  modelScore?: number;
+}
+
+export interface AnalysisValidation {
+  status: 'complete' | 'partial';
+  issues: string[];
+  repairAttempts: number;
+}
+
+export interface SourceChunk {
+  index: number;
+  headings: string[];
+  startOffset: number;
+  endOffset: number;
+  firstPage?: number;
 }
 
 export interface AnalysisResult {
@@ -49,7 +286,245 @@ export interface AnalysisResult {
   riskAssessment: RiskAssessment;
   commercialSummary: CommercialSummary;
   dealReadiness: DealReadiness;
+  validation?: AnalysisValidation;
+  crossChecks?: CrossCheck[];
+  covenants?: FinancialCovenant[];
+  facilityTerms?: FacilityTerms;
+  obligations?: Obligation[];
+  sourceChunks?: SourceChunk[];
+  playbook?: PlaybookReference;
   rawText?: string;
+  // Number of distinct confidential values replaced by tokens before the model call.
+  redactedValues?: number;
+}
+
+export type RedactionKind = 'party' | 'person' | 'account' | 'address' | 'contact' | 'custom';
+
+export interface RedactedEntity {
+  token: string;
+  value: string;
+  kind: RedactionKind;
+  occurrences: number;
+}
+
+// Pseudonymisation of one document. Tokens are numbered by first appearance, so the same text
+// and settings always produce the same tokens.
+export interface Redaction {
+  entities: RedactedEntity[];
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  kinds: Record<RedactionKind, boolean>;
+  customTerms: string[];
+  // Detected values the analyst has marked as safe to send.
+  ignored: string[];
+}
+
+export interface SourcePage {
+  pageNumber: number;
+  text: string;
+  headings: string[];
+  ocrConfidence?: number;
+}
+
+export interface ParsedDocument {
+  fileName: string;
+  format: 'pdf' | 'docx' | 'image' | 'text';
+  text: string;
+  pages: SourcePage[];
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface ClauseComparison {
+  name: string;
+  status: 'changed' | 'unchanged' | 'added' | 'removed';
+  previous?: ClauseAnalysis;
+  current?: ClauseAnalysis;
+  redline: DiffSegment[];
+  // 'provision' diffs the cited agreement wording; 'summary' falls back to the model's summaries
+  // when a provision was not located, and must be labelled as such wherever it is shown.
+  redlineSource: 'provision' | 'summary';
+  confidenceDelta: number;
+  reviewChange: 'newly_flagged' | 'cleared' | 'unchanged';
+}
+
+export interface ListDelta {
+  added: string[];
+  removed: string[];
+}
+
+export interface DraftComparison {
+  previousLabel: string;
+  currentLabel: string;
+  previous: AnalysisResult;
+  current: AnalysisResult;
+  clauses: ClauseComparison[];
+  readinessDelta: number;
+  driversPositive: ListDelta;
+  driversNegative: ListDelta;
+  keyIssues: ListDelta;
+}
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  ebitdaShockPct: number;
+  debtShockPct: number;
+  rateShockBps: number;
+}
+
+export interface StressBaseline {
+  ebitda: number;
+  netDebt: number;
+  interest: number;
+  floatingSharePct: number;
+  asOf?: string;
+}
+
+// Values typed into the covenant slack calculator. Limit and actual stay as typed text.
+export interface CovenantInput {
+  testDate?: string;
+  // Overrides the scheduled threshold, e.g. after a waiver or reset.
+  limit?: string;
+  actual: string;
+}
+
+export interface StressTestSetup {
+  baseline: StressBaseline;
+  scenarios: StressScenario[];
+  horizon: number;
+}
+
+export interface ChatCitation {
+  quote: string;
+  status: ClauseCitation['status'];
+  clauseName?: string;
+  clauseNumber?: string;
+  pageReference?: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'analyst' | 'assistant';
+  text: string;
+  createdAt: string;
+  // False when the agreement does not answer the question and the assistant declined.
+  answered?: boolean;
+  citations?: ChatCitation[];
+  clauseName?: string;
+}
+
+export interface ClauseNote {
+  id: string;
+  text: string;
+  createdAt: string;
+  source: 'chat' | 'analyst';
+  citations?: ChatCitation[];
+  // The chat answer the note was created from.
+  messageId?: string;
+}
+
+export type ReviewAction = 'accepted' | 'overridden' | 'commented' | 'resolved' | 'reopened';
+
+export interface ReviewEvent {
+  action: ReviewAction;
+  reviewer: string;
+  at: string;
+  detail?: string;
+}
+
+export interface ReviewComment {
+  id: string;
+  reviewer: string;
+  at: string;
+  text: string;
+}
+
+// The reviewer's classification where it differs from the model's.
+export interface ReviewOverride {
+  deviation: string;
+  playbookPosition?: PlaybookPosition;
+  justification: string;
+}
+
+export interface ClauseReview {
+  decision?: 'accepted' | 'overridden';
+  override?: ReviewOverride;
+  decidedBy?: string;
+  decidedAt?: string;
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  comments: ReviewComment[];
+  events: ReviewEvent[];
+}
+
+export interface DealSignOff {
+  reviewer: string;
+  at: string;
+}
+
+export interface MarketBrief {
+  // The search the brief answers; absent in audit files written before queries were recorded.
+  query?: string;
+  summary: string;
+  sources: { title: string; uri: string }[];
+  fetchedAt: string;
+}
+
+// Analyst work layered on top of a model result; kept when the same document is re-audited.
+export interface AuditWorkspace {
+  // Periods entered for covenant compliance testing.
+  financials?: FinancialPeriod[];
+  // Keyed by FinancialCovenant.name.
+  covenantInputs?: Record<string, CovenantInput>;
+  marketBrief?: MarketBrief;
+  // Briefs kept with the audit so the report can cite them later.
+  pinnedBriefs?: MarketBrief[];
+  stressTest?: StressTestSetup;
+  rateCurve?: RateCurvePoint[];
+  chat?: ChatMessage[];
+  // Keyed by ClauseAnalysis.name.
+  clauseNotes?: Record<string, ClauseNote[]>;
+  // Keyed by ClauseAnalysis.name.
+  reviews?: Record<string, ClauseReview>;
+  signOff?: DealSignOff;
+}
+
+export interface SavedAudit {
+  id: string;
+  title: string;
+  fileName: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+  sourceText: string;
+  result: AnalysisResult;
+  workspace?: AuditWorkspace;
+}
+
+export type BatchStatus = 'queued' | 'parsing' | 'analysing' | 'done' | 'failed';
+
+// A portfolio document waiting for or going through analysis. The file itself is stored so the
+// queue survives a reload.
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  file: Blob;
+  size: number;
+  playbookId: string;
+  status: BatchStatus;
+  stage?: string;
+  error?: string;
+  attempts: number;
+  auditId?: string;
+  addedAt: string;
+  updatedAt: string;
 }
 
 export enum RiskLevel {
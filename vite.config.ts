@@ -1,6 +1,52 @@
+import { readFileSync } from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createBackendHandler, readBackendConfig } from './server/backend';
+
+// Mounts the /api backend in the dev and preview servers, so `npm run dev` needs no second process.
+const backendPlugin = (env: Record<string, string>): Plugin => {
+  const handler = () => createBackendHandler(readBackendConfig(env));
+  return {
+    name: 'loandoc-backend',
+    configureServer(server) {
+      server.middlewares.use(handler());
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handler());
+    }
+  };
+};
+
+// OCR runs from the app's own origin: scanned pages and the language model never touch a CDN.
+// The dev server reads these from node_modules and the build copies them into dist.
+const OCR_ASSETS: Record<string, string> = {
+  'ocr/tesseract.min.js': 'tesseract.js/dist/tesseract.min.js',
+  'ocr/worker.min.js': 'tesseract.js/dist/worker.min.js',
+  // The LSTM engine loads one of these, depending on whether the browser supports SIMD.
+  'ocr/core/tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'ocr/core/tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'ocr/lang/eng.traineddata.gz': '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz'
+};
+
+const readOcrAsset = (source: string) => readFileSync(path.resolve(__dirname, 'node_modules', source));
+
+const ocrAssetsPlugin = (): Plugin => ({
+  name: 'loandoc-ocr-assets',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const source = OCR_ASSETS[(req.url || '').split('?')[0].slice(1)];
+      if (!source) return next();
+      res.setHeader('Content-Type', source.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+      res.end(readOcrAsset(source));
+    });
+  },
+  generateBundle() {
+    for (const [fileName, source] of Object.entries(OCR_ASSETS)) {
+      this.emitFile({ type: 'asset', fileName, source: readOcrAsset(source) });
+    }
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +55,13 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), backendPlugin(env), ocrAssetsPlugin()],
+      // Model credentials stay in the backend; the browser only learns which provider path to use.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER === 'replay' ? 'replay' : 'backend'),
+        'process.env.MODEL_BACKEND_URL': JSON.stringify(env.MODEL_BACKEND_URL),
+        'process.env.REPLAY_FIXTURE': JSON.stringify(env.REPLAY_FIXTURE),
+        'process.env.MODEL_RECORD': JSON.stringify(env.MODEL_RECORD)
       },
       resolve: {
         alias: {